@@ -15,6 +15,9 @@ export type {
 } from './repeating-sequences.js';
 export { analyzeRepeatingSequences, tokenizeContent } from './repeating-sequences.js';
 
+export type { RunningHeaderOptions, RunningHeaderPattern, RunningHeaderPosition } from './running-headers.js';
+export { analyzeRunningHeaders } from './running-headers.js';
+
 export type {
     BreakpointSuggestion,
     PreprocessDetections,
@@ -225,6 +225,17 @@ describe('analyzeCommonLineStarts', () => {
         ]);
     });
 
+    it('should tokenize Persian digits as {{anyNums}}', () => {
+        const pages: Page[] = [{ content: ['۱۲ - حدثنا', '۱۳ - حدثنا', '١٤ - حدثنا'].join('\n'), id: 1 }];
+
+        const result = analyzeCommonLineStarts(pages, { minCount: 1, sortBy: 'count', topK: 5 });
+
+        expect(result.map((r) => [r.pattern, r.count])).toEqual([
+            ['{{anyNums}}\\s*{{dash}}\\s*{{naql}}', 2],
+            ['{{numbered}}{{naql}}', 1],
+        ]);
+    });
+
     it('should allow callers to prefer literal spaces instead of \\\\s* in patterns', () => {
         const pages: Page[] = [
             {
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'bun:test';
+import type { Page } from '@/types/index.js';
+import { analyzeRunningHeaders } from './running-headers.js';
+
+const createPages = (count: number, header = 'كتاب الطهارة'): Page[] =>
+    Array.from({ length: count }, (_, i) => ({
+        content: `${header}\nقال رحمه الله في الصفحة ${i + 1}\n- ${(i + 1).toLocaleString('ar-EG')} -`,
+        id: i + 1,
+    }));
+
+describe('analyzeRunningHeaders', () => {
+    it('should find repeated first and last lines with page numbers as tokens', () => {
+        const result = analyzeRunningHeaders(createPages(4), { maxExamples: 1 });
+
+        expect(result).toEqual([
+            {
+                count: 4,
+                examples: [{ line: '- ١ -', pageId: 1 }],
+                frequency: 1,
+                pattern: '-\\s+{{raqms}}\\s+-',
+                position: 'bottom',
+            },
+            {
+                count: 4,
+                examples: [{ line: 'كتاب الطهارة', pageId: 1 }],
+                frequency: 1,
+                pattern: 'كتاب\\s+الطهارة',
+                position: 'top',
+            },
+        ]);
+    });
+
+    it('should template ASCII and Persian digits and escape regex characters', () => {
+        const pages = ['ص 12 (الأم)', 'ص 13 (الأم)', 'ص ۱۴ (الأم)', 'ص ۱۵ (الأم)'].map((line, i) => ({
+            content: `${line}\nنص`,
+            id: i + 1,
+        }));
+
+        const tops = analyzeRunningHeaders(pages, { minCount: 2 }).filter((p) => p.position === 'top');
+
+        expect(tops.map((p) => p.pattern)).toEqual(['ص\\s+{{anyNums}}\\s+\\(الأم\\)', 'ص\\s+{{nums}}\\s+\\(الأم\\)']);
+    });
+
+    it('should apply minCount, minFrequency and maxLineLength', () => {
+        const pages = [...createPages(3), ...createPages(7, 'باب المياه').map((p) => ({ ...p, id: p.id + 3 }))];
+
+        const tops = (options: Parameters<typeof analyzeRunningHeaders>[1]) =>
+            analyzeRunningHeaders(pages, options)
+                .filter((p) => p.position === 'top')
+                .map((p) => p.pattern);
+
+        expect(tops({})).toEqual(['باب\\s+المياه', 'كتاب\\s+الطهارة']);
+        expect(tops({ minFrequency: 0.5 })).toEqual(['باب\\s+المياه']);
+        expect(tops({ minCount: 4, minFrequency: 0 })).toEqual(['باب\\s+المياه']);
+        expect(tops({ maxLineLength: 9 })).toEqual([]);
+    });
+
+    it('should skip empty pages and count a single-line page as a top line only', () => {
+        const pages: Page[] = [
+            { content: '  \n', id: 1 },
+            { content: 'كتاب الطهارة', id: 2 },
+            { content: '\nكتاب الطهارة\n', id: 3 },
+            { content: 'كتاب الطهارة\nنص', id: 4 },
+        ];
+
+        expect(analyzeRunningHeaders(pages)).toMatchObject([
+            { count: 3, frequency: 1, pattern: 'كتاب\\s+الطهارة', position: 'top' },
+        ]);
+    });
+});
@@ -0,0 +1,130 @@
+// Running headers/footers analysis module
+
+import type { Page } from '@/types/index.js';
+import { escapeRegex } from '@/utils/textUtils.js';
+import type { LineStartPatternExample } from './line-starts.js';
+
+// Types
+
+/** Which edge of a page a running header sits on (`'bottom'` for footers). */
+export type RunningHeaderPosition = 'top' | 'bottom';
+
+export type RunningHeaderOptions = {
+    /** Minimum number of pages a line must repeat on (default 3) */
+    minCount?: number;
+    /**
+     * Minimum share of analyzed pages (0-1) a line must repeat on (default 0.3).
+     * Lower it for headers that change per chapter.
+     */
+    minFrequency?: number;
+    /** Longer edge lines are body text, not headers (default 100) */
+    maxLineLength?: number;
+    maxExamples?: number;
+    topK?: number;
+};
+
+export type RunningHeaderPattern = {
+    /** Template pattern for the whole line, page numbers replaced by digit tokens */
+    pattern: string;
+    position: RunningHeaderPosition;
+    /** Number of pages the line appears on */
+    count: number;
+    /** `count` divided by the number of non-empty pages */
+    frequency: number;
+    examples: LineStartPatternExample[];
+};
+
+type PatternStats = { count: number; examples: LineStartPatternExample[] };
+
+// Options resolution
+
+const resolveOptions = (options: RunningHeaderOptions = {}): Required<RunningHeaderOptions> => ({
+    maxExamples: options.maxExamples ?? 3,
+    maxLineLength: options.maxLineLength ?? 100,
+    minCount: options.minCount ?? 3,
+    minFrequency: options.minFrequency ?? 0.3,
+    topK: options.topK ?? 20,
+});
+
+// Line templating
+
+/**
+ * Turns an edge line into a template pattern: regex characters are escaped, whitespace
+ * runs become `\s+` and digit runs become `{{raqms}}` (Arabic-Indic), `{{nums}}` (ASCII)
+ * or `{{anyNums}}` (Persian), so the changing page number does not split a header.
+ */
+const toRunningHeaderPattern = (line: string) =>
+    escapeRegex(line)
+        .replace(/\s+/gu, '\\s+')
+        .replace(/[٠-٩]+/gu, '{{raqms}}')
+        .replace(/[0-9]+/gu, '{{nums}}')
+        .replace(/[۰-۹]+/gu, '{{anyNums}}');
+
+/** First and last non-empty lines of a page (a single-line page only has a top line). */
+const getEdgeLines = (content: string) => {
+    const lines = content
+        .split('\n')
+        .map((line) => line.trim())
+        .filter(Boolean);
+    if (lines.length === 0) {
+        return null;
+    }
+    return { bottom: lines.length > 1 ? lines.at(-1)! : undefined, top: lines[0]! };
+};
+
+const recordLine = (
+    acc: Map<string, PatternStats>,
+    position: RunningHeaderPosition,
+    line: string,
+    pageId: number,
+    opts: Required<RunningHeaderOptions>,
+) => {
+    if (line.length > opts.maxLineLength) {
+        return;
+    }
+    const key = `${position}\u0000${toRunningHeaderPattern(line)}`;
+    const stats = acc.get(key) ?? { count: 0, examples: [] };
+    stats.count++;
+    if (stats.examples.length < opts.maxExamples) {
+        stats.examples.push({ line, pageId });
+    }
+    acc.set(key, stats);
+};
+
+/**
+ * Detect running headers and footers: lines repeated at the top or bottom of many pages,
+ * such as a book title, a chapter name or a bare page number.
+ *
+ * Feed the patterns to the `stripRunningHeaders` preprocess transform to remove them.
+ *
+ * @example
+ * analyzeRunningHeaders(pages)
+ * // → [{ pattern: 'كتاب\\s+الطهارة', position: 'top', count: 40, frequency: 0.95, examples: [...] },
+ * //    { pattern: '-\\s+{{raqms}}\\s+-', position: 'bottom', count: 42, frequency: 1, examples: [...] }]
+ */
+export const analyzeRunningHeaders = (pages: Page[], options: RunningHeaderOptions = {}): RunningHeaderPattern[] => {
+    const opts = resolveOptions(options);
+    const acc = new Map<string, PatternStats>();
+    let analyzed = 0;
+
+    for (const page of pages) {
+        const edges = getEdgeLines(page.content);
+        if (!edges) {
+            continue;
+        }
+        analyzed++;
+        recordLine(acc, 'top', edges.top, page.id, opts);
+        if (edges.bottom !== undefined) {
+            recordLine(acc, 'bottom', edges.bottom, page.id, opts);
+        }
+    }
+
+    return [...acc.entries()]
+        .map(([key, { count, examples }]) => {
+            const [position, pattern] = key.split('\u0000') as [RunningHeaderPosition, string];
+            return { count, examples, frequency: count / analyzed, pattern, position };
+        })
+        .filter((p) => p.count >= opts.minCount && p.frequency >= opts.minFrequency)
+        .sort((a, b) => b.count - a.count || a.pattern.localeCompare(b.pattern))
+        .slice(0, opts.topK);
+};
@@ -1,4 +1,5 @@
 import { describe, expect, it } from 'bun:test';
+import { validatePreprocess } from '@/segmentation/pattern-validator.js';
 import type { Page } from '@/types/index.js';
 import { suggestSegmentationOptions } from './segmentation-advisor.js';
 
@@ -66,4 +67,40 @@ describe('suggestSegmentationOptions', () => {
         expect(transforms).toContain('condenseEllipsis');
         expect(transforms).toContain('fixTrailingWaw');
     });
+
+    it('should count presentation forms and letter variants and suggest folding them', () => {
+        const pages: Page[] = [{ content: 'ﺣﺪﺛﻨﺎ یحیی\nﻻ بأس به', id: 1 }];
+
+        const report = suggestSegmentationOptions(pages);
+
+        expect(report.preprocess.detections.letterVariantCount).toBe(9);
+        expect(report.preprocess.suggestions).toEqual([
+            expect.objectContaining({ count: 9, transform: 'normalizeArabicLetters' }),
+        ]);
+        expect(report.recommendedOptions.preprocess).toEqual(['normalizeArabicLetters']);
+    });
+
+    it('should not count honorifics and ornate parentheses as letter variants', () => {
+        const pages: Page[] = [1, 2, 3].map((id) => ({ content: 'قال النبي ﷺ: ﴿إنا أعطيناك الكوثر﴾', id }));
+
+        const report = suggestSegmentationOptions(pages);
+
+        expect(report.preprocess.detections.letterVariantCount).toBe(0);
+        expect(report.preprocess.suggestions).toEqual([]);
+    });
+
+    it('should suggest a replace transform for runs of spaces', () => {
+        const pages: Page[] = [
+            { content: '١  -  حدثنا فلان\n٢ -   أخبرنا فلان', id: 1 },
+            { content: '٣ - حدثنا فلان', id: 2 },
+        ];
+
+        const report = suggestSegmentationOptions(pages);
+        const suggestion = report.preprocess.suggestions.find((s) => typeof s.transform === 'object');
+
+        expect(report.preprocess.detections.spaceRunCount).toBe(3);
+        expect(suggestion).toMatchObject({ count: 3, transform: { replacement: ' ', type: 'replace' } });
+        expect(validatePreprocess(report.recommendedOptions.preprocess ?? [])).toEqual([undefined]);
+        expect(JSON.parse(JSON.stringify(suggestion!.transform))).toEqual(suggestion!.transform);
+    });
 });
@@ -1,4 +1,5 @@
 import { optimizeRules } from '@/optimization/optimize-rules.js';
+import { DEFAULT_ARABIC_LETTER_VARIANTS, PRESENTATION_FORM_CLASS } from '@/preprocessing/transforms.js';
 import { formatValidationReport, type RuleValidationResult, validateRules } from '@/segmentation/pattern-validator.js';
 import { shouldDefaultToFuzzy } from '@/segmentation/tokens.js';
 import type { Breakpoint } from '@/types/breakpoints.js';
@@ -16,6 +17,14 @@ import { analyzeRepeatingSequences } from './repeating-sequences.js';
 const ZERO_WIDTH_REGEX = /[\u061C\u200B-\u200F\u202A-\u202E\u2060-\u2064\uFEFF]/gu;
 const ELLIPSIS_REGEX = /\.{3,}/g;
 const TRAILING_WAW_REGEX = /\sو\s+(?=[\p{Script=Arabic}])/gu;
+// What normalizeArabicLetters folds with its default variants (ﷺ and ﴿﴾ are left alone).
+// No `u` flag: see getLetterFolder() in preprocessing/transforms.ts (Forms-A + Forms-B pairs).
+const LETTER_VARIANT_REGEX = new RegExp(
+    [PRESENTATION_FORM_CLASS, ...Object.keys(DEFAULT_ARABIC_LETTER_VARIANTS)].join('|'),
+    'g',
+);
+const SPACE_RUN_PATTERN = '[ \\t]{2,}';
+const SPACE_RUN_REGEX = new RegExp(SPACE_RUN_PATTERN, 'g');
 
 const STRUCTURAL_META_BY_TOKEN = {
     bab: 'chapter',
@@ -40,6 +49,10 @@ export type SegmentationAdvisorOptions = {
 
 export type PreprocessDetections = {
     ellipsisCount: number;
+    /** Arabic Presentation Forms and Persian/Urdu letter variants (ی, ک, ہ, ...) */
+    letterVariantCount: number;
+    /** Runs of two or more spaces/tabs */
+    spaceRunCount: number;
     trailingWawCount: number;
     zeroWidthCount: number;
 };
@@ -128,10 +141,12 @@ const getDetections = (pages: Page[]): PreprocessDetections =>
     pages.reduce<PreprocessDetections>(
         (acc, page) => ({
             ellipsisCount: acc.ellipsisCount + countMatches(page.content, ELLIPSIS_REGEX),
+            letterVariantCount: acc.letterVariantCount + countMatches(page.content, LETTER_VARIANT_REGEX),
+            spaceRunCount: acc.spaceRunCount + countMatches(page.content, SPACE_RUN_REGEX),
             trailingWawCount: acc.trailingWawCount + countMatches(page.content, TRAILING_WAW_REGEX),
             zeroWidthCount: acc.zeroWidthCount + countMatches(page.content, ZERO_WIDTH_REGEX),
         }),
-        { ellipsisCount: 0, trailingWawCount: 0, zeroWidthCount: 0 },
+        { ellipsisCount: 0, letterVariantCount: 0, spaceRunCount: 0, trailingWawCount: 0, zeroWidthCount: 0 },
     );
 
 const getPreprocessSuggestions = (detections: PreprocessDetections): PreprocessSuggestion[] => {
@@ -144,6 +159,13 @@ const getPreprocessSuggestions = (detections: PreprocessDetections): PreprocessS
             transform: 'removeZeroWidth',
         });
     }
+    if (detections.letterVariantCount > 0) {
+        suggestions.push({
+            count: detections.letterVariantCount,
+            reason: 'Presentation forms and Persian/Urdu letter variants (ی, ک, ہ) defeat tokens and fuzzy matching.',
+            transform: 'normalizeArabicLetters',
+        });
+    }
     if (detections.ellipsisCount > 0) {
         suggestions.push({
             count: detections.ellipsisCount,
@@ -158,6 +180,13 @@ const getPreprocessSuggestions = (detections: PreprocessDetections): PreprocessS
             transform: 'fixTrailingWaw',
         });
     }
+    if (detections.spaceRunCount > 0) {
+        suggestions.push({
+            count: detections.spaceRunCount,
+            reason: 'Runs of spaces keep single-space templates like "{{raqms}} {{dash}} " from matching.',
+            transform: { pattern: SPACE_RUN_PATTERN, replacement: ' ', type: 'replace' },
+        });
+    }
 
     return suggestions;
 };
@@ -571,7 +600,7 @@ export const suggestSegmentationOptions = (
             ? fallbackOptions
             : recommendedOptions;
     const finalEvaluation = finalOptions === fallbackOptions && fallback ? fallback : primary;
-    const ruleValidation = validateRules(finalOptions.rules ?? []).filter(
+    const ruleValidation = validateRules(finalOptions.rules ?? [], { tokens: finalOptions.tokens }).filter(
         (result): result is RuleValidationResult => result !== undefined,
     );
     const ruleValidationErrors = formatValidationReport(ruleValidation);
@@ -23,6 +23,8 @@ export const TOKEN_PRIORITY_ORDER: TokenName[] = [
     'numbered',
     'raqms',
     'raqm',
+    // After raqms: ties go to the earlier token, so this only claims other digits (e.g. Persian ۰-۹)
+    'anyNums',
     'dash',
     'bullet',
     'tarqim',
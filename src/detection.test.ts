@@ -92,6 +92,20 @@ describe('detection', () => {
             }
         });
 
+        it('should detect Persian digits as anyNums but keep raqms for Arabic-Indic digits', () => {
+            expect(detectTokenPatterns('۳۴ - حدثنا')).toEqual([
+                { endIndex: 2, index: 0, match: '۳۴', token: 'anyNums' },
+                { endIndex: 4, index: 3, match: '-', token: 'dash' },
+                { endIndex: 10, index: 5, match: 'حدثنا', token: 'naql' },
+            ]);
+            expect(detectTokenPatterns('٣٤')[0]?.token).toBe('raqms');
+            expect(analyzeTextForRule('۳۴ - ')).toMatchObject({
+                metaType: 'hadith',
+                patternType: 'lineStartsAfter',
+                template: '{{anyNums}} {{dash}} ',
+            });
+        });
+
         it('should sort results by position', () => {
             expect(detectTokenPatterns('٣٤ - باب')).toEqual([
                 { endIndex: 5, index: 0, match: '٣٤ - ', token: 'numbered' },
@@ -38,6 +38,12 @@ const TOKEN_PRIORITY_ORDER: TokenName[] = [
     'harf',
 ];
 
+/**
+ * Catch-all tokens detected last, so the script-specific digit tokens (`raqms`, `num`)
+ * keep their digits and only the rest (e.g. Persian ۰-۹) falls through to these.
+ */
+const TOKEN_LAST: TokenName[] = ['anyNums', 'anyNum'];
+
 /**
  * Gets the token detection priority order.
  * Returns tokens in priority order, with any TOKEN_PATTERNS not in the priority list appended.
@@ -45,8 +51,8 @@ const TOKEN_PRIORITY_ORDER: TokenName[] = [
 const getTokenPriority = () => {
     const allTokens = getAvailableTokens();
     const prioritized = TOKEN_PRIORITY_ORDER.filter((t) => allTokens.includes(t));
-    const remaining = allTokens.filter((t) => !TOKEN_PRIORITY_ORDER.includes(t)).sort();
-    return [...prioritized, ...remaining];
+    const remaining = allTokens.filter((t) => !TOKEN_PRIORITY_ORDER.includes(t) && !TOKEN_LAST.includes(t)).sort();
+    return [...prioritized, ...remaining, ...TOKEN_LAST.filter((t) => allTokens.includes(t))];
 };
 
 const isRumuzStandalone = (text: string, startIndex: number, endIndex: number): boolean => {
@@ -177,7 +183,7 @@ export const suggestPatternConfig = (
     const hasStructuralToken = detected.some((d) => ['basmalah', 'kitab', 'bab', 'fasl'].includes(d.token));
 
     // Check if the pattern is numbered (hadith-style)
-    const hasNumberedPattern = detected.some((d) => ['raqms', 'raqm', 'numbered'].includes(d.token));
+    const hasNumberedPattern = detected.some((d) => ['raqms', 'raqm', 'numbered', 'anyNums'].includes(d.token));
 
     // If it starts with a structural token, use lineStartsWith (keep marker in content)
     if (hasStructuralToken) {
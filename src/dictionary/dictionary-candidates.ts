@@ -14,6 +14,7 @@ import type {
     NormalizedDictionaryFamily,
     NormalizedDictionaryZone,
 } from '@/types/dictionary.js';
+import { type ResolvedHeadingTitle, readHeadingTitle, resolveHeadingTitle } from '../segmentation/heading-title.js';
 import { ARABIC_WORD_WITH_OPTIONAL_MARKS_PATTERN } from '../segmentation/tokens.js';
 import { escapeRegex } from '../utils/textUtils.js';
 import { CODE_LINE_PATTERN, HEADING_PREFIX, STATUS_TAIL_PATTERN } from './constants.js';
@@ -39,8 +40,11 @@ export type DictionaryCandidate = {
     localIndex: number;
     probeText: string;
     text: string;
+    /** Heading title captured by a `heading` family with `title` */
+    title?: { key: string; value: string };
 };
 
+const headingTitleCache = new WeakMap<HeadingFamily, ResolvedHeadingTitle | null>();
 const lineEntryRegexCache = new WeakMap<LineEntryFamily, RegExp>();
 const inlineSubentryRegexCache = new WeakMap<InlineSubentryFamily, { matchRegex: RegExp; stripPrefixRegex: RegExp }>();
 const pairedFormsRegexCache = new WeakMap<PairedFormsFamily, RegExp>();
@@ -119,6 +123,23 @@ const collectHeadingCandidates = (
     return candidate ? [candidate] : [];
 };
 
+const getHeadingTitle = (family: HeadingFamily) => {
+    if (!headingTitleCache.has(family)) {
+        headingTitleCache.set(family, resolveHeadingTitle(family.title));
+    }
+    return headingTitleCache.get(family)!;
+};
+
+const readHeadingCandidateTitle = (line: DictionaryLine, family: HeadingFamily) => {
+    const title = getHeadingTitle(family);
+    const found = title
+        ? readHeadingTitle(line.text, line.text.indexOf(HEADING_PREFIX) + HEADING_PREFIX.length, title.until)
+        : null;
+    return found
+        ? { contentStartOffset: title!.strip ? found.end : undefined, key: title!.key, value: found.title }
+        : null;
+};
+
 const createHeadingCandidate = (
     pageStartOffset: number,
     line: DictionaryLine,
@@ -138,9 +159,10 @@ const createHeadingCandidate = (
         return null;
     }
 
+    const title = readHeadingCandidateTitle(line, family);
     return {
         absoluteIndex: pageStartOffset + line.start,
-        contentStartOffset: HEADING_PREFIX.length,
+        contentStartOffset: title?.contentStartOffset ?? HEADING_PREFIX.length,
         family: 'heading',
         headingClass,
         kind: family.emit,
@@ -149,6 +171,7 @@ const createHeadingCandidate = (
         localIndex: line.start,
         probeText: line.text.trim(),
         text: line.text.trim(),
+        ...(title ? { title: { key: title.key, value: title.value } } : {}),
     };
 };
 
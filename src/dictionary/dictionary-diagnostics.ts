@@ -13,12 +13,13 @@ import type {
     DictionaryProfileDiagnostics,
     DictionaryProfileDiagnosticsOptions,
     DictionarySegmentKind,
+    NormalizedArabicDictionaryProfile,
 } from '@/types/dictionary.js';
 import type { Page } from '@/types/index.js';
 import type { PageMap } from '../types/segmenter.js';
 import { normalizeLineEndings } from '../utils/textUtils.js';
 import { getCandidateRejection } from './dictionary-blockers.js';
-import { collectCandidatesForLine } from './dictionary-candidates.js';
+import { collectCandidatesForLine, type DictionaryCandidate } from './dictionary-candidates.js';
 import { createPageContexts, createZoneActivationMap, resolveActiveZone } from './dictionary-zones.js';
 import { normalizeDictionaryProfile } from './profile.js';
 
@@ -111,6 +112,53 @@ const buildDiagnosticsPageMap = (pages: Page[], normalizedContents: string[]): P
     };
 };
 
+/**
+ * A dictionary candidate together with the zone it was found in and its blocker verdict.
+ */
+export type DictionaryCandidateOutcome = {
+    candidate: DictionaryCandidate;
+    pageId: number;
+    /** Why the candidate was rejected (`null` when it becomes a split point) */
+    rejection: DictionaryDiagnosticReason | null;
+    zone: string;
+};
+
+/**
+ * Runs candidate collection and blocker evaluation over every page in an active zone,
+ * keeping rejected candidates alongside accepted ones.
+ */
+export const collectDictionaryCandidateOutcomes = (
+    pages: Page[],
+    normalizedProfile: NormalizedArabicDictionaryProfile,
+    pageMap: PageMap,
+    normalizedPages: string[],
+) => {
+    const pageContexts = createPageContexts(pages, pageMap, normalizedPages);
+    const activationMap = createZoneActivationMap(normalizedProfile, pageContexts);
+    const outcomes: DictionaryCandidateOutcome[] = [];
+
+    for (const pageContext of pageContexts) {
+        const zone = resolveActiveZone(normalizedProfile, activationMap, pageContext.page.id);
+        if (!zone) {
+            continue;
+        }
+
+        for (let lineIndex = 0; lineIndex < pageContext.lines.length; lineIndex++) {
+            const line = pageContext.lines[lineIndex]!;
+            const nextLine = pageContext.lines[lineIndex + 1];
+            for (const candidate of collectCandidatesForLine(pageContext.boundary.start, line, nextLine, zone)) {
+                outcomes.push({
+                    candidate,
+                    pageId: pageContext.page.id,
+                    rejection: getCandidateRejection(candidate, zone, pageContext, pageContexts)?.reason ?? null,
+                    zone: zone.name,
+                });
+            }
+        }
+    }
+    return outcomes;
+};
+
 /**
  * Collects tuning-oriented diagnostics for a dictionary profile without creating
  * segments. This output is intended for profile authoring workflows rather than
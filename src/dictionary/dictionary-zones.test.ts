@@ -111,6 +111,32 @@ describe('dictionary-zones', () => {
         expect(resolveActiveZone(normalizedProfile, activationMap, 9)?.name).toBe('main');
     });
 
+    it('should keep activations recorded in a prior activation map', () => {
+        const profile: ArabicDictionaryProfile = {
+            version: 2,
+            zones: [
+                {
+                    families: [{ classes: ['entry'], emit: 'entry', use: 'heading' }],
+                    name: 'main',
+                    when: { activateAfter: [{ match: 'باب', use: 'headingText' }] },
+                },
+            ],
+        };
+        const normalizedProfile = normalizeDictionaryProfile(profile);
+        const pages: Page[] = [{ content: '## أبد', id: 12 }];
+        const prior = new Map<string, number | null>([['main', 3]]);
+
+        const activationMap = createZoneActivationMap(
+            normalizedProfile,
+            createPageContexts(pages, createPageMap(pages)),
+            prior,
+        );
+
+        expect(activationMap).toBe(prior);
+        expect(activationMap.get('main')).toBe(3);
+        expect(resolveActiveZone(normalizedProfile, activationMap, 12)?.name).toBe('main');
+    });
+
     it('should normalize CRLF content and honor provided normalizedPages overrides', () => {
         const pages: Page[] = [{ content: 'alpha\r\nbeta', id: 1 }];
         const pageMap = createPageMap(pages);
@@ -138,15 +138,16 @@ const findActivationPageId = (zone: NormalizedDictionaryZone, pages: PageContext
 export const createZoneActivationMap = (
     profile: NormalizedArabicDictionaryProfile,
     pages: PageContext[],
+    priorActivation?: Map<string, number | null>,
 ): Map<string, number | null> => {
-    const activation = new Map<string, number | null>();
+    const activation = priorActivation ?? new Map<string, number | null>();
 
     for (const zone of profile.zones) {
         if (!zone.when?.activateAfter?.length) {
             activation.set(zone.name, null);
             continue;
         }
-        activation.set(zone.name, findActivationPageId(zone, pages));
+        activation.set(zone.name, activation.get(zone.name) ?? findActivationPageId(zone, pages));
     }
 
     return activation;
@@ -198,6 +198,24 @@ describe('dictionary segmentation runtime', () => {
         ]);
     });
 
+    it('captures heading family titles and strips them on request', () => {
+        const profile: ArabicDictionaryProfile = {
+            version: 2,
+            zones: [
+                {
+                    families: [{ classes: ['chapter'], emit: 'chapter', title: { strip: true }, use: 'heading' }],
+                    name: 'main',
+                },
+            ],
+        };
+
+        const segments = segmentPages([{ content: '## باب الهمزة\nكلام في الباب', id: 1 }], { dictionary: profile });
+
+        expect(segments).toEqual([
+            { content: 'كلام في الباب', from: 1, meta: { kind: 'chapter', title: 'باب الهمزة' } },
+        ]);
+    });
+
     it('keeps real inline subentries while blocking representative noise on 2553 page 66', async () => {
         const page = await loadBookPage('2553.json', 66);
         const profile: ArabicDictionaryProfile = {
@@ -15,7 +15,7 @@
  *   • `diagnoseDictionaryProfile`    — exported from src/index.ts
  */
 
-import type { ArabicDictionaryProfile } from '@/types/dictionary.js';
+import type { ArabicDictionaryProfile, NormalizedArabicDictionaryProfile } from '@/types/dictionary.js';
 import type { Page } from '@/types/index.js';
 import type { Logger } from '@/types/options.js';
 import { mergeDebugIntoMeta } from '../segmentation/debug-meta.js';
@@ -46,11 +46,15 @@ const candidateToSplitPoint = (
         contentStartOffset: candidate.contentStartOffset,
         index: candidate.absoluteIndex,
         meta,
+        ...(candidate.title ? { namedCaptures: { [candidate.title.key]: candidate.title.value } } : {}),
     };
 };
 
 /**
  * Collects dictionary-profile split points using the pages-only markdown surface.
+ *
+ * When `zoneActivation` is provided, zones activated by earlier page windows stay
+ * active and newly activated zones are written back into the map.
  */
 export const collectDictionarySplitPoints = (
     pages: Page[],
@@ -59,10 +63,11 @@ export const collectDictionarySplitPoints = (
     normalizedPages?: string[],
     logger?: Logger,
     debugMetaKey?: string,
+    zoneActivation?: Map<string, number | null>,
+    normalizedProfile: NormalizedArabicDictionaryProfile = normalizeDictionaryProfile(profile),
 ): SplitPoint[] => {
-    const normalizedProfile = normalizeDictionaryProfile(profile);
     const pageContexts = createPageContexts(pages, pageMap, normalizedPages);
-    const activationMap = createZoneActivationMap(normalizedProfile, pageContexts);
+    const activationMap = createZoneActivationMap(normalizedProfile, pageContexts, zoneActivation);
     const splitPoints: SplitPoint[] = [];
 
     logger?.debug?.('[dictionary] collecting split points', {
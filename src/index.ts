@@ -10,13 +10,21 @@ export type {
     RepeatingSequencePattern,
     RuleSuggestionConfidence,
     RuleSuggestionSource,
+    RunningHeaderOptions,
+    RunningHeaderPattern,
+    RunningHeaderPosition,
     SegmentationAdvisorMode,
     SegmentationAdvisorOptions,
     SegmentationEvaluation,
     SegmentationSuggestionReport,
     SuggestedRule,
 } from './analysis/index.js';
-export { analyzeCommonLineStarts, analyzeRepeatingSequences, suggestSegmentationOptions } from './analysis/index.js';
+export {
+    analyzeCommonLineStarts,
+    analyzeRepeatingSequences,
+    analyzeRunningHeaders,
+    suggestSegmentationOptions,
+} from './analysis/index.js';
 export type { DetectedPattern } from './detection.js';
 export {
     analyzeTextForRule,
@@ -44,20 +52,47 @@ export { optimizeRules } from './optimization/optimize-rules.js';
 export {
     applyPreprocessToPage,
     condenseEllipsis,
+    DEFAULT_ARABIC_LETTER_VARIANTS,
     fixTrailingWaw,
+    normalizeArabicLetters,
+    normalizeDigits,
     removeZeroWidth,
+    stripRunningHeaders,
 } from './preprocessing/transforms.js';
 export type { PatternProcessor } from './segmentation/breakpoint-utils.js';
 export { escapeWordsOutsideTokens } from './segmentation/breakpoint-utils.js';
+export type {
+    SegmentExplanation,
+    Segmenter,
+    SegmenterConfigIssue,
+    SegmenterConfigIssueCode,
+} from './segmentation/compiled-segmenter.js';
+export { createSegmenter, SegmenterConfigError } from './segmentation/compiled-segmenter.js';
 export { getDebugReason, getSegmentDebugReason } from './segmentation/debug-meta.js';
 export type {
+    BreakpointExplanation,
+    CandidateDropReason,
+    DictionaryCandidateExplanation,
+    ExplainedCandidate,
+    ExplainPositionOptions,
+    PositionExplanation,
+    PositionTarget,
+    RuleExplanation,
+} from './segmentation/explain-position.js';
+export { explainPosition } from './segmentation/explain-position.js';
+export type {
+    PreprocessValidationResult,
     RuleValidationResult,
+    ValidateRulesOptions,
     ValidationIssue,
     ValidationIssueType,
 } from './segmentation/pattern-validator.js';
-export { formatValidationReport, validateRules } from './segmentation/pattern-validator.js';
+export { formatValidationReport, validatePreprocess, validateRules } from './segmentation/pattern-validator.js';
+export { segmentPagesStream } from './segmentation/segment-stream.js';
+export type { SegmentTree, SegmentTreeNode } from './segmentation/segment-tree.js';
+export { buildSegmentTree } from './segmentation/segment-tree.js';
 export { segmentPages } from './segmentation/segmenter.js';
-export type { ExpandResult, TokenKey, TokenMapping, TokenPatternName } from './segmentation/tokens.js';
+export type { CustomTokens, ExpandResult, TokenKey, TokenMapping, TokenPatternName } from './segmentation/tokens.js';
 export {
     ARABIC_BASE_LETTER_CLASS,
     ARABIC_LETTER_WITH_OPTIONAL_MARKS_PATTERN,
@@ -70,6 +105,7 @@ export {
     expandTokensWithCaptures,
     getAvailableTokens,
     getTokenPattern,
+    resolveTokenPatterns,
     shouldDefaultToFuzzy,
     stripTokenMappings,
     TOKEN_PATTERNS,
@@ -97,11 +133,16 @@ export type {
     DictionaryZone,
 } from './types/dictionary.js';
 export type {
+    BoundaryDiscrepancy,
     Page,
     PageRange,
     PageRangeConstraint,
     PageRangeConstraintWithExclude,
     Segment,
+    SegmentationEvaluationReport,
+    SegmentCoverageSpan,
+    SegmentFootnote,
+    SegmentSourceSpan,
     SegmentValidationIssue,
     SegmentValidationIssueSeverity,
     SegmentValidationIssueType,
@@ -109,22 +150,40 @@ export type {
 } from './types/index.js';
 export type {
     CondenseEllipsisRule,
+    DigitScript,
     FixTrailingWawRule,
+    FootnoteOptions,
     Logger,
+    NormalizeArabicLettersRule,
+    NormalizeDigitsRule,
+    PieceOverlap,
     PreprocessTransform,
+    ProtectedSpan,
     RemoveZeroWidthRule,
+    ReplaceRule,
+    RuleZone,
     SegmentationOptions,
+    SplitOverride,
+    StreamSegmentationOptions,
+    StripRunningHeadersRule,
 } from './types/options.js';
 export {
+    type CaptureTransform,
     type DictionaryEntryPatternOptions,
+    type HeadingContext,
+    type HeadingTitle,
     PATTERN_TYPE_KEYS,
     type PatternTypeKey,
     type SplitRule,
 } from './types/rules.js';
 export {
+    countArabicWords,
     escapeRegex,
     escapeTemplateBrackets,
     makeDiacriticInsensitive,
     normalizeArabicForComparison,
+    stripArabicDiacritics,
 } from './utils/textUtils.js';
+export { type EvaluateSegmentationOptions, evaluateSegmentation } from './validation/evaluate-segmentation.js';
+export type { NumberingCheckOptions } from './validation/numbering.js';
 export { type ValidationOptions, validateSegments } from './validation/validate-segments.js';
@@ -113,17 +113,18 @@ server.registerTool(
     'score_candidate_options',
     {
         description:
-            'Evaluate multiple SegmentationOptions candidates against the same book and rank them using validation and segment-shape heuristics.',
+            'Evaluate multiple SegmentationOptions candidates against the same book and rank them using validation and segment-shape heuristics, or by boundary F1 when gold segments are supplied.',
         inputSchema: v.object({
             candidates: candidatesSchema,
+            gold: v.optional(v.array(segmentSchema)),
             pages: pagesSchema,
             sampleSegments: v.optional(v.pipe(v.number(), v.integer(), v.minValue(1), v.maxValue(100))),
         }),
         outputSchema,
     },
-    async ({ candidates, pages, sampleSegments }) =>
+    async ({ candidates, gold, pages, sampleSegments }) =>
         jsonResult({
-            ranking: scoreSegmentationCandidates(pages, candidates, sampleSegments),
+            ranking: scoreSegmentationCandidates(pages, candidates, sampleSegments, gold),
         }),
 );
 
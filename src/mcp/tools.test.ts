@@ -58,4 +58,48 @@ describe('mcp tools', () => {
         expect(result.results).toHaveLength(2);
         expect(result.results[1]?.score).toBeGreaterThan(result.results[0]?.score ?? Number.NEGATIVE_INFINITY);
     });
+
+    it('should rank candidates by agreement with gold segments when supplied', () => {
+        const gold = [
+            { content: '١ - حدثنا زيد', from: 1 },
+            { content: '٢ - أخبرنا عمرو', from: 1 },
+            { content: '٣ - حدثنا بكر', from: 2 },
+        ];
+        const result = scoreSegmentationCandidates(
+            pages,
+            [
+                { rules: [{ lineStartsWith: ['{{raqms}} {{dash}} حدثنا'] }] },
+                { rules: [{ lineStartsWith: ['{{raqms}} {{dash}} '] }] },
+            ],
+            5,
+            gold,
+        );
+
+        expect(result.bestIndex).toBe(1);
+        expect(result.results[1]?.evaluation?.f1).toBe(1);
+        expect(result.results[0]?.evaluation?.missed).toHaveLength(1);
+    });
+
+    it('should break gold F1 ties by the lower WindowDiff', () => {
+        const hadith = 'حدثنا زيد بن ثابت الأنصاري عن أبيه عن جده أنه قال كان رسول الله يصلي';
+        const book: Page[] = [{ content: `١ - ${hadith}\n٢ - أخبرنا عمرو\n٣ - حدثنا بكر`, id: 1 }];
+        const gold = [
+            { content: `١ - ${hadith}`, from: 1 },
+            { content: '٢ - أخبرنا عمرو', from: 1 },
+            { content: '٣ - حدثنا بكر', from: 1 },
+        ];
+        const result = scoreSegmentationCandidates(
+            book,
+            [
+                { rules: [{ lineStartsWith: ['{{raqms}} {{dash}} حدثنا'] }] },
+                { rules: [{ lineStartsWith: ['{{raqms}} {{dash}} أخبرنا', '١'] }] },
+            ],
+            5,
+            gold,
+        );
+
+        expect(result.results[0]?.score).toBe(result.results[1]!.score);
+        expect(result.results[1]!.evaluation!.windowDiff).toBeLessThan(result.results[0]!.evaluation!.windowDiff);
+        expect(result.bestIndex).toBe(1);
+    });
 });
@@ -2,7 +2,8 @@ import { type SegmentationAdvisorOptions, suggestSegmentationOptions } from '@/a
 import { segmentPages } from '@/segmentation/segmenter.js';
 import type { Page, Segment } from '@/types/index.js';
 import type { SegmentationOptions } from '@/types/options.js';
-import type { SegmentValidationReport } from '@/types/validation.js';
+import type { SegmentationEvaluationReport, SegmentValidationReport } from '@/types/validation.js';
+import { evaluateSegmentation } from '@/validation/evaluate-segmentation.js';
 import { validateSegments } from '@/validation/validate-segments.js';
 
 export type SegmentationPreview = {
@@ -18,6 +19,8 @@ export type SegmentationPreview = {
 export type CandidateScore = {
     averageSegmentLength?: number;
     error?: string;
+    /** Comparison against the gold segmentation (only when gold segments are supplied) */
+    evaluation?: SegmentationEvaluationReport;
     index: number;
     maxSegmentLength?: number;
     multiPageSegments?: number;
@@ -59,6 +62,16 @@ const computeCandidateScore = (preview: SegmentationPreview): number => {
     return segmentReward - issuePenalty - multiPagePenalty - oversizePenalty;
 };
 
+const computeGoldScore = (evaluation: SegmentationEvaluationReport): number => evaluation.f1 * 1000;
+
+/** Higher score wins; between equal gold scores, the lower WindowDiff wins. */
+const isBetterCandidate = (result: CandidateScore, best: CandidateScore) =>
+    result.score > best.score ||
+    (result.score === best.score &&
+        result.evaluation !== undefined &&
+        best.evaluation !== undefined &&
+        result.evaluation.windowDiff < best.evaluation.windowDiff);
+
 export const inspectBook = (pages: Page[], options: SegmentationAdvisorOptions = {}) => {
     const report = suggestSegmentationOptions(pages, options);
     return {
@@ -89,10 +102,15 @@ export const validateSegmentationPreview = (
     segments: Segment[],
 ): SegmentValidationReport => validateSegments(pages, options, segments);
 
+/**
+ * Ranks candidate options. Without `gold`, candidates are scored with validation and
+ * segment-shape heuristics; with `gold`, by boundary F1 against it (WindowDiff breaks ties).
+ */
 export const scoreSegmentationCandidates = (
     pages: Page[],
     candidates: SegmentationOptions[],
     sampleSegments = 5,
+    gold?: Segment[],
 ): {
     bestIndex: number;
     results: CandidateScore[];
@@ -100,13 +118,20 @@ export const scoreSegmentationCandidates = (
     const results = candidates.map<CandidateScore>((options, index) => {
         try {
             const preview = previewSegmentation(pages, options, sampleSegments);
+            const evaluation = gold
+                ? evaluateSegmentation(pages, preview.segments, gold, {
+                      preprocess: options.preprocess,
+                      tokens: options.tokens,
+                  })
+                : undefined;
             return {
                 averageSegmentLength: preview.averageSegmentLength,
+                evaluation,
                 index,
                 maxSegmentLength: preview.maxSegmentLength,
                 multiPageSegments: preview.multiPageSegments,
                 options,
-                score: computeCandidateScore(preview),
+                score: evaluation ? computeGoldScore(evaluation) : computeCandidateScore(preview),
                 segmentCount: preview.segmentCount,
                 validation: preview.validation,
             };
@@ -121,7 +146,7 @@ export const scoreSegmentationCandidates = (
     });
 
     const best = results.reduce(
-        (currentBest, result) => (result.score > currentBest.score ? result : currentBest),
+        (currentBest, result) => (isBetterCandidate(result, currentBest) ? result : currentBest),
         results[0] ?? { index: -1, options: {}, score: Number.NEGATIVE_INFINITY },
     );
 
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'bun:test';
+import { composeOffsetMaps, mapRangeToSource, replaceWithOffsetMap } from './offset-map.js';
+
+describe('replaceWithOffsetMap', () => {
+    it('should map replacements to the whole match and keep other characters one-to-one', () => {
+        const { content, offsetMap } = replaceWithOffsetMap('a...b', /\.{2,}/g, () => '…');
+
+        expect(content).toBe('a…b');
+        expect([...offsetMap!.starts]).toEqual([0, 1, 4]);
+        expect([...offsetMap!.ends]).toEqual([1, 4, 5]);
+    });
+
+    it('should leave deleted characters uncovered', () => {
+        const { content, offsetMap } = replaceWithOffsetMap('a\r\nb', /\r\n?/g, () => '\n');
+
+        expect(content).toBe('a\nb');
+        expect(mapRangeToSource(offsetMap, 2, 3)).toEqual([3, 4]);
+        expect(mapRangeToSource(offsetMap, 0, 3)).toEqual([0, 4]);
+    });
+
+    it('should return a null map when nothing matches', () => {
+        expect(replaceWithOffsetMap('abc', /x/g, () => '')).toEqual({ content: 'abc', offsetMap: null });
+    });
+});
+
+describe('composeOffsetMaps', () => {
+    it('should map through both rewrites', () => {
+        const first = replaceWithOffsetMap('xa..b', /x/g, () => '');
+        const second = replaceWithOffsetMap(first.content, /\.{2,}/g, () => '…');
+        const composed = composeOffsetMaps(first.offsetMap, second.offsetMap);
+
+        expect(second.content).toBe('a…b');
+        expect(mapRangeToSource(composed, 1, 3)).toEqual([2, 5]);
+    });
+
+    it('should map insertions at the start and end of the text to empty ranges', () => {
+        const first = replaceWithOffsetMap('xab', /x/g, () => '');
+        const second = replaceWithOffsetMap(first.content, /^|$/g, () => '#');
+        const composed = composeOffsetMaps(first.offsetMap, second.offsetMap)!;
+
+        expect(second.content).toBe('#ab#');
+        expect([...composed.starts]).toEqual([1, 1, 2, 3]);
+        expect([...composed.ends]).toEqual([1, 2, 3, 3]);
+        expect(mapRangeToSource(composed, 0, 4)).toEqual([1, 3]);
+    });
+
+    it('should treat null as the identity map', () => {
+        const { offsetMap } = replaceWithOffsetMap('a.b', /\./g, () => '');
+        expect(composeOffsetMaps(null, offsetMap)).toBe(offsetMap);
+        expect(composeOffsetMaps(offsetMap, null)).toBe(offsetMap);
+    });
+});
+
+describe('mapRangeToSource', () => {
+    it('should return the range unchanged for the identity map', () => {
+        expect(mapRangeToSource(null, 2, 5)).toEqual([2, 5]);
+    });
+
+    it('should map empty ranges to a single position', () => {
+        const { offsetMap } = replaceWithOffsetMap('ab.', /\./g, () => '');
+        expect(mapRangeToSource(offsetMap, 1, 1)).toEqual([1, 1]);
+        expect(mapRangeToSource(offsetMap, 2, 2)).toEqual([3, 3]);
+    });
+});
@@ -0,0 +1,122 @@
+/**
+ * Offset maps relate positions in rewritten text back to the text it was derived from.
+ *
+ * Every character of the rewritten text records the half-open range of source
+ * characters it came from. Unchanged characters cover exactly one source character,
+ * a replacement covers the whole match it replaced, and deleted characters are
+ * simply not covered by anything.
+ */
+
+/**
+ * Per-character source ranges of a rewritten string.
+ *
+ * `starts[i]`/`ends[i]` are the source range of character `i`. `sourceLength` is the
+ * length of the source text (used to map the end-of-text position).
+ */
+export type OffsetMap = {
+    ends: Int32Array;
+    sourceLength: number;
+    starts: Int32Array;
+};
+
+/**
+ * Replaces every match of a global regex and records where each output character came from.
+ *
+ * @param text - Source text
+ * @param regex - Global regex to replace
+ * @param replace - Replacement for a match (receives the match, its offset in `text` and the full match array)
+ * @returns Rewritten text plus its offset map, or `offsetMap: null` when nothing matched
+ *
+ * @example
+ * replaceWithOffsetMap('a...b', /\.{2,}/g, () => '…')
+ * // → { content: 'a…b', offsetMap: { starts: [0, 1, 4], ends: [1, 4, 5], sourceLength: 5 } }
+ */
+export const replaceWithOffsetMap = (
+    text: string,
+    regex: RegExp,
+    replace: (match: string, offset: number, groups: RegExpMatchArray) => string,
+): { content: string; offsetMap: OffsetMap | null } => {
+    const parts: string[] = [];
+    const starts: number[] = [];
+    const ends: number[] = [];
+    let last = 0;
+
+    for (const match of text.matchAll(regex)) {
+        const start = match.index!;
+        const end = start + match[0].length;
+        for (let i = last; i < start; i++) {
+            starts.push(i);
+            ends.push(i + 1);
+        }
+        const replacement = replace(match[0], start, match);
+        for (let j = 0; j < replacement.length; j++) {
+            starts.push(start);
+            ends.push(end);
+        }
+        parts.push(text.slice(last, start), replacement);
+        last = end;
+    }
+
+    if (parts.length === 0) {
+        return { content: text, offsetMap: null };
+    }
+
+    for (let i = last; i < text.length; i++) {
+        starts.push(i);
+        ends.push(i + 1);
+    }
+    parts.push(text.slice(last));
+
+    return {
+        content: parts.join(''),
+        offsetMap: { ends: Int32Array.from(ends), sourceLength: text.length, starts: Int32Array.from(starts) },
+    };
+};
+
+/**
+ * Composes two offset maps: `outer` maps text C → B and `inner` maps B → A; the result maps C → A.
+ *
+ * `null` stands for the identity map. Characters inserted by a zero-width match (an empty
+ * range in `outer`, possibly at the very start or end of B) map to an empty range in A.
+ */
+export const composeOffsetMaps = (inner: OffsetMap | null, outer: OffsetMap | null): OffsetMap | null => {
+    if (!inner) {
+        return outer;
+    }
+    if (!outer) {
+        return inner;
+    }
+
+    const length = inner.starts.length;
+    const starts = new Int32Array(outer.starts.length);
+    const ends = new Int32Array(outer.ends.length);
+    for (let i = 0; i < outer.starts.length; i++) {
+        const start = outer.starts[i];
+        const end = Math.min(outer.ends[i], length);
+        starts[i] = start < length ? inner.starts[start] : inner.sourceLength;
+        ends[i] = end > start ? inner.ends[end - 1] : starts[i];
+    }
+    return { ends, sourceLength: inner.sourceLength, starts };
+};
+
+/**
+ * Maps a half-open range of rewritten text to the source range it came from.
+ *
+ * @param offsetMap - Offset map of the rewritten text (`null` = identity)
+ * @param start - Range start in rewritten text
+ * @param end - Range end (exclusive) in rewritten text
+ * @returns `[start, end]` in source text
+ */
+export const mapRangeToSource = (offsetMap: OffsetMap | null, start: number, end: number): [number, number] => {
+    if (!offsetMap) {
+        return [start, end];
+    }
+
+    const length = offsetMap.starts.length;
+    const mapPosition = (pos: number) => (pos < length ? offsetMap.starts[pos] : offsetMap.sourceLength);
+    if (end <= start) {
+        const pos = mapPosition(start);
+        return [pos, pos];
+    }
+    return [mapPosition(start), offsetMap.ends[Math.min(end, length) - 1]];
+};
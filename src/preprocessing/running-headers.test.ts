@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'bun:test';
+import type { Page, PreprocessTransform } from '../types/index.js';
+import { resolveRunningHeaders } from './running-headers.js';
+
+const pages: Page[] = [1, 2, 3, 4].map((id) => ({
+    content: `\u200Bكتاب الطهارة\nنص ${id}\n- ${id.toLocaleString('ar-EG')} -`,
+    id,
+}));
+
+describe('resolveRunningHeaders', () => {
+    it('should return preprocess unchanged when nothing needs detection', () => {
+        const preprocess: PreprocessTransform[] = [
+            'removeZeroWidth',
+            { headers: ['كتاب'], type: 'stripRunningHeaders' },
+        ];
+
+        expect(resolveRunningHeaders(pages, preprocess)).toBe(preprocess);
+        expect(resolveRunningHeaders(pages, undefined)).toBeUndefined();
+    });
+
+    it('should detect headers on the pages as earlier transforms leave them', () => {
+        expect(resolveRunningHeaders(pages, ['removeZeroWidth', 'stripRunningHeaders'])).toEqual([
+            'removeZeroWidth',
+            { headers: ['-\\s+{{raqms}}\\s+-', 'كتاب\\s+الطهارة'], type: 'stripRunningHeaders' },
+        ]);
+    });
+
+    it('should only detect on pages in range and at the requested edge', () => {
+        expect(
+            resolveRunningHeaders(pages, [{ min: 3, minCount: 2, position: 'bottom', type: 'stripRunningHeaders' }]),
+        ).toEqual([
+            { headers: ['-\\s+{{raqms}}\\s+-'], min: 3, minCount: 2, position: 'bottom', type: 'stripRunningHeaders' },
+        ]);
+        expect(resolveRunningHeaders(pages, [{ max: 2, type: 'stripRunningHeaders' }])).toEqual([
+            { headers: [], max: 2, type: 'stripRunningHeaders' },
+        ]);
+    });
+});
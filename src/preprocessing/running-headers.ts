@@ -0,0 +1,62 @@
+import { analyzeRunningHeaders } from '../analysis/running-headers.js';
+import type { CustomTokens } from '../segmentation/tokens.js';
+import type { Page, PreprocessTransform, StripRunningHeadersRule } from '../types/index.js';
+import { applyPreprocessToPage } from './transforms.js';
+
+/** A `stripRunningHeaders` transform that still has to detect its headers. */
+const needsDetection = (transform: PreprocessTransform) =>
+    transform === 'stripRunningHeaders' ||
+    (typeof transform === 'object' && transform.type === 'stripRunningHeaders' && !transform.headers);
+
+const detectRunningHeaders = (pages: Page[], transform: PreprocessTransform): StripRunningHeadersRule => {
+    const rule: StripRunningHeadersRule =
+        typeof transform === 'object' && transform.type === 'stripRunningHeaders'
+            ? transform
+            : { type: 'stripRunningHeaders' };
+    const { max = Number.POSITIVE_INFINITY, min = Number.NEGATIVE_INFINITY, minCount, minFrequency } = rule;
+    const position = rule.position ?? 'both';
+    const patterns = analyzeRunningHeaders(
+        pages.filter((page) => page.id >= min && page.id <= max),
+        { minCount, minFrequency, topK: Number.POSITIVE_INFINITY },
+    )
+        .filter((p) => position === 'both' || p.position === position)
+        .map((p) => p.pattern);
+    return { ...rule, headers: [...new Set(patterns)] };
+};
+
+/**
+ * Fills in the `headers` of `stripRunningHeaders` transforms that omit them, by analyzing
+ * the pages as the earlier transforms leave them. The result applies page by page, like any
+ * other `preprocess` list, and maps offsets back to the original pages.
+ *
+ * @param pages - All pages of the book
+ * @param preprocess - The `preprocess` option
+ * @param tokens - Custom tokens used by earlier `replace` patterns
+ * @returns `preprocess` itself when nothing needs detection
+ *
+ * @example
+ * resolveRunningHeaders(pages, ['removeZeroWidth', 'stripRunningHeaders'])
+ * // → ['removeZeroWidth', { type: 'stripRunningHeaders', headers: ['-\\s+{{raqms}}\\s+-'] }]
+ */
+export const resolveRunningHeaders = (
+    pages: Page[],
+    preprocess: PreprocessTransform[] | undefined,
+    tokens?: CustomTokens,
+) => {
+    const last = preprocess?.findLastIndex(needsDetection) ?? -1;
+    if (!preprocess || last === -1) {
+        return preprocess;
+    }
+
+    let current = pages;
+    return preprocess.map((transform, i) => {
+        const resolved = needsDetection(transform) ? detectRunningHeaders(current, transform) : transform;
+        if (i < last) {
+            current = current.map((page) => ({
+                ...page,
+                content: applyPreprocessToPage(page.content, page.id, [resolved], tokens),
+            }));
+        }
+        return resolved;
+    });
+};
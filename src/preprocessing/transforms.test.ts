@@ -1,5 +1,18 @@
 import { describe, expect, it } from 'bun:test';
-import { applyPreprocessToPage, condenseEllipsis, fixTrailingWaw, isZeroWidth, removeZeroWidth } from './transforms.js';
+import { mapRangeToSource } from './offset-map.js';
+import {
+    applyPreprocessToPage,
+    applyPreprocessToPageWithOffsetMap,
+    compileReplacePattern,
+    condenseEllipsis,
+    DEFAULT_ARABIC_LETTER_VARIANTS,
+    fixTrailingWaw,
+    isZeroWidth,
+    normalizeArabicLetters,
+    normalizeDigits,
+    removeZeroWidth,
+    stripRunningHeaders,
+} from './transforms.js';
 
 describe('isZeroWidth', () => {
     it('should return true for U+200B (Zero Width Space)', () => {
@@ -181,6 +194,80 @@ describe('fixTrailingWaw', () => {
     });
 });
 
+describe('normalizeDigits', () => {
+    it('should convert every digit to Arabic-Indic by default', () => {
+        expect(normalizeDigits('۱۲ - 34 - ٥٦')).toBe('١٢ - ٣٤ - ٥٦');
+    });
+
+    it('should convert to the target script', () => {
+        expect(normalizeDigits('۱۲ - 34 - ٥٦', 'ascii')).toBe('12 - 34 - 56');
+        expect(normalizeDigits('۱۲ - 34 - ٥٦', 'persian')).toBe('۱۲ - ۳۴ - ۵۶');
+    });
+
+    it('should leave text without digits unchanged', () => {
+        expect(normalizeDigits('حدثنا فلان')).toBe('حدثنا فلان');
+    });
+});
+
+describe('normalizeArabicLetters', () => {
+    it('should fold presentation forms and default letter variants', () => {
+        expect(normalizeArabicLetters('ﺣﺪﺛﻨﺎ یحیی بن ﮐﮩﯿﻞ')).toBe('حدثنا يحيي بن كهيل');
+    });
+
+    it('should expand ligatures', () => {
+        expect(normalizeArabicLetters('ﻻ ﻼ')).toBe('لا لا');
+        // A Forms-A letter (U+FBA9) directly before a Forms-B letter (U+FEDE)
+        expect(normalizeArabicLetters('ﮩﻞ')).toBe('هل');
+    });
+
+    it('should only replace the given variants', () => {
+        expect(normalizeArabicLetters('یک ﮐ', { ی: 'ي' })).toBe('يک ک');
+        expect(normalizeArabicLetters('یک', { ...DEFAULT_ARABIC_LETTER_VARIANTS, ک: 'ک' })).toBe('يک');
+    });
+
+    it('should leave honorifics, word ligatures and ornate parentheses alone', () => {
+        expect(normalizeArabicLetters('قال النبي ﷺ ﷲ ﷻ: ﴿ﺣﻖ﴾')).toBe('قال النبي ﷺ ﷲ ﷻ: ﴿حق﴾');
+    });
+
+    it('should leave standard letters and the byte order mark alone', () => {
+        expect(normalizeArabicLetters('\uFEFFحدثنا يحيى')).toBe('\uFEFFحدثنا يحيى');
+    });
+});
+
+describe('stripRunningHeaders', () => {
+    const headers = ['كتاب\\s+الطهارة', '-\\s+{{raqms}}\\s+-'];
+
+    it('should remove matching first and last lines', () => {
+        expect(stripRunningHeaders('\n كتاب  الطهارة \nحدثنا\nقال\n- ١٢ -\n', headers)).toBe('حدثنا\nقال');
+        expect(stripRunningHeaders('- ١٢ -\nحدثنا\nكتاب الطهارة', headers, 'top')).toBe('حدثنا\nكتاب الطهارة');
+        expect(stripRunningHeaders('- ١٢ -\nحدثنا\nكتاب الطهارة', headers, 'bottom')).toBe('- ١٢ -\nحدثنا');
+    });
+
+    it('should only remove whole edge lines', () => {
+        const content = 'كتاب الطهارة وفيه أبواب\nحدثنا\nكتاب الطهارة\nقال';
+        expect(stripRunningHeaders(content, headers)).toBe(content);
+        expect(stripRunningHeaders(content, [])).toBe(content);
+    });
+
+    it('should expand custom tokens in header patterns', () => {
+        const tokens = { title: 'صحيح\\s+(?:البخاري|مسلم)' };
+
+        expect(stripRunningHeaders('صحيح مسلم\nحدثنا', ['{{title}}'], 'top', tokens)).toBe('حدثنا');
+        expect(
+            applyPreprocessToPage(
+                'حدثنا\nصحيح البخاري',
+                1,
+                [{ headers: ['{{title}}'], type: 'stripRunningHeaders' }],
+                tokens,
+            ),
+        ).toBe('حدثنا');
+    });
+
+    it('should remove a page that is only a header', () => {
+        expect(stripRunningHeaders('كتاب الطهارة', headers)).toBe('');
+    });
+});
+
 describe('applyPreprocessToPage', () => {
     it('should apply string shorthand transforms', () => {
         const content = 'مرح\u200Bبا';
@@ -261,6 +348,17 @@ describe('applyPreprocessToPage', () => {
         expect(result).toBe('text… و word');
     });
 
+    it('should apply replace transforms with expanded tokens and group references', () => {
+        const content = '١ ـ حدثنا\n٢ ـ أخبرنا ـ فلان';
+        const result = applyPreprocessToPage(content, 1, [
+            { flags: 'm', pattern: '^({{raqms:num}}) ـ ', replacement: '$<num> - ', type: 'replace' },
+        ]);
+        expect(result).toBe('١ - حدثنا\n٢ - أخبرنا ـ فلان');
+        expect(applyPreprocessToPage(content, 5, [{ max: 4, pattern: 'ـ', replacement: '', type: 'replace' }])).toBe(
+            content,
+        );
+    });
+
     it('should throw for unknown transform types', () => {
         const content = 'test';
         // @ts-expect-error - Testing runtime validation for invalid type
@@ -269,3 +367,108 @@ describe('applyPreprocessToPage', () => {
         );
     });
 });
+
+describe('applyPreprocessToPageWithOffsetMap', () => {
+    const content = '\u200Bقال... و هو\u200B\u200Cثم ، قال ١٢ ۳4 ﻻ ﺣﺪﺛﻨﺎ یحیی';
+
+    it('should produce the same content as applyPreprocessToPage', () => {
+        const chains = [
+            ['removeZeroWidth', 'condenseEllipsis', 'fixTrailingWaw'],
+            [{ mode: 'space', type: 'removeZeroWidth' }, 'fixTrailingWaw'],
+            [{ max: 1, type: 'condenseEllipsis' }],
+            [{ pattern: '(\\.+)\\s*(و)', replacement: '[$2|$1|$&|$$|$9|$<x>]', type: 'replace' }],
+            [{ flags: 'i', pattern: '(?<dots>\\.{2,})', replacement: '$<dots>$<dots>$`', type: 'replace' }],
+            ['removeZeroWidth', { pattern: '\\s+', replacement: ' ', type: 'replace' }, 'condenseEllipsis'],
+            ['normalizeDigits', { target: 'ascii', type: 'normalizeDigits' }],
+            ['normalizeArabicLetters', { type: 'normalizeArabicLetters', variants: { ی: 'ى', ﻻ: 'لا' } }],
+        ] as const;
+
+        for (const chain of chains) {
+            for (const pageId of [1, 2]) {
+                expect(applyPreprocessToPageWithOffsetMap(content, pageId, [...chain]).content).toBe(
+                    applyPreprocessToPage(content, pageId, [...chain]),
+                );
+            }
+        }
+    });
+
+    it('should map transformed ranges back to the original content', () => {
+        const { content: out, offsetMap } = applyPreprocessToPageWithOffsetMap(content, 1, [
+            'removeZeroWidth',
+            'condenseEllipsis',
+            'fixTrailingWaw',
+        ]);
+
+        const start = out.indexOf('قال…');
+        const [from, to] = mapRangeToSource(offsetMap, start, start + 'قال… وهو'.length);
+
+        expect(content.slice(from, to)).toBe('قال... و هو');
+    });
+
+    it('should map ranges through replace transforms', () => {
+        const { content: out, offsetMap } = applyPreprocessToPageWithOffsetMap(content, 1, [
+            'removeZeroWidth',
+            { pattern: '\\s*،\\s*', replacement: '، ', type: 'replace' },
+        ]);
+
+        const start = out.indexOf('ثم');
+        const [from, to] = mapRangeToSource(offsetMap, start, start + 'ثم، قال'.length);
+
+        expect(content.slice(from, to)).toBe('ثم ، قال');
+    });
+
+    it('should map ranges through expanded presentation forms', () => {
+        const { content: out, offsetMap } = applyPreprocessToPageWithOffsetMap(content, 1, ['normalizeArabicLetters']);
+
+        const start = out.indexOf('لا حدثنا');
+        const [from, to] = mapRangeToSource(offsetMap, start + 1, start + 'لا حدثنا يحيي'.length);
+
+        expect(content.slice(from, to)).toBe('ﻻ ﺣﺪﺛﻨﺎ یحیی');
+    });
+
+    it('should map ranges past stripped running headers', () => {
+        const page = 'كتاب الطهارة\nحدثنا مالك\n- ٣ -';
+        const { content: out, offsetMap } = applyPreprocessToPageWithOffsetMap(page, 1, [
+            { headers: ['كتاب\\s+الطهارة', '-\\s+{{raqms}}\\s+-'], type: 'stripRunningHeaders' },
+        ]);
+
+        expect(out).toBe('حدثنا مالك');
+        expect(page.slice(...mapRangeToSource(offsetMap, 0, out.length))).toBe('حدثنا مالك');
+    });
+
+    it('should require headers when applied to a single page', () => {
+        expect(() => applyPreprocessToPage('نص', 1, ['stripRunningHeaders'])).toThrow('pass headers');
+    });
+
+    it('should return a null offset map when nothing changes', () => {
+        expect(applyPreprocessToPageWithOffsetMap('نص', 1, ['condenseEllipsis']).offsetMap).toBeNull();
+    });
+});
+
+describe('compileReplacePattern', () => {
+    it('should expand tokens and add the g and u flags', () => {
+        const regex = compileReplacePattern('{{raqms}}', 'mg');
+
+        expect(regex.flags).toBe('gmu');
+        expect('١٢ و ٣'.match(regex)).toEqual(['١٢', '٣']);
+    });
+
+    it('should expand custom tokens', () => {
+        const tokens = { sanad: 'حدثنا|أخبرنا' };
+
+        expect('حدثنا ثم أخبرنا'.match(compileReplacePattern('{{sanad}}', '', tokens))).toEqual(['حدثنا', 'أخبرنا']);
+        expect(
+            applyPreprocessToPage(
+                'أخبرنا زيد',
+                1,
+                [{ pattern: '{{sanad}}', replacement: 'قال', type: 'replace' }],
+                tokens,
+            ),
+        ).toBe('قال زيد');
+    });
+
+    it('should throw for invalid patterns and flags', () => {
+        expect(() => compileReplacePattern('(')).toThrow();
+        expect(() => compileReplacePattern('a', 'x')).toThrow();
+    });
+});
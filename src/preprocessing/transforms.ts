@@ -1,4 +1,10 @@
-import type { PageRangeConstraint, PreprocessTransform } from '../types/index.js';
+import { type CustomTokens, expandTokens } from '../segmentation/tokens.js';
+import type { DigitScript, PageRangeConstraint, PreprocessTransform, ReplaceRule } from '../types/index.js';
+import { escapeRegex } from '../utils/textUtils.js';
+import { composeOffsetMaps, type OffsetMap, replaceWithOffsetMap } from './offset-map.js';
+
+/** Object form of a preprocess transform. */
+type PreprocessRule = Exclude<PreprocessTransform, string>;
 
 /** Helper for exhaustive switch checking - TypeScript will error if a case is missed */
 const assertNever = (x: never): never => {
@@ -23,6 +29,11 @@ export const isZeroWidth = (code: number): boolean =>
     (code >= 0x2060 && code <= 0x2064) ||
     code === 0xfeff;
 
+const ZERO_WIDTH_REGEX = /[\u200B-\u200F\u202A-\u202E\u2060-\u2064\uFEFF]/g;
+const ZERO_WIDTH_RUN_REGEX = /[\u200B-\u200F\u202A-\u202E\u2060-\u2064\uFEFF]+/g;
+const ELLIPSIS_REGEX = /\.{2,}/g;
+const TRAILING_WAW_REGEX = / و /g;
+
 /**
  * Remove zero-width control characters from text.
  *
@@ -50,7 +61,7 @@ export const removeZeroWidth = (text: string, mode: 'strip' | 'space' = 'strip')
         }
         return parts.join('');
     }
-    return text.replace(/[\u200B-\u200F\u202A-\u202E\u2060-\u2064\uFEFF]/g, '');
+    return text.replace(ZERO_WIDTH_REGEX, '');
 };
 
 /**
@@ -62,7 +73,7 @@ export const removeZeroWidth = (text: string, mode: 'strip' | 'space' = 'strip')
  * @param text - Input text
  * @returns Text with period sequences replaced by ellipsis
  */
-export const condenseEllipsis = (text: string): string => text.replace(/\.{2,}/g, '…');
+export const condenseEllipsis = (text: string): string => text.replace(ELLIPSIS_REGEX, '…');
 
 /**
  * Join trailing و (waw) to the next word.
@@ -72,7 +83,231 @@ export const condenseEllipsis = (text: string): string => text.replace(/\.{2,}/g
  * @param text - Input text
  * @returns Text with trailing waw joined to following word
  */
-export const fixTrailingWaw = (text: string): string => text.replace(/ و /g, ' و');
+export const fixTrailingWaw = (text: string): string => text.replace(TRAILING_WAW_REGEX, ' و');
+
+/** Code point of zero in each digit script. */
+const DIGIT_ZERO: Record<DigitScript, number> = { arabic: 0x0660, ascii: 0x30, persian: 0x06f0 };
+
+/** Digits outside each target script. */
+const FOREIGN_DIGIT_REGEX: Record<DigitScript, RegExp> = {
+    arabic: /[0-9\u06F0-\u06F9]/g,
+    ascii: /[\u0660-\u0669\u06F0-\u06F9]/g,
+    persian: /[0-9\u0660-\u0669]/g,
+};
+
+// Zero sits at a multiple of 16 in all three scripts, so the low nibble is the digit value
+const toDigitScript = (digit: string, target: DigitScript) =>
+    String.fromCharCode(DIGIT_ZERO[target] + (digit.charCodeAt(0) & 0xf));
+
+/**
+ * Convert ASCII, Arabic-Indic and Persian/Urdu digits to one script.
+ *
+ * @param text - Input text
+ * @param target - Script to convert to (default `'arabic'`, i.e. ٠-٩)
+ * @returns Text with every digit in the target script
+ *
+ * @example
+ * normalizeDigits('۱۲ و 3') // → '١٢ و ٣'
+ * normalizeDigits('١٢ و ۳', 'ascii') // → '12 و 3'
+ */
+export const normalizeDigits = (text: string, target: DigitScript = 'arabic'): string =>
+    text.replace(FOREIGN_DIGIT_REGEX[target], (digit) => toDigitScript(digit, target));
+
+/**
+ * Persian/Urdu letters folded by `normalizeArabicLetters` unless other `variants` are given.
+ */
+export const DEFAULT_ARABIC_LETTER_VARIANTS: Readonly<Record<string, string>> = {
+    ک: 'ك', // U+06A9 keheh
+    ھ: 'ه', // U+06BE heh doachashmee
+    ہ: 'ه', // U+06C1 heh goal
+    ۃ: 'ة', // U+06C3 teh marbuta goal
+    ی: 'ي', // U+06CC farsi yeh
+    ے: 'ي', // U+06D2 yeh barree
+};
+
+/**
+ * Arabic Presentation Forms-A and -B that NFKC folds into letters. Left out: the Forms-A
+ * symbols, the ornate parentheses ﴾﴿, the honorifics and word ligatures (ﷺ, ﷻ, ﷲ, ...) that
+ * would expand into whole phrases, and U+FEFF, the byte order mark, which is left to
+ * `removeZeroWidth`.
+ */
+export const PRESENTATION_FORM_CLASS =
+    '[\\uFB50-\\uFBB1\\uFBD3-\\uFD3D\\uFD50-\\uFDC7\\uFE70-\\uFE72\\uFE74\\uFE76-\\uFEFC]';
+
+type LetterFolder = { fold: (match: string) => string; regex: RegExp };
+
+const letterFolders = new WeakMap<Readonly<Record<string, string>>, LetterFolder>();
+
+/**
+ * One regex for presentation forms and variants, so each match maps to a single output run.
+ * No `u` flag: the class is all BMP, and under `u` Bun's JavaScriptCore reads a character in
+ * U+F800–U+FBFF followed by one in U+FC00–U+FFFF as a surrogate pair, so `ﮩﻞ` matches nothing.
+ */
+const getLetterFolder = (variants: Readonly<Record<string, string>>) => {
+    let folder = letterFolders.get(variants);
+    if (!folder) {
+        const keys = Object.keys(variants)
+            .filter(Boolean)
+            .sort((a, b) => b.length - a.length)
+            .map(escapeRegex);
+        const variantRegex = keys.length > 0 ? new RegExp(keys.join('|'), 'g') : null;
+        const replaceVariants = (text: string) =>
+            variantRegex ? text.replace(variantRegex, (variant) => variants[variant]!) : text;
+        folder = {
+            // Anything matched that is not a variant is a presentation form
+            fold: (match) => variants[match] ?? replaceVariants(match.normalize('NFKC')),
+            regex: new RegExp([PRESENTATION_FORM_CLASS, ...keys].join('|'), 'g'),
+        };
+        letterFolders.set(variants, folder);
+    }
+    return folder;
+};
+
+/**
+ * Fold Arabic Presentation Forms to standard letters and replace letter variants.
+ *
+ * @param text - Input text
+ * @param variants - Variant → standard letter map (default `DEFAULT_ARABIC_LETTER_VARIANTS`)
+ * @returns Text using standard Arabic letters
+ *
+ * @example
+ * normalizeArabicLetters('ﺣﺪﺛﻨﺎ یحیی') // → 'حدثنا يحيي'
+ * normalizeArabicLetters('ﻻ', {}) // → 'لا'
+ */
+export const normalizeArabicLetters = (
+    text: string,
+    variants: Readonly<Record<string, string>> = DEFAULT_ARABIC_LETTER_VARIANTS,
+): string => {
+    const { fold, regex } = getLetterFolder(variants);
+    return text.replace(regex, fold);
+};
+
+type RegexCacheEntry = { regexes: Map<string, RegExp>; tokens?: CustomTokens };
+
+/**
+ * Compiled transform patterns, held by the transform object they came from, so they are
+ * dropped along with the options instead of piling up in a long-running process.
+ */
+const regexCache = new WeakMap<object, RegexCacheEntry>();
+
+const getCachedRegex = (owner: object, key: string, tokens: CustomTokens | undefined, compile: () => RegExp) => {
+    let entry = regexCache.get(owner);
+    if (!entry || entry.tokens !== tokens) {
+        entry = { regexes: new Map(), tokens };
+        regexCache.set(owner, entry);
+    }
+    let regex = entry.regexes.get(key);
+    if (!regex) {
+        regex = compile();
+        entry.regexes.set(key, regex);
+    }
+    return regex;
+};
+
+/**
+ * Compiles the pattern of a `replace` transform: tokens are expanded and the `g` and `u`
+ * flags are added to `flags`.
+ *
+ * @param pattern - Pattern with optional `{{token}}` placeholders
+ * @param flags - Extra regex flags
+ * @param tokens - Custom tokens (`SegmentationOptions.tokens`)
+ * @returns Global, unicode regex
+ * @throws SyntaxError when the expanded pattern or the flags are invalid
+ *
+ * @example
+ * compileReplacePattern('^({{raqms}}) ـ ', 'm') // → /^([\u0660-\u0669]+) ـ /gmu
+ */
+export const compileReplacePattern = (pattern: string, flags = '', tokens?: CustomTokens) =>
+    new RegExp(expandTokens(pattern, tokens), [...new Set(`${flags}gu`)].join(''));
+
+const getReplaceRegex = (rule: ReplaceRule, tokens: CustomTokens | undefined) =>
+    getCachedRegex(rule, '', tokens, () => compileReplacePattern(rule.pattern, rule.flags, tokens));
+
+/** Page edges `stripRunningHeaders` removes lines from. */
+export type RunningHeaderEdges = 'top' | 'bottom' | 'both';
+
+// Horizontal whitespace only, so an edge pattern never reaches into the next line
+const EDGE_SPACE = '[^\\S\\n]*';
+
+/**
+ * One regex removing a matching first line (with blank lines before it) and a matching last
+ * line (with the line break before it). The top alternative is tried first, so a page that
+ * is a single header line is matched once.
+ */
+const compileRunningHeaderRegex = (headers: string[], position: RunningHeaderEdges, tokens?: CustomTokens) =>
+    getCachedRegex(headers, position, tokens, () => {
+        const header = `${EDGE_SPACE}(?:${headers.map((h) => expandTokens(h, tokens)).join('|')})${EDGE_SPACE}`;
+        const top = `^(?:${EDGE_SPACE}\\n)*${header}(?:\\n|$)`;
+        const bottom = `(?:^|\\n)${header}\\s*$`;
+        return new RegExp(position === 'top' ? top : position === 'bottom' ? bottom : `${top}|${bottom}`, 'gu');
+    });
+
+/**
+ * Remove running headers and footers: the first and/or last non-empty line of a page, when
+ * the whole line matches one of `headers`.
+ *
+ * @param text - Page content
+ * @param headers - Template patterns for whole header lines (see `analyzeRunningHeaders()`)
+ * @param position - Page edge to strip (default `'both'`)
+ * @param tokens - Custom tokens (`SegmentationOptions.tokens`)
+ * @returns Page content without its header and footer lines
+ *
+ * @example
+ * stripRunningHeaders('كتاب الطهارة\nحدثنا...\n- ١٢ -', ['كتاب\\s+الطهارة', '-\\s+{{raqms}}\\s+-'])
+ * // → 'حدثنا...'
+ */
+export const stripRunningHeaders = (
+    text: string,
+    headers: string[],
+    position: RunningHeaderEdges = 'both',
+    tokens?: CustomTokens,
+): string => (headers.length > 0 ? text.replace(compileRunningHeaderRegex(headers, position, tokens), '') : text);
+
+/** Header patterns of a `stripRunningHeaders` transform; detection needs every page, not one. */
+const getRunningHeaders = (rule: { headers?: string[] }) => {
+    if (!rule.headers) {
+        throw new Error(
+            'stripRunningHeaders without headers must run over all pages; pass headers (see analyzeRunningHeaders()).',
+        );
+    }
+    return rule.headers;
+};
+
+/** `$n`/`$nn` as `String.prototype.replace` reads it: two digits if that group exists, else one. */
+const expandGroupReference = (digits: string, match: RegExpMatchArray) => {
+    const groupCount = match.length - 1;
+    const two = Number(digits);
+    if (digits.length === 2 && two >= 1 && two <= groupCount) {
+        return match[two] ?? '';
+    }
+    const one = Number(digits[0]);
+    return one >= 1 && one <= groupCount ? (match[one] ?? '') + digits.slice(1) : null;
+};
+
+/**
+ * Expands `$`-references in a replacement for one match, the same way `String.prototype.replace` does.
+ */
+const expandReplacement = (replacement: string, match: RegExpMatchArray, text: string) => {
+    if (!replacement.includes('$')) {
+        return replacement;
+    }
+    const start = match.index!;
+    const special: Record<string, () => string> = {
+        "'": () => text.slice(start + match[0].length),
+        '&': () => match[0],
+        '`': () => text.slice(0, start),
+        $: () => '$',
+    };
+    return replacement.replace(/\$(\$|&|`|'|\d\d?|<[^>]*>)/g, (whole, ref: string) => {
+        if (special[ref]) {
+            return special[ref]();
+        }
+        if (ref.startsWith('<')) {
+            return match.groups ? (match.groups[ref.slice(1, -1)] ?? '') : whole;
+        }
+        return expandGroupReference(ref, match) ?? whole;
+    });
+};
 
 /**
  * Check if a page ID is within a constraint range.
@@ -90,14 +325,7 @@ const isInRange = (pageId: number, constraint: PageRangeConstraint): boolean =>
 /**
  * Normalize a transform to its object form.
  */
-const normalizeTransform = (
-    transform: PreprocessTransform,
-): {
-    type: 'removeZeroWidth' | 'condenseEllipsis' | 'fixTrailingWaw';
-    mode?: 'strip' | 'space';
-    min?: number;
-    max?: number;
-} => {
+const normalizeTransform = (transform: PreprocessTransform): PreprocessRule => {
     if (typeof transform === 'string') {
         return { type: transform };
     }
@@ -113,9 +341,15 @@ const normalizeTransform = (
  * @param content - Page content to transform
  * @param pageId - Page ID for constraint checking
  * @param transforms - Array of transforms to apply
+ * @param tokens - Custom tokens available to `replace` and `stripRunningHeaders` patterns (`SegmentationOptions.tokens`)
  * @returns Transformed content
  */
-export const applyPreprocessToPage = (content: string, pageId: number, transforms: PreprocessTransform[]): string => {
+export const applyPreprocessToPage = (
+    content: string,
+    pageId: number,
+    transforms: PreprocessTransform[],
+    tokens?: CustomTokens,
+): string => {
     let result = content;
 
     for (const transform of transforms) {
@@ -137,11 +371,104 @@ export const applyPreprocessToPage = (content: string, pageId: number, transform
             case 'fixTrailingWaw':
                 result = fixTrailingWaw(result);
                 break;
+            case 'normalizeDigits':
+                result = normalizeDigits(result, rule.target);
+                break;
+            case 'normalizeArabicLetters':
+                result = normalizeArabicLetters(result, rule.variants);
+                break;
+            case 'replace':
+                result = result.replace(getReplaceRegex(rule, tokens), rule.replacement);
+                break;
+            case 'stripRunningHeaders':
+                result = stripRunningHeaders(result, getRunningHeaders(rule), rule.position, tokens);
+                break;
             default:
                 // TypeScript will error if a new transform type is added but not handled
-                assertNever(rule.type);
+                assertNever(rule);
         }
     }
 
     return result;
 };
+
+/**
+ * Rewrites one transform while recording offsets. Output text is identical to the plain transform.
+ */
+const applyTransformWithOffsetMap = (
+    text: string,
+    rule: PreprocessRule,
+    tokens: CustomTokens | undefined,
+): { content: string; offsetMap: OffsetMap | null } => {
+    switch (rule.type) {
+        case 'removeZeroWidth':
+            if (rule.mode === 'space') {
+                // A run becomes one space unless it starts the text or follows whitespace (as in removeZeroWidth)
+                return replaceWithOffsetMap(text, ZERO_WIDTH_RUN_REGEX, (_, offset) =>
+                    offset > 0 && !isWhitespace(text[offset - 1]) ? ' ' : '',
+                );
+            }
+            return replaceWithOffsetMap(text, ZERO_WIDTH_REGEX, () => '');
+        case 'condenseEllipsis':
+            return replaceWithOffsetMap(text, ELLIPSIS_REGEX, () => '…');
+        case 'fixTrailingWaw':
+            return replaceWithOffsetMap(text, TRAILING_WAW_REGEX, () => ' و');
+        case 'normalizeDigits': {
+            const target = rule.target ?? 'arabic';
+            return replaceWithOffsetMap(text, FOREIGN_DIGIT_REGEX[target], (digit) => toDigitScript(digit, target));
+        }
+        case 'normalizeArabicLetters': {
+            const { fold, regex } = getLetterFolder(rule.variants ?? DEFAULT_ARABIC_LETTER_VARIANTS);
+            return replaceWithOffsetMap(text, regex, fold);
+        }
+        case 'replace':
+            return replaceWithOffsetMap(text, getReplaceRegex(rule, tokens), (_, _offset, match) =>
+                expandReplacement(rule.replacement, match, text),
+            );
+        case 'stripRunningHeaders': {
+            const headers = getRunningHeaders(rule);
+            return headers.length > 0
+                ? replaceWithOffsetMap(
+                      text,
+                      compileRunningHeaderRegex(headers, rule.position ?? 'both', tokens),
+                      () => '',
+                  )
+                : { content: text, offsetMap: null };
+        }
+        default:
+            return assertNever(rule);
+    }
+};
+
+/**
+ * Apply preprocessing transforms like `applyPreprocessToPage`, additionally returning
+ * an offset map from the transformed content back to the original content.
+ *
+ * @param content - Original page content
+ * @param pageId - Page ID for constraint checking
+ * @param transforms - Array of transforms to apply
+ * @param tokens - Custom tokens available to `replace` and `stripRunningHeaders` patterns
+ * @returns Transformed content and its offset map (`null` when nothing changed)
+ */
+export const applyPreprocessToPageWithOffsetMap = (
+    content: string,
+    pageId: number,
+    transforms: PreprocessTransform[],
+    tokens?: CustomTokens,
+): { content: string; offsetMap: OffsetMap | null } => {
+    let result = content;
+    let offsetMap: OffsetMap | null = null;
+
+    for (const transform of transforms) {
+        const rule = normalizeTransform(transform);
+        if (!isInRange(pageId, rule)) {
+            continue;
+        }
+
+        const step = applyTransformWithOffsetMap(result, rule, tokens);
+        result = step.content;
+        offsetMap = composeOffsetMaps(offsetMap, step.offsetMap);
+    }
+
+    return { content: result, offsetMap };
+};
@@ -7,7 +7,8 @@
 
 import type { Breakpoint, BreakpointRule } from '@/types/breakpoints.js';
 import type { Page, Segment } from '@/types/index.js';
-import type { Logger } from '@/types/options.js';
+import type { Logger, PieceOverlap } from '@/types/options.js';
+import type { PageBoundary } from '@/types/segmenter.js';
 import { adjustForUnicodeBoundary } from '@/utils/textUtils.js';
 import { FAST_PATH_THRESHOLD } from './breakpoint-constants.js';
 import type { PatternProcessor } from './breakpoint-utils.js';
@@ -16,16 +17,28 @@ import {
     type BreakpointContext,
     buildBoundaryPositions,
     createSegment,
+    type ExpandedBreakpoint,
     expandBreakpoints,
     findBreakPosition,
     findBreakpointWindowEndPosition,
     findExclusionBreakPosition,
     findPageIndexForPosition,
     findSafeBreakPosition,
+    findTokenWindowLength,
     hasExcludedPageInRange,
     type NormalizedPage,
 } from './breakpoint-utils.js';
 import { buildBreakpointDebugPatch, mergeDebugIntoMeta } from './debug-meta.js';
+import { HEADING_CONTEXT_META_KEY, headingBodyContexts } from './heading-context.js';
+import { applyPieceOverlap } from './piece-overlap.js';
+import {
+    type CompiledProtectedSpan,
+    findEnclosingProtectedSpan,
+    findProtectedSpans,
+    type ProtectedRange,
+} from './protected-spans.js';
+import { attachPieceSourceSpans } from './source-spans.js';
+import type { TokenLimit } from './token-limit.js';
 
 const buildPageIdToIndexMap = (pageIds: number[]) => new Map(pageIds.map((id, i) => [id, i]));
 
@@ -141,9 +154,16 @@ export const computeNextFromIdx = (
 type BreakpointMatchInfo = {
     breakpointIndex: number;
     rule: BreakpointRule;
+    score?: number;
     wordIndex?: number;
 };
 
+/** Reported when a protected span alone exceeds the window and has to be cut */
+type ProtectedSpanSplit = { spanLength: number; windowLength: number };
+
+/** Why a piece was cut at a length limit; `maxTokens` is set when the token budget was the tighter one. */
+type ContentLengthSplit = { maxContentLength: number; maxTokens?: number; reason: 'whitespace' | 'unicode_boundary' };
+
 type IterativeProcessingState = {
     cursorPos: number;
     currentFromIdx: number;
@@ -153,6 +173,7 @@ type IterativeProcessingState = {
 
 type IterativeProcessingContext = {
     boundaryPositions: number[];
+    breakpointScoring: 'order' | 'weighted';
     cumulativeOffsets: number[];
     debugMetaKey?: string;
     expandedBreakpoints: ReturnType<typeof expandBreakpoints>;
@@ -161,10 +182,15 @@ type IterativeProcessingContext = {
     logger?: Logger;
     maxContentLength?: number;
     maxPages: number;
+    minContentLength?: number;
     normalizedPages: Map<number, NormalizedPage>;
     pageIds: number[];
-    prefer: 'longer' | 'shorter';
+    prefer: 'balanced' | 'longer' | 'shorter';
+    protectedSpans: ProtectedRange[];
     segment: Segment;
+    /** Set on the per-iteration context when `maxContentLength` was narrowed to this token budget */
+    tokenBound?: number;
+    tokenLimit?: TokenLimit;
     toIdx: number;
 };
 
@@ -206,8 +232,10 @@ const findBreakOffsetForWindow = (
     expandedBreakpoints: ReturnType<typeof expandBreakpoints>,
     cumulativeOffsets: number[],
     normalizedPages: Map<number, NormalizedPage>,
-    prefer: 'longer' | 'shorter',
+    prefer: 'balanced' | 'longer' | 'shorter',
     maxContentLength?: number,
+    isProtected?: (pos: number) => boolean,
+    selection: Pick<BreakpointContext, 'isSliver' | 'scoring' | 'targetPosition'> = {},
 ) => {
     const windowHasExclusions = hasAnyExclusionsInRange(expandedBreakpoints, pageIds, currentFromIdx, windowEndIdx);
 
@@ -225,7 +253,14 @@ const findBreakOffsetForWindow = (
         }
     }
 
-    const breakpointCtx: BreakpointContext = { expandedBreakpoints, normalizedPages, pageIds, prefer };
+    const breakpointCtx: BreakpointContext = {
+        expandedBreakpoints,
+        isProtected,
+        normalizedPages,
+        pageIds,
+        prefer,
+        ...selection,
+    };
     const patternMatch = findBreakPosition(
         remainingContent,
         currentFromIdx,
@@ -242,6 +277,7 @@ const findBreakOffsetForWindow = (
             breakpointIndex: patternMatch.breakpointIndex,
             breakpointRule: patternMatch.rule,
             contentLengthSplit: patternMatch.contentLengthSplit,
+            score: patternMatch.score,
             wordIndex: patternMatch.wordIndex,
         };
     }
@@ -526,7 +562,8 @@ const getSegmentMetaWithDebug = (
     debugMetaKey: string | undefined,
     originalMeta: Segment['meta'] | undefined,
     lastBreakpoint: BreakpointMatchInfo | null,
-    contentLengthSplit?: { reason: 'whitespace' | 'unicode_boundary'; maxContentLength: number },
+    contentLengthSplit?: ContentLengthSplit,
+    protectedSpanSplit?: ProtectedSpanSplit,
 ) => {
     const includeMeta = isFirstPiece || Boolean(debugMetaKey);
     if (!includeMeta) {
@@ -544,6 +581,7 @@ const getSegmentMetaWithDebug = (
                     lastBreakpoint.breakpointIndex,
                     lastBreakpoint.rule,
                     lastBreakpoint.wordIndex,
+                    lastBreakpoint.score,
                 ),
             );
         }
@@ -551,10 +589,14 @@ const getSegmentMetaWithDebug = (
             meta = mergeDebugIntoMeta(meta, debugMetaKey, {
                 contentLengthSplit: {
                     maxContentLength: contentLengthSplit.maxContentLength,
+                    ...(contentLengthSplit.maxTokens ? { maxTokens: contentLengthSplit.maxTokens } : {}),
                     splitReason: contentLengthSplit.reason,
                 },
             });
         }
+        if (protectedSpanSplit) {
+            meta = mergeDebugIntoMeta(meta, debugMetaKey, { protectedSpanSplit });
+        }
     }
 
     return meta;
@@ -706,6 +748,7 @@ const updateLastBreakpointFromFound = (
         return {
             breakpointIndex: found.breakpointIndex,
             rule: found.breakpointRule,
+            score: found.score,
             wordIndex: found.wordIndex,
         };
     }
@@ -721,10 +764,14 @@ const buildIterativeContext = (
     cumulativeOffsets: number[],
     expandedBreakpoints: ReturnType<typeof expandBreakpoints>,
     maxPages: number,
-    prefer: 'longer' | 'shorter',
+    prefer: 'balanced' | 'longer' | 'shorter',
     logger?: Logger,
     debugMetaKey?: string,
     maxContentLength?: number,
+    protectedSpans: ProtectedRange[] = [],
+    tokenLimit?: TokenLimit,
+    minContentLength?: number,
+    breakpointScoring: 'order' | 'weighted' = 'order',
 ): IterativeProcessingContext => {
     const fullContent = segment.content;
     const boundaryPositions = buildBoundaryPositions(
@@ -746,6 +793,7 @@ const buildIterativeContext = (
 
     return {
         boundaryPositions,
+        breakpointScoring,
         cumulativeOffsets,
         debugMetaKey,
         expandedBreakpoints,
@@ -754,14 +802,38 @@ const buildIterativeContext = (
         logger,
         maxContentLength,
         maxPages,
+        minContentLength,
         normalizedPages,
         pageIds,
         prefer,
+        protectedSpans,
         segment,
         toIdx,
+        tokenLimit,
     };
 };
 
+/**
+ * Narrows `maxContentLength` to the characters from `cursorPos` that fit in `maxTokens`, so the
+ * window, safe-break and fit checks all work with a single character limit.
+ */
+const limitByTokens = (context: IterativeProcessingContext, cursorPos: number): IterativeProcessingContext => {
+    const { maxContentLength, tokenLimit } = context;
+    if (!tokenLimit) {
+        return context;
+    }
+    const tokenChars = findTokenWindowLength(
+        context.fullContent,
+        cursorPos,
+        tokenLimit.maxTokens,
+        tokenLimit.countTokens,
+    );
+    if (maxContentLength && maxContentLength <= tokenChars) {
+        return context;
+    }
+    return { ...context, maxContentLength: tokenChars, tokenBound: tokenLimit.maxTokens };
+};
+
 const createInitialIterativeState = (fromIdx: number): IterativeProcessingState => ({
     currentFromIdx: fromIdx,
     cursorPos: 0,
@@ -842,7 +914,8 @@ const appendPieceAndAdvance = (
     breakPos: number,
     pieceContent: string,
     result: Segment[],
-    contentLengthSplit?: { reason: 'whitespace' | 'unicode_boundary'; maxContentLength: number },
+    contentLengthSplit?: ContentLengthSplit,
+    protectedSpanSplit?: ProtectedSpanSplit,
 ): IterativeProcessingState => {
     let { actualEndIdx, actualStartIdx } = computePiecePages(
         state.cursorPos,
@@ -881,6 +954,7 @@ const appendPieceAndAdvance = (
         context.segment.meta,
         state.lastBreakpoint,
         contentLengthSplit,
+        protectedSpanSplit,
     );
     const pieceSeg = createPieceSegment(pieceContent, actualStartIdx, actualEndIdx, context.pageIds, meta, true);
     if (pieceSeg) {
@@ -1044,6 +1118,73 @@ const tryFinalizeIteration = (
         result,
     );
 
+/**
+ * Whether a piece starting at the span would hold all of it (within `maxContentLength` and the
+ * `maxPages` window of the span's page).
+ */
+const fitsInWindowFrom = (span: ProtectedRange, context: IterativeProcessingContext) => {
+    if (context.maxContentLength && span.end - span.start > context.maxContentLength) {
+        return false;
+    }
+    const startIdx = findPageIndexForPosition(span.start, context.boundaryPositions, context.fromIdx);
+    const endIdx = computeWindowEndIdx(startIdx, context.toIdx, context.pageIds, context.maxPages);
+    return span.end <= (context.boundaryPositions[endIdx - context.fromIdx + 1] ?? context.fullContent.length);
+};
+
+/**
+ * Keeps a break out of protected spans: it moves back to where the span starts or, when the span
+ * began in an earlier piece and closes within the window, forward to where it ends. A span that
+ * no window can hold is cut anyway, and the cut is reported.
+ */
+const avoidProtectedSpanCut = (
+    found: ReturnType<typeof findBreakOffsetForWindow>,
+    context: IterativeProcessingContext,
+    cursorPos: number,
+    windowEndPosition: number,
+): ReturnType<typeof findBreakOffsetForWindow> & { protectedSpanSplit?: ProtectedSpanSplit } => {
+    const span = findEnclosingProtectedSpan(context.protectedSpans, cursorPos + found.breakOffset);
+    if (!span) {
+        return found;
+    }
+    if (span.start > cursorPos && fitsInWindowFrom(span, context)) {
+        return { ...found, breakOffset: span.start - cursorPos };
+    }
+    if (span.end - cursorPos <= windowEndPosition) {
+        return { ...found, breakOffset: span.end - cursorPos };
+    }
+
+    const protectedSpanSplit = { spanLength: span.end - span.start, windowLength: windowEndPosition };
+    context.logger?.warn?.('[breakpoints] Protected span exceeds the window; cutting inside it', {
+        cursorPos,
+        spanStart: span.start,
+        ...protectedSpanSplit,
+    });
+    return { ...found, protectedSpanSplit };
+};
+
+/**
+ * How to choose among breakpoint matches after `cursorPos`. `prefer: 'balanced'` aims for an even
+ * share of the rest of the segment (its length over the number of windows it still needs), and
+ * `minContentLength` marks breaks that would leave a short piece or a short remainder.
+ */
+const buildBreakSelection = (
+    context: IterativeProcessingContext,
+    cursorPos: number,
+    windowEndPosition: number,
+): Pick<BreakpointContext, 'isSliver' | 'scoring' | 'targetPosition'> => {
+    const remaining = context.fullContent.length - cursorPos;
+    const { minContentLength } = context;
+    const isShort = (length: number) => length > 0 && length < minContentLength!;
+    return {
+        isSliver: minContentLength ? (pos) => isShort(pos) || isShort(remaining - pos) : undefined,
+        scoring: context.breakpointScoring,
+        targetPosition:
+            context.prefer === 'balanced' && windowEndPosition > 0
+                ? remaining / Math.ceil(remaining / windowEndPosition)
+                : undefined,
+    };
+};
+
 const applyBreakpointToIteration = (
     context: IterativeProcessingContext,
     state: IterativeProcessingState,
@@ -1058,18 +1199,28 @@ const applyBreakpointToIteration = (
         windowEndPosition: prepared.windowEndPosition,
     });
 
-    const found = findBreakOffsetForWindow(
-        prepared.remainingContent,
-        state.currentFromIdx,
-        prepared.windowEndIdx,
-        context.toIdx,
+    const { cursorPos } = state;
+    const found = avoidProtectedSpanCut(
+        findBreakOffsetForWindow(
+            prepared.remainingContent,
+            state.currentFromIdx,
+            prepared.windowEndIdx,
+            context.toIdx,
+            prepared.windowEndPosition,
+            context.pageIds,
+            context.expandedBreakpoints,
+            context.cumulativeOffsets,
+            context.normalizedPages,
+            context.prefer,
+            context.maxContentLength,
+            context.protectedSpans.length > 0
+                ? (pos) => findEnclosingProtectedSpan(context.protectedSpans, cursorPos + pos) !== undefined
+                : undefined,
+            buildBreakSelection(context, cursorPos, prepared.windowEndPosition),
+        ),
+        context,
+        cursorPos,
         prepared.windowEndPosition,
-        context.pageIds,
-        context.expandedBreakpoints,
-        context.cumulativeOffsets,
-        context.normalizedPages,
-        context.prefer,
-        context.maxContentLength,
     );
 
     const breakOffset = ensureProgressingBreakOffset(
@@ -1094,7 +1245,17 @@ const applyBreakpointToIteration = (
         };
     }
 
-    return appendPieceAndAdvance(context, nextState, breakPos, pieceContent, result, found.contentLengthSplit);
+    return appendPieceAndAdvance(
+        context,
+        nextState,
+        breakPos,
+        pieceContent,
+        result,
+        found.contentLengthSplit && context.tokenBound
+            ? { ...found.contentLengthSplit, maxTokens: context.tokenBound }
+            : found.contentLengthSplit,
+        found.protectedSpanSplit,
+    );
 };
 
 const processOversizedSegmentIterative = (
@@ -1106,10 +1267,14 @@ const processOversizedSegmentIterative = (
     cumulativeOffsets: number[],
     expandedBreakpoints: ReturnType<typeof expandBreakpoints>,
     maxPages: number,
-    prefer: 'longer' | 'shorter',
+    prefer: 'balanced' | 'longer' | 'shorter',
     logger?: Logger,
     debugMetaKey?: string,
     maxContentLength?: number,
+    protectedSpans: ProtectedRange[] = [],
+    tokenLimit?: TokenLimit,
+    minContentLength?: number,
+    breakpointScoring?: 'order' | 'weighted',
 ) => {
     const result: Segment[] = [];
     const pageCount = toIdx - fromIdx + 1;
@@ -1121,11 +1286,12 @@ const processOversizedSegmentIterative = (
         fromIdx,
         maxContentLength,
         maxPages,
+        maxTokens: tokenLimit?.maxTokens,
         pageCount,
         toIdx,
     });
 
-    const context = buildIterativeContext(
+    const baseContext = buildIterativeContext(
         segment,
         fromIdx,
         toIdx,
@@ -1138,12 +1304,17 @@ const processOversizedSegmentIterative = (
         logger,
         debugMetaKey,
         maxContentLength,
+        protectedSpans,
+        tokenLimit,
+        minContentLength,
+        breakpointScoring,
     );
     let state = createInitialIterativeState(fromIdx);
 
     // Termination relies on monotonic cursor advancement, not a fixed iteration cap.
     // This keeps the iterative path safe for arbitrarily large segments without truncating.
     for (let iteration = 1; ; iteration++) {
+        const context = limitByTokens(baseContext, state.cursorPos);
         const prepared = prepareIteration(context, state);
         if (!prepared) {
             break;
@@ -1161,7 +1332,7 @@ const processOversizedSegmentIterative = (
 
         const nextState = applyBreakpointToIteration(context, state, prepared, iteration, result);
         if (nextState.cursorPos <= state.cursorPos) {
-            context.logger?.error?.('[breakpoints] Iterative splitting stalled; aborting to avoid an infinite loop', {
+            logger?.error?.('[breakpoints] Iterative splitting stalled; aborting to avoid an infinite loop', {
                 cursorPos: state.cursorPos,
                 iteration,
                 nextCursorPos: nextState.cursorPos,
@@ -1175,6 +1346,60 @@ const processOversizedSegmentIterative = (
     return result;
 };
 
+/**
+ * Only the first piece starts the structural level (continuations are body text), but every
+ * piece stays under the headings of the segment it was cut from, and continuations of a
+ * heading segment under the heading itself too.
+ */
+const carryStructureToPieces = (segment: Segment, pieces: Segment[]) => {
+    if (segment.level !== undefined && pieces[0]) {
+        pieces[0].level = segment.level;
+    }
+    const headingContext = headingBodyContexts.get(segment) ?? segment.meta?.[HEADING_CONTEXT_META_KEY];
+    if (headingContext !== undefined) {
+        for (const piece of pieces.slice(1)) {
+            piece.meta = { ...piece.meta, [HEADING_CONTEXT_META_KEY]: headingContext };
+        }
+    }
+};
+
+/**
+ * Repeats the end of each piece at the start of the next (`overlap`), attributing the
+ * repeated text to the pages it comes from.
+ */
+const overlapPieces = (
+    segment: Segment,
+    pieces: Segment[],
+    overlap: PieceOverlap | undefined,
+    fromIdx: number,
+    toIdx: number,
+    pageIds: number[],
+    normalizedPages: Map<number, NormalizedPage>,
+    cumulativeOffsets: number[],
+    expandedBreakpoints: ExpandedBreakpoint[],
+    logger?: Logger,
+) => {
+    if (!overlap || pieces.length < 2) {
+        return pieces;
+    }
+    const boundaryPositions = buildBoundaryPositions(
+        segment.content,
+        fromIdx,
+        toIdx,
+        pageIds,
+        normalizedPages,
+        cumulativeOffsets,
+        logger,
+    );
+    return applyPieceOverlap(
+        segment.content,
+        pieces,
+        overlap,
+        expandedBreakpoints,
+        (offset) => pageIds[Math.min(findPageIndexForPosition(offset, boundaryPositions, fromIdx), toIdx)],
+    );
+};
+
 /**
  * Applies breakpoints to oversized segments.
  *
@@ -1195,24 +1420,34 @@ const processOversizedSegment = (
     cumulativeOffsets: number[],
     expandedBreakpoints: ReturnType<typeof expandBreakpoints>,
     maxPages: number,
-    prefer: 'longer' | 'shorter',
+    prefer: 'balanced' | 'longer' | 'shorter',
     logger?: Logger,
     debugMetaKey?: string,
     maxContentLength?: number,
+    protect: CompiledProtectedSpan[] = [],
+    tokenLimit?: TokenLimit,
+    minContentLength?: number,
+    breakpointScoring?: 'order' | 'weighted',
 ) => {
-    const fast = tryProcessOversizedSegmentFastPath(
-        segment,
-        fromIdx,
-        toIdx,
-        pageIds,
-        normalizedPages,
-        cumulativeOffsets,
-        expandedBreakpoints,
-        maxPages,
-        logger,
-        debugMetaKey,
-        maxContentLength,
-    );
+    const protectedSpans = protect.length > 0 ? findProtectedSpans(segment.content, protect) : [];
+    // The fast path cuts at page boundaries blindly, so it only runs when nothing is protected
+    // and there is no token budget to measure
+    const fast =
+        protectedSpans.length === 0 &&
+        !tokenLimit &&
+        tryProcessOversizedSegmentFastPath(
+            segment,
+            fromIdx,
+            toIdx,
+            pageIds,
+            normalizedPages,
+            cumulativeOffsets,
+            expandedBreakpoints,
+            maxPages,
+            logger,
+            debugMetaKey,
+            maxContentLength,
+        );
     if (fast) {
         return fast;
     }
@@ -1230,28 +1465,54 @@ const processOversizedSegment = (
         logger,
         debugMetaKey,
         maxContentLength,
+        protectedSpans,
+        tokenLimit,
+        minContentLength,
+        breakpointScoring,
     );
 };
 
+const fitsInTokens = (content: string, tokenLimit: TokenLimit | undefined) =>
+    !tokenLimit || tokenLimit.countTokens(content) <= tokenLimit.maxTokens;
+
 export const applyBreakpoints = (
     segments: Segment[],
     pages: Page[],
     normalizedContent: string[],
     maxPages: number,
     breakpoints: Breakpoint[],
-    prefer: 'longer' | 'shorter',
+    prefer: 'balanced' | 'longer' | 'shorter',
     patternProcessor: PatternProcessor,
     logger?: Logger,
     pageJoiner: 'space' | 'newline' = 'space',
     debugMetaKey?: string,
     maxContentLength?: number,
     rawPatternProcessor?: PatternProcessor,
+    expandedBreakpoints: ExpandedBreakpoint[] = expandBreakpoints(breakpoints, patternProcessor, rawPatternProcessor),
+    protect: CompiledProtectedSpan[] = [],
+    overlap?: PieceOverlap,
+    tokenLimit?: TokenLimit,
+    minContentLength?: number,
+    breakpointScoring?: 'order' | 'weighted',
 ) => {
     const pageIds = pages.map((p) => p.id);
     const pageIdToIndex = buildPageIdToIndexMap(pageIds);
     const normalizedPages = buildNormalizedPagesMap(pages, normalizedContent);
     const cumulativeOffsets = buildCumulativeOffsets(pageIds, normalizedPages);
-    const expandedBreakpoints = expandBreakpoints(breakpoints, patternProcessor, rawPatternProcessor);
+
+    // Only built when a segment carries source spans (`sourceSpans: true`)
+    let sourceContext: { boundaries: PageBoundary[]; content: string } | undefined;
+    const getSourceContext = () => {
+        sourceContext ??= {
+            boundaries: pageIds.map((id, i) => ({
+                end: cumulativeOffsets[i] + normalizedContent[i].length,
+                id,
+                start: cumulativeOffsets[i],
+            })),
+            content: normalizedContent.join('\n'),
+        };
+        return sourceContext;
+    };
 
     const result: Segment[] = [];
 
@@ -1270,7 +1531,9 @@ export const applyBreakpoints = (
         const hasExclusions = hasAnyExclusionsInRange(expandedBreakpoints, pageIds, fromIdx, toIdx);
 
         const fitsInPages = segmentSpan <= maxPages;
-        const fitsInLength = !maxContentLength || segment.content.length <= maxContentLength;
+        const fitsInLength =
+            (!maxContentLength || segment.content.length <= maxContentLength) &&
+            fitsInTokens(segment.content, tokenLimit);
 
         if (fitsInPages && fitsInLength && !hasExclusions) {
             result.push(segment);
@@ -1288,21 +1551,42 @@ export const applyBreakpoints = (
             to: segment.to,
         });
 
-        const broken = processOversizedSegment(
+        const broken = overlapPieces(
             segment,
+            processOversizedSegment(
+                segment,
+                fromIdx,
+                toIdx,
+                pageIds,
+                normalizedPages,
+                cumulativeOffsets,
+                expandedBreakpoints,
+                maxPages,
+                prefer,
+                logger,
+                debugMetaKey,
+                maxContentLength,
+                protect,
+                tokenLimit,
+                minContentLength,
+                breakpointScoring,
+            ),
+            overlap,
             fromIdx,
             toIdx,
             pageIds,
             normalizedPages,
             cumulativeOffsets,
             expandedBreakpoints,
-            maxPages,
-            prefer,
             logger,
-            debugMetaKey,
-            maxContentLength,
         );
 
+        carryStructureToPieces(segment, broken);
+        if (segment.source) {
+            const { boundaries, content } = getSourceContext();
+            attachPieceSourceSpans(segment, broken, content, boundaries, pageIdToIndex);
+        }
+
         // Normalize page joins for breakpoint-created pieces
         result.push(
             ...broken.map((s) => {
@@ -23,6 +23,7 @@ import {
     findPageStartNearExpectedBoundary,
     findPatternBreakPosition,
     findSafeBreakPosition,
+    findTokenWindowLength,
     hasExcludedPageInRange,
     isInBreakpointRange,
     isPageExcluded,
@@ -83,6 +84,16 @@ describe('breakpoint-utils', () => {
             const rule = { regex: 'X', words: ['test'] };
             expect(() => normalizeBreakpoint(rule)).toThrow('cannot be combined');
         });
+
+        it('should throw on a weight that is not a positive number', () => {
+            expect(normalizeBreakpoint({ pattern: 'X', weight: 0.5 }).weight).toBe(0.5);
+            expect(() => normalizeBreakpoint({ pattern: 'X', weight: 0 })).toThrow(
+                '"weight" must be a positive number',
+            );
+            expect(() => normalizeBreakpoint({ pattern: 'X', weight: Number.NaN })).toThrow(
+                'must be a positive number',
+            );
+        });
     });
 
     describe('escapeWordsOutsideTokens', () => {
@@ -549,6 +560,13 @@ describe('breakpoint-utils', () => {
             expect(result.pos).toBe(6); // After second \n\n
         });
 
+        it('should find the match nearest the target with balanced preference', () => {
+            const regex = /\./g;
+            expect(findPatternBreakPosition('a. b. c. d. e.', regex, 'balanced', false, undefined, 7).pos).toBe(8);
+            expect(findPatternBreakPosition('a. b. c. d. e.', regex, 'balanced', false, undefined, 6.5).pos).toBe(8);
+            expect(findPatternBreakPosition('a. b. c. d. e.', regex, 'balanced').pos).toBe(14);
+        });
+
         it('should return -1 when no matches', () => {
             const regex = /XXX/g;
             expect(findPatternBreakPosition('No matches here', regex, 'shorter').pos).toBe(-1);
@@ -1121,6 +1139,28 @@ describe('findSafeBreakPosition', () => {
     });
 });
 
+describe('findTokenWindowLength', () => {
+    const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+    it('should return the longest prefix within the token budget', () => {
+        expect(findTokenWindowLength('one two three four', 0, 2, countWords)).toBe(8);
+        expect(findTokenWindowLength('one two three four', 4, 2, countWords)).toBe(10);
+    });
+
+    it('should probe past the initial guess for long tokens', () => {
+        const content = `${'a'.repeat(50)} ${'b'.repeat(50)} c`;
+        expect(findTokenWindowLength(content, 0, 2, countWords)).toBe(102);
+    });
+
+    it('should return all remaining content when it fits', () => {
+        expect(findTokenWindowLength('one two', 0, 5, countWords)).toBe(7);
+    });
+
+    it('should always advance by at least one character', () => {
+        expect(findTokenWindowLength('abc', 0, 1, () => 2)).toBe(1);
+    });
+});
+
 describe('adjustForSurrogate', () => {
     it('should avoid splitting inside a surrogate pair (Emoji)', () => {
         // 'abc' (3) + Emoji (2) = 5 chars total
@@ -18,6 +18,8 @@ export type BreakpointMatch = {
     breakpointIndex: number;
     rule: BreakpointRule;
     contentLengthSplit?: { maxContentLength: number; reason: 'whitespace' | 'unicode_boundary' };
+    /** `weight × closeness` of the match (`breakpointScoring: 'weighted'` only) */
+    score?: number;
     wordIndex?: number;
 };
 
@@ -88,6 +90,10 @@ export const normalizeBreakpoint = (bp: Breakpoint): BreakpointRule => {
     // Determine default split based on whether words is present
     const defaultSplit = bp.words ? 'at' : 'after';
 
+    if (bp.weight !== undefined && !(Number.isFinite(bp.weight) && bp.weight > 0)) {
+        throw new Error('BreakpointRule: "weight" must be a positive number');
+    }
+
     // Validate split value - treat invalid as default for backward compatibility
     const split = bp.split === 'at' || bp.split === 'after' ? bp.split : defaultSplit;
 
@@ -1043,7 +1049,15 @@ export type BreakpointContext = {
     pageIds: number[];
     normalizedPages: Map<number, NormalizedPage>;
     expandedBreakpoints: ExpandedBreakpoint[];
-    prefer: 'longer' | 'shorter';
+    prefer: 'balanced' | 'longer' | 'shorter';
+    /** Whether a break at this offset (relative to the remaining content) would cut a protected span */
+    isProtected?: (pos: number) => boolean;
+    /** Whether a break at this offset would leave a piece or remainder under `minContentLength` */
+    isSliver?: (pos: number) => boolean;
+    /** Offset `prefer: 'balanced'` aims for (defaults to the end of the window) */
+    targetPosition?: number;
+    /** `'weighted'` scores every breakpoint's match instead of taking the first breakpoint that matches */
+    scoring?: 'order' | 'weighted';
 };
 
 /**
@@ -1084,61 +1098,71 @@ export const findNextPagePosition = (remainingContent: string, nextPageData: Nor
     return pos > 0 ? pos : -1;
 };
 
+/** Break position of a match based on split mode, or -1 for invalid matches (negative index, zero-length lookahead). */
+const getMatchBreakPosition = (m: RegExpMatchArray, splitAt: boolean) => {
+    const idx = m.index ?? -1;
+    const len = m[0]?.length ?? 0;
+    if (idx < 0 || len === 0) {
+        return -1;
+    }
+    return splitAt ? idx : idx + len;
+};
+
+/** Whether a later match at `pos` replaces the selected one: always for 'longer', when no farther from the target for 'balanced'. */
+const replacesSelection = (
+    pos: number,
+    selected: number | undefined,
+    prefer: 'balanced' | 'longer' | 'shorter',
+    target: number,
+) => selected === undefined || prefer === 'longer' || Math.abs(pos - target) <= Math.abs(selected - target);
+
 /**
  * Finds matches within a window and returns the selected position based on preference and split mode.
  *
  * @param windowContent - Content to search
  * @param regex - Regex to match
- * @param prefer - 'longer' for last match, 'shorter' for first match
+ * @param prefer - 'longer' for last match, 'shorter' for first match, 'balanced' for the match nearest `targetPosition`
  * @param splitAt - If true, return position BEFORE match (at index). If false, return position AFTER match (at index + length).
+ * @param isProtected - Rejects break positions inside protected spans (or otherwise unwanted)
+ * @param targetPosition - Position `prefer: 'balanced'` aims for; ties go to the later match
  * @returns Break position, or -1 if no valid matches
  *
  * @remarks
  * - Matches with length 0 are skipped (prevents infinite loops with lookahead patterns)
  * - Matches that would result in position 0 are skipped (prevents empty first segments)
+ * - Matches whose break position falls inside a protected span are skipped
  * - For prefer:'shorter', returns immediately on first valid match (optimization)
  */
 export const findPatternBreakPosition = (
     windowContent: string,
     regex: RegExp,
-    prefer: 'longer' | 'shorter',
+    prefer: 'balanced' | 'longer' | 'shorter',
     splitAt = false,
+    isProtected?: (pos: number) => boolean,
+    targetPosition = windowContent.length,
 ): { pos: number; groups?: Record<string, string> } => {
-    // Track last valid match for 'longer' preference
-    let last: { index: number; length: number; groups?: Record<string, string> } | undefined;
+    // Track the selected valid match for 'longer' (last) and 'balanced' (nearest the target)
+    let selected: { pos: number; groups?: Record<string, string> } | undefined;
 
     for (const m of windowContent.matchAll(regex)) {
-        const idx = m.index ?? -1;
-        const len = m[0]?.length ?? 0;
+        const pos = getMatchBreakPosition(m, splitAt);
 
-        // Skip invalid matches: negative index, zero-length (lookahead)
-        if (idx < 0 || len === 0) {
+        // Skip invalid matches, position 0 (would create an empty first segment) and cuts inside protected spans
+        if (pos <= 0 || isProtected?.(pos)) {
             continue;
         }
 
-        // Compute break position based on split mode
-        const pos = splitAt ? idx : idx + len;
-
-        // Skip position 0 - would create empty first segment
-        if (pos === 0) {
-            continue;
-        }
-
-        last = { groups: m.groups, index: idx, length: len };
-
         // Early return for 'shorter' (first valid match)
         if (prefer === 'shorter') {
             return { groups: m.groups, pos };
         }
-    }
 
-    if (!last) {
-        return { pos: -1 };
+        if (replacesSelection(pos, selected?.pos, prefer, targetPosition)) {
+            selected = { groups: m.groups, pos };
+        }
     }
 
-    // For 'longer', use last valid match
-    const finalPos = splitAt ? last.index : last.index + last.length;
-    return { groups: last.groups, pos: finalPos };
+    return selected ?? { pos: -1 };
 };
 
 /**
@@ -1237,7 +1261,7 @@ const checkBreakpointMatch = (
     ctx: BreakpointContext,
     maxContentLength?: number,
 ) => {
-    const { pageIds, normalizedPages, expandedBreakpoints, prefer } = ctx;
+    const { pageIds, normalizedPages, expandedBreakpoints, prefer, isProtected, isSliver } = ctx;
     const bpCtx = expandedBreakpoints[i];
     const { rule, regex, excludeSet, skipWhenRegex } = bpCtx;
 
@@ -1267,6 +1291,9 @@ const checkBreakpointMatch = (
             pageIds,
             normalizedPages,
         );
+        if (isSliver?.(result.pos)) {
+            return null;
+        }
         return {
             breakPos: result.pos,
             breakpointIndex: i,
@@ -1278,7 +1305,14 @@ const checkBreakpointMatch = (
 
     // Find matches within window
     const windowContent = remainingContent.slice(0, Math.min(windowEndPosition, remainingContent.length));
-    const { pos: breakPos, groups } = findPatternBreakPosition(windowContent, regex, prefer, bpCtx.splitAt);
+    const { pos: breakPos, groups } = findPatternBreakPosition(
+        windowContent,
+        regex,
+        ctx.scoring === 'weighted' ? 'balanced' : prefer,
+        bpCtx.splitAt,
+        isSliver ? (pos) => isProtected?.(pos) || isSliver(pos) : isProtected,
+        ctx.targetPosition,
+    );
 
     if (breakPos > 0) {
         const wordIndex = extractDebugIndex(groups, '_w');
@@ -1288,16 +1322,45 @@ const checkBreakpointMatch = (
     return null;
 };
 
+const findFirstMatch = (count: number, check: (i: number) => BreakpointMatch | null) => {
+    for (let i = 0; i < count; i++) {
+        const match = check(i);
+        if (match) {
+            return match;
+        }
+    }
+    return null;
+};
+
+/**
+ * Scores a match `weight × closeness`: closeness is 1 at `target` and falls linearly to 0 at
+ * the cursor (or as far past the target).
+ */
+const scoreBreakpointMatch = (match: BreakpointMatch, target: number) =>
+    (match.rule.weight ?? 1) * Math.max(0, 1 - Math.abs(target - match.breakPos) / Math.max(1, target));
+
+/** Picks the highest-scoring match; ties go to the earlier breakpoint. */
+const selectHighestScoringMatch = (matches: (BreakpointMatch | null)[], target: number) => {
+    let best: BreakpointMatch | null = null;
+    for (const match of matches) {
+        const score = match ? Math.round(scoreBreakpointMatch(match, target) * 1000) / 1000 : -1;
+        if (match && (!best || score > best.score!)) {
+            best = { ...match, score };
+        }
+    }
+    return best;
+};
+
 /**
  * Tries to find a break position within the current window using breakpoint patterns.
- * Returns the break position or -1 if no suitable break was found.
+ * Returns the break position, or null if no suitable break was found.
  *
  * @param remainingContent - Content remaining to be segmented
  * @param currentFromIdx - Current starting page index
  * @param toIdx - Ending page index
  * @param windowEndIdx - Maximum window end index
  * @param ctx - Breakpoint context with page data and patterns
- * @returns Break position in the content, or -1 if no break found
+ * @returns Break position in the content (with its score in `'weighted'` mode), or null if no break found
  */
 export const findBreakPosition = (
     remainingContent: string,
@@ -1308,10 +1371,8 @@ export const findBreakPosition = (
     ctx: BreakpointContext,
     maxContentLength?: number,
 ): BreakpointMatch | null => {
-    const { expandedBreakpoints } = ctx;
-
-    for (let i = 0; i < expandedBreakpoints.length; i++) {
-        const match = checkBreakpointMatch(
+    const check = (i: number) =>
+        checkBreakpointMatch(
             i,
             remainingContent,
             currentFromIdx,
@@ -1321,12 +1382,27 @@ export const findBreakPosition = (
             ctx,
             maxContentLength,
         );
-        if (match) {
-            return match;
-        }
+    const match =
+        ctx.scoring === 'weighted'
+            ? selectHighestScoringMatch(
+                  ctx.expandedBreakpoints.map((_, i) => check(i)),
+                  ctx.targetPosition ?? windowEndPosition,
+              )
+            : findFirstMatch(ctx.expandedBreakpoints.length, check);
+
+    // Breaks that leave slivers are a last resort, still better than no breakpoint at all
+    if (match || !ctx.isSliver) {
+        return match;
     }
-
-    return null;
+    return findBreakPosition(
+        remainingContent,
+        currentFromIdx,
+        toIdx,
+        windowEndIdx,
+        windowEndPosition,
+        { ...ctx, isSliver: undefined },
+        maxContentLength,
+    );
 };
 
 /**
@@ -1354,6 +1430,54 @@ export const findSafeBreakPosition = (content: string, targetPosition: number, l
     return -1;
 };
 
+/**
+ * Finds how many characters from `start` fit within a token budget: an exponential probe
+ * for a prefix over the budget, then a binary search for the longest prefix within it.
+ *
+ * Assumes `countTokens` never counts a prefix above the whole (true of any real tokenizer,
+ * up to the odd merge at the cut).
+ *
+ * @param content The text content
+ * @param start Offset the window starts at
+ * @param maxTokens Token budget
+ * @param countTokens Token counter (`countTokens` option)
+ * @returns Window length in characters, at least 1 so splitting always advances
+ *
+ * @example
+ * findTokenWindowLength('one two three four', 0, 2, (t) => t.split(/\s+/).filter(Boolean).length)
+ * // → 8 ('one two ')
+ */
+export const findTokenWindowLength = (
+    content: string,
+    start: number,
+    maxTokens: number,
+    countTokens: (text: string) => number,
+) => {
+    const available = content.length - start;
+    const fits = (length: number) => countTokens(content.slice(start, start + length)) <= maxTokens;
+
+    let lo = 0;
+    let hi = Math.min(available, maxTokens * 4);
+    while (fits(hi)) {
+        if (hi === available) {
+            return available;
+        }
+        lo = hi;
+        hi = Math.min(available, hi * 2);
+    }
+
+    // Invariant: `lo` fits and `hi` does not
+    while (hi - lo > 1) {
+        const mid = (lo + hi) >> 1;
+        if (fits(mid)) {
+            lo = mid;
+        } else {
+            hi = mid;
+        }
+    }
+    return Math.max(1, lo);
+};
+
 /**
  * Ensures the position does not split a surrogate pair.
  * If position is between High and Low surrogate, returns position - 1.
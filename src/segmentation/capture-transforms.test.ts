@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'bun:test';
+import { compileCaptureTransforms, validateCaptureTransforms } from './capture-transforms.js';
+
+describe('compileCaptureTransforms', () => {
+    it('should return null when there is nothing to transform', () => {
+        expect(compileCaptureTransforms(undefined)).toBeNull();
+        expect(compileCaptureTransforms({})).toBeNull();
+    });
+
+    it('should parse Arabic-Indic, Persian and ASCII digits with int', () => {
+        const transform = compileCaptureTransforms({ a: 'int', b: 'int', c: 'int', d: 'int' })!;
+        expect(transform({ a: '٦٦٩٦', b: ' ۱۲ ', c: '42', d: '١٢أ' })).toEqual({ a: 6696, b: 12, c: 42, d: '١٢أ' });
+    });
+
+    it('should run a list of transforms in order', () => {
+        const transform = compileCaptureTransforms({ title: ['trim', 'stripDiacritics'], word: 'normalizeArabic' })!;
+        expect(transform({ title: ' بَابُ الطَّهَارَةِ ', word: 'إِلى' })).toEqual({ title: 'باب الطهارة', word: 'الي' });
+    });
+
+    it('should convert abjad letters and keep values that are not abjad numerals', () => {
+        const transform = compileCaptureTransforms({ a: 'abjad', b: 'abjad', c: ['abjad', 'trim'] })!;
+        expect(transform({ a: 'يَب', b: 'باب 1', c: 'غ' })).toEqual({ a: 12, b: 'باب 1', c: 1000 });
+    });
+
+    it('should leave captures without a transform and missing captures alone', () => {
+        const transform = compileCaptureTransforms({ num: 'int', vol: 'int' })!;
+        expect(transform({ lemma: ' عز ', num: '٣' })).toEqual({ lemma: ' عز ', num: 3 });
+    });
+
+    it('should throw for unknown transforms', () => {
+        expect(() => compileCaptureTransforms({ num: 'float' as never })).toThrow(
+            'captureTransforms.num: Unknown capture transform "float"',
+        );
+    });
+});
+
+describe('validateCaptureTransforms', () => {
+    it('should report unknown transforms and unknown capture names', () => {
+        expect(validateCaptureTransforms({ num: ['int', 'round' as never], page: 'int' }, ['num'])).toEqual([
+            {
+                message:
+                    'Unknown capture transform "round". Expected one of: abjad, int, normalizeArabic, stripDiacritics, trim.',
+                path: 'captureTransforms.num[1]',
+            },
+            { message: 'Rule has no named capture "page".', path: 'captureTransforms.page' },
+        ]);
+    });
+});
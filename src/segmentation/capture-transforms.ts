@@ -0,0 +1,144 @@
+/**
+ * Capture transforms (`SplitRule.captureTransforms`).
+ *
+ * Named captures reach segment meta as raw strings (e.g. `'٦٦٩٦'`). A rule can name
+ * post-processors per capture so consumers get `6696` instead of re-parsing. Transforms are
+ * referenced by name, which keeps the options JSON-serializable.
+ */
+
+import type { CaptureTransform, SplitRule } from '@/types/rules.js';
+import { normalizeArabicForComparison, stripArabicDiacritics, toAsciiDigits } from '@/utils/textUtils.js';
+
+export type CaptureValue = number | string;
+
+/** Letter values of the abjad numeral system (mashriqi order). */
+const ABJAD_VALUES: Record<string, number> = {
+    آ: 1,
+    أ: 1,
+    إ: 1,
+    ا: 1,
+    ب: 2,
+    ة: 5,
+    ت: 400,
+    ث: 500,
+    ج: 3,
+    ح: 8,
+    خ: 600,
+    د: 4,
+    ذ: 700,
+    ر: 200,
+    ز: 7,
+    س: 60,
+    ش: 300,
+    ص: 90,
+    ض: 800,
+    ط: 9,
+    ظ: 900,
+    ع: 70,
+    غ: 1000,
+    ف: 80,
+    ق: 100,
+    ك: 20,
+    ل: 30,
+    م: 40,
+    ن: 50,
+    ه: 5,
+    و: 6,
+    ى: 10,
+    ي: 10,
+};
+
+const toInteger = (value: string): CaptureValue => {
+    const digits = toAsciiDigits(value).trim();
+    return /^\d+$/.test(digits) ? Number(digits) : value;
+};
+
+const abjadToNumber = (value: string): CaptureValue => {
+    const letters = Array.from(stripArabicDiacritics(value).replace(/\s+/g, ''));
+    if (letters.length === 0 || letters.some((ch) => ABJAD_VALUES[ch] === undefined)) {
+        return value;
+    }
+    return letters.reduce((total, ch) => total + ABJAD_VALUES[ch]!, 0);
+};
+
+const CAPTURE_TRANSFORMS: Record<CaptureTransform, (value: string) => CaptureValue> = {
+    abjad: abjadToNumber,
+    int: toInteger,
+    normalizeArabic: normalizeArabicForComparison,
+    stripDiacritics: stripArabicDiacritics,
+    trim: (value) => value.trim(),
+};
+
+const isCaptureTransform = (name: unknown): name is CaptureTransform =>
+    typeof name === 'string' && Object.hasOwn(CAPTURE_TRANSFORMS, name);
+
+const toList = <T>(value: T | T[]) => (Array.isArray(value) ? value : [value]);
+
+export type CaptureTransformIssue = { message: string; path: string };
+
+/**
+ * Checks a rule's `captureTransforms` for unknown transform names and, when `captureNames`
+ * is given, for captures the rule's patterns never produce.
+ *
+ * @returns Problems found, with paths relative to the rule (e.g. `captureTransforms.num[1]`)
+ */
+export const validateCaptureTransforms = (
+    transforms: SplitRule['captureTransforms'],
+    captureNames?: string[],
+): CaptureTransformIssue[] =>
+    Object.entries(transforms ?? {}).flatMap(([name, spec]) => {
+        const issues: CaptureTransformIssue[] = [];
+        if (captureNames && !captureNames.includes(name)) {
+            issues.push({
+                message: `Rule has no named capture "${name}".`,
+                path: `captureTransforms.${name}`,
+            });
+        }
+        toList(spec).forEach((transform, i) => {
+            if (!isCaptureTransform(transform)) {
+                issues.push({
+                    message: `Unknown capture transform "${transform}". Expected one of: ${Object.keys(CAPTURE_TRANSFORMS).join(', ')}.`,
+                    path: Array.isArray(spec) ? `captureTransforms.${name}[${i}]` : `captureTransforms.${name}`,
+                });
+            }
+        });
+        return issues;
+    });
+
+/**
+ * Resolves a rule's `captureTransforms` into a function over its named captures.
+ * Transforms run in order; once a value became a number, string transforms leave it alone.
+ * Values a transform cannot convert (e.g. `int` on `'abc'`) are kept unchanged.
+ *
+ * @returns `null` when the rule has no transforms
+ * @throws Error when a transform name is unknown
+ *
+ * @example
+ * const transform = compileCaptureTransforms({ num: 'int', title: ['trim', 'stripDiacritics'] });
+ * transform?.({ num: '٦٦٩٦', title: ' بَابُ ' }) // → { num: 6696, title: 'باب' }
+ */
+export const compileCaptureTransforms = (transforms: SplitRule['captureTransforms']) => {
+    const [issue] = validateCaptureTransforms(transforms);
+    if (issue) {
+        throw new Error(`${issue.path}: ${issue.message}`);
+    }
+    const entries = Object.entries(transforms ?? {}).map(
+        ([name, spec]) => [name, toList(spec).map((transform) => CAPTURE_TRANSFORMS[transform])] as const,
+    );
+    if (entries.length === 0) {
+        return null;
+    }
+
+    return (captures: Record<string, CaptureValue>) => {
+        const result = { ...captures };
+        for (const [name, fns] of entries) {
+            if (result[name] !== undefined) {
+                result[name] = fns.reduce<CaptureValue>(
+                    (value, fn) => (typeof value === 'string' ? fn(value) : value),
+                    result[name],
+                );
+            }
+        }
+        return result;
+    };
+};
@@ -0,0 +1,295 @@
+import { describe, expect, it } from 'bun:test';
+import type { Page } from '@/types/index.js';
+import type { SegmentationOptions } from '@/types/options.js';
+import { createSegmenter, SegmenterConfigError } from './compiled-segmenter.js';
+import { segmentPages } from './segmenter.js';
+
+const pages: Page[] = [
+    { content: 'باب الطهارة\n١ - حدثنا زيد\n٢ - حدثنا عمرو', id: 1 },
+    { content: 'باب الصلاة\n٣ - حدثنا بكر', id: 2 },
+];
+
+const options: SegmentationOptions = {
+    rules: [
+        { lineStartsWith: ['{{bab}}'], meta: { type: 'chapter' } },
+        { lineStartsAfter: ['{{raqms:num}} {{dash}} '], meta: { type: 'hadith' } },
+    ],
+};
+
+const catchConfigError = (fn: () => unknown) => {
+    try {
+        fn();
+    } catch (error) {
+        if (error instanceof SegmenterConfigError) {
+            return error;
+        }
+        throw error;
+    }
+    throw new Error('Expected a SegmenterConfigError');
+};
+
+describe('createSegmenter', () => {
+    it('should segment exactly like segmentPages', () => {
+        const segmenter = createSegmenter(options);
+
+        expect(segmenter.segment(pages)).toEqual(segmentPages(pages, options));
+        expect(segmenter.segment(pages.slice(1))).toEqual(segmentPages(pages.slice(1), options));
+    });
+
+    it('should apply pre-compiled breakpoints and dictionary profiles', () => {
+        const withLimits: SegmentationOptions = {
+            breakpoints: ['{{tarqim}}\\s*', ''],
+            maxContentLength: 50,
+            rules: [],
+        };
+        const longPages = [{ content: `${'كلام طويل. '.repeat(10)}النهاية`, id: 1 }];
+
+        expect(createSegmenter(withLimits).segment(longPages)).toEqual(segmentPages(longPages, withLimits));
+    });
+
+    it('should not be affected by later mutations of the options', () => {
+        const mutable: SegmentationOptions = structuredClone(options);
+        const segmenter = createSegmenter(mutable);
+        mutable.rules![0] = { lineStartsWith: ['{{kitab}}'] };
+
+        expect(segmenter.options.rules?.[0]).toEqual({ lineStartsWith: ['{{bab}}'], meta: { type: 'chapter' } });
+        expect(segmenter.segment(pages)).toEqual(segmentPages(pages, options));
+    });
+
+    it('should accept a countTokens function', () => {
+        const withTokens: SegmentationOptions = {
+            breakpoints: [''],
+            countTokens: (text) => text.split(' ').length,
+            maxTokens: 5,
+            rules: [],
+        };
+        const longPages = [{ content: 'واحد اثنان ثلاثة أربعة خمسة ستة سبعة ثمانية تسعة عشرة', id: 1 }];
+        const segmenter = createSegmenter(withTokens);
+
+        expect(segmenter.options.countTokens).toBe(withTokens.countTokens);
+        expect(segmenter.segment(longPages)).toEqual(segmentPages(longPages, withTokens));
+        expect(segmenter.segment(longPages).length).toBeGreaterThan(1);
+    });
+
+    it('should explain each segment with its debug reason', () => {
+        const explanations = createSegmenter(options).explain(pages);
+
+        expect(explanations.map((e) => e.reason)).toEqual([
+            'Rule #0 (lineStartsWith)',
+            'Rule #1 (lineStartsAfter) [idx:0] (Matched: "{{raqms:num}} {{dash}} ")',
+            'Rule #1 (lineStartsAfter) [idx:0] (Matched: "{{raqms:num}} {{dash}} ")',
+            'Rule #0 (lineStartsWith)',
+            'Rule #1 (lineStartsAfter) [idx:0] (Matched: "{{raqms:num}} {{dash}} ")',
+        ]);
+        expect(explanations[1].segment.content).toBe('حدثنا زيد');
+    });
+
+    it('should honor a custom debug meta key when explaining', () => {
+        const segmenter = createSegmenter({ ...options, debug: { metaKey: '_why' } });
+        const [first] = segmenter.explain(pages);
+
+        expect(first.reason).toStartWith('Rule #0');
+        expect(first.segment.meta?._why).toBeDefined();
+    });
+
+    it('should validate segments, segmenting first when none are given', () => {
+        const segmenter = createSegmenter(options);
+
+        expect(segmenter.validate(pages).ok).toBeTrue();
+        expect(segmenter.validate(pages, [{ content: 'غير موجود', from: 1 }]).ok).toBeFalse();
+    });
+
+    it('should report every invalid rule pattern up front with its path', () => {
+        const error = catchConfigError(() =>
+            createSegmenter({
+                rules: [
+                    { lineStartsWith: ['{{bab}}', '{{unknownToken}}'] },
+                    { lineStartsAfter: ['raqms:num'] },
+                    { regex: '(' },
+                ],
+            }),
+        );
+
+        expect(error.issues.map(({ code, path }) => ({ code, path }))).toEqual([
+            { code: 'invalid_rule', path: 'rules[0].lineStartsWith[1]' },
+            { code: 'invalid_rule', path: 'rules[1].lineStartsAfter[0]' },
+            { code: 'invalid_rule', path: 'rules[2].regex' },
+        ]);
+        expect(error.issues[0].issue?.type).toBe('unknown_token');
+        expect(error.message).toBe('Segmenter configuration is invalid (3 issues)');
+    });
+
+    it('should report unknown capture transforms and captures the rule never produces', () => {
+        const error = catchConfigError(() =>
+            createSegmenter({
+                rules: [
+                    {
+                        captureTransforms: { num: ['trim', 'float' as never], title: 'trim' },
+                        lineStartsAfter: ['{{raqms:num}} {{dash}} '],
+                    },
+                ],
+            }),
+        );
+
+        expect(error.issues.map(({ code, path }) => ({ code, path }))).toEqual([
+            { code: 'invalid_rule', path: 'rules[0].captureTransforms.num[1]' },
+            { code: 'invalid_rule', path: 'rules[0].captureTransforms.title' },
+        ]);
+        expect(error.issues[1].message).toBe('Rule has no named capture "title".');
+    });
+
+    it('should report heading context values the rule does not produce', () => {
+        expect(
+            catchConfigError(() =>
+                createSegmenter({ rules: [{ context: { from: 'title', key: 'bab' }, lineStartsWith: ['{{bab}}'] }] }),
+            ).issues,
+        ).toEqual([
+            {
+                code: 'invalid_rule',
+                message: 'Context value "title" is neither a meta key nor a named capture of the rule.',
+                path: 'rules[0].context.from',
+            },
+        ]);
+    });
+
+    it('should accept heading titles as capture names and reject titles on split after', () => {
+        expect(() =>
+            createSegmenter({
+                rules: [{ captureTransforms: { title: 'trim' }, lineStartsWith: ['{{bab}}'], title: true }],
+            }),
+        ).not.toThrow();
+        expect(() =>
+            createSegmenter({ rules: [{ lineEndsWith: ['{{tarqim}}'], split: 'after', title: true }] }),
+        ).toThrow('rules[0].title: Heading titles need split: "at".');
+    });
+
+    it('should accept duplicate patterns', () => {
+        expect(() => createSegmenter({ rules: [{ lineStartsWith: ['{{bab}}', '{{bab}}'] }] })).not.toThrow();
+    });
+
+    it('should report invalid tokens, breakpoints, limits and dictionary profiles', () => {
+        expect(catchConfigError(() => createSegmenter({ tokens: { a: '{{b}}', b: '{{a}}' } })).issues).toEqual([
+            { code: 'invalid_tokens', message: expect.stringContaining('cycle'), path: 'tokens' },
+        ]);
+
+        const error = catchConfigError(() =>
+            createSegmenter({
+                breakpoints: ['', { regex: '[' }],
+                dictionary: { version: 2, zones: [] },
+                maxContentLength: 10,
+            }),
+        );
+        expect(error.issues.map(({ code, path }) => ({ code, path }))).toEqual([
+            { code: 'invalid_option', path: 'maxContentLength' },
+            { code: 'invalid_breakpoint', path: 'breakpoints[1]' },
+            { code: 'invalid_dictionary', path: 'dictionary.zones' },
+        ]);
+    });
+
+    it('should report invalid overlap and protected spans', () => {
+        const error = catchConfigError(() =>
+            createSegmenter({
+                overlap: { sentences: -1 },
+                protect: [{ close: '﴾', open: '﴿' }, { close: '', open: '«' }, { regex: '(' }],
+            }),
+        );
+
+        expect(error.issues.map(({ code, path }) => ({ code, path }))).toEqual([
+            { code: 'invalid_option', path: 'overlap.sentences' },
+            { code: 'invalid_option', path: 'protect[1].close' },
+            { code: 'invalid_option', path: 'protect[2].regex' },
+        ]);
+    });
+
+    it('should report an invalid token budget', () => {
+        const error = catchConfigError(() => createSegmenter({ countTokens: 'words' as any, maxTokens: 0 }));
+
+        expect(error.issues).toEqual([
+            { code: 'invalid_option', message: 'Must be a positive integer.', path: 'maxTokens' },
+            { code: 'invalid_option', message: 'Must be a function.', path: 'countTokens' },
+        ]);
+    });
+
+    it('should expand custom tokens in replace transforms', () => {
+        const withTokens: SegmentationOptions = {
+            preprocess: [{ pattern: '^{{marker}}', replacement: '١ - ', type: 'replace' }],
+            rules: [{ lineStartsAfter: ['{{raqms}} {{dash}} '] }],
+            sourceSpans: true,
+            tokens: { marker: '\\*\\s' },
+        };
+        const markedPages = [{ content: '* حدثنا زيد', id: 1 }];
+
+        expect(createSegmenter(withTokens).segment(markedPages)).toEqual([
+            { content: 'حدثنا زيد', from: 1, source: [{ end: 11, page: 1, start: 2 }] },
+        ]);
+    });
+
+    it('should point invalid replace flags at the flags field', () => {
+        const error = catchConfigError(() =>
+            createSegmenter({ preprocess: [{ flags: 'gx', pattern: 'a', replacement: '', type: 'replace' }] }),
+        );
+
+        expect(error.issues.map((issue) => issue.path)).toEqual(['preprocess[0].flags']);
+    });
+
+    it('should report invalid replace transforms', () => {
+        const error = catchConfigError(() =>
+            createSegmenter({
+                preprocess: ['condenseEllipsis', { pattern: '{{raqmz}} ـ', replacement: '', type: 'replace' }],
+            }),
+        );
+
+        expect(error.issues).toHaveLength(1);
+        expect(error.issues[0]).toMatchObject({
+            code: 'invalid_preprocess',
+            issue: { token: 'raqmz', type: 'unknown_token' },
+            path: 'preprocess[1].pattern',
+        });
+    });
+
+    it('should report invalid running header patterns by index', () => {
+        const error = catchConfigError(() =>
+            createSegmenter({
+                preprocess: [{ headers: ['كتاب', '({{raqms}}'], minFrequency: 2, type: 'stripRunningHeaders' }],
+            }),
+        );
+
+        expect(error.issues.map((issue) => issue.path)).toEqual([
+            'preprocess[0].headers[1]',
+            'preprocess[0].minFrequency',
+        ]);
+    });
+
+    it('should report invalid zones and zone references', () => {
+        const error = catchConfigError(() =>
+            createSegmenter({
+                rules: [{ lineStartsWith: ['{{bab}}'], zone: 'appendix' }],
+                zones: [{ activateAfter: ['{{kitb}}'], name: 'body' }],
+            }),
+        );
+
+        expect(error.issues.map(({ code, path }) => ({ code, path }))).toEqual([
+            { code: 'invalid_zone', path: 'rules[0].zone' },
+            { code: 'invalid_zone', path: 'zones[0].activateAfter[0]' },
+        ]);
+    });
+
+    it('should report an invalid minContentLength', () => {
+        expect(catchConfigError(() => createSegmenter({ minContentLength: -5 })).issues).toEqual([
+            {
+                code: 'invalid_option',
+                message: 'minContentLength must be a positive integer.',
+                path: 'minContentLength',
+            },
+        ]);
+        expect(() => createSegmenter({ maxContentLength: 100, minContentLength: 100 })).toThrow(
+            'minContentLength: minContentLength must be less than maxContentLength.',
+        );
+    });
+
+    it('should name the single issue in the error message', () => {
+        expect(() => createSegmenter({ maxContentLength: 10 })).toThrow(
+            'maxContentLength: maxContentLength must be at least 50 characters.',
+        );
+    });
+});
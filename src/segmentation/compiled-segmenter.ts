@@ -0,0 +1,348 @@
+/**
+ * Reusable segmenter (`createSegmenter()`).
+ *
+ * Validates and compiles a set of options once - rules, breakpoints, tokens and the dictionary
+ * profile - so configuration mistakes surface as one structured error before any page is read,
+ * and so running the same options over many books skips recompilation.
+ */
+
+import { DictionaryProfileValidationError, normalizeDictionaryProfile } from '@/dictionary/profile.js';
+import type { Page, Segment } from '@/types';
+import type { SegmentationOptions } from '@/types/options.js';
+import type { SegmentValidationReport } from '@/types/validation.js';
+import { type ValidationOptions, validateSegments } from '@/validation/validate-segments.js';
+import { validateCaptureTransforms } from './capture-transforms.js';
+import { getDebugReason, resolveDebugConfig } from './debug-meta.js';
+import { validateHeadingContext } from './heading-context.js';
+import { getHeadingTitleKey, validateHeadingTitle } from './heading-title.js';
+import {
+    type RuleValidationResult,
+    type ValidationIssue,
+    validatePreprocess,
+    validateRules,
+} from './pattern-validator.js';
+import { validatePieceOverlap } from './piece-overlap.js';
+import { validateProtectedSpans } from './protected-spans.js';
+import { buildRuleRegex } from './rule-regex.js';
+import { compileRuleZones, validateRuleZones } from './rule-zones.js';
+import {
+    compileBreakpoints,
+    compileSegmentation,
+    segmentPagesCompiled,
+    validateSegmentationLimits,
+} from './segmenter.js';
+import { validateTokenLimit } from './token-limit.js';
+import { resolveTokenPatterns } from './tokens.js';
+
+export type SegmenterConfigIssueCode =
+    | 'invalid_breakpoint'
+    | 'invalid_dictionary'
+    | 'invalid_option'
+    | 'invalid_preprocess'
+    | 'invalid_rule'
+    | 'invalid_tokens'
+    | 'invalid_zone';
+
+/**
+ * A single problem found while compiling segmentation options.
+ */
+export type SegmenterConfigIssue = {
+    code: SegmenterConfigIssueCode;
+    message: string;
+    /** Location inside the options, e.g. `rules[2].lineStartsWith[0]` or `dictionary.zones[0].name` */
+    path: string;
+    /** The underlying `validateRules()`/`validatePreprocess()` issue (for pattern problems in rules, zone markers and preprocess) */
+    issue?: ValidationIssue;
+};
+
+/**
+ * Thrown by `createSegmenter()` when the options cannot be compiled. Lists every issue found.
+ */
+export class SegmenterConfigError extends Error {
+    readonly issues: SegmenterConfigIssue[];
+
+    constructor(issues: SegmenterConfigIssue[]) {
+        super(
+            issues.length === 1
+                ? `${issues[0]!.path}: ${issues[0]!.message}`
+                : `Segmenter configuration is invalid (${issues.length} issues)`,
+        );
+        this.name = 'SegmenterConfigError';
+        this.issues = issues;
+    }
+}
+
+/**
+ * A segment together with the human-readable reason it starts where it does.
+ */
+export type SegmentExplanation = {
+    /** Output of `getDebugReason()`, e.g. `Rule #1 (lineStartsAfter) [idx:0] (Matched: "{{raqms}} ")` */
+    reason: string;
+    segment: Segment;
+};
+
+/**
+ * Segmentation options compiled once and reusable across any number of page sets.
+ */
+export type Segmenter = {
+    /** Snapshot of the options the segmenter was created with */
+    readonly options: SegmentationOptions;
+    /** Same as `segmentPages(pages, options)` */
+    segment: (pages: Page[]) => Segment[];
+    /** Segments the pages with debug provenance and pairs each segment with its reason */
+    explain: (pages: Page[]) => SegmentExplanation[];
+    /** Validates `segments` (segmenting `pages` first when omitted) against the pages */
+    validate: (pages: Page[], segments?: Segment[], validationOptions?: ValidationOptions) => SegmentValidationReport;
+};
+
+/** Issues worth refusing to segment over (duplicates are harmless). */
+const isBlockingIssue = (issue: ValidationIssue | undefined): issue is ValidationIssue =>
+    issue !== undefined && issue.type !== 'duplicate';
+
+const toRuleIssue = (path: string, issue: ValidationIssue): SegmenterConfigIssue => ({
+    code: 'invalid_rule',
+    issue,
+    message: issue.message,
+    path,
+});
+
+const flattenRuleValidation = (result: RuleValidationResult, ruleIndex: number) => {
+    const issues: SegmenterConfigIssue[] = [];
+    const base = `rules[${ruleIndex}]`;
+
+    for (const key of ['lineStartsWith', 'lineStartsAfter', 'lineEndsWith'] as const) {
+        result[key]?.forEach((issue, i) => {
+            if (isBlockingIssue(issue)) {
+                issues.push(toRuleIssue(`${base}.${key}[${i}]`, issue));
+            }
+        });
+    }
+    for (const key of ['template', 'regex', 'level'] as const) {
+        const issue = result[key];
+        if (isBlockingIssue(issue)) {
+            issues.push(toRuleIssue(`${base}.${key}`, issue));
+        }
+    }
+    for (const [key, issue] of Object.entries(result.dictionaryEntry ?? {})) {
+        if (isBlockingIssue(issue)) {
+            issues.push(toRuleIssue(`${base}.dictionaryEntry.${key}`, issue));
+        }
+    }
+    return issues;
+};
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const collectRuleIssues = (options: SegmentationOptions) => {
+    const { rules = [], tokens } = options;
+    const issues = validateRules(rules, { tokens }).flatMap((result, i) =>
+        result ? flattenRuleValidation(result, i) : [],
+    );
+    if (issues.length > 0) {
+        return issues;
+    }
+
+    // Patterns that pass the lint can still fail to compile (e.g. a bad regex inside a token)
+    return rules.flatMap((rule, i): SegmenterConfigIssue[] => {
+        try {
+            const built = buildRuleRegex(rule, undefined, tokens);
+            const titleKey = getHeadingTitleKey(rule.title);
+            const captureNames = titleKey ? [...built.captureNames, titleKey] : built.captureNames;
+            return [
+                ...validateHeadingTitle(rule, tokens),
+                ...validateCaptureTransforms(rule.captureTransforms, captureNames),
+                ...validateHeadingContext(rule, captureNames),
+            ].map((issue) => ({
+                code: 'invalid_rule',
+                message: issue.message,
+                path: `rules[${i}].${issue.path}`,
+            }));
+        } catch (error) {
+            return [{ code: 'invalid_rule', message: errorMessage(error), path: `rules[${i}]` }];
+        }
+    });
+};
+
+const toPreprocessIssue = (issue: ValidationIssue, path: string): SegmenterConfigIssue => ({
+    code: 'invalid_preprocess',
+    issue,
+    message: issue.message,
+    path,
+});
+
+const collectPreprocessIssues = (options: SegmentationOptions) =>
+    validatePreprocess(options.preprocess ?? [], { tokens: options.tokens }).flatMap((result, i) =>
+        Object.entries(result ?? {}).flatMap(([key, issue]) =>
+            Array.isArray(issue)
+                ? issue.flatMap((item, j) => (item ? [toPreprocessIssue(item, `preprocess[${i}].${key}[${j}]`)] : []))
+                : [toPreprocessIssue(issue, `preprocess[${i}].${key}`)],
+        ),
+    );
+
+const collectBreakpointIssues = (options: SegmentationOptions) =>
+    (options.breakpoints ?? []).flatMap((breakpoint, i): SegmenterConfigIssue[] => {
+        try {
+            compileBreakpoints({ ...options, breakpoints: [breakpoint] });
+            return [];
+        } catch (error) {
+            return [{ code: 'invalid_breakpoint', message: errorMessage(error), path: `breakpoints[${i}]` }];
+        }
+    });
+
+const collectZoneIssues = (options: SegmentationOptions): SegmenterConfigIssue[] => {
+    const { rules = [], tokens, zones = [] } = options;
+    const issues: SegmenterConfigIssue[] = validateRuleZones(zones, rules).map((issue) => ({
+        code: 'invalid_zone',
+        ...issue,
+    }));
+
+    zones.forEach((zone, i) => {
+        for (const key of ['activateAfter', 'deactivateOn'] as const) {
+            const patterns = zone[key] ?? [];
+            const [result] = validateRules([{ lineStartsWith: patterns }], { tokens });
+            result?.lineStartsWith?.forEach((issue, j) => {
+                if (isBlockingIssue(issue)) {
+                    issues.push({
+                        code: 'invalid_zone',
+                        issue,
+                        message: issue.message,
+                        path: `zones[${i}].${key}[${j}]`,
+                    });
+                }
+            });
+        }
+    });
+    if (issues.length > 0) {
+        return issues;
+    }
+
+    try {
+        compileRuleZones(zones, rules, tokens);
+        return [];
+    } catch (error) {
+        return [{ code: 'invalid_zone', message: errorMessage(error), path: 'zones' }];
+    }
+};
+
+const collectDictionaryIssues = (options: SegmentationOptions): SegmenterConfigIssue[] => {
+    if (!options.dictionary) {
+        return [];
+    }
+    try {
+        normalizeDictionaryProfile(options.dictionary);
+        return [];
+    } catch (error) {
+        if (error instanceof DictionaryProfileValidationError) {
+            return error.issues.map((issue) => ({
+                code: 'invalid_dictionary',
+                message: issue.message,
+                path: `dictionary.${issue.path}`,
+            }));
+        }
+        return [{ code: 'invalid_dictionary', message: errorMessage(error), path: 'dictionary' }];
+    }
+};
+
+const collectOptionIssues = (options: SegmentationOptions): SegmenterConfigIssue[] => {
+    const issues = [
+        ...validateSegmentationLimits(options),
+        ...validatePieceOverlap(options.overlap),
+        ...validateProtectedSpans(options.protect),
+        ...validateTokenLimit(options),
+    ];
+    return issues.map(({ message, path }): SegmenterConfigIssue => ({ code: 'invalid_option', message, path }));
+};
+
+/**
+ * Validates every part of the options and returns all issues found.
+ * Token problems are reported alone since every pattern depends on them.
+ */
+const collectConfigIssues = (options: SegmentationOptions): SegmenterConfigIssue[] => {
+    try {
+        resolveTokenPatterns(options.tokens);
+    } catch (error) {
+        return [{ code: 'invalid_tokens', message: errorMessage(error), path: 'tokens' }];
+    }
+    return [
+        ...collectOptionIssues(options),
+        ...collectPreprocessIssues(options),
+        ...collectRuleIssues(options),
+        ...collectZoneIssues(options),
+        ...collectBreakpointIssues(options),
+        ...collectDictionaryIssues(options),
+    ];
+};
+
+/**
+ * Validates and compiles segmentation options once and returns a reusable segmenter.
+ *
+ * All configuration problems (invalid rule patterns, unknown tokens, bad breakpoints, invalid
+ * dictionary profiles, out-of-range limits) are collected and thrown together as a
+ * `SegmenterConfigError` here, instead of surfacing halfway through a book.
+ *
+ * The options are snapshotted, so later mutations by the caller do not affect the segmenter.
+ * Functions (`logger`, `countTokens`) cannot be cloned and are kept by reference.
+ *
+ * @param options - Segmentation options (same as `segmentPages()`)
+ * @returns Segmenter exposing `segment()`, `explain()` and `validate()`
+ * @throws SegmenterConfigError when the options are invalid
+ *
+ * @example
+ * const segmenter = createSegmenter({
+ *     breakpoints: ['{{tarqim}}\\s*'],
+ *     maxPages: 1,
+ *     rules: [{ lineStartsAfter: ['{{raqms:num}} {{dash}} '], meta: { type: 'hadith' } }],
+ * });
+ * for (const book of books) {
+ *     const segments = segmenter.segment(book.pages);
+ *     const report = segmenter.validate(book.pages, segments);
+ * }
+ *
+ * @example
+ * try {
+ *     createSegmenter({ rules: [{ lineStartsWith: ['{{unknwn}}'] }] });
+ * } catch (error) {
+ *     if (error instanceof SegmenterConfigError) {
+ *         console.log(error.issues); // [{ code: 'invalid_rule', path: 'rules[0].lineStartsWith[0]', ... }]
+ *     }
+ * }
+ */
+export const createSegmenter = (options: SegmentationOptions): Segmenter => {
+    const { countTokens, logger } = options;
+    const snapshot: SegmentationOptions = {
+        ...structuredClone({ ...options, countTokens: undefined, logger: undefined }),
+        countTokens,
+        logger,
+    };
+
+    const issues = collectConfigIssues(snapshot);
+    if (issues.length > 0) {
+        logger?.error?.('[segmenter] invalid configuration', { issues });
+        throw new SegmenterConfigError(issues);
+    }
+
+    const compiled = compileSegmentation(snapshot);
+    logger?.debug?.('[segmenter] options compiled', {
+        breakpointCount: compiled.breakpoints.length,
+        ruleCount: snapshot.rules?.length ?? 0,
+    });
+
+    const segment = (pages: Page[]) => segmentPagesCompiled(pages, snapshot, compiled);
+
+    const explain = (pages: Page[]) => {
+        const debug = resolveDebugConfig(snapshot.debug) ?? resolveDebugConfig(true)!;
+        const debugOptions = snapshot.debug ? snapshot : { ...snapshot, debug: true };
+        return segmentPagesCompiled(pages, debugOptions, compiled).map((s) => ({
+            reason: getDebugReason({ _flappa: s.meta?.[debug.metaKey] }),
+            segment: s,
+        }));
+    };
+
+    return {
+        explain,
+        options: snapshot,
+        segment,
+        validate: (pages, segments = segment(pages), validationOptions) =>
+            validateSegments(pages, snapshot, segments, validationOptions),
+    };
+};
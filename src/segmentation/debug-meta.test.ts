@@ -99,6 +99,12 @@ describe('debug-meta', () => {
             });
         });
 
+        it('buildBreakpointDebugPatch should record a weighted score', () => {
+            expect(buildBreakpointDebugPatch(0, { pattern: '\\n' }, undefined, 0.8)).toEqual({
+                breakpoint: { index: 0, kind: 'pattern', pattern: '\\n', score: 0.8 },
+            });
+        });
+
         it('buildBreakpointDebugPatch should mark regex breakpoints correctly', () => {
             const rule = { regex: '\\.' };
             const patch = buildBreakpointDebugPatch(1, rule);
@@ -186,6 +192,31 @@ describe('debug-meta', () => {
             expect(getDebugReason(meta, { concise: true })).toBe('> 1000 (whitespace)');
         });
 
+        it('should format token budget splits', () => {
+            const meta = {
+                _flappa: { contentLengthSplit: { maxContentLength: 431, maxTokens: 100, splitReason: 'whitespace' } },
+            };
+            expect(getDebugReason(meta)).toBe('Safety Split (whitespace) > 100 tokens');
+            expect(getDebugReason(meta, { concise: true })).toBe('> 100 tokens (whitespace)');
+        });
+
+        it('should format protected span cuts ahead of the breakpoint', () => {
+            const meta = {
+                _flappa: {
+                    breakpoint: { index: 0, kind: 'pattern', pattern: '\\.' },
+                    protectedSpanSplit: { spanLength: 180, windowLength: 100 },
+                },
+            };
+            expect(getDebugReason(meta)).toBe('Protected Span Cut (180 chars) > window of 100');
+            expect(getDebugReason(meta, { concise: true })).toBe('Protected span > 100');
+        });
+
+        it('should format dictionary provenance', () => {
+            const meta = { _flappa: { dictionary: { family: 'lineEntry', headingClass: 'entry' } } };
+            expect(getDebugReason(meta)).toBe('Dictionary (lineEntry) [entry]');
+            expect(getDebugReason(meta, { concise: true })).toBe('Dictionary: lineEntry');
+        });
+
         it('should return Unknown for unknown types', () => {
             const meta = { _flappa: { other: {} } };
             expect(getDebugReason(meta)).toBe('Unknown');
@@ -1,5 +1,6 @@
 import type { BreakpointRule } from '@/types/breakpoints';
 import type { Segment } from '@/types/index.js';
+import type { SplitOverride } from '@/types/options.js';
 import { PATTERN_TYPE_KEYS, type SplitRule } from '@/types/rules.js';
 
 export type DebugConfig = { includeBreakpoint: boolean; includeRule: boolean; metaKey: string } | null;
@@ -55,16 +56,31 @@ export const buildRuleDebugPatch = (ruleIndex: number, rule: SplitRule, wordInde
     };
 };
 
-export const buildBreakpointDebugPatch = (breakpointIndex: number, rule: BreakpointRule, wordIndex?: number) => ({
+export const buildBreakpointDebugPatch = (
+    breakpointIndex: number,
+    rule: BreakpointRule,
+    wordIndex?: number,
+    score?: number,
+) => ({
     breakpoint: {
         index: breakpointIndex,
         kind: rule.pattern === '' ? 'pageBoundary' : rule.regex ? 'regex' : 'pattern',
         pattern: rule.pattern ?? rule.regex,
+        ...(score !== undefined ? { score } : {}),
         ...(wordIndex !== undefined ? { wordIndex } : {}),
         ...(wordIndex !== undefined && rule.words ? { word: rule.words[wordIndex] } : {}),
     },
 });
 
+export const buildOverrideDebugPatch = (overrideIndex: number, override: SplitOverride) => ({
+    override: {
+        action: override.action,
+        index: overrideIndex,
+        page: override.page,
+        text: override.text,
+    },
+});
+
 export type ContentLengthSplitReason = 'whitespace' | 'unicode_boundary' | 'grapheme_cluster';
 
 export const buildContentLengthDebugPatch = (
@@ -131,12 +147,37 @@ const formatBreakpointReason = (breakpoint: any, concise?: boolean) => {
     return `Breakpoint #${index} (${kind}) - "${pattern}"`;
 };
 
+const formatOverrideReason = (override: any, concise?: boolean) => {
+    const { index, page, text } = override;
+    if (concise) {
+        return `Override: "${text}"`;
+    }
+    return `Override #${index} (page ${page}) - "${text}"`;
+};
+
+const formatDictionaryReason = (dictionary: any, concise?: boolean) => {
+    const { family, headingClass } = dictionary;
+    if (concise) {
+        return `Dictionary: ${family}`;
+    }
+    return `Dictionary (${family})${headingClass ? ` [${headingClass}]` : ''}`;
+};
+
 const formatContentLengthReason = (split: any, concise?: boolean) => {
-    const { maxContentLength, splitReason } = split;
+    const { maxContentLength, maxTokens, splitReason } = split;
+    const limit = maxTokens ? `${maxTokens} tokens` : maxContentLength;
+    if (concise) {
+        return `> ${limit} (${splitReason})`;
+    }
+    return `Safety Split (${splitReason}) > ${limit}`;
+};
+
+const formatProtectedSpanReason = (split: any, concise?: boolean) => {
+    const { spanLength, windowLength } = split;
     if (concise) {
-        return `> ${maxContentLength} (${splitReason})`;
+        return `Protected span > ${windowLength}`;
     }
-    return `Safety Split (${splitReason}) > ${maxContentLength}`;
+    return `Protected Span Cut (${spanLength} chars) > window of ${windowLength}`;
 };
 
 /**
@@ -156,10 +197,23 @@ export const getDebugReason = (meta: Record<string, any> | undefined, options?:
         return formatRuleReason(debug.rule, concise);
     }
 
+    // A forced cut inside a protected span matters more than the breakpoint that led to it
+    if (debug.protectedSpanSplit) {
+        return formatProtectedSpanReason(debug.protectedSpanSplit, concise);
+    }
+
     if (debug.breakpoint) {
         return formatBreakpointReason(debug.breakpoint, concise);
     }
 
+    if (debug.override) {
+        return formatOverrideReason(debug.override, concise);
+    }
+
+    if (debug.dictionary) {
+        return formatDictionaryReason(debug.dictionary, concise);
+    }
+
     if (debug.contentLengthSplit) {
         return formatContentLengthReason(debug.contentLengthSplit, concise);
     }
@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'bun:test';
+import type { Page } from '@/types/index.js';
+import type { SegmentationOptions } from '@/types/options.js';
+import { explainPosition } from './explain-position.js';
+
+const pages: Page[] = [
+    { content: 'باب الطهارة\nقال\nحدثنا زيد\nحدثنا عمرو', id: 1 },
+    { content: 'باب الصلاة\nحدثنا بكر', id: 2 },
+];
+
+const options: SegmentationOptions = {
+    overrides: [{ action: 'suppress', page: 1, text: 'حدثنا عمرو' }],
+    rules: [
+        { lineStartsWith: ['باب'], meta: { type: 'chapter' } },
+        { lineStartsWith: ['حدثنا'], samePagePrevWordStoplist: ['قال'] },
+        { lineStartsWith: ['باب'], occurrence: 'first' },
+    ],
+};
+
+const statusOf = ({ accepted, detail, droppedBy, offset, pageId }: Record<string, any>) => ({
+    accepted,
+    detail,
+    droppedBy,
+    offset,
+    pageId,
+});
+
+describe('explainPosition', () => {
+    it('should resolve a text target and report the nearest boundary', () => {
+        const report = explainPosition(pages, options, { pageId: 1, text: 'حدثنا زيد' }, { radius: 20 });
+
+        expect(report.offset).toBe(16);
+        expect(report.boundary).toEqual({
+            distance: -16,
+            offset: 0,
+            pageId: 1,
+            reason: 'Rule #0 (lineStartsWith) [idx:0] (Matched: "باب")',
+            segmentIndex: 0,
+        });
+        expect(report.rules.map((r) => r.label)).toEqual([
+            'Rule #0 (lineStartsWith)',
+            'Rule #1 (lineStartsWith)',
+            'Rule #2 (lineStartsWith)',
+        ]);
+    });
+
+    it('should explain guard, override and dedupe drops', () => {
+        const report = explainPosition(pages, options, { offset: 16, pageId: 1 }, { radius: 20 });
+
+        expect(report.rules[0].candidates.map(statusOf)).toEqual([
+            { accepted: true, detail: undefined, droppedBy: undefined, offset: 0, pageId: 1 },
+        ]);
+        expect(report.rules[1].candidates.map(statusOf)).toEqual([
+            { accepted: false, detail: undefined, droppedBy: 'samePagePrevWordStoplist', offset: 16, pageId: 1 },
+            { accepted: false, detail: 'suppressed by overrides[0]', droppedBy: 'override', offset: 26, pageId: 1 },
+        ]);
+        expect(report.rules[2].candidates.map(statusOf)).toEqual([
+            {
+                accepted: false,
+                detail: 'merged into Rule #0 (lineStartsWith) [idx:0] (Matched: "باب")',
+                droppedBy: 'dedupe',
+                offset: 0,
+                pageId: 1,
+            },
+        ]);
+    });
+
+    it('should explain occurrence filtering and page constraints', () => {
+        const report = explainPosition(
+            pages,
+            { rules: [...options.rules!, { lineStartsWith: ['باب الصلاة'], max: 1 }] },
+            { offset: 0, pageId: 2 },
+            { radius: 5 },
+        );
+
+        expect(report.rules[2].candidates.map(statusOf)).toEqual([
+            {
+                accepted: false,
+                detail: "occurrence 'first' keeps the match on page 1 at offset 0",
+                droppedBy: 'occurrence',
+                offset: 0,
+                pageId: 2,
+            },
+        ]);
+        expect(report.rules[3].candidates.map(statusOf)).toEqual([
+            { accepted: false, detail: 'page 2 > max 1', droppedBy: 'max', offset: 0, pageId: 2 },
+        ]);
+    });
+
+    it('should explain zone drops', () => {
+        const report = explainPosition(
+            pages,
+            {
+                rules: [{ lineStartsWith: ['حدثنا'], zone: 'prayer' }],
+                zones: [{ activateAfter: ['باب الصلاة'], name: 'prayer' }],
+            },
+            { pageId: 1, text: 'حدثنا عمرو' },
+            { radius: 0 },
+        );
+
+        expect(report.rules[0].candidates.map(statusOf)).toEqual([
+            { accepted: false, detail: 'zone "prayer" is inactive here', droppedBy: 'zone', offset: 26, pageId: 1 },
+        ]);
+    });
+
+    it('should explain which breakpoint positions were used', () => {
+        const longPages = [{ content: `${'كلام طويل. '.repeat(10)}النهاية`, id: 1 }];
+        const report = explainPosition(
+            longPages,
+            { breakpoints: ['{{tarqim}}\\s*'], maxContentLength: 50, rules: [] },
+            { offset: 44, pageId: 1 },
+            { radius: 12 },
+        );
+
+        expect(report.boundary?.reason).toBe('Breakpoint #0 (pattern) - "{{tarqim}}\\s*"');
+        expect(report.breakpoints[0].candidates.map((c) => [c.offset, c.accepted, c.droppedBy])).toEqual([
+            [33, false, 'notSelected'],
+            [44, true, undefined],
+            [55, false, 'notSelected'],
+        ]);
+    });
+
+    it('should report breakpoints as not needed when the segment fits', () => {
+        const report = explainPosition(
+            [{ content: 'قال زيد. ثم قال عمرو', id: 1 }],
+            { breakpoints: ['{{tarqim}}\\s*'], maxPages: 1, rules: [] },
+            { pageId: 1, text: 'ثم' },
+        );
+
+        expect(report.breakpoints[0].candidates.map(({ detail, droppedBy }) => [droppedBy, detail])).toEqual([
+            ['notOversized', 'segment spans 1 page(s) and 20 characters'],
+        ]);
+    });
+
+    it('should report dictionary blocker reasons', () => {
+        const report = explainPosition(
+            [{ content: 'تمهيد.\nقال\nلع: جذر مرفوض.\nعك: جذر مقبول.', id: 1 }],
+            {
+                dictionary: {
+                    version: 2,
+                    zones: [
+                        {
+                            blockers: [{ scope: 'samePage', use: 'previousWord', words: ['قال'] }],
+                            families: [{ emit: 'entry', use: 'lineEntry', wrappers: 'none' }],
+                            name: 'main',
+                        },
+                    ],
+                },
+            },
+            { pageId: 1, text: 'لع' },
+        );
+
+        expect(
+            report.dictionary.map(({ accepted, detail, droppedBy, lemma }) => [lemma, accepted, droppedBy, detail]),
+        ).toEqual([
+            ['لع', false, 'dictionaryBlocker', 'previousWord'],
+            ['عك', true, undefined, undefined],
+        ]);
+    });
+
+    it('should throw for unknown pages, out-of-range offsets and missing text', () => {
+        expect(() => explainPosition(pages, options, { offset: 0, pageId: 9 })).toThrow('Page 9 not found');
+        expect(() => explainPosition(pages, options, { offset: 99, pageId: 1 })).toThrow('outside page 1');
+        expect(() => explainPosition(pages, options, { pageId: 2, text: 'غير موجود' })).toThrow(
+            'Text "غير موجود" not found on page 2',
+        );
+    });
+});
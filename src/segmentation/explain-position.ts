@@ -0,0 +1,491 @@
+/**
+ * Position explainer (`explainPosition()`).
+ *
+ * Answers "why is there (no) split here?" for one spot in a book: every rule, breakpoint and
+ * dictionary candidate that matches near the spot is listed with whether it produced the
+ * final boundary, and if not, the stage of the pipeline that dropped it.
+ */
+
+import { collectDictionaryCandidateOutcomes } from '@/dictionary/dictionary-diagnostics.js';
+import type { DictionaryFamilyUse, DictionarySegmentKind } from '@/types/dictionary.js';
+import type { Page } from '@/types/index.js';
+import type { SegmentationOptions } from '@/types/options.js';
+import type { SplitRule } from '@/types/rules.js';
+import type { PageMap, SplitPoint } from '@/types/segmenter.js';
+import { type ExpandedBreakpoint, isPageExcluded } from './breakpoint-utils.js';
+import { buildBreakpointDebugPatch, buildRuleDebugPatch, getDebugReason } from './debug-meta.js';
+import { separateFootnotes } from './footnotes.js';
+import { getLastPositionalCapture } from './match-utils.js';
+import { buildRuleRegex } from './rule-regex.js';
+import { computeRuleZoneRanges, getRuleZoneStateAt, type RuleZoneRanges } from './rule-zones.js';
+import {
+    buildPageMap,
+    collectSegmentationSplitPoints,
+    compileSegmentation,
+    preprocessPages,
+    resolveSegmentationLimits,
+    segmentPagesCompiled,
+} from './segmenter.js';
+import { createPageStartGuardExplainer } from './segmenter-rule-utils.js';
+import { applySuppressOverrides, findOverrideAnchor } from './split-overrides.js';
+import { resolveTokenLimit } from './token-limit.js';
+
+const DEBUG_META_KEY = '_flappa';
+const DEFAULT_RADIUS = 100;
+const WHITESPACE_REGEX = /\s/;
+
+/**
+ * The spot to explain: a page and either an offset into its content or a text fingerprint.
+ *
+ * Offsets refer to the page content after `preprocess`, footnote separation and line-ending
+ * normalization (the text rules match against).
+ */
+export type PositionTarget = { pageId: number } & ({ offset: number } | { text: string; occurrence?: number });
+
+export type ExplainPositionOptions = {
+    /** How far (in characters, either side) from the target candidates are reported. Default: 100 */
+    radius?: number;
+};
+
+/**
+ * Pipeline stage that dropped a candidate split.
+ */
+export type CandidateDropReason =
+    | 'min'
+    | 'max'
+    | 'exclude'
+    | 'pageStartGuard'
+    | 'pageStartPrevWordStoplist'
+    | 'samePagePrevWordStoplist'
+    | 'zone'
+    | 'occurrence'
+    | 'dedupe'
+    | 'override'
+    | 'dictionaryBlocker'
+    | 'notOversized'
+    | 'notSelected';
+
+/**
+ * One place where a rule, breakpoint or dictionary family would split.
+ */
+export type ExplainedCandidate = {
+    /** Page the split falls on */
+    pageId: number;
+    /** Split offset within that page */
+    offset: number;
+    /** Split position relative to the target (negative = before it) */
+    distance: number;
+    /** Matched text */
+    text: string;
+    /** `true` when the candidate produced a boundary in the final segmentation */
+    accepted: boolean;
+    /** Why a candidate that was not accepted got dropped */
+    droppedBy?: CandidateDropReason;
+    /** Extra context, e.g. the source a deduplicated candidate lost to */
+    detail?: string;
+};
+
+export type RuleExplanation = {
+    index: number;
+    /** e.g. `Rule #1 (lineStartsAfter)` */
+    label: string;
+    candidates: ExplainedCandidate[];
+};
+
+export type BreakpointExplanation = {
+    /** Index into the expanded breakpoints (as in debug provenance) */
+    index: number;
+    /** e.g. `Breakpoint #0 (pattern) - "{{tarqim}}"` */
+    label: string;
+    candidates: ExplainedCandidate[];
+};
+
+export type DictionaryCandidateExplanation = ExplainedCandidate & {
+    family: DictionaryFamilyUse;
+    kind: DictionarySegmentKind;
+    lemma?: string;
+    /** Dictionary zone the candidate was found in */
+    zone: string;
+};
+
+/**
+ * Everything that was evaluated around a position.
+ */
+export type PositionExplanation = {
+    pageId: number;
+    /** Resolved offset of the target within the page */
+    offset: number;
+    /** The final segment start closest to the target within the radius, if any */
+    boundary: { distance: number; offset: number; pageId: number; reason: string; segmentIndex: number } | null;
+    rules: RuleExplanation[];
+    /** Empty unless `maxPages`, `maxContentLength` or `maxTokens` is set (breakpoints only apply to oversized segments) */
+    breakpoints: BreakpointExplanation[];
+    dictionary: DictionaryCandidateExplanation[];
+};
+
+type ExplainContext = {
+    content: string;
+    finalByIndex: Map<number, SplitPoint>;
+    locate: (position: number) => { offset: number; pageId: number };
+    normalizedPages: string[];
+    options: SegmentationOptions;
+    pageMap: PageMap;
+    radius: number;
+    target: number;
+};
+
+type Drop = { detail?: string; droppedBy: CandidateDropReason };
+
+const describeSplitPoint = (splitPoint: SplitPoint) => getDebugReason({ _flappa: splitPoint.meta?.[DEBUG_META_KEY] });
+
+const isDictionarySplitPoint = (splitPoint: SplitPoint | undefined) =>
+    splitPoint?.ruleIndex === undefined &&
+    (splitPoint?.meta?.[DEBUG_META_KEY] as Record<string, unknown> | undefined)?.dictionary !== undefined;
+
+const toCandidate = (ctx: ExplainContext, position: number, text: string, drop: Drop | null): ExplainedCandidate => ({
+    ...ctx.locate(position),
+    accepted: drop === null,
+    distance: position - ctx.target,
+    text,
+    ...(drop ?? {}),
+});
+
+const isNear = (ctx: ExplainContext, position: number) => Math.abs(position - ctx.target) <= ctx.radius;
+
+const resolveTargetOffset = (target: PositionTarget, pageContent: string) => {
+    if ('offset' in target) {
+        if (target.offset < 0 || target.offset > pageContent.length) {
+            throw new Error(`Offset ${target.offset} is outside page ${target.pageId} (length ${pageContent.length})`);
+        }
+        return target.offset;
+    }
+    const offset = findOverrideAnchor(pageContent, { action: 'split', ...target, page: target.pageId });
+    if (offset === -1) {
+        throw new Error(`Text "${target.text}" not found on page ${target.pageId}`);
+    }
+    return offset;
+};
+
+/** Why a dropped split point is missing from the final split points. */
+const explainMissingSplitPoint = (ctx: ExplainContext, splitPoint: SplitPoint): Drop => {
+    const winner = ctx.finalByIndex.get(splitPoint.index);
+    if (winner) {
+        return { detail: `merged into ${describeSplitPoint(winner)}`, droppedBy: 'dedupe' };
+    }
+    const overrides = ctx.options.overrides ?? [];
+    const overrideIndex = overrides.findIndex(
+        (override) =>
+            applySuppressOverrides([splitPoint], [override], ctx.content, ctx.pageMap, ctx.normalizedPages).length ===
+            0,
+    );
+    return overrideIndex === -1
+        ? { droppedBy: 'dedupe' }
+        : { detail: `suppressed by overrides[${overrideIndex}]`, droppedBy: 'override' };
+};
+
+const checkRuleConstraints = (rule: SplitRule | ExpandedBreakpoint['rule'], pageId: number): Drop | null => {
+    if (rule.min !== undefined && pageId < rule.min) {
+        return { detail: `page ${pageId} < min ${rule.min}`, droppedBy: 'min' };
+    }
+    if (rule.max !== undefined && pageId > rule.max) {
+        return { detail: `page ${pageId} > max ${rule.max}`, droppedBy: 'max' };
+    }
+    return isPageExcluded(pageId, rule.exclude) ? { detail: `page ${pageId} is excluded`, droppedBy: 'exclude' } : null;
+};
+
+type RuleMatch = { drop: Drop | null; index: number; splitPoint: SplitPoint; text: string };
+
+const collectRuleMatches = (
+    ctx: ExplainContext,
+    rule: SplitRule,
+    ruleIndex: number,
+    explainGuard: ReturnType<typeof createPageStartGuardExplainer>,
+    zoneRanges: RuleZoneRanges,
+) => {
+    const { regex, usesLineStartsAfter } = buildRuleRegex(rule, undefined, ctx.options.tokens);
+
+    return Array.from(ctx.content.matchAll(regex), (m): RuleMatch => {
+        const start = m.index;
+        const end = start + m[0].length;
+        const index = (rule.split ?? 'at') === 'at' ? start : end;
+        const captured = usesLineStartsAfter ? getLastPositionalCapture(m) : undefined;
+        const splitPoint =
+            captured === undefined ? { index } : { contentStartOffset: end - captured.length - start, index };
+
+        const guard = explainGuard(rule, ruleIndex, start);
+        const inactiveZone = rule.zone !== undefined && !getRuleZoneStateAt(zoneRanges, index).get(rule.zone);
+        const drop =
+            checkRuleConstraints(rule, ctx.pageMap.getId(start)) ??
+            (guard ? { droppedBy: guard } : null) ??
+            (inactiveZone ? { detail: `zone "${rule.zone}" is inactive here`, droppedBy: 'zone' } : null);
+
+        return { drop, index, splitPoint, text: m[0] };
+    });
+};
+
+const explainRule = (
+    ctx: ExplainContext,
+    rule: SplitRule,
+    ruleIndex: number,
+    explainGuard: ReturnType<typeof createPageStartGuardExplainer>,
+    zoneRanges: RuleZoneRanges,
+): RuleExplanation => {
+    const matches = collectRuleMatches(ctx, rule, ruleIndex, explainGuard, zoneRanges);
+    const survivors = matches.filter((m) => m.drop === null);
+    const kept = rule.occurrence === 'first' ? survivors[0] : rule.occurrence === 'last' ? survivors.at(-1) : undefined;
+
+    const explainSurvivor = (match: RuleMatch): Drop | null => {
+        if (kept && kept !== match) {
+            const { offset, pageId } = ctx.locate(kept.index);
+            return {
+                detail: `occurrence '${rule.occurrence}' keeps the match on page ${pageId} at offset ${offset}`,
+                droppedBy: 'occurrence',
+            };
+        }
+        return ctx.finalByIndex.get(match.index)?.ruleIndex === ruleIndex
+            ? null
+            : explainMissingSplitPoint(ctx, match.splitPoint);
+    };
+
+    return {
+        candidates: matches
+            .filter((m) => isNear(ctx, m.index))
+            .map((m) => toCandidate(ctx, m.index, m.text, m.drop ?? explainSurvivor(m))),
+        index: ruleIndex,
+        label: getDebugReason({ _flappa: buildRuleDebugPatch(ruleIndex, rule) }),
+    };
+};
+
+const explainDictionary = (
+    ctx: ExplainContext,
+    bodyPages: Page[],
+    compiled: ReturnType<typeof compileSegmentation>,
+) => {
+    if (!compiled.dictionaryProfile) {
+        return [];
+    }
+    const outcomes = collectDictionaryCandidateOutcomes(
+        bodyPages,
+        compiled.dictionaryProfile,
+        ctx.pageMap,
+        ctx.normalizedPages,
+    );
+
+    return outcomes
+        .filter(({ candidate }) => isNear(ctx, candidate.absoluteIndex))
+        .map(({ candidate, rejection, zone }): DictionaryCandidateExplanation => {
+            const { absoluteIndex: index, contentStartOffset } = candidate;
+            const drop: Drop | null = rejection
+                ? { detail: rejection, droppedBy: 'dictionaryBlocker' }
+                : isDictionarySplitPoint(ctx.finalByIndex.get(index))
+                  ? null
+                  : explainMissingSplitPoint(ctx, { contentStartOffset, index });
+
+            return {
+                ...toCandidate(ctx, index, candidate.text, drop),
+                family: candidate.family,
+                kind: candidate.kind,
+                ...(candidate.lemma ? { lemma: candidate.lemma } : {}),
+                zone,
+            };
+        });
+};
+
+/** Skips whitespace after `position` (segment content is trimmed). */
+const skipWhitespace = (content: string, position: number) => {
+    let pos = position;
+    while (pos < content.length && WHITESPACE_REGEX.test(content[pos])) {
+        pos++;
+    }
+    return pos;
+};
+
+type FinalBoundary = { meta?: Record<string, any>; position: number; segmentIndex: number };
+
+/**
+ * Segments the prepared pages and maps each segment start back to an offset in the match content.
+ */
+const collectFinalBoundaries = (
+    ctx: ExplainContext,
+    options: SegmentationOptions,
+    compiled: ReturnType<typeof compileSegmentation>,
+) => {
+    const preparedPages = ctx.normalizedPages.map((content, i) => ({ content, id: ctx.pageMap.boundaries[i].id }));
+    const pageStarts = new Map(ctx.pageMap.boundaries.map((b) => [b.id, b.start]));
+    const segments = segmentPagesCompiled(
+        preparedPages,
+        { ...options, debug: true, footnotes: undefined, logger: undefined, preprocess: undefined, sourceSpans: true },
+        compiled,
+    );
+
+    return segments.flatMap((segment, segmentIndex): FinalBoundary[] => {
+        const span = segment.source?.[0];
+        return span ? [{ meta: segment.meta, position: pageStarts.get(span.page)! + span.start, segmentIndex }] : [];
+    });
+};
+
+const findNearestBoundary = (ctx: ExplainContext, boundaries: FinalBoundary[]) => {
+    let nearest: FinalBoundary | undefined;
+    for (const boundary of boundaries) {
+        const distance = Math.abs(boundary.position - ctx.target);
+        if (distance <= ctx.radius && (!nearest || distance < Math.abs(nearest.position - ctx.target))) {
+            nearest = boundary;
+        }
+    }
+    return nearest
+        ? {
+              ...ctx.locate(nearest.position),
+              distance: nearest.position - ctx.target,
+              reason: getDebugReason({ _flappa: nearest.meta?.[DEBUG_META_KEY] }),
+              segmentIndex: nearest.segmentIndex,
+          }
+        : null;
+};
+
+/** Checks whether the structural segment containing `position` exceeds the configured limits. */
+const checkOversized = (ctx: ExplainContext, position: number, splitIndices: number[]): Drop | null => {
+    const { maxContentLength, maxPages } = resolveSegmentationLimits(ctx.options);
+    const tokenLimit = resolveTokenLimit(ctx.options);
+    const start = splitIndices.findLast((i) => i <= position) ?? 0;
+    if (start === position && start > 0) {
+        return { detail: 'a structural split already starts here', droppedBy: 'dedupe' };
+    }
+    const end = splitIndices.find((i) => i > position) ?? ctx.content.length;
+    const pageIndexById = new Map(ctx.pageMap.pageIds.map((id, i) => [id, i]));
+    const pageSpan = pageIndexById.get(ctx.pageMap.getId(end - 1))! - pageIndexById.get(ctx.pageMap.getId(start))!;
+    const oversized =
+        (maxPages !== undefined && pageSpan > maxPages) ||
+        (maxContentLength !== undefined && end - start > maxContentLength) ||
+        (tokenLimit !== undefined && tokenLimit.countTokens(ctx.content.slice(start, end)) > tokenLimit.maxTokens);
+
+    return oversized
+        ? null
+        : {
+              detail: `segment spans ${pageSpan + 1} page(s) and ${end - start} characters`,
+              droppedBy: 'notOversized',
+          };
+};
+
+const findBreakpointPositions = (ctx: ExplainContext, breakpoint: ExpandedBreakpoint) =>
+    breakpoint.regex === null
+        ? ctx.pageMap.boundaries.slice(1).map((b) => ({ position: b.start, text: '' }))
+        : Array.from(ctx.content.matchAll(breakpoint.regex), (m) => ({
+              position: breakpoint.splitAt ? m.index : m.index + m[0].length,
+              text: m[0],
+          }));
+
+const explainBreakpoint = (
+    ctx: ExplainContext,
+    breakpoint: ExpandedBreakpoint,
+    index: number,
+    boundaries: FinalBoundary[],
+    splitIndices: number[],
+): BreakpointExplanation => {
+    const explainPositionAt = (position: number): Drop | null => {
+        const pageId = ctx.pageMap.getId(position);
+        const constraintDrop = checkRuleConstraints(breakpoint.rule, pageId);
+        if (constraintDrop) {
+            return constraintDrop;
+        }
+        const textStart = skipWhitespace(ctx.content, position);
+        const produced = boundaries.some(
+            (b) =>
+                b.position >= position &&
+                b.position <= textStart &&
+                b.meta?.[DEBUG_META_KEY]?.breakpoint?.index === index,
+        );
+        return produced
+            ? null
+            : (checkOversized(ctx, position, splitIndices) ?? {
+                  detail: 'another position in the oversized segment was preferred',
+                  droppedBy: 'notSelected',
+              });
+    };
+
+    return {
+        candidates: findBreakpointPositions(ctx, breakpoint)
+            .filter(({ position }) => isNear(ctx, position))
+            .map(({ position, text }) => toCandidate(ctx, position, text, explainPositionAt(position))),
+        index,
+        label: getDebugReason({ _flappa: buildBreakpointDebugPatch(index, breakpoint.rule) }),
+    };
+};
+
+/**
+ * Explains what happened at one position of a book: which rules, breakpoints and dictionary
+ * candidates matched near it, which of them produced the final boundary, and why the others
+ * were dropped (page constraints, page-start guards and stoplists, zones, occurrence filtering,
+ * deduplication, suppress overrides, dictionary blockers, or breakpoint selection).
+ *
+ * The segmentation itself runs exactly as `segmentPages()` would.
+ *
+ * @param pages - Pages to segment
+ * @param options - Segmentation options
+ * @param target - Page and offset (or text fingerprint) to explain
+ * @param explainOptions - Search radius around the target
+ * @returns The explanation; candidates are listed in document order
+ * @throws Error when the page is unknown, the offset is out of range or the text is not found
+ *
+ * @example
+ * const report = explainPosition(pages, options, { pageId: 12, text: 'باب الصلاة' });
+ * report.boundary; // { reason: 'Rule #0 (lineStartsWith)', distance: 0, ... } or null
+ * report.rules[1].candidates; // [{ accepted: false, droppedBy: 'samePagePrevWordStoplist', ... }]
+ */
+export const explainPosition = (
+    pages: Page[],
+    options: SegmentationOptions,
+    target: PositionTarget,
+    explainOptions: ExplainPositionOptions = {},
+): PositionExplanation => {
+    const compiled = compileSegmentation(options);
+    const { pages: bodyPages } = separateFootnotes(preprocessPages(pages, options.preprocess, options.tokens), options);
+    const { content, normalizedPages, pageMap } = buildPageMap(bodyPages);
+
+    const pageIndex = pageMap.boundaries.findIndex((b) => b.id === target.pageId);
+    if (pageIndex === -1) {
+        throw new Error(`Page ${target.pageId} not found`);
+    }
+    const offset = resolveTargetOffset(target, normalizedPages[pageIndex]);
+
+    const zoneRanges = computeRuleZoneRanges(content, compiled.ruleZones);
+    const finalSplitPoints = collectSegmentationSplitPoints(
+        bodyPages,
+        normalizedPages,
+        content,
+        pageMap,
+        options,
+        DEBUG_META_KEY,
+        undefined,
+        compiled,
+        zoneRanges,
+    );
+    const ctx: ExplainContext = {
+        content,
+        finalByIndex: new Map(finalSplitPoints.map((sp) => [sp.index, sp])),
+        locate: (position) => {
+            const boundary = pageMap.boundaries.find((b) => position <= b.end) ?? pageMap.boundaries.at(-1)!;
+            return { offset: position - boundary.start, pageId: boundary.id };
+        },
+        normalizedPages,
+        options,
+        pageMap,
+        radius: explainOptions.radius ?? DEFAULT_RADIUS,
+        target: pageMap.boundaries[pageIndex].start + offset,
+    };
+
+    const explainGuard = createPageStartGuardExplainer(content, pageMap, options.tokens);
+    const boundaries = collectFinalBoundaries(ctx, options, compiled);
+    const splitIndices = finalSplitPoints.map((sp) => sp.index);
+    const { hasLimits } = resolveSegmentationLimits(options);
+
+    return {
+        boundary: findNearestBoundary(ctx, boundaries),
+        breakpoints: hasLimits
+            ? compiled.breakpoints.map((bp, i) => explainBreakpoint(ctx, bp, i, boundaries, splitIndices))
+            : [],
+        dictionary: explainDictionary(ctx, bodyPages, compiled),
+        offset,
+        pageId: target.pageId,
+        rules: (options.rules ?? []).map((rule, i) => explainRule(ctx, rule, i, explainGuard, zoneRanges)),
+    };
+};
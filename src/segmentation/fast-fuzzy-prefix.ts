@@ -11,7 +11,7 @@
  * token patterns (plain text alternation via `|`), not general regex.
  */
 
-import { getTokenPattern, TOKEN_PATTERNS, type TokenPatternName } from './tokens.js';
+import { type CustomTokens, resolveTokenPatterns } from './tokens.js';
 
 export type FastFuzzyTokenRule = {
     token: string;
@@ -72,16 +72,17 @@ export const compileLiteralAlternation = (pattern: string) => {
     return alternatives.length ? { alternatives } : null;
 };
 
-export const compileFastFuzzyTokenRule = (tokenTemplate: string) => {
+export const compileFastFuzzyTokenRule = (tokenTemplate: string, tokens?: CustomTokens) => {
     const m = tokenTemplate.match(/^\{\{(\w+)\}\}$/);
     if (!m) {
         return null;
     }
     const token = m[1];
-    if (!(token in TOKEN_PATTERNS)) {
+    const tokenPatterns = resolveTokenPatterns(tokens);
+    if (!Object.hasOwn(tokenPatterns, token)) {
         return null;
     }
-    const tokenPattern = getTokenPattern(token as TokenPatternName);
+    const tokenPattern = tokenPatterns[token];
     const compiled = compileLiteralAlternation(tokenPattern);
     return compiled ? { alternatives: compiled.alternatives, token } : null;
 };
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'bun:test';
+import type { Page } from '@/types/index.js';
+import { placeFootnotes, separateFootnotes } from './footnotes.js';
+
+const pages: Page[] = [
+    { content: 'قال (١) حدثنا\n١ - حدثنا زيد (٢)\n__________\n(١) هو ابن حرب.\n(٢) صحيح.\nتتمة الحاشية', id: 1 },
+    { content: 'لا حواشي هنا', id: 2 },
+];
+
+describe('separateFootnotes', () => {
+    it('should return the pages untouched when the option is off', () => {
+        expect(separateFootnotes(pages, {})).toEqual({ footnotes: null, pages });
+    });
+
+    it('should cut each page at its separator and parse the entries', () => {
+        const { footnotes, pages: bodies } = separateFootnotes(pages, { footnotes: true });
+
+        expect(bodies.map((p) => p.content)).toEqual(['قال (١) حدثنا\n١ - حدثنا زيد (٢)', 'لا حواشي هنا']);
+        expect(footnotes?.entries.get(1)).toEqual([
+            { content: 'هو ابن حرب.', end: 58, marker: '١', page: 1, start: 47 },
+            { content: 'صحيح.\nتتمة الحاشية', end: 81, marker: '٢', page: 1, start: 63 },
+        ]);
+        expect(footnotes?.entries.has(2)).toBeFalse();
+        expect(pages[0].content.slice(47, 58)).toBe('هو ابن حرب.');
+    });
+
+    it('should keep text before the first marker as an unnumbered entry', () => {
+        const { footnotes } = separateFootnotes([{ content: 'متن\n-----\nتتمة من الصفحة السابقة\n(١) حاشية', id: 3 }], {
+            footnotes: true,
+        });
+        expect(footnotes?.entries.get(3)?.map(({ content, marker }) => ({ content, marker }))).toEqual([
+            { content: 'تتمة من الصفحة السابقة', marker: undefined },
+            { content: 'حاشية', marker: '١' },
+        ]);
+    });
+
+    it('should support a custom separator template', () => {
+        const { pages: bodies } = separateFootnotes([{ content: 'متن\n***\n(١) حاشية', id: 1 }], {
+            footnotes: { separator: '{{stars}}' },
+            tokens: { stars: '\\*{3}' },
+        });
+        expect(bodies[0].content).toBe('متن');
+    });
+});
+
+describe('placeFootnotes', () => {
+    const { footnotes } = separateFootnotes(pages, { footnotes: true });
+    const segments = () => [
+        { content: 'قال (١) حدثنا', from: 1 },
+        { content: 'حدثنا زيد (٢) لا حواشي هنا', from: 1, to: 2 },
+    ];
+
+    it('should attach footnotes to the segments referencing their markers', () => {
+        const result = placeFootnotes(segments(), footnotes!, [1, 2], false);
+
+        expect(result[0].footnotes).toEqual([{ content: 'هو ابن حرب.', marker: '١', page: 1 }]);
+        expect(result[1].footnotes).toEqual([{ content: 'صحيح.\nتتمة الحاشية', marker: '٢', page: 1 }]);
+    });
+
+    it('should give unreferenced footnotes to the last segment starting on or before their page', () => {
+        const result = placeFootnotes(
+            [
+                { content: 'قال حدثنا', from: 1 },
+                { content: 'زيد', from: 1 },
+            ],
+            footnotes!,
+            [1, 2],
+            false,
+        );
+
+        expect(result[0].footnotes).toBeUndefined();
+        expect(result[1].footnotes?.map((f) => f.marker)).toEqual(['١', '٢']);
+    });
+
+    it('should insert footnote segments after their segment in segments mode', () => {
+        const result = placeFootnotes(
+            segments(),
+            { ...footnotes!, meta: { kind: 'hashiya' }, mode: 'segments' },
+            [1, 2],
+            true,
+        );
+
+        expect(result).toEqual([
+            { content: 'قال (١) حدثنا', from: 1 },
+            {
+                content: 'هو ابن حرب.',
+                from: 1,
+                meta: { kind: 'hashiya', marker: '١' },
+                source: [{ end: 58, page: 1, start: 47 }],
+            },
+            { content: 'حدثنا زيد (٢) لا حواشي هنا', from: 1, to: 2 },
+            {
+                content: 'صحيح.\nتتمة الحاشية',
+                from: 1,
+                meta: { kind: 'hashiya', marker: '٢' },
+                source: [{ end: 81, page: 1, start: 63 }],
+            },
+        ]);
+    });
+});
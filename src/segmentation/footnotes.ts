@@ -0,0 +1,207 @@
+/**
+ * Footnote separation (`options.footnotes`).
+ *
+ * Shamela pages put footnotes after a separator line (`{{hr}}`). The region after the
+ * first separator is removed from each page before matching, parsed into entries keyed
+ * by their `(١)` markers, and placed back onto the segments once segmentation is done.
+ */
+
+import type { Page, Segment, SegmentFootnote } from '@/types/index.js';
+import type { FootnoteOptions, SegmentationOptions } from '@/types/options.js';
+import { normalizeLineEndings } from '@/utils/textUtils.js';
+import { expandTokens } from './tokens.js';
+
+/** A footnote line starts with its marker, e.g. `(١) أخرجه البخاري`. */
+const FOOTNOTE_MARKER_REGEX = /^[ \t]*\(([٠-٩0-9]+)\)[ \t]*/u;
+
+/** References to footnotes inside body text, e.g. `قال (١)`. */
+const FOOTNOTE_REFERENCE_REGEX = /\(([٠-٩0-9]+)\)/gu;
+
+/** Footnote plus its range in the normalized page content (for `sourceSpans`). */
+type FootnoteEntry = SegmentFootnote & { end: number; start: number };
+
+type FootnoteLayout = {
+    entries: Map<number, FootnoteEntry[]>;
+    meta: Record<string, unknown>;
+    mode: NonNullable<FootnoteOptions['mode']>;
+};
+
+/**
+ * Parses the footnote region of a page into entries. Lines without a marker continue the
+ * previous entry; text before the first marker becomes an unnumbered entry.
+ */
+const parseFootnoteRegion = (region: string, regionStart: number, page: number) => {
+    const entries: FootnoteEntry[] = [];
+    let offset = regionStart;
+
+    for (const line of region.split('\n')) {
+        const text = line.trim();
+        const markerMatch = line.match(FOOTNOTE_MARKER_REGEX);
+        const end = offset + line.trimEnd().length;
+        const last = entries.at(-1);
+
+        if (markerMatch) {
+            const start = offset + markerMatch[0].length;
+            entries.push({
+                content: line.slice(markerMatch[0].length).trim(),
+                end,
+                marker: markerMatch[1],
+                page,
+                start,
+            });
+        } else if (text && last) {
+            last.content = `${last.content}\n${text}`;
+            last.end = end;
+        } else if (text) {
+            entries.push({ content: text, end, page, start: offset + line.length - line.trimStart().length });
+        }
+        offset += line.length + 1;
+    }
+    return entries;
+};
+
+/**
+ * Removes the footnote region from every page that has a separator line.
+ *
+ * @param pages - Preprocessed pages
+ * @param options - Segmentation options (`footnotes` and `tokens` are used)
+ * @returns Body-only pages plus the parsed footnotes, or `footnotes: null` when the option is off
+ */
+export const separateFootnotes = (
+    pages: Page[],
+    options: SegmentationOptions,
+): { footnotes: FootnoteLayout | null; pages: Page[] } => {
+    if (!options.footnotes) {
+        return { footnotes: null, pages };
+    }
+
+    const {
+        meta = { type: 'footnote' },
+        mode = 'attach',
+        separator = '{{hr}}',
+    } = options.footnotes === true ? {} : options.footnotes;
+    const separatorRegex = new RegExp(`^[ \\t]*(?:${expandTokens(separator, options.tokens)})[ \\t]*$`, 'mu');
+    const entries = new Map<number, FootnoteEntry[]>();
+
+    const bodies = pages.map((page) => {
+        const content = normalizeLineEndings(page.content);
+        const match = separatorRegex.exec(content);
+        if (!match) {
+            return page;
+        }
+
+        const regionStart = match.index + match[0].length + 1;
+        entries.set(page.id, parseFootnoteRegion(content.slice(regionStart), regionStart, page.id));
+        return { ...page, content: content.slice(0, match.index).trimEnd() };
+    });
+
+    options.logger?.debug?.('[footnotes] footnote regions separated', { pagesWithFootnotes: entries.size });
+    return { footnotes: { entries, meta, mode }, pages: bodies };
+};
+
+const upperBound = (values: number[], target: number) => {
+    let lo = 0;
+    let hi = values.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >>> 1;
+        if (values[mid] <= target) {
+            lo = mid + 1;
+        } else {
+            hi = mid;
+        }
+    }
+    return lo;
+};
+
+/** Footnotes on the pages a segment covers whose markers the segment references. */
+const findReferencedFootnotes = (
+    segment: Segment,
+    entries: Map<number, FootnoteEntry[]>,
+    pageIds: number[],
+    pageIndexById: Map<number, number>,
+) => {
+    const references = new Set(Array.from(segment.content.matchAll(FOOTNOTE_REFERENCE_REGEX), (m) => m[1]));
+    if (references.size === 0) {
+        return [];
+    }
+    const fromIndex = pageIndexById.get(segment.from) ?? 0;
+    const toIndex = pageIndexById.get(segment.to ?? segment.from) ?? fromIndex;
+    return pageIds
+        .slice(fromIndex, toIndex + 1)
+        .flatMap((pageId) => entries.get(pageId) ?? [])
+        .filter((entry) => entry.marker && references.has(entry.marker));
+};
+
+/**
+ * Decides which segment each footnote belongs to: the first segment covering its page
+ * that references its marker, otherwise the last segment starting on or before its page.
+ *
+ * @returns Footnotes per segment index, in page order
+ */
+const assignFootnotes = (segments: Segment[], entries: Map<number, FootnoteEntry[]>, pageIds: number[]) => {
+    const pageIndexById = new Map(pageIds.map((id, i) => [id, i]));
+    const assigned = new Map<FootnoteEntry, number>();
+
+    segments.forEach((segment, segmentIndex) => {
+        for (const entry of findReferencedFootnotes(segment, entries, pageIds, pageIndexById)) {
+            if (!assigned.has(entry)) {
+                assigned.set(entry, segmentIndex);
+            }
+        }
+    });
+
+    const segmentStarts = segments.map((s) => pageIndexById.get(s.from) ?? 0);
+    const bySegment = new Map<number, FootnoteEntry[]>();
+    pageIds.forEach((pageId, pageIndex) => {
+        for (const entry of entries.get(pageId) ?? []) {
+            const segmentIndex = assigned.get(entry) ?? Math.max(0, upperBound(segmentStarts, pageIndex) - 1);
+            bySegment.set(segmentIndex, [...(bySegment.get(segmentIndex) ?? []), entry]);
+        }
+    });
+    return bySegment;
+};
+
+const toFootnoteSegment = (entry: FootnoteEntry, layout: FootnoteLayout, includeSource: boolean): Segment => ({
+    content: entry.content,
+    from: entry.page,
+    meta: { ...layout.meta, ...(entry.marker ? { marker: entry.marker } : {}) },
+    ...(includeSource ? { source: [{ end: entry.end, page: entry.page, start: entry.start }] } : {}),
+});
+
+/**
+ * Attaches footnotes to segments (`'attach'`) or inserts them as segments right after the
+ * segment they belong to (`'segments'`).
+ *
+ * @param segments - Body segments in document order
+ * @param layout - Footnotes from `separateFootnotes()`
+ * @param pageIds - Page IDs in document order
+ * @param includeSource - Give footnote segments normalized-coordinate `source` spans
+ */
+export const placeFootnotes = (
+    segments: Segment[],
+    layout: FootnoteLayout,
+    pageIds: number[],
+    includeSource: boolean,
+): Segment[] => {
+    const bySegment = assignFootnotes(segments, layout.entries, pageIds);
+
+    if (layout.mode === 'attach') {
+        bySegment.forEach((footnotes, segmentIndex) => {
+            const segment = segments[segmentIndex];
+            if (segment) {
+                segment.footnotes = footnotes.map(({ content, marker, page }) =>
+                    marker ? { content, marker, page } : { content, page },
+                );
+            }
+        });
+        return segments;
+    }
+
+    if (segments.length === 0) {
+        return (bySegment.get(0) ?? []).map((entry) => toFootnoteSegment(entry, layout, includeSource));
+    }
+    return segments.flatMap((segment, segmentIndex) => [
+        segment,
+        ...(bySegment.get(segmentIndex) ?? []).map((entry) => toFootnoteSegment(entry, layout, includeSource)),
+    ]);
+};
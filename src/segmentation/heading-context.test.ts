@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'bun:test';
+import type { SplitRule } from '@/types/rules.js';
+import { applyHeadingContext, type HeadingContextState, validateHeadingContext } from './heading-context.js';
+
+const rules: SplitRule[] = [
+    { context: { key: 'kitab' }, level: 1, lineStartsWith: ['كتاب'] },
+    { context: { from: 'title', key: 'bab' }, level: 2, lineStartsAfter: ['باب {{:title}}'] },
+    { lineStartsWith: ['حدثنا'] },
+];
+
+describe('applyHeadingContext', () => {
+    const content = 'كتاب الإيمان\nباب الأول\nحدثنا زيد\nكتاب العلم\nحدثنا عمرو';
+
+    it('should hand headings down until a segment of the same or an outer level starts', () => {
+        const points = applyHeadingContext(
+            [
+                { index: 0, level: 1, ruleIndex: 0 },
+                { contentStartOffset: 4, index: 13, level: 2, namedCaptures: { title: 'الأول' }, ruleIndex: 1 },
+                { index: 23, ruleIndex: 2 },
+                { index: 33, level: 1, ruleIndex: 0 },
+                { index: 44, ruleIndex: 2 },
+            ],
+            rules,
+            content,
+        );
+
+        expect(points.map((p) => p.meta?.context)).toEqual([
+            undefined,
+            { kitab: 'كتاب الإيمان' },
+            { bab: 'الأول', kitab: 'كتاب الإيمان' },
+            undefined,
+            { kitab: 'كتاب العلم' },
+        ]);
+    });
+
+    it('should continue from and update the given state', () => {
+        const state: HeadingContextState = new Map([['kitab', { level: 1, value: 'كتاب الصلاة' }]]);
+        const points = applyHeadingContext(
+            [{ index: 23, meta: { type: 'hadith' }, ruleIndex: 2 }],
+            rules,
+            content,
+            state,
+        );
+
+        expect(points[0].meta).toEqual({ context: { kitab: 'كتاب الصلاة' }, type: 'hadith' });
+        expect(state.get('kitab')?.value).toBe('كتاب الصلاة');
+    });
+
+    it('should ignore empty heading values', () => {
+        const points = applyHeadingContext(
+            [
+                { index: 0, level: 1, ruleIndex: 0 },
+                { index: 13, level: 2, namedCaptures: { title: '' }, ruleIndex: 1 },
+                { index: 23, ruleIndex: 2 },
+            ],
+            rules,
+            content,
+        );
+
+        expect(points[2].meta?.context).toEqual({ kitab: 'كتاب الإيمان' });
+    });
+
+    it('should return the split points untouched when no rule declares a context', () => {
+        const points = [{ index: 0, ruleIndex: 0 }];
+        expect(applyHeadingContext(points, [{ lineStartsWith: ['كتاب'] }], content)).toBe(points);
+    });
+});
+
+describe('validateHeadingContext', () => {
+    it('should report empty keys and values the rule does not produce', () => {
+        expect(validateHeadingContext({ context: { from: 'name', key: ' ' }, lineStartsWith: ['باب'] }, [])).toEqual([
+            { message: 'Context key must be a non-empty string.', path: 'context.key' },
+            {
+                message: 'Context value "name" is neither a meta key nor a named capture of the rule.',
+                path: 'context.from',
+            },
+        ]);
+        expect(validateHeadingContext(rules[1], ['title'])).toEqual([]);
+        expect(
+            validateHeadingContext(
+                { context: { from: 'type', key: 'k' }, lineStartsWith: ['x'], meta: { type: 1 } },
+                [],
+            ),
+        ).toEqual([]);
+    });
+});
@@ -0,0 +1,142 @@
+/**
+ * Heading context inheritance (`SplitRule.context`).
+ *
+ * Segments started by a context rule (e.g. a `{{bab}}` heading) hand a value down to the
+ * segments that follow as `meta.context[key]`. Levels decide when it stops: a segment of
+ * the same or an outer level replaces the heading and drops everything nested under it.
+ */
+
+import type { Segment } from '@/types/index.js';
+import type { SplitRule } from '@/types/rules.js';
+import type { SplitPoint } from '@/types/segmenter.js';
+import { getHeadingTitleKey } from './heading-title.js';
+
+/** Meta key the inherited headings are stored under. */
+export const HEADING_CONTEXT_META_KEY = 'context';
+
+type HeadingContextEntry = { level?: number; value: unknown };
+
+/** Active headings by context key, in the order they were opened (carried across stream windows). */
+export type HeadingContextState = Map<string, HeadingContextEntry>;
+
+/**
+ * Context of the text under each heading segment, its own heading included. Breakpoint
+ * pieces cut from a heading segment carry it past the first piece.
+ */
+export const headingBodyContexts = new WeakMap<Segment, Record<string, unknown>>();
+
+export type HeadingContextIssue = { message: string; path: string };
+
+/**
+ * Checks a rule's `context`: the key must be a non-empty string and `from` must name a
+ * static meta key or one of `captureNames`.
+ *
+ * @returns Problems found, with paths relative to the rule (e.g. `context.from`)
+ */
+export const validateHeadingContext = (rule: SplitRule, captureNames: string[]): HeadingContextIssue[] => {
+    const { context } = rule;
+    if (!context) {
+        return [];
+    }
+    const issues: HeadingContextIssue[] = [];
+    if (typeof context.key !== 'string' || !context.key.trim()) {
+        issues.push({ message: 'Context key must be a non-empty string.', path: 'context.key' });
+    }
+    if (
+        context.from !== undefined &&
+        !captureNames.includes(context.from) &&
+        !Object.hasOwn(rule.meta ?? {}, context.from)
+    ) {
+        issues.push({
+            message: `Context value "${context.from}" is neither a meta key nor a named capture of the rule.`,
+            path: 'context.from',
+        });
+    }
+    return issues;
+};
+
+const readFirstLine = (content: string, sp: SplitPoint) => {
+    if (sp.capturedContent !== undefined) {
+        return sp.capturedContent.trim().split('\n')[0]!.trim();
+    }
+    const start = sp.index + (sp.contentStartOffset ?? 0);
+    const end = content.indexOf('\n', start);
+    return content.slice(start, end === -1 ? undefined : end).trim();
+};
+
+const toContext = (state: HeadingContextState) =>
+    Object.fromEntries([...state].map(([key, entry]) => [key, entry.value]));
+
+const closeHeadings = (state: HeadingContextState, level: number) => {
+    for (const [key, entry] of state) {
+        if (entry.level !== undefined && entry.level >= level) {
+            state.delete(key);
+        }
+    }
+};
+
+/**
+ * Value a context rule opens: its `from` key, else its captured title, else the first line
+ * of its content. Empty values open nothing.
+ */
+const readHeadingValue = (rule: SplitRule, sp: SplitPoint, content: string) => {
+    const values = { ...sp.meta, ...sp.namedCaptures } as Record<string, unknown>;
+    const { from } = rule.context!;
+    const titleKey = getHeadingTitleKey(rule.title);
+    const value =
+        from !== undefined
+            ? values[from]
+            : ((titleKey !== undefined ? values[titleKey] : undefined) ?? readFirstLine(content, sp));
+    return value === '' ? undefined : value;
+};
+
+/**
+ * Attaches the headings open at each split point as `meta.context` and opens the headings
+ * of context rules. A heading segment carries the context of its enclosing headings only.
+ *
+ * @param splitPoints - Sorted, deduplicated split points
+ * @param rules - Rules the split points' `ruleIndex` refers to
+ * @param content - Content the split point offsets refer to
+ * @param state - Headings open before the first split point; updated in place
+ * @returns Split points with `meta.context` where any heading is open, and `bodyContext` on
+ * the headings of context rules
+ *
+ * @example
+ * const rules = [{ lineStartsWith: ['باب'], level: 2, context: { key: 'bab' } }, { lineStartsWith: ['حدثنا'] }];
+ * applyHeadingContext(points, rules, 'باب الصلاة\nحدثنا زيد')
+ * // → second point: meta.context = { bab: 'باب الصلاة' }
+ */
+export const applyHeadingContext = (
+    splitPoints: SplitPoint[],
+    rules: SplitRule[],
+    content: string,
+    state: HeadingContextState = new Map(),
+) => {
+    if (state.size === 0 && !rules.some((rule) => rule.context)) {
+        return splitPoints;
+    }
+
+    return splitPoints.map((sp) => {
+        if (sp.level !== undefined) {
+            closeHeadings(state, sp.level);
+        }
+        const withContext: SplitPoint =
+            state.size > 0
+                ? {
+                      ...sp,
+                      meta: { ...sp.meta, [HEADING_CONTEXT_META_KEY]: toContext(state) },
+                  }
+                : sp;
+
+        const rule = sp.ruleIndex !== undefined ? rules[sp.ruleIndex] : undefined;
+        if (rule?.context) {
+            const value = readHeadingValue(rule, sp, content);
+            if (value !== undefined) {
+                state.delete(rule.context.key);
+                state.set(rule.context.key, { level: sp.level, value });
+                return { ...withContext, bodyContext: toContext(state) };
+            }
+        }
+        return withContext;
+    });
+};
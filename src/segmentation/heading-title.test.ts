@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'bun:test';
+import { getHeadingTitleKey, readHeadingTitle, resolveHeadingTitle, validateHeadingTitle } from './heading-title.js';
+
+describe('readHeadingTitle', () => {
+    const content = 'باب ما جاء في الوضوء: حدثنا\nنص';
+
+    it('should read to the end of the line', () => {
+        expect(readHeadingTitle(content, 3, null)).toEqual({ end: 27, title: 'ما جاء في الوضوء: حدثنا' });
+    });
+
+    it('should stop at the until delimiter and skip past it', () => {
+        expect(readHeadingTitle(content, 4, /:/u)).toEqual({ end: 21, title: 'ما جاء في الوضوء' });
+    });
+
+    it('should return null for an empty title', () => {
+        expect(readHeadingTitle('باب\nنص', 3, null)).toBeNull();
+    });
+});
+
+describe('resolveHeadingTitle', () => {
+    it('should apply defaults and expand until templates', () => {
+        expect(resolveHeadingTitle(undefined)).toBeNull();
+        expect(resolveHeadingTitle(true)).toEqual({ key: 'title', strip: false, until: null });
+
+        const resolved = resolveHeadingTitle({ key: 'bab', strip: true, until: '{{tarqim}}' })!;
+        expect(resolved.key).toBe('bab');
+        expect(resolved.until?.test('؟')).toBeTrue();
+        expect(getHeadingTitleKey({ strip: true })).toBe('title');
+    });
+});
+
+describe('validateHeadingTitle', () => {
+    it('should require split at and a valid until pattern', () => {
+        expect(validateHeadingTitle({ lineEndsWith: ['x'], split: 'after', title: true })).toEqual([
+            { message: 'Heading titles need split: "at".', path: 'title' },
+        ]);
+        expect(validateHeadingTitle({ lineStartsWith: ['x'], title: { until: '{{tarqim}}' } })).toEqual([]);
+        expect(validateHeadingTitle({ lineStartsWith: ['x'], title: { until: 'a{2,1}' } })[0]?.path).toBe(
+            'title.until',
+        );
+    });
+});
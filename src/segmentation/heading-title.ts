@@ -0,0 +1,157 @@
+/**
+ * Heading title capture (`SplitRule.title` and the dictionary `heading` family's `title`).
+ *
+ * The rest of the marker line - or the text up to an `until` pattern - goes into
+ * `meta.title` (or another key), and the heading can be stripped from the segment content
+ * so `lineStartsWith: ['{{bab}}']` segments start with the chapter body.
+ */
+
+import type { HeadingTitle, SplitRule } from '@/types/rules.js';
+import type { SplitPoint } from '@/types/segmenter.js';
+import { buildRuleRegex, processPattern } from './rule-regex.js';
+import type { CustomTokens } from './tokens.js';
+
+const DEFAULT_TITLE_KEY = 'title';
+
+export type ResolvedHeadingTitle = {
+    key: string;
+    strip: boolean;
+    /** Pattern ending the title within the line, or `null` to take the whole line */
+    until: RegExp | null;
+};
+
+type CompiledHeadingTitle = ResolvedHeadingTitle & {
+    /** Sticky rule regex used to find where the marker of a split point ends */
+    marker: RegExp;
+};
+
+/** Meta key a `title` option writes to, or `undefined` when titles are off. */
+export const getHeadingTitleKey = (title: boolean | HeadingTitle | undefined) =>
+    title ? ((title === true ? undefined : title.key) ?? DEFAULT_TITLE_KEY) : undefined;
+
+/**
+ * Resolves a `title` option and compiles its `until` template.
+ *
+ * @returns `null` when titles are off
+ * @throws Error when `until` is not a valid pattern
+ */
+export const resolveHeadingTitle = (
+    title: boolean | HeadingTitle | undefined,
+    tokens?: CustomTokens,
+): ResolvedHeadingTitle | null => {
+    if (!title) {
+        return null;
+    }
+    const { strip = false, until } = title === true ? {} : title;
+    return {
+        key: getHeadingTitleKey(title)!,
+        strip,
+        until: until ? new RegExp(processPattern(until, false, undefined, tokens).pattern, 'u') : null,
+    };
+};
+
+export type HeadingTitleIssue = { message: string; path: string };
+
+/**
+ * Checks a rule's `title`: the rule must split `at` its marker and `until` must compile.
+ *
+ * @returns Problems found, with paths relative to the rule (e.g. `title.until`)
+ */
+export const validateHeadingTitle = (rule: SplitRule, tokens?: CustomTokens): HeadingTitleIssue[] => {
+    if (!rule.title) {
+        return [];
+    }
+    if ((rule.split ?? 'at') !== 'at') {
+        return [{ message: 'Heading titles need split: "at".', path: 'title' }];
+    }
+    try {
+        resolveHeadingTitle(rule.title, tokens);
+        return [];
+    } catch (error) {
+        return [{ message: error instanceof Error ? error.message : String(error), path: 'title.until' }];
+    }
+};
+
+/**
+ * Reads a title starting at `start`, up to the end of the line or the first `until` match.
+ *
+ * @returns The trimmed title and the offset right after it (and its delimiter), or `null` when empty
+ *
+ * @example
+ * readHeadingTitle('باب ما جاء في الوضوء: حدثنا', 4, /:/u)
+ * // → { end: 21, title: 'ما جاء في الوضوء' }
+ */
+export const readHeadingTitle = (content: string, start: number, until: RegExp | null) => {
+    const lineEnd = content.indexOf('\n', start);
+    const line = content.slice(start, lineEnd === -1 ? content.length : lineEnd);
+    const delimiter = until?.exec(line);
+    const title = (delimiter ? line.slice(0, delimiter.index) : line).trim();
+    if (!title) {
+        return null;
+    }
+    return { end: start + (delimiter ? delimiter.index + delimiter[0].length : line.length), title };
+};
+
+/**
+ * Compiles the `title` options of rules that split at their marker.
+ *
+ * @returns Compiled titles by rule index
+ * @throws Error when a rule pattern or an `until` pattern is invalid
+ */
+export const compileHeadingTitles = (rules: SplitRule[], tokens?: CustomTokens) => {
+    const compiled = new Map<number, CompiledHeadingTitle>();
+    rules.forEach((rule, index) => {
+        const title = resolveHeadingTitle(rule.title, tokens);
+        if (!title || (rule.split ?? 'at') !== 'at') {
+            return;
+        }
+        const { regex } = buildRuleRegex(rule, undefined, tokens);
+        compiled.set(index, { ...title, marker: new RegExp(regex.source, `${regex.flags.replace('g', '')}y`) });
+    });
+    return compiled;
+};
+
+const findMarkerEnd = (sp: SplitPoint, marker: RegExp, content: string) => {
+    // lineStartsAfter already knows its marker length (its regex runs to the end of the line)
+    if (sp.contentStartOffset !== undefined) {
+        return sp.index + sp.contentStartOffset;
+    }
+    marker.lastIndex = sp.index;
+    return sp.index + (marker.exec(content)?.[0].length ?? 0);
+};
+
+const withHeadingTitle = (sp: SplitPoint, title: CompiledHeadingTitle, content: string): SplitPoint => {
+    const found = readHeadingTitle(content, findMarkerEnd(sp, title.marker, content), title.until);
+    if (!found) {
+        return sp;
+    }
+    return {
+        ...sp,
+        ...(title.strip ? { contentStartOffset: found.end - sp.index } : {}),
+        namedCaptures: { ...sp.namedCaptures, [title.key]: found.title },
+    };
+};
+
+/**
+ * Adds the heading title of each split point of a titled rule as a named capture (so it
+ * merges into `meta` and `captureTransforms` apply), stripping the heading when requested.
+ *
+ * @param splitPointsByRule - Split points grouped by rule index; updated in place
+ * @param titles - Output of `compileHeadingTitles()`
+ * @param content - Content the split point offsets refer to
+ */
+export const applyHeadingTitles = (
+    splitPointsByRule: Map<number, SplitPoint[]>,
+    titles: Map<number, CompiledHeadingTitle>,
+    content: string,
+) => {
+    for (const [index, title] of titles) {
+        const points = splitPointsByRule.get(index);
+        if (points?.length) {
+            splitPointsByRule.set(
+                index,
+                points.map((sp) => withHeadingTitle(sp, title, content)),
+            );
+        }
+    }
+};
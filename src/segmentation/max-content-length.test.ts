@@ -1,5 +1,6 @@
 import { describe, expect, it } from 'bun:test';
 import type { Page } from '@/types/index.js';
+import type { SegmentationOptions } from '@/types/options.js';
 import { segmentPages } from './segmenter';
 
 describe('Max Content Length Segmentation', () => {
@@ -195,4 +196,224 @@ describe('Max Content Length Segmentation', () => {
             }
         });
     });
+
+    describe('protected spans', () => {
+        const protect = [{ close: '»', open: '«' }];
+
+        it('should not break at a breakpoint match inside a protected span', () => {
+            const content = 'He said. «One more. Two more. Three more.» After the quote and more.';
+            const pages: Page[] = [{ content, id: 1 }];
+
+            expect(segmentPages(pages, { breakpoints: ['\\.\\s*'], maxContentLength: 50 })[0].content).toBe(
+                'He said. «One more. Two more. Three more.',
+            );
+            expect(
+                segmentPages(pages, { breakpoints: ['\\.\\s*'], maxContentLength: 50, protect }).map((s) => s.content),
+            ).toEqual(['He said.', '«One more. Two more. Three more.» After the quote', 'and more.']);
+        });
+
+        it('should move the safe-break fallback back to the start of a protected span', () => {
+            const content =
+                'Plain words before the verse ﴿a long verse without any stop that goes on﴾ and then trailing words.';
+            const result = segmentPages([{ content, id: 1 }], {
+                maxContentLength: 60,
+                protect: [{ close: '﴾', open: '﴿' }],
+            });
+
+            expect(result.map((s) => s.content)).toEqual([
+                'Plain words before the verse',
+                '﴿a long verse without any stop that goes on﴾ and then',
+                'trailing words.',
+            ]);
+        });
+
+        it('should keep a span crossing a page boundary together when the page window allows it', () => {
+            const pages: Page[] = [
+                { content: 'Page one text «quote starts here', id: 1 },
+                { content: 'and ends here» then more', id: 2 },
+                { content: 'third page', id: 3 },
+            ];
+
+            expect(segmentPages(pages, { breakpoints: [''], maxPages: 1, protect })).toEqual([
+                { content: 'Page one text', from: 1 },
+                { content: '«quote starts here and ends here»', from: 1, to: 2 },
+                { content: 'then more third page', from: 2, to: 3 },
+            ]);
+            // maxPages: 0 can never hold the span, so pages stay isolated
+            expect(segmentPages(pages, { breakpoints: [''], maxPages: 0, protect }).map((s) => s.content)).toEqual([
+                'Page one text «quote starts here',
+                'and ends here» then more',
+                'third page',
+            ]);
+        });
+
+        it('should cut inside a span longer than the window and report it', () => {
+            const warnings: string[] = [];
+            const content = `«${'word '.repeat(30)}» tail words here.`;
+            const result = segmentPages([{ content, id: 1 }], {
+                debug: true,
+                logger: { warn: (message) => warnings.push(message) },
+                maxContentLength: 60,
+                protect,
+            });
+
+            expect(result).toHaveLength(3);
+            expect((result[0].meta?._flappa as any).protectedSpanSplit).toEqual({ spanLength: 152, windowLength: 60 });
+            expect(result[2].content).toEndWith('» tail words here.');
+            expect(warnings).toEqual([
+                '[breakpoints] Protected span exceeds the window; cutting inside it',
+                '[breakpoints] Protected span exceeds the window; cutting inside it',
+            ]);
+        });
+    });
+
+    describe('maxTokens', () => {
+        const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+        const content = 'one two three. four five six. seven eight nine. ten eleven twelve.';
+
+        it('should break at breakpoints within the token budget', () => {
+            const result = segmentPages([{ content, id: 1 }], {
+                breakpoints: ['\\.\\s*'],
+                countTokens: countWords,
+                maxTokens: 7,
+            });
+
+            expect(result.map((s) => s.content)).toEqual([
+                'one two three. four five six.',
+                'seven eight nine. ten eleven twelve.',
+            ]);
+        });
+
+        it('should record the token budget on safe-break splits', () => {
+            const result = segmentPages([{ content, id: 1 }], {
+                countTokens: countWords,
+                debug: true,
+                maxTokens: 5,
+            });
+
+            expect(result.map((s) => s.content)).toEqual([
+                'one two three. four five',
+                'six. seven eight nine. ten',
+                'eleven twelve.',
+            ]);
+            expect(result[0].meta?._flappa).toEqual({
+                contentLengthSplit: { maxContentLength: 25, maxTokens: 5, splitReason: 'whitespace' },
+            });
+        });
+
+        it('should leave segments within the budget alone', () => {
+            const pages: Page[] = [{ content, id: 1 }];
+            expect(segmentPages(pages, { countTokens: countWords, maxTokens: 12 })).toEqual([{ content, from: 1 }]);
+        });
+
+        it('should intersect with maxPages', () => {
+            const pages: Page[] = [
+                { content: 'one two three four five six', id: 1 },
+                { content: 'seven eight', id: 2 },
+            ];
+
+            expect(
+                segmentPages(pages, { breakpoints: [''], countTokens: countWords, maxPages: 0, maxTokens: 20 }),
+            ).toEqual([
+                { content: 'one two three four five six', from: 1 },
+                { content: 'seven eight', from: 2 },
+            ]);
+            expect(
+                segmentPages(pages, { breakpoints: [''], countTokens: countWords, maxPages: 1, maxTokens: 4 }).map(
+                    (s) => s.content,
+                ),
+            ).toEqual(['one two three four', 'five six seven eight']);
+        });
+
+        it('should count Arabic words by default', () => {
+            const arabic = 'حَدَّثَنَا مَالِكٌ، عَنْ نَافِعٍ، عَنِ ابْنِ عُمَرَ. قَالَ: نَهَى رَسُولُ اللَّهِ.';
+            const result = segmentPages([{ content: arabic, id: 1 }], { maxTokens: 8 });
+
+            expect(result.map((s) => s.content)).toEqual(['حَدَّثَنَا مَالِكٌ، عَنْ نَافِعٍ، عَنِ ابْنِ', 'عُمَرَ. قَالَ: نَهَى رَسُولُ اللَّهِ.']);
+        });
+    });
+
+    describe('balanced pieces', () => {
+        // Nine 24-character sentences: greedy splitting at 100 leaves a 24-character tail
+        const content = Array.from({ length: 9 }, (_, i) => `Sentence number 0${i} ends.`).join(' ');
+        const pages: Page[] = [{ content, id: 1 }];
+
+        it('should even out piece sizes with prefer: balanced', () => {
+            const lengths = (options: SegmentationOptions) =>
+                segmentPages(pages, { breakpoints: ['\\.\\s*'], maxContentLength: 100, ...options }).map(
+                    (s) => s.content.length,
+                );
+
+            expect(lengths({})).toEqual([99, 99, 24]);
+            expect(lengths({ prefer: 'balanced' })).toEqual([74, 74, 74]);
+        });
+
+        it('should skip matches that leave a piece under minContentLength', () => {
+            const result = segmentPages(pages, {
+                breakpoints: ['\\.\\s*'],
+                maxContentLength: 100,
+                minContentLength: 40,
+            });
+            expect(result.map((s) => s.content.length)).toEqual([99, 74, 49]);
+        });
+
+        it('should fall back to a later breakpoint before accepting a sliver', () => {
+            const result = segmentPages(pages, {
+                breakpoints: ['\\.\\s*', '\\s'],
+                maxContentLength: 100,
+                minContentLength: 55,
+            });
+            expect(result.map((s) => s.content)).toEqual([
+                'Sentence number 00 ends. Sentence number 01 ends. Sentence number 02 ends. Sentence number 03 ends.',
+                'Sentence number 04 ends. Sentence number 05 ends. Sentence number 06',
+                'ends. Sentence number 07 ends. Sentence number 08 ends.',
+            ]);
+        });
+
+        it('should respect the page window', () => {
+            const result = segmentPages(
+                [
+                    { content: 'Alpha one. Alpha two. Alpha three.', id: 1 },
+                    { content: 'Beta one. Beta two.', id: 2 },
+                    { content: 'Gamma.', id: 3 },
+                ],
+                { breakpoints: ['\\.\\s*'], maxPages: 1, prefer: 'balanced' },
+            );
+
+            expect(result).toEqual([
+                { content: 'Alpha one. Alpha two. Alpha three.', from: 1 },
+                { content: 'Beta one. Beta two. Gamma.', from: 2, to: 3 },
+            ]);
+        });
+    });
+
+    describe('weighted breakpoint scoring', () => {
+        const content =
+            'First sentence ends here. Then a long run of words without stop\nthat continues on the next line with more words and more';
+        const options: SegmentationOptions = { breakpoints: ['\\.\\s*', '\\n'], debug: true, maxContentLength: 80 };
+
+        it('should prefer a later breakpoint near the window end over an earlier one far from it', () => {
+            const ordered = segmentPages([{ content, id: 1 }], options);
+            const weighted = segmentPages([{ content, id: 1 }], { ...options, breakpointScoring: 'weighted' });
+
+            expect(ordered[0].content).toBe('First sentence ends here.');
+            expect(weighted[0].content).toBe('First sentence ends here. Then a long run of words without stop');
+            expect(weighted[0].meta?._flappa).toEqual({
+                breakpoint: { index: 1, kind: 'pattern', pattern: '\\n', score: 0.8 },
+            });
+        });
+
+        it('should scale scores by breakpoint weight', () => {
+            const result = segmentPages([{ content, id: 1 }], {
+                ...options,
+                breakpointScoring: 'weighted',
+                breakpoints: ['\\.\\s*', { pattern: '\\n', weight: 0.3 }],
+            });
+
+            expect(result[0].content).toBe('First sentence ends here.');
+            expect(result[0].meta?._flappa).toEqual({
+                breakpoint: { index: 0, kind: 'pattern', pattern: '\\.\\s*', score: 0.325 },
+            });
+        });
+    });
 });
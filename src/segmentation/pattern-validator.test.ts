@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'bun:test';
-
-import { validateRules } from './pattern-validator.js';
+import type { PreprocessTransform } from '@/types/options.js';
+import { validatePreprocess, validateRules } from './pattern-validator.js';
 
 describe('validateRules', () => {
     describe('missing braces detection', () => {
@@ -61,6 +61,19 @@ describe('validateRules', () => {
             expect(result).toHaveLength(1);
             expect(result[0]).toBeUndefined();
         });
+
+        it('should treat custom tokens as known', () => {
+            const rules = [{ lineStartsWith: ['{{juz:name}} {{raqms}}'], split: 'at' as const }];
+
+            expect(validateRules(rules)[0]?.lineStartsWith?.[0]?.type).toBe('unknown_token');
+            expect(validateRules(rules, { tokens: { juz: 'الجزء' } })[0]).toBeUndefined();
+        });
+
+        it('should detect custom token names missing braces', () => {
+            const result = validateRules([{ template: '^juz {{raqms}}' }], { tokens: { juz: 'الجزء' } });
+            expect(result[0]?.template?.type).toBe('missing_braces');
+            expect(result[0]?.template?.token).toBe('juz');
+        });
     });
 
     describe('duplicate pattern detection', () => {
@@ -284,4 +297,91 @@ describe('formatValidationReport', () => {
         expect(report.some((line) => line.includes('Rule 1, dictionaryEntry.captureName'))).toBeTrue();
         expect(report.some((line) => line.includes('Rule 1, dictionaryEntry.stopWords'))).toBeTrue();
     });
+
+    it('formats invalid level errors', () => {
+        const issues = validateRules([
+            { level: 0, lineStartsWith: ['{{kitab}}'] },
+            { level: 2, lineStartsWith: ['{{bab}}'] },
+        ]);
+        expect(issues[0]?.level?.type).toBe('invalid_option');
+        expect(issues[1]).toBeUndefined();
+        expect(formatValidationReport(issues)).toEqual(['Rule 1, level: level must be an integer >= 1']);
+    });
+});
+
+describe('validatePreprocess', () => {
+    it('should only check replace transforms', () => {
+        expect(
+            validatePreprocess([
+                'removeZeroWidth',
+                { pattern: '^{{raqms:num}} ـ ', replacement: '$<num> - ', type: 'replace' },
+                { pattern: '\u00A0', replacement: ' ', type: 'replace' },
+            ]),
+        ).toEqual([undefined, undefined, undefined]);
+    });
+
+    it('should report token, empty and regex issues like validateRules', () => {
+        const [missing, unknown, empty, invalid, flags] = validatePreprocess([
+            { pattern: 'raqms ـ', replacement: '', type: 'replace' },
+            { pattern: '{{raqmz}}', replacement: '', type: 'replace' },
+            { pattern: '', replacement: '', type: 'replace' },
+            { pattern: '({{raqms}}', replacement: '', type: 'replace' },
+            { flags: 'q', pattern: 'ـ', replacement: '', type: 'replace' },
+        ]);
+
+        expect(missing?.pattern).toMatchObject({ token: 'raqms', type: 'missing_braces' });
+        expect(unknown?.pattern).toMatchObject({ token: 'raqmz', type: 'unknown_token' });
+        expect(empty?.pattern?.type).toBe('empty_pattern');
+        expect(invalid?.pattern).toMatchObject({ pattern: '({{raqms}}', type: 'invalid_regex' });
+        expect(flags?.pattern).toBeUndefined();
+        expect(flags?.flags?.type).toBe('invalid_option');
+    });
+
+    it('should check running header patterns and minFrequency', () => {
+        const [valid, invalid, notArray] = validatePreprocess([
+            { headers: ['-\\s+{{raqms}}\\s+-'], minFrequency: 0.5, type: 'stripRunningHeaders' },
+            { headers: ['كتاب', 'raqms', ''], minFrequency: -1, type: 'stripRunningHeaders' },
+            { headers: 'كتاب' as any, type: 'stripRunningHeaders' },
+        ]);
+
+        expect(valid).toBeUndefined();
+        expect(invalid?.headers?.[0]).toBeUndefined();
+        expect(invalid?.headers?.[1]).toMatchObject({ token: 'raqms', type: 'missing_braces' });
+        expect(invalid?.headers?.[2]?.type).toBe('empty_pattern');
+        expect(invalid?.minFrequency).toEqual({
+            message: 'minFrequency must be between 0 and 1',
+            type: 'invalid_option',
+        });
+        expect(notArray?.headers).toEqual([
+            { message: 'headers must be an array of patterns', type: 'invalid_option' },
+        ]);
+    });
+
+    it('should accept custom tokens passed in the options', () => {
+        const preprocess: PreprocessTransform[] = [{ pattern: '{{sanad}} ', replacement: '', type: 'replace' }];
+
+        expect(validatePreprocess(preprocess)[0]?.pattern).toMatchObject({ token: 'sanad', type: 'unknown_token' });
+        expect(validatePreprocess(preprocess, { tokens: { sanad: 'حدثنا|أخبرنا' } })).toEqual([undefined]);
+        expect(
+            validatePreprocess([{ headers: ['{{title}}'], type: 'stripRunningHeaders' }], {
+                tokens: { title: 'الأم' },
+            }),
+        ).toEqual([undefined]);
+    });
+
+    it('should report invalid flags under flags', () => {
+        expect(validatePreprocess([{ flags: 'gx', pattern: 'a', replacement: '', type: 'replace' }])).toEqual([
+            { flags: { message: expect.stringContaining('flags'), type: 'invalid_option' } },
+        ]);
+        expect(validatePreprocess([{ flags: 'x', pattern: '(', replacement: '', type: 'replace' }])[0]).toMatchObject({
+            flags: { type: 'invalid_option' },
+            pattern: { type: 'invalid_regex' },
+        });
+    });
+
+    it('should report a missing replacement', () => {
+        expect(validatePreprocess([{ pattern: 'ـ', type: 'replace' } as any])).toEqual([
+            { replacement: { message: 'replacement must be a string', type: 'invalid_option' } },
+        ]);
+    });
 });
@@ -5,8 +5,10 @@
  * for segmentation.
  */
 
+import { compileReplacePattern } from '@/preprocessing/transforms.js';
+import type { PreprocessTransform, ReplaceRule, StripRunningHeadersRule } from '@/types/options.js';
 import type { DictionaryEntryPatternOptions, SplitRule } from '@/types/rules.js';
-import { getAvailableTokens } from './tokens.js';
+import { type CustomTokens, getAvailableTokens } from './tokens.js';
 
 /**
  * Types of validation issues that can be detected.
@@ -43,20 +45,54 @@ export type RuleValidationResult = {
     template?: ValidationIssue;
     regex?: ValidationIssue;
     dictionaryEntry?: Partial<Record<keyof DictionaryEntryPatternOptions, ValidationIssue>>;
+    level?: ValidationIssue;
 };
 
-// Known token names from the tokens module
-const KNOWN_TOKENS = new Set<string>(getAvailableTokens());
+/**
+ * Validation result for a single `replace` or `stripRunningHeaders` preprocess transform.
+ */
+export type PreprocessValidationResult = {
+    pattern?: ValidationIssue;
+    flags?: ValidationIssue;
+    replacement?: ValidationIssue;
+    headers?: (ValidationIssue | undefined)[];
+    minFrequency?: ValidationIssue;
+};
+
+/**
+ * Options for `validateRules()`.
+ */
+export type ValidateRulesOptions = {
+    /** Custom token definitions (same as `SegmentationOptions.tokens`) that count as known tokens */
+    tokens?: CustomTokens;
+};
+
+/** Token names a pattern may reference, plus a regex spotting those names written without braces */
+type TokenVocabulary = {
+    bareTokenRegex: RegExp;
+    knownTokens: Set<string>;
+};
 
 // Regex to find tokens inside {{}} - both with and without capture syntax
 const TOKEN_INSIDE_BRACES = /\{\{(\w+)(?::\w+)?\}\}/g;
 
-// Regex to find potential token names NOT inside {{}}
-// Matches word boundaries around known token names.
-const BARE_TOKEN_REGEX = (() => {
-    const tokens = [...KNOWN_TOKENS].sort((a, b) => b.length - a.length);
-    return new RegExp(`(?<!\\{\\{)(${tokens.join('|')})(?::\\w+)?(?!\\}\\})`, 'g');
-})();
+const createTokenVocabulary = (tokenNames: string[]): TokenVocabulary => {
+    const knownTokens = new Set(tokenNames);
+    // Matches potential token names NOT inside {{}}, longest names first
+    const names = [...knownTokens].sort((a, b) => b.length - a.length);
+    return {
+        bareTokenRegex: new RegExp(`(?<!\\{\\{)(${names.join('|')})(?::\\w+)?(?!\\}\\})`, 'g'),
+        knownTokens,
+    };
+};
+
+// Known token names from the tokens module
+const DEFAULT_TOKEN_VOCABULARY = createTokenVocabulary(getAvailableTokens());
+
+const resolveTokenVocabulary = (tokens?: CustomTokens) =>
+    tokens && Object.keys(tokens).length > 0
+        ? createTokenVocabulary([...getAvailableTokens(), ...Object.keys(tokens)])
+        : DEFAULT_TOKEN_VOCABULARY;
 
 const createMalformedTokenIssue = (tokenLiteral: string, side: 'opening' | 'closing') => {
     const token = tokenLiteral.split(':', 1)[0] || undefined;
@@ -103,7 +139,8 @@ const detectMalformedToken = (pattern: string) =>
 /**
  * Validates a single pattern for common issues.
  */
-const validatePattern = (pattern: string, seenPatterns: Set<string>) => {
+const validatePattern = (pattern: string, seenPatterns: Set<string>, vocabulary: TokenVocabulary) => {
+    const { bareTokenRegex, knownTokens } = vocabulary;
     if (!pattern.trim()) {
         return { message: 'Empty pattern is not allowed', type: 'empty_pattern' } as const;
     }
@@ -116,9 +153,9 @@ const validatePattern = (pattern: string, seenPatterns: Set<string>) => {
     TOKEN_INSIDE_BRACES.lastIndex = 0;
     for (const match of pattern.matchAll(TOKEN_INSIDE_BRACES)) {
         const name = match[1];
-        if (name && !KNOWN_TOKENS.has(name)) {
+        if (name && !knownTokens.has(name)) {
             return {
-                message: `Unknown token: {{${name}}}. Available tokens: ${[...KNOWN_TOKENS].slice(0, 5).join(', ')}...`,
+                message: `Unknown token: {{${name}}}. Available tokens: ${[...knownTokens].slice(0, 5).join(', ')}...`,
                 suggestion: 'Check spelling or use a known token',
                 token: name,
                 type: 'unknown_token',
@@ -131,7 +168,7 @@ const validatePattern = (pattern: string, seenPatterns: Set<string>) => {
         return malformed;
     }
 
-    for (const match of pattern.matchAll(BARE_TOKEN_REGEX)) {
+    for (const match of pattern.matchAll(bareTokenRegex)) {
         const [full, name] = match;
         const idx = match.index!;
         if (
@@ -151,9 +188,9 @@ const validatePattern = (pattern: string, seenPatterns: Set<string>) => {
 /**
  * Validates an array of patterns, returning parallel array of issues.
  */
-const validatePatternArray = (patterns: string[]) => {
+const validatePatternArray = (patterns: string[], vocabulary: TokenVocabulary) => {
     const seen = new Set<string>();
-    const issues = patterns.map((p) => validatePattern(p, seen));
+    const issues = patterns.map((p) => validatePattern(p, seen, vocabulary));
     return issues.some(Boolean) ? issues : undefined;
 };
 
@@ -161,11 +198,12 @@ const applyRulePatternValidation = (
     result: RuleValidationResult,
     key: 'lineStartsWith' | 'lineStartsAfter' | 'lineEndsWith',
     patterns: string[] | undefined,
+    vocabulary: TokenVocabulary,
 ): boolean => {
     if (!patterns) {
         return false;
     }
-    const issues = validatePatternArray(patterns);
+    const issues = validatePatternArray(patterns, vocabulary);
     if (!issues) {
         return false;
     }
@@ -173,12 +211,12 @@ const applyRulePatternValidation = (
     return true;
 };
 
-const validateTemplateRule = (rule: SplitRule, result: RuleValidationResult) => {
+const validateTemplateRule = (rule: SplitRule, result: RuleValidationResult, vocabulary: TokenVocabulary) => {
     if (!('template' in rule)) {
         return false;
     }
 
-    const issue = validatePattern(rule.template, new Set());
+    const issue = validatePattern(rule.template, new Set(), vocabulary);
     if (!issue) {
         return false;
     }
@@ -292,6 +330,14 @@ const validateDictionaryEntryRule = (rule: SplitRule, result: RuleValidationResu
     return true;
 };
 
+const validateRuleLevel = (rule: SplitRule, result: RuleValidationResult) => {
+    if (rule.level === undefined || (Number.isInteger(rule.level) && rule.level >= 1)) {
+        return false;
+    }
+    result.level = { message: 'level must be an integer >= 1', type: 'invalid_option' };
+    return true;
+};
+
 const formatValidationIssue = (_type: string, issue: ValidationIssue | undefined, loc: string): string | null => {
     if (!issue) {
         return null;
@@ -319,7 +365,10 @@ const formatValidationIssue = (_type: string, issue: ValidationIssue | undefined
  * - Unknown token names inside `{{}}` (e.g., `{{nonexistent}}`)
  * - Duplicate patterns within the same rule
  *
+ * Custom tokens passed via `options.tokens` are treated as known tokens.
+ *
  * @param rules - Array of split rules to validate
+ * @param options - Optional custom token definitions
  * @returns Array parallel to input with validation results (undefined if no issues)
  *
  * @example
@@ -330,37 +379,145 @@ const formatValidationIssue = (_type: string, issue: ValidationIssue | undefined
  * // issues[0]?.lineStartsAfter?.[0]?.type === 'missing_braces'
  * // issues[1]?.lineStartsWith?.[0]?.type === 'unknown_token'
  */
-export const validateRules = (rules: SplitRule[]) =>
-    rules.map((rule) => {
+export const validateRules = (rules: SplitRule[], options: ValidateRulesOptions = {}) => {
+    const vocabulary = resolveTokenVocabulary(options.tokens);
+    return rules.map((rule) => {
         const result: RuleValidationResult = {};
         const startsWithIssues = applyRulePatternValidation(
             result,
             'lineStartsWith',
             'lineStartsWith' in rule ? rule.lineStartsWith : undefined,
+            vocabulary,
         );
         const startsAfterIssues = applyRulePatternValidation(
             result,
             'lineStartsAfter',
             'lineStartsAfter' in rule ? rule.lineStartsAfter : undefined,
+            vocabulary,
         );
         const endsWithIssues = applyRulePatternValidation(
             result,
             'lineEndsWith',
             'lineEndsWith' in rule ? rule.lineEndsWith : undefined,
+            vocabulary,
         );
-        const templateIssues = validateTemplateRule(rule, result);
+        const templateIssues = validateTemplateRule(rule, result, vocabulary);
         const regexIssues = validateRegexRule(rule, result);
         const dictionaryEntryIssues = validateDictionaryEntryRule(rule, result);
+        const levelIssues = validateRuleLevel(rule, result);
         const hasIssues =
             startsWithIssues ||
             startsAfterIssues ||
             endsWithIssues ||
             templateIssues ||
             regexIssues ||
-            dictionaryEntryIssues;
+            dictionaryEntryIssues ||
+            levelIssues;
 
         return hasIssues ? result : undefined;
     });
+};
+
+const validateReplacePattern = (
+    pattern: unknown,
+    flags: string | undefined,
+    tokens: CustomTokens | undefined,
+): ValidationIssue | undefined => {
+    if (typeof pattern !== 'string') {
+        return { message: 'pattern must be a string', type: 'invalid_option' };
+    }
+    if (!pattern) {
+        return { message: 'Empty pattern is not allowed', type: 'empty_pattern' };
+    }
+    // Whitespace-only patterns (e.g. a non-breaking space) are legitimate replacements
+    const issue = pattern.trim() ? validatePattern(pattern, new Set(), resolveTokenVocabulary(tokens)) : undefined;
+    if (issue) {
+        return issue;
+    }
+    try {
+        compileReplacePattern(pattern, flags, tokens);
+        return undefined;
+    } catch (error) {
+        return { message: error instanceof Error ? error.message : String(error), pattern, type: 'invalid_regex' };
+    }
+};
+
+const validateReplaceFlags = (flags: unknown): ValidationIssue | undefined => {
+    if (flags === undefined) {
+        return undefined;
+    }
+    if (typeof flags !== 'string') {
+        return { message: 'flags must be a string', type: 'invalid_option' };
+    }
+    try {
+        compileReplacePattern('', flags);
+        return undefined;
+    } catch (error) {
+        return { message: error instanceof Error ? error.message : String(error), type: 'invalid_option' };
+    }
+};
+
+const validateReplaceRule = (rule: ReplaceRule, result: PreprocessValidationResult, tokens?: CustomTokens) => {
+    const flagsIssue = validateReplaceFlags(rule.flags);
+    if (flagsIssue) {
+        result.flags = flagsIssue;
+    }
+    // Bad flags are reported once, under `flags`; the pattern is still checked without them
+    const patternIssue = validateReplacePattern(rule.pattern, flagsIssue ? undefined : rule.flags, tokens);
+    if (patternIssue) {
+        result.pattern = patternIssue;
+    }
+    if (typeof rule.replacement !== 'string') {
+        result.replacement = { message: 'replacement must be a string', type: 'invalid_option' };
+    }
+};
+
+const validateStripRunningHeadersRule = (
+    rule: StripRunningHeadersRule,
+    result: PreprocessValidationResult,
+    tokens?: CustomTokens,
+) => {
+    if (rule.headers !== undefined) {
+        const issues = Array.isArray(rule.headers)
+            ? rule.headers.map((header) => validateReplacePattern(header, undefined, tokens))
+            : [{ message: 'headers must be an array of patterns', type: 'invalid_option' as const }];
+        if (issues.some(Boolean)) {
+            result.headers = issues;
+        }
+    }
+    const { minFrequency } = rule;
+    if (minFrequency !== undefined && !(typeof minFrequency === 'number' && minFrequency >= 0 && minFrequency <= 1)) {
+        result.minFrequency = { message: 'minFrequency must be between 0 and 1', type: 'invalid_option' };
+    }
+};
+
+/**
+ * Validates the `replace` and `stripRunningHeaders` transforms of a `preprocess` array, with
+ * the same checks as `validateRules()` (unknown tokens, missing braces, empty patterns) plus
+ * regex compilation of the expanded patterns.
+ *
+ * @param preprocess - The `preprocess` option
+ * @param options - Custom tokens (`SegmentationOptions.tokens`) that the patterns may use
+ * @returns Array parallel to input (undefined for transforms without issues)
+ *
+ * @example
+ * validatePreprocess(['removeZeroWidth', { type: 'replace', pattern: 'raqms ـ', replacement: '' }]);
+ * // [undefined, { pattern: { type: 'missing_braces', token: 'raqms', ... } }]
+ */
+export const validatePreprocess = (preprocess: PreprocessTransform[], options: ValidateRulesOptions = {}) =>
+    preprocess.map((transform): PreprocessValidationResult | undefined => {
+        if (typeof transform !== 'object') {
+            return undefined;
+        }
+        const result: PreprocessValidationResult = {};
+        if (transform.type === 'replace') {
+            validateReplaceRule(transform, result, options.tokens);
+        } else if (transform.type === 'stripRunningHeaders') {
+            validateStripRunningHeadersRule(transform, result, options.tokens);
+        }
+        return Object.keys(result).length > 0 ? result : undefined;
+    });
+
 /**
  * Formats a validation result array into a list of human-readable error messages.
  *
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'bun:test';
+import type { Segment } from '@/types/index.js';
+import { expandBreakpoints } from './breakpoint-utils';
+import { applyPieceOverlap, resolvePieceOverlap, validatePieceOverlap } from './piece-overlap';
+
+const identity = (pattern: string) => pattern;
+
+describe('piece-overlap', () => {
+    describe('applyPieceOverlap', () => {
+        const content = 'One. Two. Three. Four. Five.';
+        const pieces: Segment[] = [
+            { content: 'One. Two. Three.', from: 1 },
+            { content: 'Four. Five.', from: 2 },
+        ];
+        const pageIdAt = (offset: number) => (offset < 17 ? 1 : 2);
+
+        it('should count sentences with breakpoint matches', () => {
+            const breakpoints = expandBreakpoints(['\\.\\s*'], identity);
+
+            expect(applyPieceOverlap(content, pieces, { sentences: 2 }, breakpoints, pageIdAt)[1]).toEqual({
+                content: 'Two. Three. Four. Five.',
+                from: 1,
+                meta: { overlap: { end: 12, from: 1, start: 0 } },
+                to: 2,
+            });
+        });
+
+        it('should repeat a whole piece with fewer sentences than requested', () => {
+            const breakpoints = expandBreakpoints(['\\.\\s*'], identity);
+            expect(applyPieceOverlap(content, pieces, { sentences: 5 }, breakpoints, pageIdAt)[1].content).toBe(
+                content,
+            );
+        });
+
+        it('should start character overlaps at a word start', () => {
+            const [first, second] = applyPieceOverlap(content, pieces, { chars: 8 }, [], pageIdAt);
+
+            expect(first).toBe(pieces[0]);
+            expect(second.content).toBe('Three. Four. Five.');
+            expect(applyPieceOverlap(content, pieces, { chars: 3 }, [], pageIdAt)[1]).toBe(pieces[1]);
+        });
+
+        it('should leave pieces it cannot locate alone', () => {
+            const moved = [pieces[0], { content: 'elsewhere', from: 2 }, pieces[1]];
+            expect(applyPieceOverlap(content, moved, { chars: 8 }, [], pageIdAt)).toEqual(moved);
+        });
+    });
+
+    describe('validatePieceOverlap', () => {
+        it('should require exactly one positive integer size', () => {
+            expect(validatePieceOverlap(undefined)).toEqual([]);
+            expect(validatePieceOverlap({ chars: 200 })).toEqual([]);
+            expect(validatePieceOverlap({ sentences: 0 })).toEqual([
+                { message: 'Must be a positive integer.', path: 'overlap.sentences' },
+            ]);
+            expect(validatePieceOverlap({ chars: 1, sentences: 1 } as any)).toEqual([
+                { message: 'Expected { chars } or { sentences }.', path: 'overlap' },
+            ]);
+            expect(() => resolvePieceOverlap({ chars: 1.5 })).toThrow('overlap.chars: Must be a positive integer.');
+        });
+    });
+});
@@ -0,0 +1,153 @@
+/**
+ * Overlapping breakpoint pieces (`SegmentationOptions.overlap`).
+ *
+ * Retrieval pipelines embed each piece on its own, so a cut separates a sentence from the
+ * context before it. Repeating the end of the previous piece at the start of the next keeps
+ * that context. Only pieces cut from the same oversized segment overlap.
+ */
+
+import type { Segment } from '@/types/index.js';
+import type { PieceOverlap } from '@/types/options.js';
+import type { ExpandedBreakpoint } from './breakpoint-utils.js';
+
+/** Meta key an overlapped piece records its repeated range under. */
+export const PIECE_OVERLAP_META_KEY = 'overlap';
+
+/** `[start, end)` of the repeated text in the piece content, and the pages it comes from. */
+export type PieceOverlapMeta = { end: number; from: number; start: number; to?: number };
+
+export type PieceOverlapIssue = { message: string; path: string };
+
+type Range = { end: number; start: number };
+
+const isPositiveInteger = (value: unknown) => Number.isInteger(value) && (value as number) > 0;
+
+/**
+ * Checks the `overlap` option: exactly one of `chars` or `sentences`, as a positive integer.
+ *
+ * @returns Problems found, with paths like `overlap.chars`
+ */
+export const validatePieceOverlap = (overlap: PieceOverlap | undefined): PieceOverlapIssue[] => {
+    if (overlap === undefined) {
+        return [];
+    }
+    const keys = overlap && typeof overlap === 'object' ? Object.keys(overlap) : [];
+    if (keys.length !== 1 || (keys[0] !== 'chars' && keys[0] !== 'sentences')) {
+        return [{ message: 'Expected { chars } or { sentences }.', path: 'overlap' }];
+    }
+    const value = (overlap as Record<string, unknown>)[keys[0]];
+    return isPositiveInteger(value) ? [] : [{ message: 'Must be a positive integer.', path: `overlap.${keys[0]}` }];
+};
+
+/**
+ * Returns the `overlap` option once it is known to be valid.
+ *
+ * @throws Error when it is invalid
+ */
+export const resolvePieceOverlap = (overlap: PieceOverlap | undefined) => {
+    const [issue] = validatePieceOverlap(overlap);
+    if (issue) {
+        throw new Error(`${issue.path}: ${issue.message}`);
+    }
+    return overlap;
+};
+
+const skipWhitespace = (content: string, pos: number, end: number) => {
+    let next = pos;
+    while (next < end && /\s/.test(content[next]!)) {
+        next++;
+    }
+    return next;
+};
+
+/** Backs off from the last `chars` characters of `prev` to the start of a word. */
+const findCharOverlapStart = (content: string, prev: Range, chars: number) => {
+    const start = Math.max(prev.start, prev.end - chars);
+    if (start === prev.start || /\s/.test(content[start - 1]!)) {
+        return start;
+    }
+    const wordEnd = content.slice(start, prev.end).search(/\s/);
+    return wordEnd === -1 ? prev.end : skipWhitespace(content, start + wordEnd, prev.end);
+};
+
+/** Start of the last `sentences` sentences of `prev`, split at breakpoint pattern matches. */
+const findSentenceOverlapStart = (
+    content: string,
+    prev: Range,
+    sentences: number,
+    breakpoints: ExpandedBreakpoint[],
+) => {
+    const text = content.slice(prev.start, prev.end);
+    const ends = new Set<number>();
+    for (const { regex, splitAt } of breakpoints) {
+        for (const m of regex ? text.matchAll(regex) : []) {
+            const pos = splitAt ? m.index : m.index + m[0].length;
+            if (m[0] && pos > 0 && text.slice(pos).trim()) {
+                ends.add(pos);
+            }
+        }
+    }
+    const sorted = [...ends].sort((a, b) => a - b);
+    const start = sorted.length >= sentences ? sorted[sorted.length - sentences]! : 0;
+    return skipWhitespace(content, prev.start + start, prev.end);
+};
+
+/**
+ * Prepends the end of each piece to the next one.
+ *
+ * @param content - Content of the segment the pieces were cut from (before page joining)
+ * @param pieces - Pieces in order; their content must be slices of `content`
+ * @param overlap - The `overlap` option
+ * @param breakpoints - Expanded breakpoints whose pattern matches end sentences
+ * @param pageIdAt - Page ID of an offset into `content`
+ * @returns Pieces with the overlap prepended, starting on the page the overlap starts on
+ *
+ * @example
+ * applyPieceOverlap('One. Two. Three. Four.', pieces, { sentences: 1 }, breakpoints, () => 1)
+ * // pieces ['One. Two.', 'Three. Four.'] → ['One. Two.', 'Two. Three. Four.'] (meta.overlap: { start: 0, end: 5, from: 1 })
+ */
+export const applyPieceOverlap = (
+    content: string,
+    pieces: Segment[],
+    overlap: PieceOverlap,
+    breakpoints: ExpandedBreakpoint[],
+    pageIdAt: (offset: number) => number,
+) => {
+    let cursor = 0;
+    let prev: Range | null = null;
+
+    return pieces.map((piece): Segment => {
+        const start = content.indexOf(piece.content, cursor);
+        const previous = prev;
+        prev = start === -1 ? null : { end: start + piece.content.length, start };
+        cursor = prev?.end ?? cursor;
+        if (!previous || !prev) {
+            return piece;
+        }
+
+        const overlapStart =
+            'chars' in overlap
+                ? findCharOverlapStart(content, previous, overlap.chars)
+                : findSentenceOverlapStart(content, previous, overlap.sentences, breakpoints);
+        if (overlapStart >= previous.end) {
+            return piece;
+        }
+
+        const from = pageIdAt(overlapStart);
+        const overlapTo = pageIdAt(previous.end - 1);
+        const { to = piece.from, ...rest } = piece;
+        const meta: PieceOverlapMeta = {
+            end: start - overlapStart,
+            from,
+            start: 0,
+            ...(overlapTo !== from ? { to: overlapTo } : {}),
+        };
+        return {
+            ...rest,
+            content: content.slice(overlapStart, prev.end),
+            from,
+            meta: { ...piece.meta, [PIECE_OVERLAP_META_KEY]: meta },
+            ...(to !== from ? { to } : {}),
+        };
+    });
+};
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'bun:test';
+import {
+    compileProtectedSpans,
+    findEnclosingProtectedSpan,
+    findProtectedSpans,
+    validateProtectedSpans,
+} from './protected-spans';
+
+const find = (content: string, ...protect: Parameters<typeof compileProtectedSpans>[0] & object) =>
+    findProtectedSpans(content, compileProtectedSpans(protect));
+
+describe('protected-spans', () => {
+    describe('findProtectedSpans', () => {
+        it('should find paired delimiters', () => {
+            expect(find('قال ﴿الحمد لله. رب العالمين﴾ ثم', { close: '﴾', open: '﴿' })).toEqual([{ end: 28, start: 4 }]);
+        });
+
+        it('should merge nested pairs into the outermost span', () => {
+            expect(find('a (b (c) d) e', { close: ')', open: '(' })).toEqual([{ end: 11, start: 2 }]);
+        });
+
+        it('should ignore opening delimiters that never close', () => {
+            expect(find('a (b (c) d', { close: ')', open: '(' })).toEqual([{ end: 8, start: 5 }]);
+            expect(find('a ) b', { close: ')', open: '(' })).toEqual([]);
+        });
+
+        it('should pair identical delimiters in order', () => {
+            expect(find('"a" b "c" "d', { close: '"', open: '"' })).toEqual([
+                { end: 3, start: 0 },
+                { end: 9, start: 6 },
+            ]);
+        });
+
+        it('should find regex matches and merge them with delimiter spans', () => {
+            expect(find('«a. b» [c. d]', { close: '»', open: '«' }, { regex: '\\[[^\\]]*\\]' })).toEqual([
+                { end: 6, start: 0 },
+                { end: 13, start: 7 },
+            ]);
+            expect(find('«a [b» c]', { close: '»', open: '«' }, { regex: '\\[[^\\]]*\\]' })).toEqual([
+                { end: 9, start: 0 },
+            ]);
+        });
+    });
+
+    describe('findEnclosingProtectedSpan', () => {
+        const spans = [
+            { end: 10, start: 5 },
+            { end: 30, start: 20 },
+        ];
+
+        it('should only match positions strictly inside a span', () => {
+            expect(findEnclosingProtectedSpan(spans, 5)).toBeUndefined();
+            expect(findEnclosingProtectedSpan(spans, 6)).toEqual({ end: 10, start: 5 });
+            expect(findEnclosingProtectedSpan(spans, 10)).toBeUndefined();
+            expect(findEnclosingProtectedSpan(spans, 29)).toEqual({ end: 30, start: 20 });
+            expect(findEnclosingProtectedSpan([], 3)).toBeUndefined();
+        });
+    });
+
+    describe('validateProtectedSpans', () => {
+        it('should report empty delimiters and invalid regexes', () => {
+            expect(
+                validateProtectedSpans([{ close: '»', open: '«' }, { close: '', open: '(' }, { regex: '(' }]),
+            ).toEqual([
+                { message: 'Delimiter must be a non-empty string.', path: 'protect[1].close' },
+                { message: expect.stringContaining('Invalid regular expression'), path: 'protect[2].regex' },
+            ]);
+        });
+
+        it('should throw the first issue when compiling', () => {
+            expect(() => compileProtectedSpans([{ close: ')', open: '' }])).toThrow(
+                'protect[0].open: Delimiter must be a non-empty string.',
+            );
+        });
+    });
+});
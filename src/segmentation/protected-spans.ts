@@ -0,0 +1,145 @@
+/**
+ * Protected spans (`SegmentationOptions.protect`).
+ *
+ * A `{{tarqim}}` breakpoint happily matches the punctuation inside a Quran verse `﴿...﴾` or a
+ * quotation `«...»`. Protected spans are located once per oversized segment, and breakpoint
+ * processing refuses to cut inside them.
+ */
+
+import type { ProtectedSpan } from '@/types/options.js';
+
+/** Half-open `[start, end)` range of protected content. */
+export type ProtectedRange = { end: number; start: number };
+
+export type CompiledProtectedSpan = { close: string; open: string } | { regex: RegExp };
+
+export type ProtectedSpanIssue = { message: string; path: string };
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+
+const validateProtectedSpan = (span: ProtectedSpan, path: string): ProtectedSpanIssue[] => {
+    if ('regex' in span) {
+        try {
+            new RegExp(span.regex, 'u');
+            return [];
+        } catch (error) {
+            return [{ message: error instanceof Error ? error.message : String(error), path: `${path}.regex` }];
+        }
+    }
+    return (['open', 'close'] as const)
+        .filter((key) => !isNonEmptyString(span[key]))
+        .map((key) => ({ message: 'Delimiter must be a non-empty string.', path: `${path}.${key}` }));
+};
+
+/**
+ * Checks the `protect` option: delimiters must be non-empty and regexes must compile.
+ *
+ * @returns Problems found, with paths like `protect[1].regex`
+ */
+export const validateProtectedSpans = (protect: ProtectedSpan[] | undefined): ProtectedSpanIssue[] =>
+    (protect ?? []).flatMap((span, i) =>
+        span && typeof span === 'object'
+            ? validateProtectedSpan(span, `protect[${i}]`)
+            : [{ message: 'Expected { open, close } or { regex }.', path: `protect[${i}]` }],
+    );
+
+/**
+ * Compiles the `protect` option.
+ *
+ * @throws Error when an entry is invalid
+ */
+export const compileProtectedSpans = (protect: ProtectedSpan[] | undefined): CompiledProtectedSpan[] => {
+    const [issue] = validateProtectedSpans(protect);
+    if (issue) {
+        throw new Error(`${issue.path}: ${issue.message}`);
+    }
+    return (protect ?? []).map((span) =>
+        'regex' in span ? { regex: new RegExp(span.regex, 'gu') } : { close: span.close, open: span.open },
+    );
+};
+
+/**
+ * Pairs delimiters with a stack, so nested pairs produce nested ranges (merged later).
+ * When `open === close`, occurrences simply alternate between opening and closing.
+ */
+const findDelimitedRanges = (content: string, open: string, close: string) => {
+    const ranges: ProtectedRange[] = [];
+    const stack: number[] = [];
+    let hasCloses = true;
+    let pos = 0;
+
+    while (pos < content.length) {
+        const nextOpen = content.indexOf(open, pos);
+        const nextClose: number = stack.length > 0 && hasCloses ? content.indexOf(close, pos) : -1;
+        hasCloses &&= stack.length === 0 || nextClose !== -1;
+
+        if (nextClose !== -1 && (nextOpen === -1 || nextClose <= nextOpen)) {
+            pos = nextClose + close.length;
+            ranges.push({ end: pos, start: stack.pop()! });
+        } else if (nextOpen !== -1) {
+            stack.push(nextOpen);
+            pos = nextOpen + open.length;
+        } else {
+            break;
+        }
+    }
+    return ranges;
+};
+
+const findRegexRanges = (content: string, regex: RegExp) =>
+    Array.from(content.matchAll(regex), (m) => ({ end: m.index + m[0].length, start: m.index })).filter(
+        (range) => range.end > range.start,
+    );
+
+const mergeRanges = (ranges: ProtectedRange[]) => {
+    const merged: ProtectedRange[] = [];
+    for (const range of ranges.sort((a, b) => a.start - b.start)) {
+        const last = merged.at(-1);
+        if (last && range.start < last.end) {
+            last.end = Math.max(last.end, range.end);
+        } else {
+            merged.push({ ...range });
+        }
+    }
+    return merged;
+};
+
+/**
+ * Finds every protected range in `content`. Overlapping and nested ranges are merged.
+ *
+ * @returns Sorted, non-overlapping ranges
+ *
+ * @example
+ * findProtectedSpans('قال ﴿الحمد لله. رب العالمين﴾ ثم', compileProtectedSpans([{ open: '﴿', close: '﴾' }]))
+ * // → [{ start: 4, end: 28 }]
+ */
+export const findProtectedSpans = (content: string, spans: CompiledProtectedSpan[]) =>
+    mergeRanges(
+        spans.flatMap((span) =>
+            'regex' in span
+                ? findRegexRanges(content, span.regex)
+                : findDelimitedRanges(content, span.open, span.close),
+        ),
+    );
+
+/**
+ * Finds the range a cut at `position` would fall inside (`start < position < end`).
+ *
+ * @param ranges - Output of `findProtectedSpans()`
+ */
+export const findEnclosingProtectedSpan = (ranges: ProtectedRange[], position: number) => {
+    let lo = 0;
+    let hi = ranges.length - 1;
+    while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        const range = ranges[mid]!;
+        if (position <= range.start) {
+            hi = mid - 1;
+        } else if (position >= range.end) {
+            lo = mid + 1;
+        } else {
+            return range;
+        }
+    }
+    return undefined;
+};
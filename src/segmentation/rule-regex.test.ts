@@ -124,6 +124,14 @@ describe('rule-regex', () => {
             expect(rr.regex.test('كِتَابُ الإيمان')).toBe(true);
         });
 
+        it('should keep the spaces between tokens and fuzzy text', () => {
+            const rr = buildRuleRegex({ lineStartsWith: ['{{kitab}} الإيمان'], split: 'at' } as never);
+            rr.regex.lastIndex = 0;
+            expect(rr.regex.test('كِتَابُ الإِيمان')).toBe(true);
+            rr.regex.lastIndex = 0;
+            expect(rr.regex.test('كتابالإيمان')).toBe(false);
+        });
+
         it('should allow explicit fuzzy: false to override default', () => {
             // Explicit fuzzy: false should prevent fuzzy matching
             const rr = buildRuleRegex({ fuzzy: false, lineStartsWith: ['{{bab}}'], split: 'at' } as never);
@@ -8,7 +8,7 @@
 import type { SplitRule } from '@/types/rules.js';
 import { escapeTemplateBrackets, makeDiacriticInsensitive } from '@/utils/textUtils.js';
 import { buildArabicDictionaryEntryRegexSource } from '../dictionary/arabic-dictionary-rule.js';
-import { expandTokensWithCaptures, shouldDefaultToFuzzy } from './tokens.js';
+import { type CustomTokens, expandTokensWithCaptures, shouldDefaultToFuzzy } from './tokens.js';
 
 /**
  * Result of processing a pattern with token expansion and optional fuzzy matching.
@@ -85,11 +85,17 @@ export const compileRuleRegex = (pattern: string): RegExp => {
  *
  * Brackets `()[]` outside `{{tokens}}` are auto-escaped.
  */
-export const processPattern = (pattern: string, fuzzy: boolean, capturePrefix?: string): ProcessedPattern => {
+export const processPattern = (
+    pattern: string,
+    fuzzy: boolean,
+    capturePrefix?: string,
+    tokens?: CustomTokens,
+): ProcessedPattern => {
     const { pattern: expanded, captureNames } = expandTokensWithCaptures(
         escapeTemplateBrackets(pattern),
         fuzzy ? makeDiacriticInsensitive : undefined,
         capturePrefix,
+        tokens,
     );
     return { captureNames, pattern: expanded };
 };
@@ -101,8 +107,8 @@ export const processPattern = (pattern: string, fuzzy: boolean, capturePrefix?:
  * are treated as raw regex patterns (like the `regex` rule type).
  * Users have full control over regex syntax including `(?:...)` groups.
  */
-export const processBreakpointPattern = (pattern: string): string => {
-    const { pattern: expanded } = expandTokensWithCaptures(pattern);
+export const processBreakpointPattern = (pattern: string, tokens?: CustomTokens): string => {
+    const { pattern: expanded } = expandTokensWithCaptures(pattern, undefined, undefined, tokens);
     return expanded;
 };
 
@@ -115,14 +121,16 @@ export const processBreakpointPattern = (pattern: string): string => {
  * @param patterns - Template-like line-start markers to match
  * @param fuzzy - Whether Arabic fuzzy matching should be applied during expansion
  * @param capturePrefix - Optional prefix used for internal named captures
+ * @param tokens - Optional custom token definitions
  * @returns Regex source plus the named captures extracted from the patterns
  */
 export const buildLineStartsAfterRegexSource = (
     patterns: string[],
     fuzzy: boolean,
     capturePrefix?: string,
+    tokens?: CustomTokens,
 ): RuleRegexSource => {
-    const processed = patterns.map((p) => processPattern(p, fuzzy, capturePrefix));
+    const processed = patterns.map((p) => processPattern(p, fuzzy, capturePrefix, tokens));
     const alternatives = processed.map((p, i) => `(?<_r${i}>${p.pattern})`).join('|');
     return {
         captureNames: processed.flatMap((p) => p.captureNames),
@@ -139,14 +147,16 @@ export const buildLineStartsAfterRegexSource = (
  * @param patterns - Template-like line-start markers to match
  * @param fuzzy - Whether Arabic fuzzy matching should be applied during expansion
  * @param capturePrefix - Optional prefix used for internal named captures
+ * @param tokens - Optional custom token definitions
  * @returns Regex source plus the named captures extracted from the patterns
  */
 export const buildLineStartsWithRegexSource = (
     patterns: string[],
     fuzzy: boolean,
     capturePrefix?: string,
+    tokens?: CustomTokens,
 ): RuleRegexSource => {
-    const processed = patterns.map((p) => processPattern(p, fuzzy, capturePrefix));
+    const processed = patterns.map((p) => processPattern(p, fuzzy, capturePrefix, tokens));
     const alternatives = processed.map((p, i) => `(?<_r${i}>${p.pattern})`).join('|');
     return {
         captureNames: processed.flatMap((p) => p.captureNames),
@@ -163,14 +173,16 @@ export const buildLineStartsWithRegexSource = (
  * @param patterns - Template-like line-end markers to match
  * @param fuzzy - Whether Arabic fuzzy matching should be applied during expansion
  * @param capturePrefix - Optional prefix used for internal named captures
+ * @param tokens - Optional custom token definitions
  * @returns Regex source plus the named captures extracted from the patterns
  */
 export const buildLineEndsWithRegexSource = (
     patterns: string[],
     fuzzy: boolean,
     capturePrefix?: string,
+    tokens?: CustomTokens,
 ): RuleRegexSource => {
-    const processed = patterns.map((p) => processPattern(p, fuzzy, capturePrefix));
+    const processed = patterns.map((p) => processPattern(p, fuzzy, capturePrefix, tokens));
     const alternatives = processed.map((p, i) => `(?<_r${i}>${p.pattern})`).join('|');
     return {
         captureNames: processed.flatMap((p) => p.captureNames),
@@ -186,13 +198,19 @@ export const buildLineEndsWithRegexSource = (
  *
  * @param template - Template string containing optional `{{token}}` markers
  * @param capturePrefix - Optional prefix used for internal named captures
+ * @param tokens - Optional custom token definitions
  * @returns Regex source plus the named captures extracted from the template
  */
-export const buildTemplateRegexSource = (template: string, capturePrefix?: string): RuleRegexSource => {
+export const buildTemplateRegexSource = (
+    template: string,
+    capturePrefix?: string,
+    tokens?: CustomTokens,
+): RuleRegexSource => {
     const { pattern, captureNames } = expandTokensWithCaptures(
         escapeTemplateBrackets(template),
         undefined,
         capturePrefix,
+        tokens,
     );
     return { captureNames, regex: pattern };
 };
@@ -203,15 +221,20 @@ const getFuzzyCandidatePatterns = (rule: SplitRule): string[] => [
     ...('lineEndsWith' in rule && Array.isArray(rule.lineEndsWith) ? rule.lineEndsWith : []),
 ];
 
-const buildLineBasedRuleRegex = (rule: SplitRule, fuzzy: boolean, capturePrefix?: string): RuleRegexSource | null => {
+const buildLineBasedRuleRegex = (
+    rule: SplitRule,
+    fuzzy: boolean,
+    capturePrefix?: string,
+    tokens?: CustomTokens,
+): RuleRegexSource | null => {
     if ('lineStartsWith' in rule && Array.isArray(rule.lineStartsWith) && rule.lineStartsWith.length > 0) {
-        return buildLineStartsWithRegexSource(rule.lineStartsWith, fuzzy, capturePrefix);
+        return buildLineStartsWithRegexSource(rule.lineStartsWith, fuzzy, capturePrefix, tokens);
     }
     if ('lineEndsWith' in rule && Array.isArray(rule.lineEndsWith) && rule.lineEndsWith.length > 0) {
-        return buildLineEndsWithRegexSource(rule.lineEndsWith, fuzzy, capturePrefix);
+        return buildLineEndsWithRegexSource(rule.lineEndsWith, fuzzy, capturePrefix, tokens);
     }
     if ('template' in rule && typeof rule.template === 'string') {
-        return buildTemplateRegexSource(rule.template, capturePrefix);
+        return buildTemplateRegexSource(rule.template, capturePrefix, tokens);
     }
     if ('dictionaryEntry' in rule && rule.dictionaryEntry) {
         return buildArabicDictionaryEntryRegexSource(rule.dictionaryEntry, capturePrefix);
@@ -224,19 +247,20 @@ const buildLineBasedRuleRegex = (rule: SplitRule, fuzzy: boolean, capturePrefix?
  *
  * Behavior mirrors the previous implementation in `segmenter.ts`.
  */
-export const buildRuleRegex = (rule: SplitRule, capturePrefix?: string): RuleRegex => {
-    const fuzzy = rule.fuzzy ?? shouldDefaultToFuzzy(getFuzzyCandidatePatterns(rule));
+export const buildRuleRegex = (rule: SplitRule, capturePrefix?: string, tokens?: CustomTokens): RuleRegex => {
+    const fuzzy = rule.fuzzy ?? shouldDefaultToFuzzy(getFuzzyCandidatePatterns(rule), tokens);
 
     if ('lineStartsAfter' in rule && Array.isArray(rule.lineStartsAfter) && rule.lineStartsAfter.length > 0) {
         const { regex: lsaRegex, captureNames } = buildLineStartsAfterRegexSource(
             rule.lineStartsAfter,
             fuzzy,
             capturePrefix,
+            tokens,
         );
         return { captureNames, regex: compileRuleRegex(lsaRegex), usesCapture: true, usesLineStartsAfter: true };
     }
 
-    const ruleRegexSource = buildLineBasedRuleRegex(rule, fuzzy, capturePrefix);
+    const ruleRegexSource = buildLineBasedRuleRegex(rule, fuzzy, capturePrefix, tokens);
     let finalRegex: string | undefined = ruleRegexSource?.regex;
     let allCaptureNames: string[] = ruleRegexSource?.captureNames ?? [];
     if (!finalRegex && 'regex' in rule && typeof rule.regex === 'string') {
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'bun:test';
+import type { SplitPoint } from '@/types/segmenter.js';
+import {
+    applyRuleZones,
+    compileRuleZones,
+    computeRuleZoneRanges,
+    findUnmatchedZoneMarkers,
+    getRuleZoneStateAt,
+    validateRuleZones,
+} from './rule-zones.js';
+
+const content = 'مقدمة\nكتاب الإيمان\nنص\nباب الملحق\nنص\nكتاب الإيمان\nنص';
+
+describe('validateRuleZones', () => {
+    it('should report empty and duplicate names and unknown references', () => {
+        expect(
+            validateRuleZones(
+                [{ name: 'body' }, { name: ' ' }, { name: 'body' }],
+                [
+                    { lineStartsWith: ['x'], zone: 'body' },
+                    { lineStartsWith: ['y'], zone: 'appendix' },
+                ],
+            ),
+        ).toEqual([
+            { message: 'Zone name must be a non-empty string.', path: 'zones[1].name' },
+            { message: 'Duplicate zone name "body".', path: 'zones[2].name' },
+            { message: 'Rule references unknown zone "appendix".', path: 'rules[1].zone' },
+        ]);
+    });
+});
+
+describe('compileRuleZones', () => {
+    it('should throw the first issue', () => {
+        expect(() => compileRuleZones([], [{ lineStartsWith: ['x'], zone: 'body' }])).toThrow(
+            'rules[0].zone: Rule references unknown zone "body".',
+        );
+    });
+});
+
+describe('findUnmatchedZoneMarkers', () => {
+    it('should report the markers that match no line', () => {
+        expect(
+            findUnmatchedZoneMarkers(
+                [
+                    {
+                        activateAfter: ['{{kitab}} الإيمان', 'كتاب العلم'],
+                        deactivateOn: ['{{bab}} الملحق'],
+                        name: 'body',
+                    },
+                ],
+                content,
+            ),
+        ).toEqual([{ marker: 'كتاب العلم', path: 'zones[0].activateAfter[1]', zone: 'body' }]);
+    });
+});
+
+describe('computeRuleZoneRanges', () => {
+    const zones = compileRuleZones([
+        { activateAfter: ['كتاب'], deactivateOn: ['باب'], name: 'body' },
+        { deactivateOn: ['كتاب'], name: 'intro' },
+        { name: 'always' },
+    ]);
+
+    it('should switch zones on and off at their marker lines', () => {
+        const ranges = computeRuleZoneRanges(content, zones);
+
+        expect(ranges.get('body')).toEqual([
+            { end: 22, start: 6 },
+            { end: Number.POSITIVE_INFINITY, start: 36 },
+        ]);
+        expect(ranges.get('intro')).toEqual([{ end: 6, start: 0 }]);
+        expect(ranges.get('always')).toEqual([{ end: Number.POSITIVE_INFINITY, start: 0 }]);
+        expect(content.slice(6, 10)).toBe('كتاب');
+        expect(content.slice(22, 25)).toBe('باب');
+    });
+
+    it('should start from the given state', () => {
+        const ranges = computeRuleZoneRanges('نص\nباب', zones, new Map([['body', true]]));
+        expect(ranges.get('body')).toEqual([{ end: 3, start: 0 }]);
+    });
+
+    it('should report the state at an offset', () => {
+        const ranges = computeRuleZoneRanges(content, zones);
+        expect(getRuleZoneStateAt(ranges, 30)).toEqual(
+            new Map([
+                ['body', false],
+                ['intro', false],
+                ['always', true],
+            ]),
+        );
+    });
+});
+
+describe('applyRuleZones', () => {
+    it('should drop split points of zoned rules outside their zone', () => {
+        const byRule = new Map<number, SplitPoint[]>([
+            [0, [{ index: 3 }, { index: 10 }]],
+            [1, [{ index: 3 }, { index: 10 }]],
+        ]);
+        applyRuleZones(
+            [{ lineStartsWith: ['x'], zone: 'body' }, { lineStartsWith: ['y'] }],
+            byRule,
+            new Map([['body', [{ end: 20, start: 6 }]]]),
+        );
+
+        expect(byRule.get(0)).toEqual([{ index: 10 }]);
+        expect(byRule.get(1)).toEqual([{ index: 3 }, { index: 10 }]);
+    });
+});
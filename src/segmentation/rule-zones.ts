@@ -0,0 +1,176 @@
+/**
+ * Rule zones (`options.zones` + `SplitRule.zone`).
+ *
+ * A zone is a state machine over the concatenated content: activation markers switch it
+ * on, deactivation markers switch it off. Rules tagged with a zone keep only the split
+ * points that fall inside the zone's active ranges.
+ */
+
+import type { RuleZone } from '@/types/options.js';
+import type { SplitRule } from '@/types/rules.js';
+import type { SplitPoint } from '@/types/segmenter.js';
+import { buildRuleRegex } from './rule-regex.js';
+import type { CustomTokens } from './tokens.js';
+
+export type CompiledRuleZone = {
+    activate: RegExp | null;
+    deactivate: RegExp | null;
+    name: string;
+};
+
+/** Half-open `[start, end)` range of content offsets in which a zone is active. */
+export type RuleZoneRange = { end: number; start: number };
+
+/** Active ranges per zone name. */
+export type RuleZoneRanges = Map<string, RuleZoneRange[]>;
+
+/** Whether each zone is active at a given content offset (carried across stream windows). */
+export type RuleZoneState = Map<string, boolean>;
+
+export type RuleZoneIssue = { message: string; path: string };
+
+/**
+ * Checks zone definitions and the `zone` references of rules.
+ *
+ * @returns Problems found, with paths into the segmentation options
+ */
+export const validateRuleZones = (zones: RuleZone[], rules: SplitRule[]) => {
+    const issues: RuleZoneIssue[] = [];
+    const names = new Set<string>();
+
+    zones.forEach(({ name }, i) => {
+        if (typeof name !== 'string' || !name.trim()) {
+            issues.push({ message: 'Zone name must be a non-empty string.', path: `zones[${i}].name` });
+        } else if (names.has(name)) {
+            issues.push({ message: `Duplicate zone name "${name}".`, path: `zones[${i}].name` });
+        }
+        names.add(name);
+    });
+
+    rules.forEach((rule, i) => {
+        if (rule.zone !== undefined && !names.has(rule.zone)) {
+            issues.push({ message: `Rule references unknown zone "${rule.zone}".`, path: `rules[${i}].zone` });
+        }
+    });
+    return issues;
+};
+
+const compileMarkers = (patterns: string[] | undefined, fuzzy: boolean | undefined, tokens?: CustomTokens) =>
+    patterns?.length ? buildRuleRegex({ fuzzy, lineStartsWith: patterns }, undefined, tokens).regex : null;
+
+/** A zone marker that matches no line of the content. */
+export type UnmatchedZoneMarker = { marker: string; path: string; zone: string };
+
+/**
+ * Finds zone markers that match no line of `content`, e.g. a misspelled heading that would
+ * leave its zone off for the whole book.
+ *
+ * @returns Unmatched markers, with paths into the segmentation options
+ * @throws Error when a marker does not compile
+ */
+export const findUnmatchedZoneMarkers = (zones: RuleZone[], content: string, tokens?: CustomTokens) =>
+    zones.flatMap((zone, i) =>
+        (['activateAfter', 'deactivateOn'] as const).flatMap((field) =>
+            (zone[field] ?? []).flatMap((marker, j): UnmatchedZoneMarker[] =>
+                content.search(compileMarkers([marker], zone.fuzzy, tokens)!) === -1
+                    ? [{ marker, path: `zones[${i}].${field}[${j}]`, zone: zone.name }]
+                    : [],
+            ),
+        ),
+    );
+
+/**
+ * Validates and compiles zone markers.
+ *
+ * @throws Error when a zone or a rule's `zone` reference is invalid, or a marker does not compile
+ */
+export const compileRuleZones = (zones: RuleZone[] = [], rules: SplitRule[] = [], tokens?: CustomTokens) => {
+    const [issue] = validateRuleZones(zones, rules);
+    if (issue) {
+        throw new Error(`${issue.path}: ${issue.message}`);
+    }
+    return zones.map(
+        (zone): CompiledRuleZone => ({
+            activate: compileMarkers(zone.activateAfter, zone.fuzzy, tokens),
+            deactivate: compileMarkers(zone.deactivateOn, zone.fuzzy, tokens),
+            name: zone.name,
+        }),
+    );
+};
+
+const collectMarkerEvents = (zone: CompiledRuleZone, content: string) => {
+    const events = [
+        ...(zone.deactivate
+            ? Array.from(content.matchAll(zone.deactivate), (m) => ({ index: m.index, on: false }))
+            : []),
+        ...(zone.activate ? Array.from(content.matchAll(zone.activate), (m) => ({ index: m.index, on: true })) : []),
+    ];
+    // A line matching both markers closes the previous range before opening a new one
+    return events.sort((a, b) => a.index - b.index || Number(a.on) - Number(b.on));
+};
+
+const computeZoneRanges = (zone: CompiledRuleZone, content: string, initiallyActive: boolean) => {
+    const ranges: RuleZoneRange[] = [];
+    let start: number | null = initiallyActive ? 0 : null;
+
+    for (const event of collectMarkerEvents(zone, content)) {
+        if (event.on && start === null) {
+            start = event.index;
+        } else if (!event.on && start !== null) {
+            ranges.push({ end: event.index, start });
+            start = null;
+        }
+    }
+    if (start !== null) {
+        ranges.push({ end: Number.POSITIVE_INFINITY, start });
+    }
+    return ranges;
+};
+
+/**
+ * Computes the active ranges of each zone by walking its markers in document order.
+ *
+ * @param content - Concatenated content the split points refer to
+ * @param zones - Compiled zones
+ * @param initialState - Zone states at offset 0 (defaults to active only for zones without activation markers)
+ */
+export const computeRuleZoneRanges = (
+    content: string,
+    zones: CompiledRuleZone[],
+    initialState?: RuleZoneState,
+): RuleZoneRanges =>
+    new Map(
+        zones.map((zone) => [
+            zone.name,
+            computeZoneRanges(zone, content, initialState?.get(zone.name) ?? !zone.activate),
+        ]),
+    );
+
+const isInRanges = (ranges: RuleZoneRange[], offset: number) => ranges.some((r) => offset >= r.start && offset < r.end);
+
+/**
+ * Zone states at `offset`, used to seed `computeRuleZoneRanges()` for content starting there.
+ */
+export const getRuleZoneStateAt = (zoneRanges: RuleZoneRanges, offset: number): RuleZoneState =>
+    new Map(Array.from(zoneRanges, ([name, ranges]) => [name, isInRanges(ranges, offset)]));
+
+/**
+ * Drops split points of zoned rules that fall outside their zone (mutates `splitPointsByRule`).
+ */
+export const applyRuleZones = (
+    rules: SplitRule[],
+    splitPointsByRule: Map<number, SplitPoint[]>,
+    zoneRanges: RuleZoneRanges,
+) => {
+    rules.forEach((rule, index) => {
+        const points = splitPointsByRule.get(index);
+        if (rule.zone === undefined || !points) {
+            return;
+        }
+        const ranges = zoneRanges.get(rule.zone) ?? [];
+        splitPointsByRule.set(
+            index,
+            points.filter((sp) => isInRanges(ranges, sp.index)),
+        );
+    });
+};
@@ -0,0 +1,260 @@
+import { describe, expect, it } from 'bun:test';
+import type { ArabicDictionaryProfile } from '@/types/dictionary.js';
+import type { Page, Segment } from '@/types/index.js';
+import type { SegmentationOptions, StreamSegmentationOptions } from '@/types/options.js';
+import { segmentPagesStream } from './segment-stream.js';
+import { segmentPages } from './segmenter.js';
+
+const collect = async (
+    pages: AsyncIterable<Page> | Iterable<Page>,
+    options: SegmentationOptions,
+    streamOptions?: StreamSegmentationOptions,
+) => {
+    const segments: Segment[] = [];
+    for await (const segment of segmentPagesStream(pages, options, streamOptions)) {
+        segments.push(segment);
+    }
+    return segments;
+};
+
+async function* toAsync(pages: Page[]) {
+    for (const page of pages) {
+        yield page;
+    }
+}
+
+const createNumberedPages = (count: number): Page[] =>
+    Array.from({ length: count }, (_, i) => ({
+        content:
+            i % 3 === 2
+                ? `تكملة الكلام في الصفحة ${i + 1} بلا ترقيم جديد.`
+                : `${i + 1} - حدثنا فلان عن فلان في الصفحة ${i + 1}.\nوقال آخر كلاما طويلا هنا.`,
+        id: i + 1,
+    }));
+
+describe('segmentPagesStream', () => {
+    it('should carry heading context across windows', async () => {
+        const pages: Page[] = [
+            { content: 'كتاب الإيمان\n١ - حدثنا زيد', id: 1 },
+            { content: 'باب الأول\n٢ - حدثنا عمرو', id: 2 },
+            { content: '٣ - حدثنا بكر', id: 3 },
+            { content: 'كتاب العلم\n٤ - حدثنا خالد', id: 4 },
+        ];
+        const options: SegmentationOptions = {
+            rules: [
+                { context: { key: 'kitab' }, level: 1, lineStartsWith: ['كتاب'] },
+                { context: { key: 'bab' }, level: 2, lineStartsWith: ['باب'] },
+                { lineStartsAfter: ['{{raqms:num}} {{dash}} '] },
+            ],
+        };
+
+        const streamed = await collect(toAsync(pages), options, { windowPages: 1 });
+        expect(streamed).toEqual(segmentPages(pages, options));
+        expect(streamed.at(-3)?.meta?.context).toEqual({ bab: 'باب الأول', kitab: 'كتاب الإيمان' });
+    });
+
+    it('should put the breakpoint pieces of a heading segment under that heading', async () => {
+        const pages: Page[] = [
+            { content: 'كتاب الإيمان\nباب الطهارة', id: 1 },
+            { content: 'حدثنا زيد عن عمرو. '.repeat(6), id: 2 },
+        ];
+        const options: SegmentationOptions = {
+            breakpoints: ['{{tarqim}}\\s*'],
+            maxContentLength: 50,
+            rules: [
+                { context: { key: 'kitab' }, level: 1, lineStartsWith: ['كتاب'] },
+                { context: { key: 'bab' }, level: 2, lineStartsWith: ['باب'] },
+            ],
+        };
+
+        const streamed = await collect(toAsync(pages), options, { windowPages: 1 });
+        expect(streamed).toEqual(segmentPages(pages, options));
+        expect(streamed.at(-1)?.meta?.context).toEqual({ bab: 'باب الطهارة', kitab: 'كتاب الإيمان' });
+    });
+
+    it('should match segmentPages for structural rules across many small windows', async () => {
+        const pages = createNumberedPages(20);
+        const options: SegmentationOptions = {
+            rules: [{ lineStartsAfter: ['{{nums:num}} {{dash}} '], meta: { type: 'entry' }, split: 'at' }],
+        };
+
+        const streamed = await collect(pages, options, { windowPages: 2 });
+
+        expect(streamed).toEqual(segmentPages(pages, options));
+    });
+
+    it('should accept async iterables and match breakpoint output under maxPages', async () => {
+        const pages = createNumberedPages(15);
+        const options: SegmentationOptions = {
+            breakpoints: ['{{tarqim}}\\s*', ''],
+            maxPages: 0,
+            pageJoiner: 'newline',
+            rules: [{ lineStartsWith: ['{{nums}} {{dash}} '], split: 'at' }],
+        };
+
+        const streamed = await collect(toAsync(pages), options, { windowPages: 3 });
+
+        expect(streamed).toEqual(segmentPages(pages, options));
+    });
+
+    it('should evaluate pageStartGuard against the page before a window boundary', async () => {
+        const pages: Page[] = [
+            { content: '١ - أول', id: 1 },
+            { content: 'كلام بلا نهاية', id: 2 },
+            { content: '٢ - لا تقسم هنا', id: 3 },
+            { content: 'تمت الجملة.', id: 4 },
+            { content: '٣ - تقسم هنا', id: 5 },
+            { content: 'خاتمة', id: 6 },
+        ];
+        const options: SegmentationOptions = {
+            rules: [{ lineStartsWith: ['{{raqms}} {{dash}} '], pageStartGuard: '{{tarqim}}', split: 'at' }],
+        };
+
+        const streamed = await collect(pages, options, { windowPages: 1 });
+
+        expect(streamed).toEqual(segmentPages(pages, options));
+        expect(streamed.map((s) => s.from)).toEqual([1, 5]);
+    });
+
+    it('should keep dictionary zones activated by earlier windows', async () => {
+        const dictionary: ArabicDictionaryProfile = {
+            version: 2,
+            zones: [
+                {
+                    families: [{ classes: ['chapter', 'entry'], emit: 'entry', use: 'heading' }],
+                    name: 'main',
+                    when: { activateAfter: [{ match: 'باب', use: 'headingText' }] },
+                },
+            ],
+        };
+        const pages: Page[] = [
+            { content: '## مقدمة\nنص', id: 1 },
+            { content: '## باب الهمزة\nنص', id: 2 },
+            { content: 'شرح', id: 3 },
+            { content: '## أبد\nشرح أبد', id: 4 },
+            { content: 'تتمة', id: 5 },
+            { content: '## أثر\nشرح أثر', id: 6 },
+            { content: 'نهاية', id: 7 },
+        ];
+
+        const streamed = await collect(pages, { dictionary }, { windowPages: 2 });
+
+        expect(streamed).toEqual(segmentPages(pages, { dictionary }));
+        expect(streamed.some((s) => s.from === 6)).toBeTrue();
+    });
+
+    it('should carry rule zone states across windows', async () => {
+        const pages: Page[] = [
+            { content: 'مقدمة\n١ - تاريخ', id: 1 },
+            { content: 'كتاب الإيمان\n١ - حدثنا زيد', id: 2 },
+            { content: '٢ - حدثنا عمرو', id: 3 },
+            { content: '٣ - حدثنا بكر\nباب الرواة', id: 4 },
+            { content: '١ - ترجمة زيد', id: 5 },
+            { content: 'كتاب العلم\n١ - حدثنا خالد', id: 6 },
+        ];
+        const options: SegmentationOptions = {
+            rules: [{ lineStartsAfter: ['{{raqms}} {{dash}} '], zone: 'body' }],
+            zones: [{ activateAfter: ['{{kitab}}'], deactivateOn: ['{{bab}}'], name: 'body' }],
+        };
+
+        const streamed = await collect(pages, options, { windowPages: 1 });
+
+        expect(streamed).toEqual(segmentPages(pages, options));
+        expect(streamed.map((s) => s.from)).toEqual([1, 2, 3, 4, 6]);
+    });
+
+    it('should cut a long open segment at a page boundary once maxBufferedPages is reached', async () => {
+        const pages = Array.from({ length: 12 }, (_, i) => ({ content: `صفحة ${i + 1} بلا عناوين.`, id: i + 1 }));
+        const options: SegmentationOptions = { breakpoints: [''], maxPages: 0 };
+        const logs: unknown[] = [];
+
+        const streamed = await collect(
+            pages,
+            { ...options, logger: { debug: (message, data) => logs.push({ data, message }) } },
+            { maxBufferedPages: 4, windowPages: 2 },
+        );
+
+        expect(streamed).toEqual(segmentPages(pages, options));
+        expect(logs.some((entry) => (entry as { data?: { forced?: boolean } }).data?.forced)).toBeTrue();
+    });
+
+    it('should not copy captured meta onto pieces after a forced cut', async () => {
+        const pages: Page[] = Array.from({ length: 8 }, (_, i) => ({
+            content: i === 0 ? '١ - بداية الحديث' : `تكملة الصفحة ${i + 1} كلام.`,
+            id: i + 1,
+        }));
+        const options: SegmentationOptions = {
+            breakpoints: [''],
+            maxPages: 1,
+            rules: [{ lineStartsAfter: ['{{raqms:num}} {{dash}} '], meta: { type: 'hadith' } }],
+        };
+
+        const streamed = await collect(pages, options, { maxBufferedPages: 2, windowPages: 1 });
+
+        expect(streamed[0]).toEqual({ content: 'بداية الحديث', from: 1, meta: { num: '١', type: 'hadith' } });
+        expect(streamed.slice(1).every((s) => s.meta === undefined)).toBeTrue();
+        expect(segmentPages(pages, options).filter((s) => s.meta)).toHaveLength(1);
+    });
+
+    it('should produce the same source spans as segmentPages', async () => {
+        const pages = createNumberedPages(12).map((p) => ({ ...p, content: p.content.replace('\n', '\r\n') }));
+        const options: SegmentationOptions = {
+            breakpoints: ['{{tarqim}}\\s*'],
+            maxPages: 0,
+            preprocess: ['condenseEllipsis'],
+            rules: [{ lineStartsAfter: ['{{nums:num}} {{dash}} '], split: 'at' }],
+            sourceSpans: true,
+        };
+
+        const streamed = await collect(pages, options, { windowPages: 2 });
+
+        expect(streamed).toEqual(segmentPages(pages, options));
+        expect(streamed.every((s) => s.source && s.source.length > 0)).toBeTrue();
+    });
+
+    it('should emit the same original content as segmentPages', async () => {
+        const pages = createNumberedPages(8).map((p) => ({ ...p, content: p.content.replace('\n', '\r\n') }));
+        const options: SegmentationOptions = {
+            breakpoints: ['{{tarqim}}\\s*'],
+            maxPages: 0,
+            preserveOriginalContent: true,
+            rules: [{ lineStartsAfter: ['{{nums:num}} {{dash}} '], split: 'at' }],
+        };
+
+        const streamed = await collect(pages, options, { windowPages: 2 });
+
+        expect(streamed).toEqual(segmentPages(pages, options));
+        expect(streamed.some((s) => s.content.includes('\r\n'))).toBeTrue();
+        expect(streamed.every((s) => s.source === undefined)).toBeTrue();
+    });
+
+    it('should reject rules that depend on whole-book occurrence filtering', async () => {
+        const pages = createNumberedPages(2);
+
+        await expect(
+            collect(pages, { rules: [{ lineStartsWith: ['{{nums}}'], occurrence: 'last', split: 'at' }] }),
+        ).rejects.toThrow("does not support occurrence 'last'");
+    });
+
+    it('should reject footnote separation', async () => {
+        await expect(collect(createNumberedPages(2), { footnotes: true, rules: [] })).rejects.toThrow(
+            'does not support footnotes',
+        );
+    });
+
+    it('should reject running header detection but accept explicit headers', async () => {
+        await expect(
+            collect(createNumberedPages(2), { preprocess: ['stripRunningHeaders'], rules: [] }),
+        ).rejects.toThrow('cannot detect running headers');
+        await expect(
+            collect(createNumberedPages(2), {
+                preprocess: [{ headers: ['x'], type: 'stripRunningHeaders' }],
+                rules: [],
+            }),
+        ).resolves.toBeArray();
+    });
+
+    it('should yield nothing for an empty stream', async () => {
+        expect(await collect([], { rules: [{ lineStartsWith: ['{{nums}}'], split: 'at' }] })).toEqual([]);
+    });
+});
@@ -0,0 +1,325 @@
+/**
+ * Streaming segmentation for very large books.
+ *
+ * Pages are buffered into a window and segmented with the same pipeline as
+ * `segmentPages`. A segment is emitted only once the split point that ends it
+ * has been found before the last buffered page (which acts as lookahead), so
+ * the remainder of the window is carried into the next one together with the
+ * page immediately before it. That lookbehind page keeps `pageStartGuard`,
+ * the previous-word stoplists and dictionary blockers working across windows;
+ * rule zone states are carried from one window to the next.
+ */
+
+import type { Page, Segment } from '@/types/index.js';
+import type { SegmentationOptions, StreamSegmentationOptions } from '@/types/options.js';
+import type { SplitRule } from '@/types/rules.js';
+import type { PageMap, SplitPoint } from '@/types/segmenter.js';
+import { applyHeadingContext, type HeadingContextState } from './heading-context.js';
+import {
+    type CompiledRuleZone,
+    compileRuleZones,
+    computeRuleZoneRanges,
+    getRuleZoneStateAt,
+    type RuleZoneState,
+} from './rule-zones.js';
+import {
+    applySegmentLimits,
+    buildPageMap,
+    buildSegments,
+    collectSegmentationSplitPoints,
+    dedupeSplitPoints,
+    preprocessPages,
+    resolveSegmentationLimits,
+} from './segmenter.js';
+import { mapSourceSpansToOriginal, restoreOriginalContent } from './source-spans.js';
+
+const DEFAULT_WINDOW_PAGES = 100;
+
+type SegmentationLimits = ReturnType<typeof resolveSegmentationLimits>;
+
+type StreamWindow = {
+    /** Offset inside the first non-context page where un-emitted content begins */
+    carryOffset: number;
+    /** Whether `pages[0]` was already emitted and is only kept as lookbehind context */
+    hasContext: boolean;
+    /** Buffered pages as received, parallel to `pages` (for `sourceSpans`) */
+    originalPages: Page[];
+    /** Preprocessed pages currently buffered */
+    pages: Page[];
+    /** Split point that opened the segment still in progress (its index is re-based per window) */
+    pendingSplit?: SplitPoint;
+    /** Rule zone states at the start of `pages[0]` */
+    zoneState?: RuleZoneState;
+};
+
+type WindowCut = {
+    cut: number;
+    forced: boolean;
+    pendingSplit?: SplitPoint;
+};
+
+const countBufferedPages = (window: StreamWindow) => window.pages.length - (window.hasContext ? 1 : 0);
+
+/**
+ * Occurrence filters need every match in the book before choosing one, which
+ * cannot be decided while pages are still arriving.
+ */
+const assertStreamableRules = (rules: SplitRule[]) => {
+    rules.forEach((rule, index) => {
+        if (rule.occurrence && rule.occurrence !== 'all') {
+            throw new Error(
+                `segmentPagesStream does not support occurrence '${rule.occurrence}' (rule ${index}); use segmentPages instead.`,
+            );
+        }
+    });
+};
+
+/**
+ * Rejects options whose batch behaviour depends on pages that have not arrived yet.
+ */
+const assertStreamableOptions = (options: SegmentationOptions) => {
+    assertStreamableRules(options.rules ?? []);
+    if (options.footnotes) {
+        throw new Error('segmentPagesStream does not support footnotes; use segmentPages instead.');
+    }
+    const detectsHeaders = options.preprocess?.some(
+        (t) => t === 'stripRunningHeaders' || (typeof t === 'object' && t.type === 'stripRunningHeaders' && !t.headers),
+    );
+    if (detectsHeaders) {
+        throw new Error(
+            'segmentPagesStream cannot detect running headers; pass stripRunningHeaders headers (see analyzeRunningHeaders()).',
+        );
+    }
+};
+
+const findBoundaryIndex = (pageMap: PageMap, offset: number) => {
+    const index = pageMap.boundaries.findIndex((b) => offset <= b.end);
+    return index === -1 ? pageMap.boundaries.length - 1 : index;
+};
+
+/**
+ * Picks the offset up to which segments are final.
+ *
+ * Normally this is the last split point before the lookahead page. When no such
+ * split exists and forcing is allowed, the open segment is cut at the lookahead
+ * page boundary. The continuation has no `meta` or named captures (only the inherited
+ * `meta.context`), like a breakpoint piece in batch output, so `meta` still identifies a
+ * single structural item.
+ */
+const resolveWindowCut = (
+    splitPoints: SplitPoint[],
+    pageMap: PageMap,
+    startOffset: number,
+    contentLength: number,
+    isFinal: boolean,
+    canForce: boolean,
+): WindowCut | null => {
+    if (isFinal) {
+        return { cut: contentLength, forced: false };
+    }
+
+    const lookaheadStart = pageMap.boundaries.at(-1)!.start;
+    const last = splitPoints.filter((sp) => sp.index < lookaheadStart).at(-1);
+    if (last && last.index > startOffset) {
+        return { cut: last.index, forced: false, pendingSplit: last };
+    }
+
+    if (!canForce || lookaheadStart <= startOffset) {
+        return null;
+    }
+
+    return {
+        cut: lookaheadStart,
+        forced: true,
+        pendingSplit: last ? { index: lookaheadStart } : undefined,
+    };
+};
+
+const flushWindow = (
+    window: StreamWindow,
+    options: SegmentationOptions,
+    limits: SegmentationLimits,
+    zoneActivation: Map<string, number | null>,
+    ruleZones: CompiledRuleZone[],
+    headingContext: HeadingContextState,
+    isFinal: boolean,
+    canForce: boolean,
+): { next: StreamWindow; segments: Segment[] } | null => {
+    const {
+        dictionary,
+        logger,
+        pageJoiner = 'space',
+        preprocess,
+        preserveOriginalContent = false,
+        rules = [],
+        sourceSpans = false,
+    } = options;
+    const trackSource = sourceSpans || preserveOriginalContent;
+    const { content, normalizedPages, pageMap } = buildPageMap(window.pages);
+    const startOffset = pageMap.boundaries[window.hasContext ? 1 : 0].start + window.carryOffset;
+    const ruleZoneRanges = computeRuleZoneRanges(content, ruleZones, window.zoneState);
+
+    const found = collectSegmentationSplitPoints(
+        window.pages,
+        normalizedPages,
+        content,
+        pageMap,
+        options,
+        limits.debugMetaKey,
+        zoneActivation,
+        undefined,
+        ruleZoneRanges,
+    );
+    const pending = window.pendingSplit ? [{ ...window.pendingSplit, index: startOffset }] : [];
+    const splitPoints = dedupeSplitPoints([...pending, ...found]).filter((sp) => sp.index >= startOffset);
+
+    const resolved = resolveWindowCut(splitPoints, pageMap, startOffset, content.length, isFinal, canForce);
+    if (!resolved) {
+        return null;
+    }
+
+    const { cut, forced, pendingSplit } = resolved;
+    const closed = applyHeadingContext(
+        splitPoints.filter((sp) => sp.index < cut),
+        rules,
+        content,
+        headingContext,
+    );
+    let segments = buildSegments(
+        closed,
+        content.slice(0, cut),
+        pageMap,
+        rules,
+        pageJoiner,
+        dictionary !== undefined,
+        startOffset,
+        trackSource,
+    );
+
+    if (limits.hasLimits) {
+        segments = applySegmentLimits(segments, window.pages, normalizedPages, options, limits.debug);
+    }
+    if (trackSource) {
+        segments = mapSourceSpansToOriginal(segments, window.originalPages, preprocess, options.tokens);
+    }
+    if (preserveOriginalContent) {
+        segments = restoreOriginalContent(segments, window.originalPages, pageJoiner, sourceSpans);
+    }
+
+    const pageIndex = findBoundaryIndex(pageMap, cut);
+    const nextStartIndex = Math.max(0, pageIndex - 1);
+    logger?.debug?.('[stream] window flushed', {
+        bufferedPages: countBufferedPages(window),
+        carriedFromPage: pageMap.boundaries[pageIndex]?.id,
+        forced,
+        segmentCount: segments.length,
+    });
+
+    return {
+        next: {
+            carryOffset: cut - pageMap.boundaries[pageIndex].start,
+            hasContext: pageIndex > 0,
+            originalPages: window.originalPages.slice(nextStartIndex),
+            pages: window.pages.slice(nextStartIndex),
+            pendingSplit,
+            zoneState: getRuleZoneStateAt(ruleZoneRanges, pageMap.boundaries[nextStartIndex].start),
+        },
+        segments,
+    };
+};
+
+/**
+ * Segments a stream of pages, yielding each segment as soon as its end boundary is known.
+ *
+ * Accepts any sync or async iterable, so pages can be read lazily from disk or a
+ * database. Only a bounded window of pages is kept in memory; rules, dictionary
+ * profiles, `pageStartGuard`, preprocessing, `maxPages`, `maxContentLength`, `maxTokens`,
+ * `breakpoints` and `sourceSpans` behave as they do in {@link segmentPages}.
+ *
+ * Differences from the batch API:
+ * - Rules with `occurrence: 'first' | 'last'` are rejected because they need the whole book.
+ * - `footnotes` is rejected because unreferenced footnotes go to the last segment starting on
+ *   or before their page, which is not known until later pages arrive.
+ * - `stripRunningHeaders` needs explicit `headers`, since detecting them needs the whole book.
+ * - When rules produce no segments at all, the batch fallback (one segment spanning the book)
+ *   only applies when neither `rules` nor `dictionary` are configured.
+ * - A structural segment longer than `maxBufferedPages` is cut at a page boundary when
+ *   limits are set. Breakpoints then run on each side of that cut separately: no piece
+ *   spans the cut, so the stream can emit more pieces than batch output, and pieces can end
+ *   at different breakpoints. Pieces after the cut carry no `meta` or named captures (only
+ *   the inherited `meta.context`), as breakpoint pieces after the first do in batch output.
+ *
+ * @param pages - Pages in reading order
+ * @param options - Segmentation options (same as `segmentPages`)
+ * @param streamOptions - Window sizing controls
+ * @returns Async generator of segments in document order
+ *
+ * @example
+ * for await (const segment of segmentPagesStream(readPagesFromDb(), {
+ *     breakpoints: ['{{tarqim}}', ''],
+ *     maxPages: 1,
+ *     rules: [{ lineStartsAfter: ['{{raqms:num}} {{dash}} '], split: 'at' }],
+ * })) {
+ *     await saveSegment(segment);
+ * }
+ */
+export async function* segmentPagesStream(
+    pages: AsyncIterable<Page> | Iterable<Page>,
+    options: SegmentationOptions,
+    streamOptions: StreamSegmentationOptions = {},
+): AsyncGenerator<Segment> {
+    const { dictionary, logger, preprocess, rules = [] } = options;
+    assertStreamableOptions(options);
+
+    const limits = resolveSegmentationLimits(options);
+    const windowPages = Math.max(1, streamOptions.windowPages ?? DEFAULT_WINDOW_PAGES);
+    const maxBufferedPages = Math.max(windowPages + 1, streamOptions.maxBufferedPages ?? windowPages * 4);
+    const zoneActivation = new Map<string, number | null>();
+    const ruleZones = compileRuleZones(options.zones, rules, options.tokens);
+    const headingContext: HeadingContextState = new Map();
+
+    logger?.info?.('[stream] starting streaming segmentation', {
+        maxBufferedPages,
+        maxContentLength: limits.maxContentLength,
+        maxPages: limits.maxPages,
+        ruleCount: rules.length,
+        windowPages,
+    });
+
+    // Without rules or a dictionary the whole book is one open segment (the batch fallback)
+    let window: StreamWindow = {
+        carryOffset: 0,
+        hasContext: false,
+        originalPages: [],
+        pages: [],
+        pendingSplit: rules.length === 0 && !dictionary ? { index: 0 } : undefined,
+    };
+    let nextAttemptAt = windowPages;
+
+    for await (const page of pages) {
+        window.originalPages.push(page);
+        window.pages.push(...preprocessPages([page], preprocess, options.tokens));
+        const buffered = countBufferedPages(window);
+        if (buffered < nextAttemptAt) {
+            continue;
+        }
+
+        const canForce = limits.hasLimits && buffered >= maxBufferedPages;
+        const result = flushWindow(window, options, limits, zoneActivation, ruleZones, headingContext, false, canForce);
+        if (!result) {
+            nextAttemptAt = limits.hasLimits
+                ? Math.min(buffered + windowPages, maxBufferedPages)
+                : buffered + windowPages;
+            continue;
+        }
+
+        yield* result.segments;
+        window = result.next;
+        nextAttemptAt = countBufferedPages(window) + windowPages;
+    }
+
+    if (countBufferedPages(window) > 0) {
+        const result = flushWindow(window, options, limits, zoneActivation, ruleZones, headingContext, true, false);
+        yield* result?.segments ?? [];
+    }
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'bun:test';
+import type { Page, Segment } from '@/types/index.js';
+import { buildSegmentTree } from './segment-tree.js';
+import { segmentPages } from './segmenter.js';
+
+describe('buildSegmentTree', () => {
+    it('should nest leveled segments and attach unleveled segments as leaves', () => {
+        const segments: Segment[] = [
+            { content: 'كتاب الطهارة', from: 1, level: 1 },
+            { content: 'باب الوضوء', from: 1, level: 2 },
+            { content: 'حديث ١', from: 1 },
+            { content: 'حديث ٢', from: 2 },
+            { content: 'باب الغسل', from: 2, level: 2 },
+            { content: 'حديث ٣', from: 2 },
+            { content: 'كتاب الصلاة', from: 3, level: 1 },
+            { content: 'حديث ٤', from: 3 },
+        ];
+
+        const { nodes, roots } = buildSegmentTree(segments);
+
+        expect(roots.map((n) => n.index)).toEqual([0, 6]);
+        expect(roots[0].children.map((n) => n.index)).toEqual([1, 4]);
+        expect(nodes[1].children.map((n) => n.index)).toEqual([2, 3]);
+        expect(nodes[5].ancestors).toEqual([0, 4]);
+        expect(nodes[5].parent).toBe(4);
+        expect(nodes[7].ancestors).toEqual([6]);
+        expect(nodes[0].parent).toBeUndefined();
+        expect(nodes[2].level).toBeUndefined();
+    });
+
+    it('should keep leading unleveled segments and skipped levels at the nearest open ancestor', () => {
+        const { nodes, roots } = buildSegmentTree([
+            { content: 'مقدمة', from: 1 },
+            { content: 'كتاب', from: 1, level: 1 },
+            { content: 'فصل', from: 2, level: 3 },
+            { content: 'باب', from: 3, level: 2 },
+        ]);
+
+        expect(roots.map((n) => n.index)).toEqual([0, 1]);
+        expect(nodes[2].parent).toBe(1);
+        expect(nodes[3].parent).toBe(1);
+        expect(nodes[3].ancestors).toEqual([1]);
+    });
+
+    it('should build a tree from rule levels in segmentPages output', () => {
+        const pages: Page[] = [
+            { content: 'كتاب الإيمان\nباب الأول\n١ - حدثنا زيد\n٢ - حدثنا عمرو', id: 1 },
+            { content: 'باب الثاني\n٣ - حدثنا بكر', id: 2 },
+        ];
+
+        const segments = segmentPages(pages, {
+            rules: [
+                { level: 1, lineStartsWith: ['كتاب '], meta: { type: 'book' } },
+                { level: 2, lineStartsWith: ['باب '], meta: { type: 'chapter' } },
+                { lineStartsAfter: ['{{raqms:num}} {{dash}} '], meta: { type: 'hadith' } },
+            ],
+        });
+        const { roots } = buildSegmentTree(segments);
+
+        expect(segments.map((s) => s.level)).toEqual([1, 2, undefined, undefined, 2, undefined]);
+        expect(roots).toHaveLength(1);
+        expect(roots[0].children.map((n) => n.segment.content)).toEqual(['باب الأول', 'باب الثاني']);
+        expect(roots[0].children[1].children[0].segment.meta).toEqual({ num: '٣', type: 'hadith' });
+    });
+
+    it('should keep the level only on the first breakpoint piece', () => {
+        const pages: Page[] = [
+            { content: 'كتاب الإيمان وفيه كلام.', id: 1 },
+            { content: 'تتمة الكلام.', id: 2 },
+        ];
+
+        const segments = segmentPages(pages, {
+            breakpoints: [''],
+            maxPages: 0,
+            rules: [{ level: 1, lineStartsWith: ['كتاب '] }],
+        });
+        const { roots } = buildSegmentTree(segments);
+
+        expect(segments.map((s) => s.level)).toEqual([1, undefined]);
+        expect(roots).toHaveLength(1);
+        expect(roots[0].children[0].segment.from).toBe(2);
+    });
+});
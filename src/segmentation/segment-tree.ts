@@ -0,0 +1,92 @@
+import type { Segment } from '@/types/index.js';
+
+/**
+ * A segment placed in the hierarchy produced by `buildSegmentTree()`.
+ *
+ * Links use indices into the flat segment array so the tree stays JSON-serializable.
+ */
+export type SegmentTreeNode = {
+    /** Segment indices from the outermost ancestor down to the immediate parent */
+    ancestors: number[];
+    /** Nested nodes in document order */
+    children: SegmentTreeNode[];
+    /** Index of this segment in the flat input array */
+    index: number;
+    /** Level of the segment, or `undefined` for leaf content (unleveled segments) */
+    level?: number;
+    /** Index of the parent segment, or `undefined` for root nodes */
+    parent?: number;
+    /** The original segment */
+    segment: Segment;
+};
+
+/**
+ * Hierarchical view of a flat segment list.
+ */
+export type SegmentTree = {
+    /** All nodes, parallel to the input segment array */
+    nodes: SegmentTreeNode[];
+    /** Top-level nodes in document order */
+    roots: SegmentTreeNode[];
+};
+
+/**
+ * Builds a tree from segments whose rules declared a `level`.
+ *
+ * A leveled segment closes every open segment at the same or a deeper level and
+ * becomes a child of the nearest shallower one. Segments without a level (and
+ * breakpoint continuation pieces) are leaves under the nearest open segment.
+ *
+ * @param segments - Flat segments in document order (e.g. from `segmentPages`)
+ * @returns Nodes parallel to `segments` plus the root nodes
+ *
+ * @example
+ * const segments = segmentPages(pages, {
+ *     rules: [
+ *         { lineStartsWith: ['{{kitab}}'], level: 1 },
+ *         { lineStartsWith: ['{{bab}}'], level: 2 },
+ *         { lineStartsAfter: ['{{raqms:num}} {{dash}} '] },
+ *     ],
+ * });
+ * const { roots, nodes } = buildSegmentTree(segments);
+ * // roots[0].segment → first kitab, roots[0].children[0].segment → its first bab
+ * // nodes[5].ancestors → [0, 1] (kitab index, bab index)
+ */
+export const buildSegmentTree = (segments: Segment[]): SegmentTree => {
+    const nodes: SegmentTreeNode[] = [];
+    const roots: SegmentTreeNode[] = [];
+    const open: SegmentTreeNode[] = [];
+
+    segments.forEach((segment, index) => {
+        const { level } = segment;
+        if (level !== undefined) {
+            while (open.length > 0 && open.at(-1)!.level! >= level) {
+                open.pop();
+            }
+        }
+
+        const parent = open.at(-1);
+        const node: SegmentTreeNode = {
+            ancestors: open.map((n) => n.index),
+            children: [],
+            index,
+            segment,
+        };
+        if (level !== undefined) {
+            node.level = level;
+        }
+        if (parent) {
+            node.parent = parent.index;
+            parent.children.push(node);
+        } else {
+            roots.push(node);
+        }
+
+        nodes.push(node);
+        if (level !== undefined) {
+            open.push(node);
+        }
+    });
+
+    return { nodes, roots };
+};
@@ -4,7 +4,7 @@ import { normalizeArabicForComparison } from '@/utils/textUtils.js';
 import { isPageExcluded } from './breakpoint-utils.js';
 import { compileFastFuzzyTokenRule, type FastFuzzyTokenRule, matchFastFuzzyTokenAt } from './fast-fuzzy-prefix.js';
 import { extractNamedCaptureNames, hasCapturingGroup, processPattern } from './rule-regex.js';
-import { ARABIC_WORD_WITH_OPTIONAL_MARKS_PATTERN, shouldDefaultToFuzzy } from './tokens.js';
+import { ARABIC_WORD_WITH_OPTIONAL_MARKS_PATTERN, type CustomTokens, shouldDefaultToFuzzy } from './tokens.js';
 
 export type FastFuzzyRule = {
     compiled: FastFuzzyTokenRule;
@@ -21,24 +21,25 @@ export type PartitionedRules = {
 
 const tryCompileFastFuzzyRule = (
     rule: SplitRule,
+    tokens?: CustomTokens,
 ): { compiled: FastFuzzyTokenRule; kind: 'startsWith' | 'startsAfter' } | null => {
     const fuzzyCandidatePatterns = [
         ...('lineStartsWith' in rule ? rule.lineStartsWith : []),
         ...('lineStartsAfter' in rule ? rule.lineStartsAfter : []),
     ];
-    const fuzzy = rule.fuzzy ?? shouldDefaultToFuzzy(fuzzyCandidatePatterns);
+    const fuzzy = rule.fuzzy ?? shouldDefaultToFuzzy(fuzzyCandidatePatterns, tokens);
     if (!fuzzy) {
         return null;
     }
 
     if ('lineStartsWith' in rule && rule.lineStartsWith?.length === 1) {
-        const compiled = compileFastFuzzyTokenRule(rule.lineStartsWith[0]);
+        const compiled = compileFastFuzzyTokenRule(rule.lineStartsWith[0], tokens);
         if (compiled) {
             return { compiled, kind: 'startsWith' };
         }
     }
     if ('lineStartsAfter' in rule && rule.lineStartsAfter?.length === 1) {
-        const compiled = compileFastFuzzyTokenRule(rule.lineStartsAfter[0]);
+        const compiled = compileFastFuzzyTokenRule(rule.lineStartsAfter[0], tokens);
         if (compiled) {
             return { compiled, kind: 'startsAfter' };
         }
@@ -57,14 +58,14 @@ const isCombinableRule = (rule: SplitRule): boolean => {
     return true;
 };
 
-export const partitionRulesForMatching = (rules: SplitRule[]) => {
+export const partitionRulesForMatching = (rules: SplitRule[], tokens?: CustomTokens) => {
     const combinableRules: { rule: SplitRule; prefix: string; index: number }[] = [];
     const standaloneRules: Array<{ rule: SplitRule; index: number }> = [];
     const fastFuzzyRules: FastFuzzyRule[] = [];
 
     for (let index = 0; index < rules.length; index++) {
         const rule = rules[index];
-        const fuzzyComp = tryCompileFastFuzzyRule(rule);
+        const fuzzyComp = tryCompileFastFuzzyRule(rule, tokens);
 
         if (fuzzyComp) {
             fastFuzzyRules.push({
@@ -88,6 +89,9 @@ export const partitionRulesForMatching = (rules: SplitRule[]) => {
 
 export type PageStartGuardChecker = (rule: SplitRule, ruleIndex: number, matchStart: number) => boolean;
 
+/** Which guard rejected a match (see `createPageStartGuardExplainer`). */
+export type MatchGuardBlock = 'pageStartGuard' | 'pageStartPrevWordStoplist' | 'samePagePrevWordStoplist';
+
 const STRONG_SENTENCE_TERMINATORS = /[.!?؟؛۔…]$/u;
 const TRAILING_PAGE_WRAP_NOISE = /[\s\u0660-\u0669\d«»"“”'‘’()[\]{}<>]+$/u;
 const TRAILING_WORD_DELIMITERS = /[\s\u0660-\u0669\d«»"“”'‘’()[\]{}<>.,!?؟؛،:]+$/u;
@@ -129,7 +133,10 @@ const shouldAllowSamePageMatch = (contentBeforeMatch: string, stoplist: Set<stri
     return !lastWord || !stoplist.has(normalizeArabicForComparison(lastWord));
 };
 
-export const createPageStartGuardChecker = (matchContent: string, pageMap: PageMap) => {
+/**
+ * Like `createPageStartGuardChecker`, but returns the guard that rejects a match (or `null` when allowed).
+ */
+export const createPageStartGuardExplainer = (matchContent: string, pageMap: PageMap, tokens?: CustomTokens) => {
     const pageStartToBoundaryIndex = new Map(pageMap.boundaries.map((b, i) => [b.start, i]));
     const compiledPageStartPrev = new Map<number, RegExp | null>();
     const compiledPrevWordStoplists = new Map<number, Set<string> | null>();
@@ -145,7 +152,7 @@ export const createPageStartGuardChecker = (matchContent: string, pageMap: PageM
             compiledPageStartPrev.set(ruleIndex, null);
             return null;
         }
-        const re = new RegExp(`(?:${processPattern(pattern, false).pattern})$`, 'u');
+        const re = new RegExp(`(?:${processPattern(pattern, false, undefined, tokens).pattern})$`, 'u');
         compiledPageStartPrev.set(ruleIndex, re);
         return re;
     };
@@ -214,32 +221,44 @@ export const createPageStartGuardChecker = (matchContent: string, pageMap: PageM
         return matchContent.slice(boundary.start, matchStart);
     };
 
-    return (rule: SplitRule, ruleIndex: number, matchStart: number) => {
-        const boundaryIndex = pageStartToBoundaryIndex.get(matchStart);
-        const isNonFirstPageStart = boundaryIndex !== undefined && boundaryIndex !== 0;
-
-        if (isNonFirstPageStart) {
-            const prevReq = getPageStartPrevRegex(rule, ruleIndex);
-            if (prevReq) {
-                const lastChar = getPrevPageLastNonWsChar(boundaryIndex);
-                if (!lastChar || !prevReq.test(lastChar)) {
-                    return false;
-                }
+    const explainPageStartMatch = (rule: SplitRule, ruleIndex: number, boundaryIndex: number) => {
+        const prevReq = getPageStartPrevRegex(rule, ruleIndex);
+        if (prevReq) {
+            const lastChar = getPrevPageLastNonWsChar(boundaryIndex);
+            if (!lastChar || !prevReq.test(lastChar)) {
+                return 'pageStartGuard';
             }
+        }
+
+        return shouldAllowPageStartMatch(getPreviousPageContent(boundaryIndex), getPrevWordStoplist(rule, ruleIndex))
+            ? null
+            : 'pageStartPrevWordStoplist';
+    };
 
-            return shouldAllowPageStartMatch(
-                getPreviousPageContent(boundaryIndex),
-                getPrevWordStoplist(rule, ruleIndex),
-            );
+    return (rule: SplitRule, ruleIndex: number, matchStart: number): MatchGuardBlock | null => {
+        const boundaryIndex = pageStartToBoundaryIndex.get(matchStart);
+        if (boundaryIndex !== undefined && boundaryIndex !== 0) {
+            return explainPageStartMatch(rule, ruleIndex, boundaryIndex);
         }
 
         return shouldAllowSamePageMatch(
             getCurrentPageContentBeforeMatch(matchStart),
             getSamePagePrevWordStoplist(rule, ruleIndex),
-        );
+        )
+            ? null
+            : 'samePagePrevWordStoplist';
     };
 };
 
+export const createPageStartGuardChecker = (
+    matchContent: string,
+    pageMap: PageMap,
+    tokens?: CustomTokens,
+): PageStartGuardChecker => {
+    const explain = createPageStartGuardExplainer(matchContent, pageMap, tokens);
+    return (rule, ruleIndex, matchStart) => explain(rule, ruleIndex, matchStart) === null;
+};
+
 /**
  * Checks if a pageId matches the min/max/exclude constraints of a rule.
  */
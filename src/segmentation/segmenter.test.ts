@@ -1,8 +1,11 @@
 import { describe, expect, it } from 'bun:test';
 import type { Page } from '@/types/index.js';
+import type { SegmentationOptions } from '@/types/options.js';
 import type { SplitRule } from '@/types/rules.js';
 import { createArabicDictionaryEntryRule } from '../dictionary/arabic-dictionary-rule.js';
 import { FAST_PATH_THRESHOLD } from './breakpoint-constants';
+import { getSegmentDebugReason } from './debug-meta.js';
+import { buildSegmentTree } from './segment-tree.js';
 import { dedupeSplitPoints, ensureFallbackSegment, segmentPages } from './segmenter';
 import { getTokenPattern } from './tokens.js';
 
@@ -727,6 +730,23 @@ describe('segmenter', () => {
     });
 
     describe('phrase tokens', () => {
+        it('should match tokens in presentation forms after normalizeArabicLetters', () => {
+            const pages: Page[] = [
+                { content: 'ﺑﺎﺏ ﺍﻟﺼﻼﺓ\nﻛﺘﺎﺏ ﺍﻟﺰﻛﺎﺓ', id: 1 },
+                { content: 'ﺑﺎﺏ ﺍﻟﺼﻮﻡ', id: 2 },
+            ];
+            const rules: SplitRule[] = [{ lineStartsWith: ['{{bab}}', '{{kitab}}'], split: 'at' }];
+
+            expect(segmentPages(pages, { rules })).toHaveLength(1);
+
+            const result = segmentPages(pages, {
+                preprocess: [{ max: 1, type: 'normalizeArabicLetters' }],
+                preserveOriginalContent: true,
+                rules,
+            });
+            expect(result.map((s) => s.content)).toEqual(['ﺑﺎﺏ ﺍﻟﺼﻼﺓ', 'ﻛﺘﺎﺏ ﺍﻟﺰﻛﺎﺓ ﺑﺎﺏ ﺍﻟﺼﻮﻡ']);
+        });
+
         it('should expand {{bab}} token for chapter markers', () => {
             const pages: Page[] = [
                 { content: 'بَابُ الإيمان', id: 1 },
@@ -827,6 +847,31 @@ describe('segmenter', () => {
 
             expect(result.length).toBe(2);
         });
+
+        it('should capture numbers in any digit script with {{anyNums}}', () => {
+            const pages: Page[] = [
+                { content: '١٢ - حدثنا فلان\n۱۳ - حدثنا آخر', id: 1 },
+                { content: '14 - أخبرنا فلان', id: 2 },
+            ];
+
+            const rules: SplitRule[] = [{ lineStartsAfter: ['{{anyNums:num}} {{dash}} '] }];
+            const result = segmentPages(pages, { rules });
+
+            expect(result.map((s) => s.meta?.num)).toEqual(['١٢', '۱۳', '14']);
+        });
+
+        it('should let {{raqms}} match every number after normalizeDigits', () => {
+            const pages: Page[] = [{ content: '١٢ - حدثنا فلان\n۱۳ - حدثنا آخر\n14 - أخبرنا', id: 1 }];
+
+            const result = segmentPages(pages, {
+                preprocess: ['normalizeDigits'],
+                rules: [{ lineStartsAfter: ['{{raqms:num}} {{dash}} '] }],
+                sourceSpans: true,
+            });
+
+            expect(result.map((s) => s.meta?.num)).toEqual(['١٢', '١٣', '١٤']);
+            expect(result[1].source).toEqual([{ end: 30, page: 1, start: 21 }]);
+        });
     });
 
     describe('composite tokens', () => {
@@ -1179,6 +1224,584 @@ describe('segmenter', () => {
         });
     });
 
+    describe('custom tokens option', () => {
+        const tokens = { juz: 'الجزء|جزء', juzHeading: '{{juz}} {{raqms}}', stop: '[.؟]' };
+
+        it('should expand composite custom tokens in lineStartsWith and keep their captures', () => {
+            const pages: Page[] = [{ content: 'مقدمة\nالجزء ١\nنص أول\nجزء ٢\nنص ثان', id: 1 }];
+
+            const result = segmentPages(pages, {
+                rules: [{ lineStartsWith: ['{{juzHeading:heading}}'], split: 'at' }],
+                tokens,
+            });
+
+            expect(result.map((s) => s.content)).toEqual(['مقدمة', 'الجزء ١\nنص أول', 'جزء ٢\nنص ثان']);
+            expect(result[1].meta).toEqual({ heading: 'الجزء ١' });
+        });
+
+        it('should default custom Arabic phrase tokens to fuzzy matching', () => {
+            const pages: Page[] = [{ content: 'تمهيد\nالجُزْءُ الأول', id: 1 }];
+
+            const result = segmentPages(pages, { rules: [{ lineStartsWith: ['{{juz}}'], split: 'at' }], tokens });
+
+            expect(result.map((s) => s.content)).toEqual(['تمهيد', 'الجُزْءُ الأول']);
+        });
+
+        it('should expand custom tokens in template, lineEndsWith and pageStartGuard', () => {
+            const pages: Page[] = [
+                { content: 'سطر أول.\nسطر ثان', id: 1 },
+                { content: 'الجزء ٣ بداية', id: 2 },
+                { content: 'تكملة.', id: 3 },
+                { content: 'الجزء ٤ بداية', id: 4 },
+            ];
+
+            const result = segmentPages(pages, {
+                rules: [
+                    { lineEndsWith: ['{{stop}}'], split: 'after' },
+                    { pageStartGuard: '{{stop}}', split: 'at', template: '^{{juz}} ' },
+                ],
+                tokens,
+            });
+
+            expect(result.map((s) => s.from)).toEqual([1, 1, 4]);
+        });
+
+        it('should expand custom tokens in breakpoint patterns and words', () => {
+            const pages: Page[] = [
+                { content: 'أول الكلام فصل ثان الكلام', id: 1 },
+                { content: 'ثالث الكلام', id: 2 },
+            ];
+
+            const byPattern = segmentPages(pages, {
+                breakpoints: [{ pattern: '{{sep}}', split: 'at' }],
+                maxPages: 0,
+                tokens: { sep: 'فصل' },
+            });
+            const byWords = segmentPages(pages, {
+                breakpoints: [{ split: 'at', words: ['{{sep}}'] }],
+                maxPages: 0,
+                tokens: { sep: 'فصل' },
+            });
+
+            expect(byPattern.map((s) => s.content)).toEqual(['أول الكلام', 'فصل ثان الكلام', 'ثالث الكلام']);
+            expect(byWords).toEqual(byPattern);
+        });
+    });
+
+    describe('footnotes', () => {
+        const pages: Page[] = [
+            { content: '١ - حدثنا زيد (١) قال\n٢ - حدثنا عمرو\n__________\n(١) هو ابن حرب.\n(٢) لا يصح.', id: 10 },
+            { content: 'تكملة (١)\n٣ - حدثنا بكر\n__________\n(١) أي الرواية.', id: 11 },
+        ];
+        const rules: SplitRule[] = [{ lineStartsAfter: ['{{raqms}} {{dash}} '] }];
+
+        it('should leave footnotes in the text unless enabled', () => {
+            const result = segmentPages(pages, { rules });
+            expect(result[1].content).toContain('(٢) لا يصح.');
+        });
+
+        it('should exclude footnotes from matching and attach them to referencing segments', () => {
+            const result = segmentPages(pages, { footnotes: true, rules });
+
+            expect(result.map((s) => s.content)).toEqual(['حدثنا زيد (١) قال', 'حدثنا عمرو تكملة (١)', 'حدثنا بكر']);
+            expect(result[0].footnotes).toEqual([{ content: 'هو ابن حرب.', marker: '١', page: 10 }]);
+            expect(result[1].footnotes).toEqual([
+                { content: 'لا يصح.', marker: '٢', page: 10 },
+                { content: 'أي الرواية.', marker: '١', page: 11 },
+            ]);
+            expect(result[2].footnotes).toBeUndefined();
+        });
+
+        it('should emit footnotes as separate segments with source spans', () => {
+            const result = segmentPages(pages, { footnotes: { mode: 'segments' }, rules, sourceSpans: true });
+
+            expect(result.map((s) => [s.content, s.meta])).toEqual([
+                ['حدثنا زيد (١) قال', undefined],
+                ['هو ابن حرب.', { marker: '١', type: 'footnote' }],
+                ['حدثنا عمرو تكملة (١)', undefined],
+                ['لا يصح.', { marker: '٢', type: 'footnote' }],
+                ['أي الرواية.', { marker: '١', type: 'footnote' }],
+                ['حدثنا بكر', undefined],
+            ]);
+            const span = result[4].source![0];
+            expect(pages[1].content.slice(span.start, span.end)).toBe('أي الرواية.');
+        });
+
+        it('should keep footnotes out of breakpoint pieces', () => {
+            const result = segmentPages(pages, {
+                breakpoints: [''],
+                footnotes: true,
+                maxPages: 0,
+                rules: [],
+            });
+            expect(result.map((s) => s.content)).toEqual([
+                '١ - حدثنا زيد (١) قال\n٢ - حدثنا عمرو',
+                'تكملة (١)\n٣ - حدثنا بكر',
+            ]);
+            expect(result[1].footnotes).toEqual([{ content: 'أي الرواية.', marker: '١', page: 11 }]);
+        });
+    });
+
+    describe('captureTransforms', () => {
+        it('should transform named captures before merging them into meta', () => {
+            const result = segmentPages([{ content: '٦٦٩٦ - حدثنا زيد\n٦٦٩٧ - حدثنا عمرو', id: 1 }], {
+                rules: [
+                    {
+                        captureTransforms: { num: 'int' },
+                        lineStartsAfter: ['{{raqms:num}} {{dash}} '],
+                        meta: { type: 'hadith' },
+                    },
+                ],
+            });
+
+            expect(result.map((s) => s.meta)).toEqual([
+                { num: 6696, type: 'hadith' },
+                { num: 6697, type: 'hadith' },
+            ]);
+        });
+    });
+
+    describe('heading context', () => {
+        const pages: Page[] = [
+            { content: 'كتاب الإيمان\nباب الأول\n١ - حدثنا زيد\n٢ - حدثنا عمرو', id: 1 },
+            { content: 'باب الثاني\n٣ - حدثنا بكر\nكتاب العلم\n٤ - حدثنا خالد', id: 2 },
+        ];
+        const rules: SplitRule[] = [
+            { context: { key: 'kitab' }, level: 1, lineStartsWith: ['كتاب'] },
+            { context: { key: 'bab' }, level: 2, lineStartsWith: ['باب'] },
+            { lineStartsAfter: ['{{raqms:num}} {{dash}} '] },
+        ];
+
+        it('should inherit kitab and bab headings into the segments under them', () => {
+            const result = segmentPages(pages, { rules });
+
+            expect(result.map((s) => s.meta?.context)).toEqual([
+                undefined,
+                { kitab: 'كتاب الإيمان' },
+                { bab: 'باب الأول', kitab: 'كتاب الإيمان' },
+                { bab: 'باب الأول', kitab: 'كتاب الإيمان' },
+                { kitab: 'كتاب الإيمان' },
+                { bab: 'باب الثاني', kitab: 'كتاب الإيمان' },
+                undefined,
+                { kitab: 'كتاب العلم' },
+            ]);
+            expect(result[2].meta).toEqual({ context: { bab: 'باب الأول', kitab: 'كتاب الإيمان' }, num: '١' });
+        });
+
+        it('should keep the context on every breakpoint piece', () => {
+            const result = segmentPages([{ content: `باب الطهارة\n١ - ${'حدثنا زيد عن عمرو. '.repeat(6)}`, id: 1 }], {
+                breakpoints: ['{{tarqim}}\\s*'],
+                maxContentLength: 50,
+                rules,
+            });
+
+            expect(result.length).toBeGreaterThan(3);
+            expect(result.slice(1).map((s) => s.meta?.context)).toEqual(
+                result.slice(1).map(() => ({ bab: 'باب الطهارة' })),
+            );
+            expect(result[1].meta?.num).toBe('١');
+            expect(result[2].meta?.num).toBeUndefined();
+        });
+
+        it('should put the continuation pieces of a heading segment under that heading', () => {
+            const result = segmentPages(
+                [{ content: `كتاب الإيمان\nباب الطهارة\n${'حدثنا زيد عن عمرو. '.repeat(6)}`, id: 1 }],
+                { breakpoints: ['{{tarqim}}\\s*'], maxContentLength: 50, rules },
+            );
+
+            expect(result.length).toBeGreaterThan(3);
+            expect(result[1]).toMatchObject({ level: 2, meta: { context: { kitab: 'كتاب الإيمان' } } });
+            expect(result.slice(2).map((s) => s.meta?.context)).toEqual(
+                result.slice(2).map(() => ({ bab: 'باب الطهارة', kitab: 'كتاب الإيمان' })),
+            );
+        });
+    });
+
+    describe('heading titles', () => {
+        const pages: Page[] = [
+            { content: 'مقدمة\nبَابُ مَا جَاءَ فِي الْوُضُوءِ\nحدثنا زيد\nباب الصلاة: وفيه مسائل\nحدثنا عمرو', id: 1 },
+        ];
+
+        it('should capture the rest of the marker line with fuzzy rules', () => {
+            const result = segmentPages(pages, { rules: [{ fuzzy: true, lineStartsWith: ['باب'], title: true }] });
+
+            expect(result.slice(1).map((s) => [s.meta?.title, s.content.split('\n')[0]])).toEqual([
+                ['مَا جَاءَ فِي الْوُضُوءِ', 'بَابُ مَا جَاءَ فِي الْوُضُوءِ'],
+                ['الصلاة: وفيه مسائل', 'باب الصلاة: وفيه مسائل'],
+            ]);
+        });
+
+        it('should stop at until, strip the heading and feed captureTransforms and context', () => {
+            // The first heading has no body left once stripped but keeps its title
+            const result = segmentPages(pages, {
+                rules: [
+                    {
+                        captureTransforms: { bab: 'stripDiacritics' },
+                        context: { from: 'bab', key: 'bab' },
+                        fuzzy: true,
+                        lineStartsWith: ['باب'],
+                        title: { key: 'bab', strip: true, until: ':' },
+                    },
+                    { lineStartsWith: ['حدثنا'] },
+                ],
+            });
+
+            expect(result.map((s) => ({ content: s.content, meta: s.meta }))).toEqual([
+                { content: 'مقدمة', meta: undefined },
+                { content: '', meta: { bab: 'ما جاء في الوضوء' } },
+                { content: 'حدثنا زيد', meta: { context: { bab: 'ما جاء في الوضوء' } } },
+                { content: 'وفيه مسائل', meta: { bab: 'الصلاة', context: { bab: 'ما جاء في الوضوء' } } },
+                { content: 'حدثنا عمرو', meta: { context: { bab: 'الصلاة' } } },
+            ]);
+        });
+
+        it('should keep stripped headings without body text and use their titles as context', () => {
+            const result = segmentPages(
+                [{ content: 'باب الطهارة\n١ - حدثنا زيد\n٢ - حدثنا عمرو\nباب الصلاة\n٣ - حدثنا بكر', id: 1 }],
+                {
+                    rules: [
+                        { context: { key: 'bab' }, level: 2, lineStartsWith: ['{{bab}}'], title: { strip: true } },
+                        { lineStartsWith: ['{{raqms}} {{dash}} '] },
+                    ],
+                },
+            );
+
+            expect(result.map((s) => [s.content, s.level, s.meta])).toEqual([
+                ['', 2, { title: 'الطهارة' }],
+                ['١ - حدثنا زيد', undefined, { context: { bab: 'الطهارة' } }],
+                ['٢ - حدثنا عمرو', undefined, { context: { bab: 'الطهارة' } }],
+                ['', 2, { title: 'الصلاة' }],
+                ['٣ - حدثنا بكر', undefined, { context: { bab: 'الصلاة' } }],
+            ]);
+            expect(buildSegmentTree(result).roots.map((node) => node.children.length)).toEqual([2, 1]);
+        });
+
+        it('should take titles from lineStartsAfter markers', () => {
+            const result = segmentPages([{ content: '١ - باب النية\nنص', id: 1 }], {
+                rules: [{ lineStartsAfter: ['{{raqms:num}} {{dash}} '], title: { strip: true } }],
+            });
+
+            expect(result).toEqual([{ content: 'نص', from: 1, meta: { num: '١', title: 'باب النية' } }]);
+        });
+    });
+
+    describe('overlap', () => {
+        const pages: Page[] = [
+            { content: 'One sentence here. Two sentence here. Three sentence here.', id: 1 },
+            { content: 'Four sentence here. Five sentence here. Six sentence here.', id: 2 },
+        ];
+        const options: SegmentationOptions = { breakpoints: ['\\.\\s*'], maxContentLength: 50 };
+
+        it('should repeat the last sentences of a piece and attribute them to their page', () => {
+            const result = segmentPages(pages, { ...options, overlap: { sentences: 1 } });
+
+            expect(result).toEqual([
+                { content: 'One sentence here. Two sentence here.', from: 1 },
+                {
+                    content: 'Two sentence here. Three sentence here. Four sentence here.',
+                    from: 1,
+                    meta: { overlap: { end: 19, from: 1, start: 0 } },
+                    to: 2,
+                },
+                {
+                    content: 'Four sentence here. Five sentence here. Six sentence here.',
+                    from: 2,
+                    meta: { overlap: { end: 20, from: 2, start: 0 } },
+                },
+            ]);
+        });
+
+        it('should repeat trailing characters from a word start', () => {
+            const result = segmentPages(pages, { ...options, overlap: { chars: 12 } });
+
+            expect(result.map((s) => s.content)).toEqual([
+                'One sentence here. Two sentence here.',
+                'here. Three sentence here. Four sentence here.',
+                'here. Five sentence here. Six sentence here.',
+            ]);
+            expect(result[2]).toMatchObject({ from: 2, meta: { overlap: { end: 6, from: 2, start: 0 } } });
+        });
+
+        it('should move a piece back to the page its overlap starts on', () => {
+            const result = segmentPages(pages, { ...options, overlap: { sentences: 2 }, sourceSpans: true });
+
+            expect(result[2]).toMatchObject({
+                content: 'Three sentence here. Four sentence here. Five sentence here. Six sentence here.',
+                from: 1,
+                meta: { overlap: { end: 41, from: 1, start: 0, to: 2 } },
+                source: [
+                    { end: 58, page: 1, start: 38 },
+                    { end: 58, page: 2, start: 0 },
+                ],
+                to: 2,
+            });
+        });
+
+        it('should never overlap structural segments', () => {
+            const result = segmentPages(pages, { overlap: { chars: 20 }, rules: [{ lineStartsWith: ['Four'] }] });
+            expect(result.map((s) => s.meta)).toEqual([undefined, undefined]);
+        });
+    });
+
+    describe('overrides', () => {
+        const pages: Page[] = [
+            { content: '١ - حدثنا زيد قال حدثنا عمرو\n٢ - أخبرنا بكر', id: 57 },
+            { content: 'تكملة\n٣ - حدثنا خالد', id: 58 },
+        ];
+        const rules: SplitRule[] = [{ lineStartsAfter: ['{{raqms:num}} {{dash}} '], meta: { type: 'hadith' } }];
+
+        it('should force a split before the anchored text', () => {
+            const result = segmentPages(pages, {
+                overrides: [{ action: 'split', meta: { type: 'missed' }, occurrence: 2, page: 57, text: 'حدثنا' }],
+                rules,
+            });
+
+            expect(result.map((s) => s.content)).toEqual([
+                'حدثنا زيد قال',
+                'حدثنا عمرو',
+                'أخبرنا بكر تكملة',
+                'حدثنا خالد',
+            ]);
+            expect(result[1]).toMatchObject({ from: 57, meta: { type: 'missed' } });
+        });
+
+        it('should suppress a rule split by its marker or by its text', () => {
+            const byMarker = segmentPages(pages, { overrides: [{ action: 'suppress', page: 57, text: '٢ -' }], rules });
+            const byText = segmentPages(pages, {
+                overrides: [{ action: 'suppress', page: 58, text: 'حدثنا خالد' }],
+                rules,
+            });
+
+            expect(byMarker.map((s) => s.content)).toEqual([
+                'حدثنا زيد قال حدثنا عمرو\n٢ - أخبرنا بكر تكملة',
+                'حدثنا خالد',
+            ]);
+            expect(byText.map((s) => s.content)).toEqual([
+                'حدثنا زيد قال حدثنا عمرو',
+                'أخبرنا بكر تكملة\n٣ - حدثنا خالد',
+            ]);
+        });
+
+        it('should merge a forced split with a rule split at the same position', () => {
+            const result = segmentPages(pages, {
+                overrides: [{ action: 'split', meta: { checked: true }, page: 58, text: '٣ - ' }],
+                rules,
+            });
+
+            expect(result).toHaveLength(3);
+            expect(result[2]).toMatchObject({
+                content: 'حدثنا خالد',
+                from: 58,
+                meta: { checked: true, num: '٣', type: 'hadith' },
+            });
+        });
+
+        it('should ignore overrides that no longer anchor', () => {
+            const withStale = segmentPages(pages, {
+                overrides: [
+                    { action: 'split', page: 57, text: 'نص محذوف' },
+                    { action: 'suppress', page: 99, text: 'حدثنا' },
+                ],
+                rules,
+            });
+            expect(withStale).toEqual(segmentPages(pages, { rules }));
+        });
+
+        it('should record override provenance in debug meta', () => {
+            const result = segmentPages(pages, {
+                debug: true,
+                overrides: [{ action: 'split', page: 57, text: 'قال' }],
+                rules,
+            });
+            expect(getSegmentDebugReason(result[1])).toBe('Override #0 (page 57) - "قال"');
+        });
+    });
+
+    describe('zones', () => {
+        const pages: Page[] = [
+            { content: 'مقدمة\n١ - تاريخ الكتاب', id: 1 },
+            { content: 'كتاب الإيمان\n١ - حدثنا زيد\n٢ - حدثنا عمرو', id: 2 },
+            { content: 'باب ذكر الرواة\n١ - ترجمة زيد', id: 3 },
+        ];
+        const zones = [{ activateAfter: ['{{kitab}}'], deactivateOn: ['{{bab}} ذكر الرواة'], name: 'body' }];
+
+        it('should only apply zoned rules between the activation and deactivation markers', () => {
+            const result = segmentPages(pages, {
+                rules: [
+                    { lineStartsWith: ['{{kitab}}', '{{bab}}'], meta: { type: 'heading' } },
+                    { lineStartsAfter: ['{{raqms:num}} {{dash}} '], meta: { type: 'hadith' }, zone: 'body' },
+                ],
+                zones,
+            });
+
+            expect(result.map((s) => s.content)).toEqual([
+                'مقدمة\n١ - تاريخ الكتاب',
+                'كتاب الإيمان',
+                'حدثنا زيد',
+                'حدثنا عمرو',
+                'باب ذكر الرواة\n١ - ترجمة زيد',
+            ]);
+            expect(result[2].meta).toEqual({ num: '١', type: 'hadith' });
+        });
+
+        it('should let zoned rules split at the activation marker line', () => {
+            const result = segmentPages(pages, { rules: [{ lineStartsWith: ['{{kitab}}'], zone: 'body' }], zones });
+            expect(result.map((s) => s.from)).toEqual([1, 2]);
+        });
+
+        it('should apply occurrence filters within the zone', () => {
+            const result = segmentPages(pages, {
+                rules: [{ lineStartsWith: ['{{raqms}} {{dash}} '], occurrence: 'first', zone: 'body' }],
+                zones,
+            });
+            expect(result.map((s) => s.content)).toEqual([
+                'مقدمة\n١ - تاريخ الكتاب كتاب الإيمان',
+                '١ - حدثنا زيد\n٢ - حدثنا عمرو باب ذكر الرواة\n١ - ترجمة زيد',
+            ]);
+        });
+
+        it('should match markers that combine tokens and text', () => {
+            const result = segmentPages(pages, {
+                rules: [{ lineStartsAfter: ['{{raqms:num}} {{dash}} '], zone: 'body' }],
+                zones: [{ activateAfter: ['{{kitab}} الإيمان'], deactivateOn: ['{{bab}} ذكر الرواة'], name: 'body' }],
+            });
+
+            expect(result.map((s) => s.content)).toEqual([
+                'مقدمة\n١ - تاريخ الكتاب كتاب الإيمان',
+                'حدثنا زيد',
+                'حدثنا عمرو باب ذكر الرواة\n١ - ترجمة زيد',
+            ]);
+        });
+
+        it('should warn about zone markers that match no line', () => {
+            const warnings: unknown[][] = [];
+            segmentPages(pages, {
+                logger: { warn: (...args) => warnings.push(args) },
+                rules: [{ lineStartsWith: ['{{raqms}} {{dash}} '], zone: 'body' }],
+                zones: [{ activateAfter: ['{{kitab}} العلم'], name: 'body' }],
+            });
+
+            expect(warnings).toEqual([
+                [
+                    '[segmenter] zone marker matches no line',
+                    { marker: '{{kitab}} العلم', path: 'zones[0].activateAfter[0]', zone: 'body' },
+                ],
+            ]);
+        });
+
+        it('should throw for rules referencing an unknown zone', () => {
+            expect(() => segmentPages(pages, { rules: [{ lineStartsWith: ['{{kitab}}'], zone: 'missing' }] })).toThrow(
+                'Rule references unknown zone "missing"',
+            );
+        });
+    });
+
+    describe('source spans', () => {
+        const pages: Page[] = [
+            { content: 'مقدمة\r\n١ - حدثنا فلان... عن فلان\u200B قال', id: 1 },
+            { content: 'تكملة الكلام.\n٢ - أخبرنا فلان', id: 2 },
+            { content: 'كلام طويل. وكلام آخر.', id: 4 },
+        ];
+        const sliceSource = (segment: { source?: { end: number; page: number; start: number }[] }) =>
+            segment.source!.map((span) => pages.find((p) => p.id === span.page)!.content.slice(span.start, span.end));
+
+        it('should not attach spans unless requested', () => {
+            const result = segmentPages(pages, { rules: [{ lineStartsWith: ['{{raqms}} {{dash}} '], split: 'at' }] });
+            expect(result.every((s) => s.source === undefined)).toBeTrue();
+        });
+
+        it('should map spans to original page content through preprocessing and CRLF normalization', () => {
+            const result = segmentPages(pages, {
+                preprocess: ['removeZeroWidth', 'condenseEllipsis'],
+                rules: [{ lineStartsAfter: ['{{raqms:num}} {{dash}} '], split: 'at' }],
+                sourceSpans: true,
+            });
+
+            expect(result.map((s) => s.content)).toEqual([
+                'مقدمة',
+                'حدثنا فلان… عن فلان قال تكملة الكلام.',
+                'أخبرنا فلان كلام طويل. وكلام آخر.',
+            ]);
+            expect(result[1].source).toEqual([
+                { end: 37, page: 1, start: 11 },
+                { end: 13, page: 2, start: 0 },
+            ]);
+            expect(sliceSource(result[1])).toEqual(['حدثنا فلان... عن فلان\u200B قال', 'تكملة الكلام.']);
+            expect(sliceSource(result[2])).toEqual(['أخبرنا فلان', 'كلام طويل. وكلام آخر.']);
+        });
+
+        it('should attach spans to breakpoint pieces and the fallback segment', () => {
+            const result = segmentPages(pages, { breakpoints: ['{{tarqim}}\\s*'], maxPages: 0, sourceSpans: true });
+
+            expect(result.length).toBeGreaterThan(3);
+            for (const segment of result) {
+                expect(sliceSource(segment).join(' ').replace(/\s+/g, ' ')).toBe(segment.content.replace(/\s+/g, ' '));
+            }
+        });
+
+        it('should locate maxContentLength pieces that span pages', () => {
+            const result = segmentPages(pages, { breakpoints: [''], maxContentLength: 50, sourceSpans: true });
+
+            expect(result.map((s) => s.source?.length)).toEqual(result.map((s) => (s.to ? 2 : 1)));
+            for (const segment of result) {
+                expect(sliceSource(segment).join(' ').replace(/\s+/g, ' ')).toBe(segment.content.replace(/\s+/g, ' '));
+            }
+        });
+
+        it('should emit original content with preserveOriginalContent while matching the normalized text', () => {
+            const options: SegmentationOptions = {
+                preprocess: ['removeZeroWidth', 'condenseEllipsis'],
+                preserveOriginalContent: true,
+                rules: [{ lineStartsAfter: ['{{raqms:num}} {{dash}} '], meta: { type: 'hadith' } }],
+            };
+            const result = segmentPages(pages, options);
+
+            expect(result).toEqual([
+                { content: 'مقدمة', from: 1 },
+                {
+                    content: 'حدثنا فلان... عن فلان\u200B قال تكملة الكلام.',
+                    from: 1,
+                    meta: { num: '١', type: 'hadith' },
+                    to: 2,
+                },
+                { content: 'أخبرنا فلان كلام طويل. وكلام آخر.', from: 2, meta: { num: '٢', type: 'hadith' }, to: 4 },
+            ]);
+            expect(segmentPages(pages, { ...options, sourceSpans: true })[1]).toMatchObject({
+                content: result[1].content,
+                source: [
+                    { end: 37, page: 1, start: 11 },
+                    { end: 13, page: 2, start: 0 },
+                ],
+            });
+        });
+
+        it('should map source spans past detected running headers', () => {
+            const bookPages: Page[] = [1, 2, 3, 4].map((id) => ({
+                content: `صحيح البخاري\n${id.toLocaleString('ar-EG')} - حدثنا راو ${id}\n- ${id.toLocaleString('ar-EG')} -`,
+                id,
+            }));
+            const result = segmentPages(bookPages, {
+                preprocess: [{ minFrequency: 0.5, type: 'stripRunningHeaders' }],
+                rules: [{ lineStartsAfter: ['{{raqms}} {{dash}} '] }],
+                sourceSpans: true,
+            });
+
+            expect(result.map((s) => s.content)).toEqual(['حدثنا راو 1', 'حدثنا راو 2', 'حدثنا راو 3', 'حدثنا راو 4']);
+            expect(result[1].source).toEqual([{ end: 28, page: 2, start: 17 }]);
+        });
+
+        it('should cut breakpoint pieces on the normalized text with preserveOriginalContent', () => {
+            const result = segmentPages(pages, {
+                breakpoints: ['…'],
+                maxPages: 0,
+                preprocess: ['condenseEllipsis'],
+                preserveOriginalContent: true,
+            });
+
+            expect(result.map((s) => s.content)).toContain('مقدمة\r\n١ - حدثنا فلان...');
+        });
+    });
+
     // Auto-escaping brackets in template patterns
 
     describe('auto-escaping brackets', () => {
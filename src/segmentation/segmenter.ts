@@ -1,25 +1,46 @@
+import { normalizeDictionaryProfile } from '@/dictionary/profile.js';
+import { resolveRunningHeaders } from '@/preprocessing/running-headers.js';
 import { applyPreprocessToPage } from '@/preprocessing/transforms.js';
 import type { Page, Segment } from '@/types';
+import type { NormalizedArabicDictionaryProfile } from '@/types/dictionary.js';
 import type { Logger, SegmentationOptions } from '@/types/options.js';
 import type { SplitRule } from '@/types/rules.js';
 import { normalizeLineEndings } from '@/utils/textUtils.js';
 import { collectDictionarySplitPoints } from '../dictionary/runtime.js';
 import type { PageBoundary, PageMap, SplitPoint } from '../types/segmenter.js';
 import { applyBreakpoints } from './breakpoint-processor.js';
+import { type ExpandedBreakpoint, expandBreakpoints } from './breakpoint-utils.js';
 import { resolveDebugConfig } from './debug-meta.js';
+import { placeFootnotes, separateFootnotes } from './footnotes.js';
+import { applyHeadingContext, headingBodyContexts } from './heading-context.js';
+import { applyHeadingTitles, compileHeadingTitles } from './heading-title.js';
 import { anyRuleAllowsId } from './match-utils.js';
-import { processBreakpointPattern, processPattern } from './rule-regex.js';
+import { resolvePieceOverlap } from './piece-overlap.js';
+import { type CompiledProtectedSpan, compileProtectedSpans } from './protected-spans.js';
+import { buildRuleRegex, processBreakpointPattern, processPattern } from './rule-regex.js';
+import {
+    applyRuleZones,
+    type CompiledRuleZone,
+    compileRuleZones,
+    computeRuleZoneRanges,
+    findUnmatchedZoneMarkers,
+    type RuleZoneRanges,
+} from './rule-zones.js';
 import {
     collectFastFuzzySplitPoints,
     createPageStartGuardChecker,
     partitionRulesForMatching,
 } from './segmenter-rule-utils.js';
+import { buildSourceSpans, mapSourceSpansToOriginal, restoreOriginalContent } from './source-spans.js';
+import { applySuppressOverrides, collectOverrideSplitPoints } from './split-overrides.js';
 import {
     applyOccurrenceFilter,
     buildRuleRegexes,
     processCombinedMatches,
     processStandaloneRule,
 } from './split-point-helpers.js';
+import { resolveTokenLimit } from './token-limit.js';
+import type { CustomTokens } from './tokens.js';
 
 /**
  * Builds a concatenated content string and page mapping from input pages.
@@ -41,7 +62,7 @@ import {
  * // pageMap.getId(0) = 1
  * // pageMap.getId(12) = 2
  */
-const buildPageMap = (pages: Page[]) => {
+export const buildPageMap = (pages: Page[]) => {
     const boundaries: PageBoundary[] = [];
     const pageBreaks: number[] = [];
     let offset = 0;
@@ -143,9 +164,10 @@ const mergeSplitPoints = (existing: SplitPoint, incoming: SplitPoint): SplitPoin
         ...fallback,
         ...preferred,
         contentStartOffset: preferred.contentStartOffset ?? fallback.contentStartOffset,
+        level: preferred.level ?? fallback.level,
         meta,
         namedCaptures: mergeRecord(existing.namedCaptures, incoming.namedCaptures) as
-            | Record<string, string>
+            | Record<string, number | string>
             | undefined,
     };
 };
@@ -153,12 +175,15 @@ const mergeSplitPoints = (existing: SplitPoint, incoming: SplitPoint): SplitPoin
 /**
  * If no structural rules produced segments, create a single segment spanning all pages.
  * This allows breakpoint processing to still run.
+ *
+ * @param sourcePageMap - When provided, the fallback segment gets `source` spans
  */
 export const ensureFallbackSegment = (
     segments: Segment[],
     pages: Page[],
     normalizedContent: string[],
     pageJoiner: 'space' | 'newline',
+    sourcePageMap?: PageMap,
 ) => {
     if (segments.length > 0 || pages.length === 0) {
         return segments;
@@ -180,23 +205,51 @@ export const ensureFallbackSegment = (
     if (lastPage.id !== firstPage.id) {
         initialSeg.to = lastPage.id;
     }
+    if (sourcePageMap) {
+        initialSeg.source = buildSourceSpans(0, allContent.length, sourcePageMap.boundaries);
+    }
     return [initialSeg];
 };
 
+/**
+ * Compiles everything rule matching needs that does not depend on the content:
+ * the rule partition, the combinable rule regexes and each standalone rule's regex.
+ *
+ * @throws Error when a rule pattern is invalid
+ */
+export const compileRuleMatching = (rules: SplitRule[], tokens?: CustomTokens) => {
+    const { combinableRules, fastFuzzyRules, standaloneRules } = partitionRulesForMatching(rules, tokens);
+    return {
+        combinableRegexes: buildRuleRegexes(combinableRules, tokens),
+        combinableRules,
+        fastFuzzyRules,
+        headingTitles: compileHeadingTitles(rules, tokens),
+        standaloneRules: standaloneRules.map((entry) => ({
+            ...entry,
+            built: buildRuleRegex(entry.rule, undefined, tokens),
+        })),
+    };
+};
+
+export type CompiledRuleMatching = ReturnType<typeof compileRuleMatching>;
+
 const collectSplitPointsFromRules = (
     rules: SplitRule[],
     matchContent: string,
     pageMap: PageMap,
     debugMetaKey: string | undefined,
     logger?: Logger,
+    tokens?: CustomTokens,
+    ruleMatching: CompiledRuleMatching = compileRuleMatching(rules, tokens),
+    zoneRanges?: RuleZoneRanges,
 ) => {
     logger?.debug?.('[segmenter] collecting split points from rules', {
         contentLength: matchContent.length,
         ruleCount: rules.length,
     });
 
-    const passesPageStartGuard = createPageStartGuardChecker(matchContent, pageMap);
-    const { combinableRules, fastFuzzyRules, standaloneRules } = partitionRulesForMatching(rules);
+    const passesPageStartGuard = createPageStartGuardChecker(matchContent, pageMap, tokens);
+    const { combinableRegexes, combinableRules, fastFuzzyRules, standaloneRules } = ruleMatching;
 
     logger?.debug?.('[segmenter] rules partitioned', {
         combinableCount: combinableRules.length,
@@ -210,7 +263,7 @@ const collectSplitPointsFromRules = (
         processCombinedMatches(
             matchContent,
             combinableRules,
-            buildRuleRegexes(combinableRules),
+            combinableRegexes,
             pageMap,
             passesPageStartGuard,
             splitPointsByRule,
@@ -218,10 +271,25 @@ const collectSplitPointsFromRules = (
         );
     }
 
-    for (const { rule, index } of standaloneRules) {
-        processStandaloneRule(rule, index, matchContent, pageMap, passesPageStartGuard, splitPointsByRule);
+    for (const { built, index, rule } of standaloneRules) {
+        processStandaloneRule(
+            rule,
+            index,
+            matchContent,
+            pageMap,
+            passesPageStartGuard,
+            splitPointsByRule,
+            tokens,
+            built,
+        );
     }
 
+    if (ruleMatching.headingTitles.size) {
+        applyHeadingTitles(splitPointsByRule, ruleMatching.headingTitles, matchContent);
+    }
+    if (zoneRanges?.size) {
+        applyRuleZones(rules, splitPointsByRule, zoneRanges);
+    }
     return applyOccurrenceFilter(rules, splitPointsByRule, debugMetaKey);
 };
 
@@ -338,7 +406,13 @@ const convertPageBreaks = (
  *   ]
  * });
  */
-export const segmentPages = (pages: Page[], options: SegmentationOptions) => {
+export const segmentPages = (pages: Page[], options: SegmentationOptions) => segmentPagesCompiled(pages, options);
+
+/**
+ * `segmentPages()` with optionally pre-compiled rules, breakpoints and dictionary profile
+ * (see `compileSegmentation()`), so repeated runs with the same options skip recompilation.
+ */
+export const segmentPagesCompiled = (pages: Page[], options: SegmentationOptions, compiled?: CompiledSegmentation) => {
     const {
         dictionary,
         rules = [],
@@ -346,18 +420,13 @@ export const segmentPages = (pages: Page[], options: SegmentationOptions) => {
         prefer = 'longer',
         pageJoiner = 'space',
         logger,
-        maxContentLength,
-        preprocess,
+        sourceSpans = false,
+        preserveOriginalContent = false,
     } = options;
-
-    if (maxContentLength && maxContentLength < 50) {
-        throw new Error(`maxContentLength must be at least 50 characters.`);
-    }
-
-    const maxPages = options.maxPages ?? Number.MAX_SAFE_INTEGER;
-    const hasLimits = options.maxPages !== undefined || maxContentLength !== undefined;
-    const debug = resolveDebugConfig((options as any).debug);
-    const debugMetaKey = debug?.includeRule ? debug.metaKey : undefined;
+    // Detected once, so preprocessing and source spans agree on the headers
+    const preprocess = resolveRunningHeaders(pages, options.preprocess, options.tokens);
+    const { debug, debugMetaKey, hasLimits, maxContentLength, maxPages } = resolveSegmentationLimits(options);
+    const trackSource = sourceSpans || preserveOriginalContent;
 
     logger?.info?.('[segmenter] starting segmentation', {
         breakpointCount: breakpoints.length,
@@ -369,59 +438,268 @@ export const segmentPages = (pages: Page[], options: SegmentationOptions) => {
         ruleCount: rules.length,
     });
 
-    // Apply preprocessing transforms to each page
-    const preprocessedPages: Page[] =
-        preprocess && preprocess.length > 0
-            ? pages.map((page) => ({
-                  ...page,
-                  content: applyPreprocessToPage(page.content, page.id, preprocess),
-              }))
-            : pages;
-
+    const { footnotes, pages: preprocessedPages } = separateFootnotes(
+        preprocessPages(pages, preprocess, options.tokens),
+        options,
+    );
     const { content: matchContent, normalizedPages: normalizedContent, pageMap } = buildPageMap(preprocessedPages);
 
     logger?.debug?.('[segmenter] content built', { pageIds: pageMap.pageIds, totalContentLength: matchContent.length });
+    if (logger?.warn && options.zones?.length) {
+        for (const unmatched of findUnmatchedZoneMarkers(options.zones, matchContent, options.tokens)) {
+            logger.warn('[segmenter] zone marker matches no line', unmatched);
+        }
+    }
+
+    const unique = applyHeadingContext(
+        collectSegmentationSplitPoints(
+            preprocessedPages,
+            normalizedContent,
+            matchContent,
+            pageMap,
+            options,
+            debugMetaKey,
+            undefined,
+            compiled,
+        ),
+        rules,
+        matchContent,
+    );
+
+    let segments = buildSegments(
+        unique,
+        matchContent,
+        pageMap,
+        rules,
+        pageJoiner,
+        dictionary !== undefined,
+        0,
+        trackSource,
+    );
+    logger?.debug?.('[segmenter] structural segments built', { segmentCount: segments.length });
+
+    segments = ensureFallbackSegment(
+        segments,
+        preprocessedPages,
+        normalizedContent,
+        pageJoiner,
+        trackSource ? pageMap : undefined,
+    );
 
-    const splitPointsFromRules = collectSplitPointsFromRules(rules, matchContent, pageMap, debugMetaKey, logger);
+    if (hasLimits) {
+        segments = applySegmentLimits(segments, preprocessedPages, normalizedContent, options, debug, compiled);
+        logger?.info?.('[segmenter] segmentation complete (with breakpoints)', { finalSegmentCount: segments.length });
+    } else {
+        logger?.info?.('[segmenter] segmentation complete (structural only)', { finalSegmentCount: segments.length });
+    }
+    if (footnotes) {
+        segments = placeFootnotes(segments, footnotes, pageMap.pageIds, trackSource);
+    }
+    if (trackSource) {
+        segments = mapSourceSpansToOriginal(segments, pages, preprocess, options.tokens);
+    }
+    return preserveOriginalContent ? restoreOriginalContent(segments, pages, pageJoiner, sourceSpans) : segments;
+};
+
+/**
+ * Checks the character limits: `maxContentLength` of at least 50, and a positive integer
+ * `minContentLength` below it.
+ *
+ * @returns Problems found, with paths `maxContentLength` or `minContentLength`
+ */
+export const validateSegmentationLimits = ({ maxContentLength, minContentLength }: SegmentationOptions) => {
+    const issues: { message: string; path: string }[] = [];
+    if (maxContentLength && maxContentLength < 50) {
+        issues.push({ message: 'maxContentLength must be at least 50 characters.', path: 'maxContentLength' });
+    }
+    if (minContentLength !== undefined && !(Number.isInteger(minContentLength) && minContentLength > 0)) {
+        issues.push({ message: 'minContentLength must be a positive integer.', path: 'minContentLength' });
+    } else if (minContentLength && maxContentLength && minContentLength >= maxContentLength) {
+        issues.push({ message: 'minContentLength must be less than maxContentLength.', path: 'minContentLength' });
+    }
+    return issues;
+};
+
+/**
+ * Validates and resolves the size limits shared by batch and streaming segmentation.
+ *
+ * @throws Error when `maxContentLength` is below the supported minimum or `minContentLength` is invalid
+ */
+export const resolveSegmentationLimits = (options: SegmentationOptions) => {
+    const { maxContentLength } = options;
+    const [issue] = validateSegmentationLimits(options);
+    if (issue) {
+        throw new Error(issue.message);
+    }
+
+    const debug = resolveDebugConfig((options as any).debug);
+    return {
+        debug,
+        debugMetaKey: debug?.includeRule ? debug.metaKey : undefined,
+        hasLimits: options.maxPages !== undefined || maxContentLength !== undefined || options.maxTokens !== undefined,
+        maxContentLength,
+        maxPages: options.maxPages ?? Number.MAX_SAFE_INTEGER,
+    };
+};
+
+/**
+ * Applies the configured `preprocess` transforms to each page, detecting running headers
+ * first when a `stripRunningHeaders` transform has no `headers`.
+ */
+export const preprocessPages = (
+    pages: Page[],
+    preprocess: SegmentationOptions['preprocess'],
+    tokens?: SegmentationOptions['tokens'],
+) => {
+    const transforms = resolveRunningHeaders(pages, preprocess, tokens);
+    return transforms && transforms.length > 0
+        ? pages.map((page) => ({
+              ...page,
+              content: applyPreprocessToPage(page.content, page.id, transforms, tokens),
+          }))
+        : pages;
+};
+
+/**
+ * Collects, merges and sorts the split points produced by rules and the dictionary profile.
+ *
+ * @param zoneActivation - Optional dictionary zone activation state carried across page windows
+ * @param compiled - Pre-compiled rules and dictionary profile (compiled on demand when omitted)
+ * @param ruleZoneRanges - Active ranges of `options.zones` in `matchContent` (computed from offset 0 when omitted)
+ */
+export const collectSegmentationSplitPoints = (
+    preprocessedPages: Page[],
+    normalizedContent: string[],
+    matchContent: string,
+    pageMap: PageMap,
+    options: SegmentationOptions,
+    debugMetaKey: string | undefined,
+    zoneActivation?: Map<string, number | null>,
+    compiled?: CompiledSegmentation,
+    ruleZoneRanges: RuleZoneRanges = computeRuleZoneRanges(
+        matchContent,
+        compiled?.ruleZones ?? compileRuleZones(options.zones, options.rules, options.tokens),
+    ),
+) => {
+    const { dictionary, logger, overrides = [], rules = [], tokens } = options;
+    const splitPointsFromRules = collectSplitPointsFromRules(
+        rules,
+        matchContent,
+        pageMap,
+        debugMetaKey,
+        logger,
+        tokens,
+        compiled?.ruleMatching,
+        ruleZoneRanges,
+    );
     const splitPointsFromDictionary = dictionary
-        ? collectDictionarySplitPoints(preprocessedPages, dictionary, pageMap, normalizedContent, logger, debugMetaKey)
+        ? collectDictionarySplitPoints(
+              preprocessedPages,
+              dictionary,
+              pageMap,
+              normalizedContent,
+              logger,
+              debugMetaKey,
+              zoneActivation,
+              compiled?.dictionaryProfile,
+          )
         : [];
-    const splitPoints = [...splitPointsFromRules, ...splitPointsFromDictionary];
-    const unique = dedupeSplitPoints(splitPoints);
+    const splitPointsFromOverrides = collectOverrideSplitPoints(overrides, pageMap, normalizedContent, debugMetaKey);
+    const splitPoints = [...splitPointsFromRules, ...splitPointsFromDictionary, ...splitPointsFromOverrides];
+    const unique = applySuppressOverrides(
+        dedupeSplitPoints(splitPoints),
+        overrides,
+        matchContent,
+        pageMap,
+        normalizedContent,
+    );
 
     logger?.debug?.('[segmenter] split points collected', {
         dictionarySplitPoints: splitPointsFromDictionary.length,
+        overrideSplitPoints: splitPointsFromOverrides.length,
         rawSplitPoints: splitPoints.length,
         ruleSplitPoints: splitPointsFromRules.length,
         uniqueSplitPoints: unique.length,
     });
 
-    let segments = buildSegments(unique, matchContent, pageMap, rules, pageJoiner, dictionary !== undefined);
-    logger?.debug?.('[segmenter] structural segments built', { segmentCount: segments.length });
+    return unique;
+};
 
-    segments = ensureFallbackSegment(segments, preprocessedPages, normalizedContent, pageJoiner);
+const createBreakpointProcessors = (tokens?: CustomTokens) => ({
+    pattern: (p: string) => processPattern(p, false, undefined, tokens).pattern,
+    raw: (p: string) => processBreakpointPattern(p, tokens),
+});
 
-    if (hasLimits) {
-        logger?.debug?.('[segmenter] applying breakpoints to oversized segments');
-        const result = applyBreakpoints(
-            segments,
-            preprocessedPages,
-            normalizedContent,
-            maxPages,
-            breakpoints,
-            prefer,
-            (p: string) => processPattern(p, false).pattern,
-            logger,
-            pageJoiner,
-            debug?.includeBreakpoint ? debug.metaKey : undefined,
-            maxContentLength,
-            processBreakpointPattern,
-        );
-        logger?.info?.('[segmenter] segmentation complete (with breakpoints)', { finalSegmentCount: result.length });
-        return result;
-    }
-    logger?.info?.('[segmenter] segmentation complete (structural only)', { finalSegmentCount: segments.length });
-    return segments;
+/**
+ * Expands and compiles the configured `breakpoints`.
+ *
+ * @throws Error when a breakpoint pattern is invalid
+ */
+export const compileBreakpoints = (options: SegmentationOptions) => {
+    const processors = createBreakpointProcessors(options.tokens);
+    return expandBreakpoints(options.breakpoints ?? [], processors.pattern, processors.raw);
+};
+
+/**
+ * Everything about a set of options that can be compiled once and reused across books.
+ */
+export type CompiledSegmentation = {
+    breakpoints: ExpandedBreakpoint[];
+    dictionaryProfile?: NormalizedArabicDictionaryProfile;
+    protectedSpans: CompiledProtectedSpan[];
+    ruleMatching: CompiledRuleMatching;
+    ruleZones: CompiledRuleZone[];
+};
+
+/**
+ * Compiles rules, zones, breakpoints, protected spans and the dictionary profile of `options`.
+ *
+ * @throws Error (or `DictionaryProfileValidationError`) on the first invalid part
+ */
+export const compileSegmentation = (options: SegmentationOptions): CompiledSegmentation => ({
+    breakpoints: compileBreakpoints(options),
+    dictionaryProfile: options.dictionary ? normalizeDictionaryProfile(options.dictionary) : undefined,
+    protectedSpans: compileProtectedSpans(options.protect),
+    ruleMatching: compileRuleMatching(options.rules ?? [], options.tokens),
+    ruleZones: compileRuleZones(options.zones, options.rules, options.tokens),
+});
+
+/**
+ * Runs breakpoint processing on structural segments that exceed `maxPages`, `maxContentLength` or `maxTokens`.
+ *
+ * @param compiled - Pre-compiled breakpoints (compiled on demand when omitted)
+ */
+export const applySegmentLimits = (
+    segments: Segment[],
+    preprocessedPages: Page[],
+    normalizedContent: string[],
+    options: SegmentationOptions,
+    debug: ReturnType<typeof resolveDebugConfig>,
+    compiled?: CompiledSegmentation,
+) => {
+    const { breakpoints = [], logger, maxContentLength, pageJoiner = 'space', prefer = 'longer', tokens } = options;
+    const processors = createBreakpointProcessors(tokens);
+    logger?.debug?.('[segmenter] applying breakpoints to oversized segments');
+    return applyBreakpoints(
+        segments,
+        preprocessedPages,
+        normalizedContent,
+        options.maxPages ?? Number.MAX_SAFE_INTEGER,
+        breakpoints,
+        prefer,
+        processors.pattern,
+        logger,
+        pageJoiner,
+        debug?.includeBreakpoint ? debug.metaKey : undefined,
+        maxContentLength,
+        processors.raw,
+        compiled?.breakpoints,
+        compiled?.protectedSpans ?? compileProtectedSpans(options.protect),
+        resolvePieceOverlap(options.overlap),
+        resolveTokenLimit(options),
+        options.minContentLength,
+        options.breakpointScoring,
+    );
 };
 
 /**
@@ -437,23 +715,43 @@ export const segmentPages = (pages: Page[], options: SegmentationOptions) => {
  * @param content - Full concatenated content string
  * @param pageMap - Page mapping utilities
  * @param rules - Original rules (for constraint checking on first segment)
+ * @param startOffset - Offset where segment creation begins (content before it was already emitted)
+ * @param includeSource - Attach `source` spans in normalized page coordinates
  * @returns Array of segment objects
  */
-const buildSegments = (
+export const buildSegments = (
     splitPoints: SplitPoint[],
     content: string,
     pageMap: PageMap,
     rules: SplitRule[],
     pageJoiner: 'space' | 'newline',
     hasDictionaryProfile: boolean,
+    startOffset = 0,
+    includeSource = false,
 ) => {
     const getActualStart = (start: number, contentStartOffset?: number) => start + (contentStartOffset ?? 0);
     const trimSegmentText = (sliced: string, capturedContent?: string, contentStartOffset?: number) =>
         capturedContent?.trim() ?? (contentStartOffset ? sliced.trim() : sliced.replace(/[\s\n]+$/, ''));
     const getAdjustedStart = (actualStart: number, sliced: string, contentStartOffset?: number) =>
         actualStart + (contentStartOffset ? sliced.length - sliced.trimStart().length : 0);
-    const applyMeta = (meta?: Record<string, unknown>, namedCaptures?: Record<string, string>) =>
+    const applyMeta = (meta?: Record<string, unknown>, namedCaptures?: Record<string, number | string>) =>
         meta || namedCaptures ? { ...meta, ...namedCaptures } : undefined;
+    const getSourceSpans = (textStart: number, textEnd: number, end: number, capturedContent?: string) => {
+        if (!capturedContent) {
+            return buildSourceSpans(textStart, textEnd, pageMap.boundaries);
+        }
+        // Captured content is whatever the capture group matched, so locate it inside the matched range
+        const trimmed = capturedContent.trim();
+        const found = content.slice(textStart, end).indexOf(trimmed);
+        return found === -1
+            ? buildSourceSpans(textStart, end, pageMap.boundaries)
+            : buildSourceSpans(textStart + found, textStart + found + trimmed.length, pageMap.boundaries);
+    };
+
+    const isHeadingSplit = (sp: SplitPoint) => {
+        const rule = sp.ruleIndex !== undefined ? rules[sp.ruleIndex] : undefined;
+        return sp.level !== undefined || Boolean(rule?.title || rule?.context);
+    };
 
     /**
      * Creates a single segment from a content range.
@@ -463,13 +761,16 @@ const buildSegments = (
         end: number,
         meta?: Record<string, unknown>,
         capturedContent?: string,
-        namedCaptures?: Record<string, string>,
+        namedCaptures?: Record<string, number | string>,
         contentStartOffset?: number,
+        level?: number,
+        isHeading = false,
     ) => {
         const actualStart = getActualStart(start, contentStartOffset);
         const sliced = content.slice(actualStart, end);
         let text = trimSegmentText(sliced, capturedContent, contentStartOffset);
-        if (!text) {
+        // A stripped heading with no body text still carries its title, level and context
+        if (!text && !isHeading) {
             return null;
         }
 
@@ -483,7 +784,9 @@ const buildSegments = (
         const adjustedStart = getAdjustedStart(actualStart, sliced, contentStartOffset);
 
         const from = pageMap.getId(adjustedStart);
-        const to = capturedContent ? pageMap.getId(end - 1) : pageMap.getId(adjustedStart + text.length - 1);
+        const to = capturedContent
+            ? pageMap.getId(end - 1)
+            : pageMap.getId(adjustedStart + Math.max(text.length - 1, 0));
         const seg: Segment = { content: text, from };
         if (to !== from) {
             seg.to = to;
@@ -492,6 +795,12 @@ const buildSegments = (
         if (mergedMeta) {
             seg.meta = mergedMeta;
         }
+        if (level !== undefined) {
+            seg.level = level;
+        }
+        if (includeSource) {
+            seg.source = getSourceSpans(adjustedStart, adjustedStart + text.length, end, capturedContent);
+        }
         return seg;
     };
 
@@ -510,8 +819,13 @@ const buildSegments = (
                 sp.capturedContent,
                 sp.namedCaptures,
                 sp.contentStartOffset,
+                sp.level,
+                isHeadingSplit(sp),
             );
             if (s) {
+                if (sp.bodyContext) {
+                    headingBodyContexts.set(s, sp.bodyContext);
+                }
                 result.push(s);
             }
         }
@@ -522,9 +836,9 @@ const buildSegments = (
 
     // Handle case with no split points
     if (!splitPoints.length) {
-        const firstId = pageMap.getId(0);
+        const firstId = pageMap.getId(startOffset);
         if (hasDictionaryProfile || anyRuleAllowsId(rules, firstId)) {
-            const s = createSegment(0, content.length);
+            const s = createSegment(startOffset, content.length);
             if (s) {
                 segments.push(s);
             }
@@ -533,10 +847,10 @@ const buildSegments = (
     }
 
     // Add first segment if there's content before first split
-    if (splitPoints[0].index > 0) {
-        const firstId = pageMap.getId(0);
+    if (splitPoints[0].index > startOffset) {
+        const firstId = pageMap.getId(startOffset);
         if (hasDictionaryProfile || anyRuleAllowsId(rules, firstId)) {
-            const s = createSegment(0, splitPoints[0].index);
+            const s = createSegment(startOffset, splitPoints[0].index);
             if (s) {
                 segments.push(s);
             }
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'bun:test';
+import type { Segment } from '@/types/index.js';
+import { buildPageMap } from './segmenter.js';
+import {
+    attachPieceSourceSpans,
+    buildSourceSpans,
+    mapSourceSpansToOriginal,
+    restoreOriginalContent,
+} from './source-spans.js';
+
+const pages = [
+    { content: 'أول سطر', id: 1 },
+    { content: 'ثاني سطر', id: 5 },
+    { content: 'ثالث', id: 6 },
+];
+
+describe('buildSourceSpans', () => {
+    const { pageMap } = buildPageMap(pages);
+
+    it('should split a range at page boundaries and skip the page separator', () => {
+        expect(buildSourceSpans(4, 12, pageMap.boundaries)).toEqual([
+            { end: 7, page: 1, start: 4 },
+            { end: 4, page: 5, start: 0 },
+        ]);
+    });
+
+    it('should keep a single-page range on its page', () => {
+        expect(buildSourceSpans(8, 16, pageMap.boundaries)).toEqual([{ end: 8, page: 5, start: 0 }]);
+    });
+
+    it('should return an empty span for an empty range', () => {
+        expect(buildSourceSpans(10, 10, pageMap.boundaries)).toEqual([{ end: 2, page: 5, start: 2 }]);
+    });
+});
+
+describe('attachPieceSourceSpans', () => {
+    it('should locate pieces in order even when page joins changed newlines to spaces', () => {
+        const { content, pageMap } = buildPageMap(pages);
+        const parent: Segment = {
+            content: 'أول سطر ثاني سطر ثالث',
+            from: 1,
+            source: buildSourceSpans(0, content.length, pageMap.boundaries),
+            to: 6,
+        };
+        const pieces: Segment[] = [
+            { content: 'أول سطر ثاني', from: 1, to: 5 },
+            { content: 'سطر ثالث', from: 5, to: 6 },
+        ];
+
+        attachPieceSourceSpans(
+            parent,
+            pieces,
+            content,
+            pageMap.boundaries,
+            new Map([
+                [1, 0],
+                [5, 1],
+                [6, 2],
+            ]),
+        );
+
+        expect(pieces[0].source).toEqual([
+            { end: 7, page: 1, start: 0 },
+            { end: 4, page: 5, start: 0 },
+        ]);
+        expect(pieces[1].source).toEqual([
+            { end: 8, page: 5, start: 5 },
+            { end: 4, page: 6, start: 0 },
+        ]);
+    });
+});
+
+describe('mapSourceSpansToOriginal', () => {
+    it('should map spans through preprocessing and line-ending normalization', () => {
+        const original = [{ content: 'قال​...\r\nهو', id: 1 }];
+        const segments: Segment[] = [{ content: 'قال…\nهو', from: 1, source: [{ end: 7, page: 1, start: 0 }] }];
+
+        mapSourceSpansToOriginal(segments, original, ['removeZeroWidth', 'condenseEllipsis']);
+
+        expect(segments[0].source).toEqual([{ end: 11, page: 1, start: 0 }]);
+    });
+});
+
+describe('restoreOriginalContent', () => {
+    it('should slice original page content and join pages', () => {
+        const original = [
+            { content: 'قال...\r\nهو', id: 1 },
+            { content: 'ابن\u200B حرب', id: 2 },
+        ];
+        const segments: Segment[] = [
+            {
+                content: 'هو ابن حرب',
+                from: 1,
+                source: [
+                    { end: 10, page: 1, start: 8 },
+                    { end: 8, page: 2, start: 0 },
+                ],
+                to: 2,
+            },
+            { content: 'بلا مصدر', from: 2 },
+        ];
+
+        expect(restoreOriginalContent(segments, original, 'newline', false)).toEqual([
+            { content: 'هو\nابن\u200B حرب', from: 1, to: 2 },
+            segments[1],
+        ]);
+        expect(restoreOriginalContent(segments, original, 'space', true)[0]).toEqual({
+            ...segments[0],
+            content: 'هو ابن\u200B حرب',
+        });
+    });
+});
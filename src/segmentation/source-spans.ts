@@ -0,0 +1,225 @@
+/**
+ * Source span bookkeeping for `sourceSpans: true` (and `preserveOriginalContent`).
+ *
+ * Segments first get spans in normalized page coordinates, i.e. offsets into the
+ * preprocessed, line-ending-normalized page text that rules match against.
+ * Breakpoint pieces are located inside the range of the segment they were cut
+ * from, and a final pass maps every span back to the original page content.
+ */
+
+import {
+    composeOffsetMaps,
+    mapRangeToSource,
+    type OffsetMap,
+    replaceWithOffsetMap,
+} from '@/preprocessing/offset-map.js';
+import { applyPreprocessToPageWithOffsetMap } from '@/preprocessing/transforms.js';
+import type { Page, PreprocessTransform, Segment, SegmentSourceSpan } from '@/types/index.js';
+import type { SegmentationOptions } from '@/types/options.js';
+import type { PageBoundary } from '@/types/segmenter.js';
+import { PIECE_OVERLAP_META_KEY, type PieceOverlapMeta } from './piece-overlap.js';
+import type { CustomTokens } from './tokens.js';
+
+const WHITESPACE_REGEX = /\s/;
+
+const findFirstBoundaryIndex = (boundaries: PageBoundary[], offset: number) => {
+    let lo = 0;
+    let hi = boundaries.length - 1;
+    while (lo < hi) {
+        const mid = (lo + hi) >>> 1;
+        if (boundaries[mid].end < offset) {
+            lo = mid + 1;
+        } else {
+            hi = mid;
+        }
+    }
+    return lo;
+};
+
+/**
+ * Splits a range of the concatenated content into per-page spans.
+ *
+ * The `\n` inserted between pages belongs to no page, so it never appears in a span.
+ * Empty spans are dropped unless the whole range is empty.
+ *
+ * @param start - Range start in the concatenated content
+ * @param end - Range end (exclusive) in the concatenated content
+ * @param boundaries - Page boundaries of the concatenated content
+ * @returns Spans in normalized page coordinates
+ */
+export const buildSourceSpans = (start: number, end: number, boundaries: PageBoundary[]): SegmentSourceSpan[] => {
+    const spans: SegmentSourceSpan[] = [];
+    const firstIdx = findFirstBoundaryIndex(boundaries, start);
+    for (let i = firstIdx; i < boundaries.length && boundaries[i].start < end; i++) {
+        const b = boundaries[i];
+        const spanStart = Math.max(start, b.start);
+        const spanEnd = Math.min(end, b.end);
+        if (spanEnd > spanStart) {
+            spans.push({ end: spanEnd - b.start, page: b.id, start: spanStart - b.start });
+        }
+    }
+
+    const b = boundaries[firstIdx];
+    if (spans.length === 0 && b) {
+        const pos = Math.min(Math.max(start, b.start), b.end) - b.start;
+        spans.push({ end: pos, page: b.id, start: pos });
+    }
+    return spans;
+};
+
+/** Compares ignoring whitespace differences (page joins turn `\n` into spaces and vice versa). */
+const matchesAt = (text: string, pos: number, piece: string) => {
+    if (pos + piece.length > text.length) {
+        return false;
+    }
+    for (let i = 0; i < piece.length; i++) {
+        const a = piece[i];
+        const b = text[pos + i];
+        if (a !== b && !(WHITESPACE_REGEX.test(a) && WHITESPACE_REGEX.test(b))) {
+            return false;
+        }
+    }
+    return true;
+};
+
+const findPiece = (text: string, piece: string, from: number, limit: number) => {
+    let pos = from;
+    while (pos < limit && WHITESPACE_REGEX.test(text[pos])) {
+        pos++;
+    }
+    if (matchesAt(text, pos, piece)) {
+        return pos;
+    }
+
+    const probeEnd = piece.search(/\s/u);
+    const probe = piece.slice(0, probeEnd === -1 ? 16 : Math.min(probeEnd, 16));
+    for (let i = text.indexOf(probe, from); i !== -1 && i < limit; i = text.indexOf(probe, i + 1)) {
+        if (matchesAt(text, i, piece)) {
+            return i;
+        }
+    }
+    return -1;
+};
+
+/**
+ * Attaches source spans to breakpoint pieces by locating each piece, in order,
+ * inside the range covered by the segment they were cut from.
+ *
+ * Pieces that cannot be located (which should not happen in practice) are left without spans.
+ *
+ * @param parent - The oversized segment (with normalized-coordinate `source`)
+ * @param pieces - Pieces produced from `parent`, in order
+ * @param content - Concatenated normalized content (pages joined with `\n`)
+ * @param boundaries - Page boundaries of `content`
+ * @param pageIdToIndex - Page ID → boundary index
+ */
+export const attachPieceSourceSpans = (
+    parent: Segment,
+    pieces: Segment[],
+    content: string,
+    boundaries: PageBoundary[],
+    pageIdToIndex: Map<number, number>,
+) => {
+    const first = parent.source?.[0];
+    const last = parent.source?.at(-1);
+    const firstIdx = first ? pageIdToIndex.get(first.page) : undefined;
+    const lastIdx = last ? pageIdToIndex.get(last.page) : undefined;
+    if (!first || !last || firstIdx === undefined || lastIdx === undefined) {
+        return;
+    }
+
+    const regionStart = boundaries[firstIdx].start;
+    const limit = boundaries[lastIdx].start + last.end;
+    let cursor = regionStart + first.start;
+
+    for (const piece of pieces) {
+        // An overlapped piece starts inside the previous one
+        const overlap = piece.meta?.[PIECE_OVERLAP_META_KEY] as PieceOverlapMeta | undefined;
+        let pos = findPiece(content, piece.content, cursor - (overlap?.end ?? 0), limit);
+        if (pos === -1) {
+            pos = findPiece(content, piece.content, regionStart, limit);
+        }
+        if (pos === -1) {
+            continue;
+        }
+        piece.source = buildSourceSpans(pos, pos + piece.content.length, boundaries);
+        cursor = pos + piece.content.length;
+    }
+};
+
+/**
+ * Offset map from a page's normalized content (preprocessed, `\r\n` → `\n`) to its original content.
+ */
+const buildPageOffsetMap = (page: Page, preprocess: PreprocessTransform[], tokens: CustomTokens | undefined) => {
+    const preprocessed = applyPreprocessToPageWithOffsetMap(page.content, page.id, preprocess, tokens);
+    const lineEndings = replaceWithOffsetMap(preprocessed.content, /\r\n?/g, () => '\n');
+    return composeOffsetMaps(preprocessed.offsetMap, lineEndings.offsetMap);
+};
+
+/**
+ * Rewrites normalized-coordinate spans (in place) so they index into the original page content.
+ *
+ * @param segments - Segments carrying normalized-coordinate `source` spans
+ * @param originalPages - Pages as passed by the caller, before preprocessing
+ * @param preprocess - The `preprocess` transforms that were applied
+ * @param tokens - Custom tokens used by `replace` patterns
+ * @returns The same segments
+ */
+export const mapSourceSpansToOriginal = (
+    segments: Segment[],
+    originalPages: Page[],
+    preprocess: PreprocessTransform[] = [],
+    tokens?: CustomTokens,
+) => {
+    const pagesById = new Map(originalPages.map((p) => [p.id, p]));
+    const offsetMaps = new Map<number, OffsetMap | null>();
+    const getOffsetMap = (pageId: number) => {
+        if (!offsetMaps.has(pageId)) {
+            const page = pagesById.get(pageId);
+            offsetMaps.set(pageId, page ? buildPageOffsetMap(page, preprocess, tokens) : null);
+        }
+        return offsetMaps.get(pageId) ?? null;
+    };
+
+    for (const segment of segments) {
+        for (const span of segment.source ?? []) {
+            [span.start, span.end] = mapRangeToSource(getOffsetMap(span.page), span.start, span.end);
+        }
+    }
+    return segments;
+};
+
+/**
+ * Replaces segment content with the original page text its source spans cover
+ * (`preserveOriginalContent`), joining pages with the page joiner.
+ *
+ * @param segments - Segments whose `source` spans index into the original pages
+ * @param originalPages - Pages as passed by the caller, before preprocessing
+ * @param pageJoiner - The `pageJoiner` option
+ * @param keepSource - Keep `segment.source` (`sourceSpans: true`)
+ * @returns New segments; those without spans are kept as they are
+ *
+ * @example
+ * restoreOriginalContent([{ content: 'a…b', from: 1, source: [{ page: 1, start: 0, end: 5 }] }], [{ id: 1, content: 'a...b' }], 'space', false)
+ * // → [{ content: 'a...b', from: 1 }]
+ */
+export const restoreOriginalContent = (
+    segments: Segment[],
+    originalPages: Page[],
+    pageJoiner: NonNullable<SegmentationOptions['pageJoiner']>,
+    keepSource: boolean,
+) => {
+    const contentById = new Map(originalPages.map((p) => [p.id, p.content]));
+    const joiner = pageJoiner === 'newline' ? '\n' : ' ';
+
+    return segments.map((segment): Segment => {
+        const { source, ...rest } = segment;
+        if (!source?.length) {
+            return segment;
+        }
+        const content = source
+            .map((span) => contentById.get(span.page)?.slice(span.start, span.end) ?? '')
+            .join(joiner);
+        return keepSource ? { ...segment, content } : { ...rest, content };
+    });
+};
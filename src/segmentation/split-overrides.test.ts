@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'bun:test';
+import { buildPageMap } from './segmenter.js';
+import { applySuppressOverrides, collectOverrideSplitPoints, findOverrideAnchor } from './split-overrides.js';
+
+const pages = [
+    { content: 'مقدمة\n١ - حدثنا زيد', id: 3 },
+    { content: 'قال حدثنا عمرو\nحدثنا بكر', id: 7 },
+];
+
+describe('findOverrideAnchor', () => {
+    it('should find the first occurrence by default', () => {
+        expect(findOverrideAnchor(pages[1].content, { action: 'split', page: 7, text: 'حدثنا' })).toBe(4);
+    });
+
+    it('should find the requested occurrence and trim the fingerprint', () => {
+        expect(findOverrideAnchor(pages[1].content, { action: 'split', occurrence: 2, page: 7, text: ' حدثنا ' })).toBe(
+            15,
+        );
+    });
+
+    it('should return -1 when the fingerprint does not anchor', () => {
+        expect(findOverrideAnchor(pages[1].content, { action: 'split', occurrence: 3, page: 7, text: 'حدثنا' })).toBe(
+            -1,
+        );
+        expect(findOverrideAnchor(pages[1].content, { action: 'split', page: 7, text: '   ' })).toBe(-1);
+        expect(findOverrideAnchor(pages[1].content, { action: 'split', occurrence: 0, page: 7, text: 'قال' })).toBe(-1);
+    });
+});
+
+describe('collectOverrideSplitPoints', () => {
+    const { content, normalizedPages, pageMap } = buildPageMap(pages);
+
+    it('should place split points at anchors in the concatenated content', () => {
+        const splitPoints = collectOverrideSplitPoints(
+            [
+                { action: 'split', meta: { type: 'hadith' }, occurrence: 2, page: 7, text: 'حدثنا' },
+                { action: 'suppress', page: 3, text: 'مقدمة' },
+                { action: 'split', page: 99, text: 'حدثنا' },
+            ],
+            pageMap,
+            normalizedPages,
+        );
+
+        expect(splitPoints).toEqual([{ index: 35, meta: { type: 'hadith' } }]);
+        expect(content.slice(35)).toBe('حدثنا بكر');
+    });
+
+    it('should record provenance when a debug meta key is given', () => {
+        const [splitPoint] = collectOverrideSplitPoints(
+            [{ action: 'split', page: 7, text: 'حدثنا عمرو' }],
+            pageMap,
+            normalizedPages,
+            '_flappa',
+        );
+        expect(splitPoint.meta).toEqual({
+            _flappa: { override: { action: 'split', index: 0, page: 7, text: 'حدثنا عمرو' } },
+        });
+    });
+});
+
+describe('applySuppressOverrides', () => {
+    const { content, normalizedPages, pageMap } = buildPageMap(pages);
+    const splitPoints = [{ index: 0 }, { contentStartOffset: 4, index: 6 }, { index: 18 }];
+
+    it('should suppress a split anchored by its marker or its first words', () => {
+        const byMarker = applySuppressOverrides(
+            splitPoints,
+            [{ action: 'suppress', page: 3, text: '١ -' }],
+            content,
+            pageMap,
+            normalizedPages,
+        );
+        const byText = applySuppressOverrides(
+            splitPoints,
+            [{ action: 'suppress', page: 3, text: 'حدثنا زيد' }],
+            content,
+            pageMap,
+            normalizedPages,
+        );
+
+        expect(byMarker.map((sp) => sp.index)).toEqual([0, 18]);
+        expect(byText.map((sp) => sp.index)).toEqual([0, 18]);
+    });
+
+    it('should keep split points that do not start at the anchor', () => {
+        const result = applySuppressOverrides(
+            splitPoints,
+            [
+                { action: 'suppress', page: 7, text: 'حدثنا عمرو' },
+                { action: 'split', page: 3, text: 'مقدمة' },
+            ],
+            content,
+            pageMap,
+            normalizedPages,
+        );
+        expect(result).toEqual(splitPoints);
+    });
+});
@@ -0,0 +1,130 @@
+/**
+ * Manual split overrides (`options.overrides`).
+ *
+ * Overrides are resolved against the normalized page content (the same text rules
+ * match against): forced splits become ordinary split points that are deduplicated
+ * together with rule output, and suppressions remove split points afterwards.
+ */
+
+import type { SplitOverride } from '@/types/options.js';
+import type { PageMap, SplitPoint } from '@/types/segmenter.js';
+import { buildOverrideDebugPatch, mergeDebugIntoMeta } from './debug-meta.js';
+
+const WHITESPACE_REGEX = /\s/;
+
+/**
+ * Finds the position of an override's text fingerprint in a page's content.
+ *
+ * @param content - Normalized page content (after `preprocess` and line-ending normalization)
+ * @param override - The override to anchor
+ * @returns Offset of the fingerprint within `content`, or `-1` when it no longer anchors
+ *
+ * @example
+ * findOverrideAnchor('قال: حدثنا زيد\nحدثنا عمرو', { action: 'split', page: 1, text: 'حدثنا', occurrence: 2 })
+ * // → 15
+ */
+export const findOverrideAnchor = (content: string, override: SplitOverride) => {
+    const text = override.text.trim();
+    const occurrence = override.occurrence ?? 1;
+    if (!text || occurrence < 1) {
+        return -1;
+    }
+
+    let pos = -1;
+    for (let n = 0; n < occurrence; n++) {
+        pos = content.indexOf(text, pos + 1);
+        if (pos === -1) {
+            return -1;
+        }
+    }
+    return pos;
+};
+
+/**
+ * Resolves overrides of the given action to offsets in the concatenated content.
+ * Overrides whose page is not in `pageMap` or whose fingerprint is missing are skipped.
+ */
+const resolveOverrideAnchors = (
+    overrides: SplitOverride[],
+    action: SplitOverride['action'],
+    pageMap: PageMap,
+    normalizedContent: string[],
+) => {
+    const pageIndexById = new Map(pageMap.boundaries.map((b, i) => [b.id, i]));
+    const anchors: { index: number; override: SplitOverride; overrideIndex: number }[] = [];
+
+    overrides.forEach((override, overrideIndex) => {
+        const pageIndex = pageIndexById.get(override.page);
+        if (override.action !== action || pageIndex === undefined) {
+            return;
+        }
+        const pos = findOverrideAnchor(normalizedContent[pageIndex], override);
+        if (pos !== -1) {
+            anchors.push({ index: pageMap.boundaries[pageIndex].start + pos, override, overrideIndex });
+        }
+    });
+    return anchors;
+};
+
+/**
+ * Builds split points for `'split'` overrides.
+ *
+ * @param overrides - All configured overrides
+ * @param pageMap - Page map of the concatenated content
+ * @param normalizedContent - Normalized content of each page, parallel to `pageMap.boundaries`
+ * @param debugMetaKey - When set, records the override in debug provenance
+ * @returns Split points at each anchored fingerprint
+ */
+export const collectOverrideSplitPoints = (
+    overrides: SplitOverride[],
+    pageMap: PageMap,
+    normalizedContent: string[],
+    debugMetaKey?: string,
+): SplitPoint[] =>
+    resolveOverrideAnchors(overrides, 'split', pageMap, normalizedContent).map(({ index, override, overrideIndex }) => {
+        const meta = debugMetaKey
+            ? mergeDebugIntoMeta(override.meta, debugMetaKey, buildOverrideDebugPatch(overrideIndex, override))
+            : override.meta;
+        return meta ? { index, meta } : { index };
+    });
+
+/** Offset where a split point's segment text starts (after any stripped marker and leading whitespace). */
+const getTextStart = (splitPoint: SplitPoint, content: string) => {
+    let pos = splitPoint.index + (splitPoint.contentStartOffset ?? 0);
+    while (pos < content.length && WHITESPACE_REGEX.test(content[pos])) {
+        pos++;
+    }
+    return pos;
+};
+
+/**
+ * Removes split points targeted by `'suppress'` overrides.
+ *
+ * A split point is suppressed when the fingerprint anchors anywhere between the
+ * split index and the start of the segment's text, so both the marker
+ * (`lineStartsAfter`) and the first words of the segment can be used as the fingerprint.
+ *
+ * @param splitPoints - Deduplicated split points
+ * @param overrides - All configured overrides
+ * @param content - Concatenated match content
+ * @param pageMap - Page map of `content`
+ * @param normalizedContent - Normalized content of each page, parallel to `pageMap.boundaries`
+ * @returns Split points that were not suppressed
+ */
+export const applySuppressOverrides = (
+    splitPoints: SplitPoint[],
+    overrides: SplitOverride[],
+    content: string,
+    pageMap: PageMap,
+    normalizedContent: string[],
+) => {
+    const anchors = resolveOverrideAnchors(overrides, 'suppress', pageMap, normalizedContent).map((a) => a.index);
+    if (anchors.length === 0) {
+        return splitPoints;
+    }
+
+    return splitPoints.filter((sp) => {
+        const textStart = getTextStart(sp, content);
+        return !anchors.some((a) => a >= sp.index && a <= textStart);
+    });
+};
@@ -7,6 +7,7 @@ import type { Logger } from '@/types/options.js';
 import type { SplitRule } from '@/types/rules.js';
 import type { PageMap, SplitPoint } from '../types/segmenter.js';
 import { isPageExcluded } from './breakpoint-utils.js';
+import { compileCaptureTransforms } from './capture-transforms.js';
 import { buildRuleDebugPatch, mergeDebugIntoMeta } from './debug-meta.js';
 import {
     extractDebugIndex,
@@ -16,6 +17,7 @@ import {
     type MatchResult,
 } from './match-utils.js';
 import { buildRuleRegex, type RuleRegex } from './rule-regex.js';
+import type { CustomTokens } from './tokens.js';
 
 // Maximum iterations before throwing to prevent infinite loops
 const MAX_REGEX_ITERATIONS = 100000;
@@ -196,11 +198,12 @@ const processCombinedMatch = (
  * prefix used to identify the matching branch inside a combined alternation.
  *
  * @param combinableRules - Rules eligible for combined-regex processing
+ * @param tokens - Optional custom token definitions
  * @returns Rule regex metadata aligned with the input order
  */
-export const buildRuleRegexes = (combinableRules: CombinableRule[]) =>
+export const buildRuleRegexes = (combinableRules: CombinableRule[], tokens?: CustomTokens) =>
     combinableRules.map(({ rule, prefix }) => {
-        const built = buildRuleRegex(rule, prefix);
+        const built = buildRuleRegex(rule, prefix, tokens);
         return { ...built, prefix, source: `(?<${prefix}>${built.regex.source})` };
     });
 
@@ -214,6 +217,8 @@ export const buildRuleRegexes = (combinableRules: CombinableRule[]) =>
  * @param pageMap - Page boundary mapping utilities for the content
  * @param passesPageStartGuard - Callback that decides whether a match is allowed
  * @param splitPointsByRule - Mutable map collecting split points by rule index
+ * @param tokens - Optional custom token definitions
+ * @param built - Pre-compiled regex for `rule` (compiled on demand when omitted)
  * @returns Nothing; results are written into `splitPointsByRule`
  */
 export const processStandaloneRule = (
@@ -223,8 +228,10 @@ export const processStandaloneRule = (
     pageMap: PageMap,
     passesPageStartGuard: (rule: SplitRule, index: number, pos: number) => boolean,
     splitPointsByRule: Map<number, SplitPoint[]>,
+    tokens?: CustomTokens,
+    built: RuleRegex = buildRuleRegex(rule, undefined, tokens),
 ) => {
-    const { regex, usesCapture, captureNames, usesLineStartsAfter } = buildRuleRegex(rule);
+    const { regex, usesCapture, captureNames, usesLineStartsAfter } = built;
     const allMatches = findMatchesInContent(matchContent, regex, usesCapture, captureNames);
     const constrained = filterByConstraints(allMatches, rule, pageMap.getId);
     const points = constrained
@@ -275,13 +282,14 @@ const findMatchesInContent = (content: string, regex: RegExp, usesCapture: boole
 // Occurrence filtering
 
 /**
- * Applies per-rule occurrence filtering and optional debug metadata patches to
- * the collected split points.
+ * Applies per-rule occurrence filtering, capture transforms and optional debug
+ * metadata patches to the collected split points.
  *
  * @param rules - Full rule list in original order
  * @param splitPointsByRule - Split points grouped by originating rule index
  * @param debugMetaKey - Optional metadata key used for debug provenance patches
  * @returns Flattened split points after occurrence filtering and debug merging
+ * @throws Error when a rule's `captureTransforms` names an unknown transform
  */
 export const applyOccurrenceFilter = (
     rules: SplitRule[],
@@ -298,13 +306,17 @@ export const applyOccurrenceFilter = (
 
         const filtered =
             rule.occurrence === 'first' ? [points[0]] : rule.occurrence === 'last' ? [points.at(-1)!] : points;
+        const transformCaptures = compileCaptureTransforms(rule.captureTransforms);
 
         result.push(
             ...filtered.map((p) => {
                 const debugPatch = debugMetaKey ? buildRuleDebugPatch(index, rule, p.wordIndex) : null;
                 return {
                     ...p,
+                    ...(rule.level !== undefined ? { level: rule.level } : {}),
                     meta: debugMetaKey ? mergeDebugIntoMeta(p.meta, debugMetaKey, debugPatch!) : p.meta,
+                    namedCaptures:
+                        transformCaptures && p.namedCaptures ? transformCaptures(p.namedCaptures) : p.namedCaptures,
                     ruleIndex: index,
                 };
             }),
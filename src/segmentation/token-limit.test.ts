@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'bun:test';
+import { countArabicWords } from '@/utils/textUtils.js';
+import { resolveTokenLimit, validateTokenLimit } from './token-limit';
+
+describe('token-limit', () => {
+    describe('resolveTokenLimit', () => {
+        it('should default countTokens to countArabicWords', () => {
+            expect(resolveTokenLimit({})).toBeUndefined();
+            expect(resolveTokenLimit({ maxTokens: 100 })).toEqual({ countTokens: countArabicWords, maxTokens: 100 });
+        });
+
+        it('should keep a custom countTokens', () => {
+            const countTokens = (text: string) => text.length;
+            expect(resolveTokenLimit({ countTokens, maxTokens: 10 })?.countTokens).toBe(countTokens);
+        });
+
+        it('should throw the first issue', () => {
+            expect(() => resolveTokenLimit({ maxTokens: 2.5 })).toThrow('maxTokens: Must be a positive integer.');
+        });
+    });
+
+    describe('validateTokenLimit', () => {
+        it('should report a non-function countTokens', () => {
+            expect(validateTokenLimit({ countTokens: 42 as any })).toEqual([
+                { message: 'Must be a function.', path: 'countTokens' },
+            ]);
+        });
+    });
+});
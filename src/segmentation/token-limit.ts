@@ -0,0 +1,44 @@
+/**
+ * Token budgets (`SegmentationOptions.maxTokens` and `countTokens`).
+ *
+ * `maxContentLength` counts UTF-16 characters, which says little about what a diacritized
+ * Arabic passage costs an LLM. A token budget is turned into a character window per piece
+ * (see `findTokenWindowLength()`), so breakpoint processing stays character-based.
+ */
+
+import type { SegmentationOptions } from '@/types/options.js';
+import { countArabicWords } from '@/utils/textUtils.js';
+
+/** The `maxTokens` option with its (possibly default) `countTokens`. */
+export type TokenLimit = { countTokens: (text: string) => number; maxTokens: number };
+
+export type TokenLimitIssue = { message: string; path: string };
+
+/**
+ * Checks `maxTokens` (a positive integer) and `countTokens` (a function).
+ *
+ * @returns Problems found, with paths `maxTokens` or `countTokens`
+ */
+export const validateTokenLimit = ({ countTokens, maxTokens }: SegmentationOptions): TokenLimitIssue[] => [
+    ...(maxTokens === undefined || (Number.isInteger(maxTokens) && maxTokens > 0)
+        ? []
+        : [{ message: 'Must be a positive integer.', path: 'maxTokens' }]),
+    ...(countTokens === undefined || typeof countTokens === 'function'
+        ? []
+        : [{ message: 'Must be a function.', path: 'countTokens' }]),
+];
+
+/**
+ * Resolves the token budget, defaulting `countTokens` to `countArabicWords`.
+ *
+ * @returns `undefined` when `maxTokens` is not set
+ * @throws Error when an option is invalid
+ */
+export const resolveTokenLimit = (options: SegmentationOptions): TokenLimit | undefined => {
+    const [issue] = validateTokenLimit(options);
+    if (issue) {
+        throw new Error(`${issue.path}: ${issue.message}`);
+    }
+    const { countTokens = countArabicWords, maxTokens } = options;
+    return maxTokens === undefined ? undefined : { countTokens, maxTokens };
+};
@@ -11,6 +11,7 @@ import {
     expandTokensWithCaptures,
     getAvailableTokens,
     getTokenPattern,
+    resolveTokenPatterns,
     shouldDefaultToFuzzy,
     stripTokenMappings,
     TOKEN_PATTERNS,
@@ -203,6 +204,13 @@ describe('tokens', () => {
             expect(getTokenPattern('nums')).toBe('\\d+');
         });
 
+        it('should match digits of every script with anyNum and anyNums', () => {
+            const anyNums = templateToRegex('^{{anyNums}}$');
+            expect(['123', '١٢٣', '۱۲۳', '1٢۳'].every((n) => anyNums?.test(n))).toBeTrue();
+            expect(anyNums?.test('١٢a')).toBeFalse();
+            expect(templateToRegex('^{{anyNum}}$')?.test('۴')).toBeTrue();
+        });
+
         it('should return a pattern for rumuz', () => {
             const pat = getTokenPattern('rumuz');
             expect(pat).toBeDefined();
@@ -391,6 +399,51 @@ describe('tokens', () => {
         });
     });
 
+    describe('custom tokens', () => {
+        const tokens = { juz: 'الجزء|جزء', juzHeading: '{{juz}} {{raqms}}', num: '[0-9]+' };
+
+        it('should resolve composite custom tokens against built-in and custom tokens', () => {
+            const patterns = resolveTokenPatterns(tokens);
+            expect(patterns.juzHeading).toBe(`(?:الجزء|جزء) (?:${TOKEN_PATTERNS.raqms})`);
+            expect(patterns.bab).toBe(TOKEN_PATTERNS.bab);
+        });
+
+        it('should return the built-in table when no custom tokens are given', () => {
+            expect(resolveTokenPatterns()).toBe(TOKEN_PATTERNS);
+            expect(resolveTokenPatterns({})).toBe(TOKEN_PATTERNS);
+        });
+
+        it('should let a custom token extend the built-in token it overrides', () => {
+            const patterns = resolveTokenPatterns({ bab: '{{bab}}|أبواب' });
+            expect(patterns.bab).toBe(`(?:${TOKEN_PATTERNS.bab})|أبواب`);
+        });
+
+        it('should reject cycles and invalid definitions', () => {
+            expect(() => resolveTokenPatterns({ a: '{{b}}', b: '{{a}}' })).toThrow('Custom token cycle');
+            expect(() => resolveTokenPatterns({ 'bad-name': 'x' })).toThrow('bad-name');
+            expect(() => resolveTokenPatterns({ empty: '' })).toThrow('empty');
+            expect(() => resolveTokenPatterns({ cap: '{{raqms:n}}' })).toThrow('cannot declare captures');
+        });
+
+        it('should expand custom tokens with captures', () => {
+            const result = expandTokensWithCaptures('^{{juzHeading:juz}}$', undefined, undefined, tokens);
+            expect(result.captureNames).toEqual(['juz']);
+            expect(new RegExp(result.pattern, 'u').exec('الجزء ٣')?.groups?.juz).toBe('الجزء ٣');
+            expect(new RegExp(result.pattern, 'u').test('الجزء')).toBeFalse();
+        });
+
+        it('should leave unknown tokens untouched', () => {
+            expect(expandTokens('{{missing}}', tokens)).toBe('{{missing}}');
+        });
+
+        it('should default to fuzzy for custom tokens that expand to Arabic phrases', () => {
+            expect(shouldDefaultToFuzzy('{{juz}}', tokens)).toBeTrue();
+            expect(shouldDefaultToFuzzy('{{juzHeading}}', tokens)).toBeFalse();
+            expect(shouldDefaultToFuzzy('{{num}}', tokens)).toBeFalse();
+            expect(shouldDefaultToFuzzy('{{juz}}')).toBeFalse();
+        });
+    });
+
     describe('applyTokenMappings', () => {
         it('should transform {{token}} to {{token:name}}', () => {
             const t = '{{raqms}} {{dash}}';
@@ -80,6 +80,12 @@ const RUMUZ_ATOM = `(?:${RUMUZ_ATOMS.join('|')})`;
 const RUMUZ_BLOCK = `${RUMUZ_ATOM}(?:\\s+${RUMUZ_ATOM})*`;
 
 const BASE_TOKENS = {
+    /** Single digit in any script: ASCII (0-9), Arabic-Indic (٠-٩) or Persian/Urdu (۰-۹). */
+    anyNum: '[0-9\\u0660-\\u0669\\u06F0-\\u06F9]',
+
+    /** One or more digits in any script (ASCII, Arabic-Indic, Persian/Urdu), which may be mixed. */
+    anyNums: '[0-9\\u0660-\\u0669\\u06F0-\\u06F9]+',
+
     /** Chapter marker (باب). */
     bab: 'باب',
 
@@ -134,6 +140,10 @@ const BASE_TOKENS = {
 
 /** Pre-defined token constants for use in patterns. */
 export const Token = {
+    /** Single digit in any script (ASCII, Arabic-Indic, Persian) */
+    ANY_NUM: '{{anyNum}}',
+    /** One or more digits in any script */
+    ANY_NUMS: '{{anyNums}}',
     /** Chapter marker - باب */
     BAB: '{{bab}}',
     /** Basmala - بسم الله */
@@ -265,6 +275,96 @@ export const TOKEN_PATTERNS = {
     ...EXPANDED_COMPOSITE_TOKENS,
 } as const satisfies Record<TokenPatternName, string>;
 
+/**
+ * User-defined token definitions, as passed via `SegmentationOptions.tokens`.
+ *
+ * Keys are token names (word characters only). Values are regex sources that
+ * may reference built-in or other custom tokens with `{{name}}` (each reference is
+ * wrapped in a non-capturing group). A definition that references its own name
+ * extends the built-in token of that name. Captures belong at the use site
+ * (`{{juzHeading:heading}}`), not inside definitions.
+ *
+ * @example
+ * const tokens: CustomTokens = {
+ *     juz: 'الجزء|جزء',
+ *     juzHeading: '{{juz}} {{raqms}}',
+ *     bab: '{{bab}}|أبواب',
+ * };
+ */
+export type CustomTokens = Record<string, string>;
+
+const resolvedTokenPatternsCache = new WeakMap<CustomTokens, Record<string, string>>();
+
+const CUSTOM_TOKEN_NAME_REGEX = /^\w+$/;
+
+const resolveCustomTokenPattern = (
+    name: string,
+    tokens: CustomTokens,
+    resolved: Map<string, string>,
+    stack: string[],
+): string => {
+    const cached = resolved.get(name);
+    if (cached !== undefined) {
+        return cached;
+    }
+    if (stack.includes(name)) {
+        throw new Error(`Custom token cycle: ${[...stack, name].map((n) => `{{${n}}}`).join(' → ')}`);
+    }
+
+    if (/\{\{\w*:\w+\}\}/.test(tokens[name])) {
+        throw new Error(`Custom token "{{${name}}}" cannot declare captures; use {{${name}:name}} where it is used.`);
+    }
+
+    // References are grouped so alternations inside them stay local to the reference
+    const pattern = tokens[name].replace(/\{\{(\w+)\}\}/g, (m, ref: string) => {
+        if (ref !== name && Object.hasOwn(tokens, ref)) {
+            return `(?:${resolveCustomTokenPattern(ref, tokens, resolved, [...stack, name])})`;
+        }
+        return ref in TOKEN_PATTERNS ? `(?:${TOKEN_PATTERNS[ref as TokenPatternName]})` : m;
+    });
+    resolved.set(name, pattern);
+    return pattern;
+};
+
+/**
+ * Resolves the token table used for expansion: built-in `TOKEN_PATTERNS` plus
+ * the fully expanded custom tokens (custom definitions override built-ins).
+ *
+ * Results are cached per `tokens` object.
+ *
+ * @param tokens - Optional custom token definitions
+ * @returns Token name → regex source
+ * @throws Error when a token name is invalid, a definition is empty, declares captures, or definitions form a cycle
+ *
+ * @example
+ * resolveTokenPatterns({ juz: 'الجزء|جزء', juzNum: '{{juz}} {{raqms}}' }).juzNum
+ * // → '(?:الجزء|جزء) (?:[\\u0660-\\u0669]+)'
+ */
+export const resolveTokenPatterns = (tokens?: CustomTokens): Readonly<Record<string, string>> => {
+    if (!tokens || Object.keys(tokens).length === 0) {
+        return TOKEN_PATTERNS;
+    }
+    const cached = resolvedTokenPatternsCache.get(tokens);
+    if (cached) {
+        return cached;
+    }
+
+    const resolved = new Map<string, string>();
+    for (const [name, definition] of Object.entries(tokens)) {
+        if (!CUSTOM_TOKEN_NAME_REGEX.test(name)) {
+            throw new Error(`Invalid custom token name "${name}": use letters, digits or underscores only.`);
+        }
+        if (typeof definition !== 'string' || !definition) {
+            throw new Error(`Custom token "{{${name}}}" must be a non-empty pattern string.`);
+        }
+        resolveCustomTokenPattern(name, tokens, resolved, []);
+    }
+
+    const patterns = { ...TOKEN_PATTERNS, ...Object.fromEntries(resolved) };
+    resolvedTokenPatternsCache.set(tokens, patterns);
+    return patterns;
+};
+
 /**
  * Regex pattern for matching tokens with optional named capture syntax.
  *
@@ -357,8 +457,16 @@ const splitTemplateIntoSegments = (query: string) => {
     return segments;
 };
 
-const maybeApplyFuzzyToText = (text: string, fuzzyTransform?: (pattern: string) => string) =>
-    fuzzyTransform && /[\u0600-\u06FF]/u.test(text) ? fuzzyTransform(text) : text;
+// Whitespace around the text is kept as-is: the fuzzy transform trims, which would glue
+// `{{bab}} ذكر` into `بابذكر`.
+const maybeApplyFuzzyToText = (text: string, fuzzyTransform?: (pattern: string) => string) => {
+    if (!fuzzyTransform || !/[\u0600-\u06FF]/u.test(text)) {
+        return text;
+    }
+    const core = text.trim();
+    const leading = text.slice(0, text.indexOf(core));
+    return `${leading}${fuzzyTransform(core)}${text.slice(leading.length + core.length)}`;
+};
 
 // NOTE: This intentionally preserves the previous behavior:
 // it applies fuzzy per `|`-separated alternative (best-effort) to avoid corrupting regex metacharacters.
@@ -398,6 +506,7 @@ const expandTokenLiteral = (
         fuzzyTransform?: (pattern: string) => string;
         registerCapture: (baseName: string) => string;
         capturePrefix?: string;
+        tokenPatterns: Readonly<Record<string, string>>;
     },
 ) => {
     const parsed = parseTokenLiteral(literal);
@@ -410,11 +519,11 @@ const expandTokenLiteral = (
         return `(?<${opts.registerCapture(captureName)}>.+)`;
     }
 
-    if (!(tokenName in TOKEN_PATTERNS)) {
+    if (!Object.hasOwn(opts.tokenPatterns, tokenName)) {
         return literal;
     }
 
-    let tokenPattern = TOKEN_PATTERNS[tokenName as TokenPatternName];
+    let tokenPattern = opts.tokenPatterns[tokenName];
 
     tokenPattern = maybeApplyFuzzyToTokenPattern(tokenPattern, opts.fuzzyTransform);
     if (captureName) {
@@ -438,6 +547,8 @@ const expandTokenLiteral = (
  * @param fuzzyTransform - Optional function to transform Arabic text for fuzzy matching.
  *                         Applied to both token patterns and plain Arabic text between tokens.
  *                         Typically `makeDiacriticInsensitive` from the fuzzy module.
+ * @param capturePrefix - Optional prefix for generated capture names (internal use)
+ * @param tokens - Optional custom token definitions, resolved via `resolveTokenPatterns()`
  * @returns Object with expanded pattern, capture names, and capture flag
  *
  * @example
@@ -464,9 +575,11 @@ export const expandTokensWithCaptures = (
     query: string,
     fuzzyTransform?: (pattern: string) => string,
     capturePrefix?: string,
+    tokens?: CustomTokens,
 ) => {
     const segments = splitTemplateIntoSegments(query);
     const registry = createCaptureRegistry(capturePrefix);
+    const tokenPatterns = resolveTokenPatterns(tokens);
 
     const pattern = segments
         .map((segment) =>
@@ -476,6 +589,7 @@ export const expandTokensWithCaptures = (
                       capturePrefix,
                       fuzzyTransform,
                       registerCapture: registry.register,
+                      tokenPatterns,
                   }),
         )
         .join('');
@@ -496,6 +610,7 @@ export const expandTokensWithCaptures = (
  * Unknown tokens are left as-is, allowing for partial templates.
  *
  * @param query - Template string containing `{{token}}` placeholders
+ * @param tokens - Optional custom token definitions
  * @returns Expanded regex pattern string
  *
  * @example
@@ -506,7 +621,8 @@ export const expandTokensWithCaptures = (
  *
  * @see expandTokensWithCaptures for full capture group support
  */
-export const expandTokens = (query: string) => expandTokensWithCaptures(query).pattern;
+export const expandTokens = (query: string, tokens?: CustomTokens) =>
+    expandTokensWithCaptures(query, undefined, undefined, tokens).pattern;
 
 /**
  * Converts a template string to a compiled RegExp.
@@ -580,15 +696,41 @@ const FUZZY_DEFAULT_TOKENS: (keyof typeof BASE_TOKENS)[] = ['bab', 'basmalah', '
  * Regex to detect fuzzy-default tokens in a pattern string.
  * Matches {{token}} or {{token:name}} syntax.
  */
-const FUZZY_TOKEN_REGEX = new RegExp(`\\{\\{(?:${FUZZY_DEFAULT_TOKENS.join('|')})(?::\\w+)?\\}\\}`, 'g');
+const buildFuzzyTokenRegex = (tokenNames: string[]) =>
+    new RegExp(`\\{\\{(?:${tokenNames.join('|')})(?::\\w+)?\\}\\}`, 'g');
+
+const FUZZY_TOKEN_REGEX = buildFuzzyTokenRegex(FUZZY_DEFAULT_TOKENS);
+
+const customFuzzyTokenRegexCache = new WeakMap<CustomTokens, RegExp>();
+
+/** Custom tokens that resolve to plain Arabic phrase alternations behave like `{{bab}}`/`{{naql}}`. */
+const isArabicPhrasePattern = (pattern: string) =>
+    /[\u0600-\u06FF]/u.test(pattern) && !/[\\[\]{}()^$.*+?]/.test(pattern);
+
+const getFuzzyTokenRegex = (tokens?: CustomTokens) => {
+    if (!tokens || Object.keys(tokens).length === 0) {
+        return FUZZY_TOKEN_REGEX;
+    }
+    const cached = customFuzzyTokenRegexCache.get(tokens);
+    if (cached) {
+        return cached;
+    }
+    const tokenPatterns = resolveTokenPatterns(tokens);
+    const customFuzzy = Object.keys(tokens).filter((name) => isArabicPhrasePattern(tokenPatterns[name]));
+    const regex = buildFuzzyTokenRegex([...new Set([...FUZZY_DEFAULT_TOKENS, ...customFuzzy])]);
+    customFuzzyTokenRegexCache.set(tokens, regex);
+    return regex;
+};
 
 /**
  * Checks if a pattern (or array of patterns) contains tokens that should
  * default to fuzzy matching.
  *
- * Fuzzy-default tokens are: bab, basmalah, fasl, kitab, naql
+ * Fuzzy-default tokens are: bab, basmalah, fasl, kitab, naql, plus any custom
+ * token whose resolved pattern is a plain Arabic phrase alternation.
  *
  * @param patterns - Single pattern string or array of pattern strings
+ * @param tokens - Optional custom token definitions
  * @returns `true` if any pattern contains a fuzzy-default token
  *
  * @example
@@ -596,11 +738,12 @@ const FUZZY_TOKEN_REGEX = new RegExp(`\\{\\{(?:${FUZZY_DEFAULT_TOKENS.join('|')}
  * shouldDefaultToFuzzy('{{raqms}} {{dash}}')  // false
  * shouldDefaultToFuzzy(['{{kitab}}', '{{raqms}}']) // true
  */
-export const shouldDefaultToFuzzy = (patterns: string | string[]) => {
+export const shouldDefaultToFuzzy = (patterns: string | string[], tokens?: CustomTokens) => {
     const arr = Array.isArray(patterns) ? patterns : [patterns];
+    const fuzzyTokenRegex = getFuzzyTokenRegex(tokens);
     return arr.some((p) => {
-        FUZZY_TOKEN_REGEX.lastIndex = 0;
-        return FUZZY_TOKEN_REGEX.test(p);
+        fuzzyTokenRegex.lastIndex = 0;
+        return fuzzyTokenRegex.test(p);
     });
 };
 
@@ -110,6 +110,20 @@ export type BreakpointRule = PageRangeConstraintWithExclude & {
      * { pattern: '\\.', skipWhen: '{{kitab}}' }
      */
     skipWhen?: string;
+    /**
+     * How much this breakpoint is worth when `breakpointScoring: 'weighted'`. Its best match
+     * scores `weight × closeness`, where closeness is 1 at the target window end and falls to 0
+     * at the cursor. Ignored in the default `'order'` mode.
+     *
+     * Must be a positive number.
+     *
+     * @default 1
+     *
+     * @example
+     * // A newline right at the window end beats a period halfway back
+     * breakpoints: [{ pattern: '{{tarqim}}', weight: 1 }, { pattern: '\\n', weight: 0.6 }, { pattern: '', weight: 0.1 }]
+     */
+    weight?: number;
 };
 
 /**
@@ -2,6 +2,8 @@
  * Dictionary v2 profile types for Shamela-style Arabic dictionary segmentation.
  */
 
+import type { HeadingTitle } from './rules.js';
+
 export type DictionaryHeadingClass = 'chapter' | 'entry' | 'marker' | 'cluster';
 export type DictionaryHeadingScanClass = DictionaryHeadingClass | 'noise';
 
@@ -67,6 +69,8 @@ export type HeadingFamily = {
     emit: DictionarySegmentKind;
     allowNextLineColon?: boolean;
     allowSingleLetter?: boolean;
+    /** Capture the heading text (after `## `) into `meta.title`; see `SplitRule.title` */
+    title?: boolean | HeadingTitle;
 };
 
 export type LineEntryFamily = {
@@ -42,6 +42,62 @@ export type Segment = {
      * Named captures override static metadata with the same key.
      */
     meta?: Record<string, unknown>;
+
+    /**
+     * Hierarchy level copied from the `level` of the rule that started this segment
+     * (1 = outermost, e.g. kitab). Only the first breakpoint piece keeps it.
+     *
+     * Use `buildSegmentTree()` to turn leveled segments into a tree.
+     */
+    level?: number;
+
+    /**
+     * Where the segment content came from, one span per page it touches (in page order).
+     *
+     * Offsets index into each page's original `content`, before `preprocess` transforms and
+     * line-ending normalization. Only present when `sourceSpans: true` is set.
+     */
+    source?: SegmentSourceSpan[];
+
+    /**
+     * Footnotes from the pages this segment covers, in page order.
+     *
+     * Only present when `footnotes` is enabled (attach mode). A footnote belongs to the
+     * segment whose content references its marker (e.g. `(١)`); unreferenced footnotes
+     * go to the last segment covering their page.
+     */
+    footnotes?: SegmentFootnote[];
+};
+
+/**
+ * A footnote entry found below a page's footnote separator.
+ *
+ * @example
+ * { content: 'أخرجه البخاري', marker: '١', page: 12 }
+ */
+export type SegmentFootnote = {
+    /** Footnote text, without its marker */
+    content: string;
+    /** Marker number as written (e.g. `'١'` for `(١)`); absent for unnumbered text */
+    marker?: string;
+    /** Page ID the footnote appears on */
+    page: number;
+};
+
+/**
+ * A range of a page's original content covered by a segment.
+ *
+ * @example
+ * const span = segment.source![0];
+ * pages.find((p) => p.id === span.page)!.content.slice(span.start, span.end);
+ */
+export type SegmentSourceSpan = {
+    /** Page ID (from `Page.id`) */
+    page: number;
+    /** Start offset in the page's original content (inclusive) */
+    start: number;
+    /** End offset in the page's original content (exclusive) */
+    end: number;
 };
 
 /**
@@ -145,12 +201,20 @@ export type PageRangeConstraintWithExclude = PageRangeConstraint & {
 // Re-export preprocess types for convenience
 export type {
     CondenseEllipsisRule,
+    DigitScript,
     FixTrailingWawRule,
+    NormalizeArabicLettersRule,
+    NormalizeDigitsRule,
     PreprocessTransform,
     RemoveZeroWidthRule,
+    ReplaceRule,
+    StripRunningHeadersRule,
 } from './options.js';
 
 export type {
+    BoundaryDiscrepancy,
+    SegmentationEvaluationReport,
+    SegmentCoverageSpan,
     SegmentValidationIssue,
     SegmentValidationIssueSeverity,
     SegmentValidationIssueType,
@@ -86,6 +86,138 @@ export type FixTrailingWawRule = PageRangeConstraint & {
     type: 'fixTrailingWaw';
 };
 
+/**
+ * Convert every digit to one script.
+ *
+ * Corpora often mix Arabic-Indic (٠-٩), Persian/Urdu (۰-۹) and ASCII (0-9) digits, sometimes
+ * on the same page. Normalizing them lets `{{raqms}}` (or `{{nums}}`) match every number.
+ * Each digit maps to exactly one digit, so offsets are unchanged.
+ *
+ * @example
+ * // "۱۲ - حدثنا" → "١٢ - حدثنا"
+ * preprocess: ['normalizeDigits']
+ *
+ * @example
+ * // Convert to ASCII instead
+ * preprocess: [{ type: 'normalizeDigits', target: 'ascii' }]
+ */
+export type NormalizeDigitsRule = PageRangeConstraint & {
+    type: 'normalizeDigits';
+    /**
+     * Script to convert digits to:
+     * - `'arabic'`: Arabic-Indic ٠-٩, what `{{raqms}}` and `{{numbered}}` match (default)
+     * - `'persian'`: Persian/Urdu ۰-۹
+     * - `'ascii'`: 0-9, what `{{nums}}` matches
+     *
+     * @default 'arabic'
+     */
+    target?: DigitScript;
+};
+
+/** Digit scripts supported by `normalizeDigits`. */
+export type DigitScript = 'arabic' | 'ascii' | 'persian';
+
+/**
+ * Fold Arabic Presentation Forms and Persian/Urdu letter variants to standard Arabic letters.
+ *
+ * OCR'd and older PDFs often contain presentation forms (U+FB50–U+FDFF, U+FE70–U+FEFC, e.g.
+ * `ﺣﺪﺛﻨﺎ`) or letters such as `ی`, `ک` and `ہ` instead of `ي`, `ك` and `ه`. Either breaks
+ * every token and fuzzy match. Presentation forms are folded with Unicode compatibility
+ * normalization (so ligatures like `ﻻ` become two letters), then variants are replaced.
+ * Honorifics and word ligatures such as `ﷺ`, `ﷻ` and `ﷲ`, and the ornate parentheses `﴾﴿`,
+ * are left as they are.
+ *
+ * @example
+ * // "ﺣﺪﺛﻨﺎ یحیی" → "حدثنا يحيي"
+ * preprocess: ['normalizeArabicLetters']
+ *
+ * @example
+ * // Only fold Farsi yeh, on pages 1-40
+ * preprocess: [{ type: 'normalizeArabicLetters', variants: { 'ی': 'ي' }, min: 1, max: 40 }]
+ */
+export type NormalizeArabicLettersRule = PageRangeConstraint & {
+    type: 'normalizeArabicLetters';
+    /**
+     * Letter variants to replace, mapping each variant to its standard letter.
+     * Replaces the defaults when given; spread `DEFAULT_ARABIC_LETTER_VARIANTS` to extend them.
+     *
+     * @default DEFAULT_ARABIC_LETTER_VARIANTS (ی ے → ي, ک → ك, ہ ھ → ه, ۃ → ة)
+     */
+    variants?: Record<string, string>;
+};
+
+/**
+ * Replace every match of a regex pattern, for book-specific OCR quirks.
+ *
+ * The pattern supports template tokens (`{{raqms}}`, `{{dash}}`, `{{raqms:num}}` for a
+ * named group, custom `tokens`, ...) and always runs with the `g` and `u` flags. The replacement uses
+ * `String.prototype.replace` syntax (`$1`, `$<num>`, `$&`, `$$`). Plain JSON, so it can
+ * be stored next to the rest of a book's options.
+ *
+ * @example
+ * // "١ ـ حدثنا" → "١ - حدثنا" (a tatweel standing in for the dash)
+ * preprocess: [{ type: 'replace', pattern: '^({{raqms}}) ـ ', replacement: '$1 - ', flags: 'm' }]
+ *
+ * @example
+ * // Collapse runs of spaces, only on pages 10-200
+ * preprocess: [{ type: 'replace', pattern: ' {2,}', replacement: ' ', min: 10, max: 200 }]
+ */
+export type ReplaceRule = PageRangeConstraint & {
+    type: 'replace';
+    /** Regex pattern; template tokens are expanded */
+    pattern: string;
+    /** Replacement string (`$1`, `$<name>`, `$&` and `$$` are supported) */
+    replacement: string;
+    /**
+     * Extra regex flags such as `'i'`, `'m'` or `'s'`. `g` and `u` are always added.
+     */
+    flags?: string;
+};
+
+/**
+ * Remove running headers and footers: lines repeated at the top or bottom of pages, such
+ * as a book title, a chapter name or a page number. Left in place they end up in the middle
+ * of segments and can trigger line-start rules.
+ *
+ * Only a page's first and last non-empty lines are removed, and only when they match a
+ * header pattern in full. Patterns are template patterns, as returned by `analyzeRunningHeaders()`.
+ * Without `headers`, they are detected from the pages in range as the earlier `preprocess`
+ * transforms leave them (`segmentPagesStream` cannot do this, since it never sees the whole book).
+ *
+ * @example
+ * // Detect and remove lines repeated on at least half the pages
+ * preprocess: [{ type: 'stripRunningHeaders', minFrequency: 0.5 }]
+ *
+ * @example
+ * // Explicit patterns, only on pages 10-300
+ * preprocess: [{ type: 'stripRunningHeaders', headers: ['كتاب\\s+الطهارة', '-\\s+{{raqms}}\\s+-'], min: 10, max: 300 }]
+ */
+export type StripRunningHeadersRule = PageRangeConstraint & {
+    type: 'stripRunningHeaders';
+    /** Template patterns for whole header lines. Detected from the pages when omitted. */
+    headers?: string[];
+    /**
+     * Page edge to strip: `'top'` (headers), `'bottom'` (footers) or `'both'`.
+     *
+     * @default 'both'
+     */
+    position?: 'top' | 'bottom' | 'both';
+    /**
+     * Minimum share of pages in range (0-1) a line must repeat on to be detected.
+     * Ignored when `headers` is given.
+     *
+     * @default 0.3
+     */
+    minFrequency?: number;
+    /**
+     * Minimum number of pages a line must repeat on to be detected.
+     * Ignored when `headers` is given.
+     *
+     * @default 3
+     */
+    minCount?: number;
+};
+
 /**
  * A preprocess transform - string shorthand or object with constraints.
  *
@@ -94,7 +226,7 @@ export type FixTrailingWawRule = PageRangeConstraint & {
  *
  * @example
  * // String shorthands (all pages, default settings)
- * preprocess: ['removeZeroWidth', 'condenseEllipsis', 'fixTrailingWaw']
+ * preprocess: ['removeZeroWidth', 'condenseEllipsis', 'fixTrailingWaw', 'normalizeDigits']
  *
  * @example
  * // Object forms (with constraints)
@@ -102,15 +234,23 @@ export type FixTrailingWawRule = PageRangeConstraint & {
  *     'removeZeroWidth',                              // All pages
  *     { type: 'condenseEllipsis', min: 100 },        // Pages 100+
  *     { type: 'fixTrailingWaw', min: 50, max: 500 }, // Pages 50-500
+ *     { type: 'replace', pattern: ' {2,}', replacement: ' ' },
  * ]
  */
 export type PreprocessTransform =
     | 'removeZeroWidth'
     | 'condenseEllipsis'
     | 'fixTrailingWaw'
+    | 'normalizeDigits'
+    | 'normalizeArabicLetters'
+    | 'stripRunningHeaders'
     | RemoveZeroWidthRule
     | CondenseEllipsisRule
-    | FixTrailingWawRule;
+    | FixTrailingWawRule
+    | NormalizeDigitsRule
+    | NormalizeArabicLettersRule
+    | ReplaceRule
+    | StripRunningHeadersRule;
 
 /**
  * Logger interface for custom logging implementations.
@@ -149,6 +289,118 @@ export type Logger = {
     warn?: (message: string, ...args: unknown[]) => void;
 };
 
+/**
+ * Footnote handling for Shamela-style pages, where footnotes follow a separator line.
+ *
+ * @example
+ * footnotes: { mode: 'segments', meta: { type: 'footnote' } }
+ */
+export type FootnoteOptions = {
+    /**
+     * Template matching the separator line (the whole line must match, surrounding spaces allowed).
+     * @default '{{hr}}'
+     */
+    separator?: string;
+    /**
+     * - `'attach'`: attach footnotes to body segments as `segment.footnotes`
+     * - `'segments'`: emit each footnote as its own segment, right after the body segment it belongs to
+     *
+     * @default 'attach'
+     */
+    mode?: 'attach' | 'segments';
+    /**
+     * Metadata for footnote segments in `'segments'` mode (the marker is added as `marker`).
+     * @default { type: 'footnote' }
+     */
+    meta?: Record<string, unknown>;
+};
+
+/**
+ * A manual correction applied on top of the split points produced by `rules`.
+ *
+ * Overrides are anchored by page ID plus a text fingerprint rather than by character
+ * offset, so they keep pointing at the same place when rules change or the book is
+ * re-segmented. The fingerprint is searched in the page content after `preprocess`
+ * and line-ending normalization.
+ *
+ * - `'split'`: force a segment to start right before `text`
+ * - `'suppress'`: drop any split point whose marker or content starts at `text`
+ *
+ * Overrides whose fingerprint no longer matches are ignored during segmentation and
+ * reported as `stale_override` by `validateSegments()`.
+ *
+ * @example
+ * overrides: [
+ *     { action: 'split', page: 57, text: 'حدثنا أبو بكر', meta: { type: 'hadith' } },
+ *     { action: 'suppress', page: 102, text: 'نا محمد', occurrence: 2 },
+ * ]
+ */
+export type SplitOverride = {
+    /** Whether to add a split point or remove one */
+    action: 'split' | 'suppress';
+    /** Metadata for the segment started by a `'split'` override (ignored for `'suppress'`) */
+    meta?: Record<string, unknown>;
+    /**
+     * Which occurrence of `text` on the page to anchor to (1-based).
+     * @default 1
+     */
+    occurrence?: number;
+    /** ID of the page containing the anchor */
+    page: number;
+    /** Text fingerprint the override anchors to (leading/trailing whitespace is ignored) */
+    text: string;
+};
+
+/**
+ * A named region of the book in which rules tagged with `zone` apply.
+ *
+ * The zone switches on at the start of a line matching `activateAfter` and off again at
+ * the start of a line matching `deactivateOn`, as many times as the markers occur. Markers
+ * are line-start templates (like `lineStartsWith`), so zones follow the text rather than
+ * hand-picked page IDs. `segmentPages()` warns through `logger` about markers that match no line.
+ *
+ * @example
+ * // Hadith numbering only applies inside the main body, not the muqaddima or the appendix
+ * zones: [{ name: 'body', activateAfter: ['{{kitab}} الإيمان'], deactivateOn: ['{{bab}} ذكر الرواة'] }],
+ * rules: [{ lineStartsAfter: ['{{raqms:num}} {{dash}} '], zone: 'body' }]
+ */
+export type RuleZone = {
+    /** Name referenced by `SplitRule.zone` */
+    name: string;
+    /**
+     * Line-start patterns that switch the zone on. The marker line itself is inside the zone.
+     * When omitted, the zone is active from the start of the book.
+     */
+    activateAfter?: string[];
+    /** Line-start patterns that switch the zone off. The marker line itself is outside the zone. */
+    deactivateOn?: string[];
+    /**
+     * Diacritic-insensitive marker matching (same defaults as `SplitRule.fuzzy`).
+     */
+    fuzzy?: boolean;
+};
+
+/**
+ * A stretch of text that breakpoints and the `maxContentLength` safe-break fallback must not cut.
+ *
+ * - `{ open, close }` - Paired literal delimiters. Pairs nest when `open` and `close` differ;
+ *   an `open` without a matching `close` protects nothing.
+ * - `{ regex }` - Every match of a raw regular expression (compiled with the `u` flag).
+ *
+ * @example
+ * protect: [{ open: '﴿', close: '﴾' }, { open: '«', close: '»' }, { regex: '"[^"\\n]*"' }]
+ */
+export type ProtectedSpan = { close: string; open: string } | { regex: string };
+
+/**
+ * How much of the previous breakpoint piece to repeat at the start of the next one.
+ *
+ * - `{ chars }` - About that many trailing characters, extended back to the start of a word.
+ * - `{ sentences }` - That many trailing sentences, where sentences end at breakpoint pattern
+ *   matches (a piece with fewer sentences is repeated whole).
+ */
+export type PieceOverlap = { chars: number } | { sentences: number };
+
 /**
  * Segmentation options controlling how pages are split.
  *
@@ -199,6 +451,55 @@ export type SegmentationOptions = {
      */
     rules?: SplitRule[];
 
+    /**
+     * Custom token definitions, usable as `{{name}}` in every template-based pattern
+     * (`lineStartsWith`, `lineStartsAfter`, `lineEndsWith`, `template`), `pageStartGuard`
+     * and breakpoint patterns/words. Raw `regex` rules are not expanded.
+     *
+     * Values are regex source strings and may reference built-in or other custom
+     * tokens. A custom token with the same name as a built-in one overrides it, and
+     * `{{bab}}` inside the definition of `bab` refers to the built-in pattern.
+     * Custom tokens that expand to plain Arabic phrases participate in fuzzy defaults
+     * just like `{{bab}}` or `{{kitab}}`.
+     *
+     * Being a plain object, the whole configuration stays JSON-serializable.
+     *
+     * @example
+     * tokens: { juz: 'الجزء|جزء', juzHeading: '{{juz}} {{raqms}}' },
+     * rules: [{ lineStartsWith: ['{{juzHeading}}'], split: 'at' }]
+     */
+    tokens?: Record<string, string>;
+
+    /**
+     * Separate the footnote region of each page (everything after the first separator line,
+     * `{{hr}}` by default) from the body text.
+     *
+     * Footnotes are excluded from rule matching and breakpoints, then attached to the
+     * segments that reference them or emitted as separate segments (see `FootnoteOptions`).
+     * `true` uses the defaults.
+     */
+    footnotes?: boolean | FootnoteOptions;
+
+    /**
+     * Named regions that switch on and off at marker lines. Rules with a `zone` only
+     * split inside the active ranges of that zone; rules without one apply everywhere.
+     *
+     * @example
+     * zones: [{ name: 'appendix', activateAfter: ['{{bab}} الملحق'] }]
+     */
+    zones?: RuleZone[];
+
+    /**
+     * Manual split corrections layered on top of the rule (and dictionary) output.
+     *
+     * Forced splits are merged with rule split points (a rule match at the same
+     * position keeps its captures), then suppressions are applied.
+     *
+     * @example
+     * overrides: [{ action: 'split', page: 57, text: 'قال أبو عيسى' }]
+     */
+    overrides?: SplitOverride[];
+
     /**
      * Attach debugging provenance into `segment.meta` indicating which rule and/or breakpoint
      * created the segment boundary.
@@ -246,6 +547,26 @@ export type SegmentationOptions = {
      */
     maxContentLength?: number;
 
+    /**
+     * Maximum number of tokens per segment, as measured by `countTokens`.
+     *
+     * Works like `maxContentLength` (and intersects with `maxPages` the same way), but the
+     * window is the longest stretch whose token count stays within the budget. Useful when
+     * segments feed an LLM, since diacritized Arabic tokenizes very differently from plain text.
+     *
+     * @example
+     * { maxTokens: 512, countTokens: (text) => encoder.encode(text).length, breakpoints: ['{{tarqim}}'] }
+     */
+    maxTokens?: number;
+
+    /**
+     * Counts the tokens in a piece of text for `maxTokens`. Called many times on prefixes of
+     * oversized segments, so it should be fast and must never count a prefix above the whole.
+     *
+     * @default countArabicWords
+     */
+    countTokens?: (text: string) => number;
+
     /**
      * Patterns tried in order to break oversized segments.
      *
@@ -280,10 +601,68 @@ export type SegmentationOptions = {
      * When multiple matches exist for a breakpoint pattern, select:
      * - `'longer'` - Last match in window (prefers longer segments)
      * - `'shorter'` - First match in window (prefers shorter segments)
+     * - `'balanced'` - Match closest to an even share of what is left of the oversized segment,
+     *   so its pieces come out about the same size instead of a long one and a tiny tail
+     *
+     * Breakpoints are still tried in order: the preference only picks among one pattern's matches.
      *
      * @default 'longer'
      */
-    prefer?: 'longer' | 'shorter';
+    prefer?: 'balanced' | 'longer' | 'shorter';
+
+    /**
+     * Minimum length (in characters) of a breakpoint piece.
+     *
+     * Breakpoint matches that would leave a piece - or the rest of the oversized segment - shorter
+     * than this are skipped in favor of other matches (including those of later breakpoints).
+     * When every match would leave a sliver, the usual choice is made anyway.
+     *
+     * Must be less than `maxContentLength` when both are set.
+     *
+     * @example
+     * { maxContentLength: 2000, minContentLength: 300, breakpoints: ['{{tarqim}}', ''] }
+     */
+    minContentLength?: number;
+
+    /**
+     * How breakpoints compete for a window:
+     * - `'order'` - The first breakpoint with a match in the window wins (array order is priority)
+     * - `'weighted'` - Every breakpoint's match nearest the target (the window end, or the
+     *   `prefer: 'balanced'` target) is scored `weight × closeness`, and the highest score wins.
+     *   Ties go to the earlier breakpoint. With `debug`, the winning score is recorded as
+     *   `_flappa.breakpoint.score`.
+     *
+     * @default 'order'
+     *
+     * @example
+     * { maxContentLength: 2000, breakpointScoring: 'weighted', breakpoints: [{ pattern: '{{tarqim}}' }, { pattern: '\\n', weight: 0.7 }] }
+     */
+    breakpointScoring?: 'order' | 'weighted';
+
+    /**
+     * Spans that breakpoints may not cut, such as Quran verses `﴿...﴾` or quotations `«...»`.
+     *
+     * A break position inside a protected span moves back to where the span starts. A span longer
+     * than the window (`maxContentLength` or the `maxPages` window) is cut anyway - reported through
+     * `logger.warn` and, with `debug`, as `protectedSpanSplit` meta.
+     *
+     * @example
+     * { maxContentLength: 2000, breakpoints: ['{{tarqim}}\\s*'], protect: [{ open: '﴿', close: '﴾' }] }
+     */
+    protect?: ProtectedSpan[];
+
+    /**
+     * Repeat the end of each breakpoint piece at the start of the next piece cut from the same
+     * segment, for retrieval pipelines that embed chunks independently.
+     *
+     * An overlapped piece starts on the page where the repeated text starts (`from`) and records
+     * `meta.overlap: { start: 0, end, from, to? }` - the repeated character range and its pages.
+     * The overlap comes on top of `maxContentLength`. Structural segments never overlap.
+     *
+     * @example
+     * { maxContentLength: 1500, breakpoints: ['{{tarqim}}\\s*'], overlap: { sentences: 2 } }
+     */
+    overlap?: PieceOverlap;
 
     /**
      * How to join content across page boundaries in OUTPUT segments.
@@ -299,6 +678,36 @@ export type SegmentationOptions = {
      */
     pageJoiner?: 'space' | 'newline';
 
+    /**
+     * Attach `segment.source`: the character ranges of each page's ORIGINAL content
+     * (before `preprocess` and line-ending normalization) that the segment covers.
+     *
+     * Useful for highlighting a segment in a page viewer or writing corrections back.
+     * Opt-in because it increases output size and requires offset bookkeeping.
+     *
+     * @default false
+     */
+    sourceSpans?: boolean;
+
+    /**
+     * Emit segment content sliced from the ORIGINAL pages instead of the preprocessed text.
+     *
+     * Rules, breakpoints and limits still run against the normalized text (after `preprocess`
+     * and line-ending normalization); only the output `content` is taken from the source spans
+     * of each segment, with pages joined by `pageJoiner`. Meta values (named captures, titles,
+     * `overlap` ranges) keep their normalized form.
+     *
+     * Uses the same offset bookkeeping as `sourceSpans`, but `segment.source` is only kept when
+     * `sourceSpans` is also set.
+     *
+     * @default false
+     *
+     * @example
+     * // Match with zero-width characters removed, but return the text exactly as stored
+     * { preprocess: ['removeZeroWidth'], preserveOriginalContent: true, rules: [...] }
+     */
+    preserveOriginalContent?: boolean;
+
     /**
      * Optional logger for debugging segmentation.
      *
@@ -358,3 +767,33 @@ export type SegmentationOptions = {
      */
     preprocess?: PreprocessTransform[];
 };
+
+/**
+ * Windowing controls for `segmentPagesStream`.
+ *
+ * @example
+ * const stream = segmentPagesStream(readPages(), options, { windowPages: 200 });
+ */
+export type StreamSegmentationOptions = {
+    /**
+     * Number of newly buffered pages that triggers an attempt to emit the
+     * segments whose end boundary is already known.
+     *
+     * @default 100
+     */
+    windowPages?: number;
+
+    /**
+     * Upper bound on buffered pages while a single structural segment stays open.
+     *
+     * Only enforced when `maxPages`, `maxContentLength` or `maxTokens` is set:
+     * the open segment is then cut at the last buffered page boundary and
+     * continues in the next window. Pieces after the cut have no `meta` or
+     * named captures, only the inherited `meta.context`, like breakpoint pieces
+     * after the first in batch output. Without limits the open segment must be
+     * emitted whole, so the buffer grows until it closes.
+     *
+     * @default windowPages * 4
+     */
+    maxBufferedPages?: number;
+};
@@ -274,6 +274,53 @@ export type PatternTypeKey = (typeof PATTERN_TYPE_KEYS)[number];
 
 // Split Behavior
 
+/**
+ * Named post-processor for a captured value (see `SplitRule.captureTransforms`).
+ *
+ * - `int`: Parses ASCII, Arabic-Indic or Persian digits into a number
+ * - `trim`: Removes surrounding whitespace
+ * - `normalizeArabic`: Applies `normalizeArabicForComparison()`
+ * - `stripDiacritics`: Removes Arabic diacritics and tatweel
+ * - `abjad`: Converts abjad letters to their numeric value (e.g. `'يب'` → 12)
+ */
+export type CaptureTransform = 'abjad' | 'int' | 'normalizeArabic' | 'stripDiacritics' | 'trim';
+
+/**
+ * Heading title capture options (see `SplitRule.title`).
+ */
+export type HeadingTitle = {
+    /**
+     * Meta key the title is stored under.
+     * @default 'title'
+     */
+    key?: string;
+    /**
+     * Template pattern (tokens allowed) ending the title within the line, e.g. `':'` or
+     * `'{{tarqim}}'`. The title runs to the end of the line when omitted or not found.
+     */
+    until?: string;
+    /**
+     * Remove the marker and title (and its `until` delimiter) from the segment content.
+     * A heading with no body text left still produces a segment, with empty content.
+     * @default false
+     */
+    strip?: boolean;
+};
+
+/**
+ * Heading context declared by a rule (see `SplitRule.context`).
+ */
+export type HeadingContext = {
+    /** Key under `meta.context` of the following segments, e.g. `'bab'` */
+    key: string;
+    /**
+     * Meta key (static `meta` or a named capture) holding the inherited value.
+     * Defaults to the rule's `title`, or the first line of the heading segment without one.
+     * Empty values are not inherited.
+     */
+    from?: string;
+};
+
 /**
  * Configuration for how and where to split content when a pattern matches.
  *
@@ -337,6 +384,63 @@ type RuleConstraints = PageRangeConstraintWithExclude & {
      */
     meta?: Record<string, unknown>;
 
+    /**
+     * Post-processors applied to named captures before they are merged into `meta`,
+     * keyed by capture name. A list runs left to right. Values a transform cannot convert
+     * are kept as they are.
+     *
+     * @example
+     * // meta.num becomes 6696 instead of '٦٦٩٦'
+     * { lineStartsAfter: ['{{raqms:num}} {{dash}} '], captureTransforms: { num: 'int' } }
+     */
+    captureTransforms?: Record<string, CaptureTransform | CaptureTransform[]>;
+
+    /**
+     * Hierarchy level for segments started by this rule (1 = outermost).
+     *
+     * Copied to `Segment.level` so `buildSegmentTree()` can nest segments,
+     * e.g. kitab (1) > bab (2) > hadith (3). Segments from rules without a
+     * level become leaves under the nearest preceding leveled segment.
+     *
+     * @example
+     * { lineStartsWith: ['{{kitab}}'], level: 1, meta: { type: 'book' } }
+     */
+    level?: number;
+
+    /**
+     * Captures the rest of the marker line (or the text up to `until`) into `meta.title`.
+     * Use `true` for the defaults. Only applies to rules splitting `at` their marker.
+     * The title is added like a named capture, so `captureTransforms` can post-process it.
+     *
+     * @example
+     * // 'باب ما جاء في الوضوء\nحدثنا ...' → meta.title = 'ما جاء في الوضوء', content = 'حدثنا ...'
+     * { lineStartsWith: ['{{bab}}'], fuzzy: true, title: { strip: true } }
+     */
+    title?: boolean | HeadingTitle;
+
+    /**
+     * Makes this rule's segments headings inherited by the segments after them as
+     * `meta.context[key]`, until a segment of the same or an outer `level` starts.
+     * Context from rules without a `level` lasts until the same key is set again.
+     * Breakpoint pieces keep the context of the segment they were cut from; pieces after the
+     * first one of a heading segment are also under that heading.
+     *
+     * @example
+     * // Hadith segments get meta.context = { kitab: 'كتاب الإيمان', bab: 'باب ...' }
+     * { lineStartsWith: ['{{kitab}}'], level: 1, context: { key: 'kitab' } }
+     * { lineStartsWith: ['{{bab}}'], level: 2, context: { key: 'bab' } }
+     */
+    context?: HeadingContext;
+
+    /**
+     * Name of a `SegmentationOptions.zones` entry. The rule only splits while that zone
+     * is active. Occurrence filters (`occurrence: 'first' | 'last'`) apply within the zone.
+     *
+     * @example
+     * { lineStartsAfter: ['{{raqms:num}} {{dash}} '], zone: 'body' }
+     */
+    zone?: string;
+
     /**
      * Page-start guard: only allow this rule to match at the START of a page if the
      * previous page's last non-whitespace character matches this pattern.
@@ -48,8 +48,8 @@ export type SplitPoint = {
     ruleIndex?: number;
     /** Content captured by regex patterns with capturing groups */
     capturedContent?: string;
-    /** Named captures from `{{token:name}}` patterns */
-    namedCaptures?: Record<string, string>;
+    /** Named captures from `{{token:name}}` patterns (after the rule's `captureTransforms`) */
+    namedCaptures?: Record<string, number | string>;
     /** Optional index of the word from a words/patterns array that caused the match */
     wordIndex?: number;
     /**
@@ -59,4 +59,8 @@ export type SplitPoint = {
      * at the match start so previous segment doesn't include the marker.
      */
     contentStartOffset?: number;
+    /** Hierarchy level of the rule that produced this split point */
+    level?: number;
+    /** Headings open in the text under a context rule's heading, its own included */
+    bodyContext?: Record<string, unknown>;
 };
@@ -4,12 +4,39 @@ export type SegmentValidationIssueType =
     | 'max_pages_violation'
     | 'page_attribution_mismatch'
     | 'content_not_found'
-    | 'page_not_found';
+    | 'page_not_found'
+    | 'stale_override'
+    | 'coverage_gap'
+    | 'coverage_overlap'
+    | 'segment_out_of_order'
+    | 'numbering_gap'
+    | 'numbering_duplicate'
+    | 'numbering_backwards'
+    | 'numbering_merged_items';
+
+/**
+ * Source text that no segment covers (`coverage_gap`) or that more than one segment covers
+ * (`coverage_overlap`, `segment_out_of_order`).
+ */
+export type SegmentCoverageSpan = {
+    /** Page the span starts on */
+    pageId: number;
+    /** Offset of the span within that page (after `preprocess`, footnote separation and line-ending normalization) */
+    offset: number;
+    /** Length in characters */
+    length: number;
+    /** Length in UTF-8 bytes */
+    bytes: number;
+    preview: string;
+};
 
 export type SegmentValidationIssue = {
     type: SegmentValidationIssueType;
     severity: SegmentValidationIssueSeverity;
+    /** Index of the offending segment, or `-1` for issues not tied to a segment (`stale_override`) */
     segmentIndex: number;
+    /** Index into `options.overrides` (only for `stale_override`) */
+    overrideIndex?: number;
     segment: {
         from: number;
         to?: number;
@@ -28,6 +55,17 @@ export type SegmentValidationIssue = {
         pagePreview: string;
         matchIndex?: number;
     };
+    /** The affected text (only for coverage issues) */
+    coverage?: SegmentCoverageSpan;
+    /** Captured numbers involved (only for numbering issues) */
+    numbering?: {
+        /** Number captured for this segment */
+        value: number;
+        /** Number of the previous numbered segment */
+        previous: number;
+        /** Numbers skipped between `previous` and `value` */
+        missing?: { from: number; to: number };
+    };
     evidence?: string;
     hint?: string;
 };
@@ -43,3 +81,48 @@ export type SegmentValidationReport = {
     };
     issues: SegmentValidationIssue[];
 };
+
+/**
+ * A segment boundary that appears in only one of the two segmentations compared by `evaluateSegmentation()`.
+ */
+export type BoundaryDiscrepancy = {
+    /** Index of the segment (in its own list) that starts at this boundary */
+    segmentIndex: number;
+    /** Page containing the boundary */
+    page: number;
+    /** Offset of the boundary within the page content (after preprocessing and line-ending normalization) */
+    offset: number;
+    /** Distance in characters to the nearest boundary of the other segmentation (`undefined` if it has none) */
+    nearestDistance?: number;
+    /** Text starting at the boundary */
+    preview: string;
+};
+
+export type SegmentationEvaluationReport = {
+    /** Boundary counts (the start of the text is not a boundary) */
+    boundaries: {
+        gold: number;
+        predicted: number;
+        matched: number;
+    };
+    /** Fraction of predicted boundaries that match a gold boundary */
+    precision: number;
+    /** Fraction of gold boundaries matched by a predicted boundary */
+    recall: number;
+    f1: number;
+    /** Beeferman's Pk (lower is better) */
+    pk: number;
+    /** Pevzner & Hearst's WindowDiff (lower is better) */
+    windowDiff: number;
+    /** Window size (characters) used for Pk and WindowDiff */
+    windowSize: number;
+    /** Gold boundaries with no predicted boundary within tolerance */
+    missed: BoundaryDiscrepancy[];
+    /** Predicted boundaries with no gold boundary within tolerance */
+    spurious: BoundaryDiscrepancy[];
+    /** Segments whose content could not be located on their `from` page (aligned to the page start instead) */
+    unlocated: {
+        gold: number[];
+        predicted: number[];
+    };
+};
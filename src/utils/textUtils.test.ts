@@ -1,10 +1,13 @@
 import { describe, expect, it } from 'bun:test';
 import {
     adjustForUnicodeBoundary,
+    countArabicWords,
     escapeRegex,
     escapeTemplateBrackets,
     makeDiacriticInsensitive,
     normalizeArabicForComparison,
+    stripArabicDiacritics,
+    toAsciiDigits,
 } from './textUtils';
 
 describe('escapeTemplateBrackets', () => {
@@ -246,6 +249,26 @@ describe('normalizeArabicForComparison', () => {
     });
 });
 
+describe('toAsciiDigits', () => {
+    it('should convert Arabic-Indic and Persian digits and keep everything else', () => {
+        expect(toAsciiDigits('١٢٣ - ۴۵۶ و789')).toBe('123 - 456 و789');
+    });
+});
+
+describe('countArabicWords', () => {
+    it('should count words and punctuation but not diacritics', () => {
+        expect(countArabicWords('حَدَّثَنَا مالك، عن نافع.')).toBe(6);
+        expect(countArabicWords('حدثنا مالك، عن نافع.')).toBe(6);
+        expect(countArabicWords('  ')).toBe(0);
+    });
+});
+
+describe('stripArabicDiacritics', () => {
+    it('should remove harakat and tatweel but keep letter variants', () => {
+        expect(stripArabicDiacritics('حَدَّثَنَـا أَبُو')).toBe('حدثنا أبو');
+    });
+});
+
 describe('adjustForUnicodeBoundary', () => {
     it('should avoid splitting before combining marks', () => {
         const content = 'a\u0301b'; // a + combining acute + b
@@ -135,6 +135,40 @@ export const normalizeArabicForComparison = (text: string) => {
         .join('');
 };
 
+/**
+ * Converts Arabic-Indic (٠-٩) and Persian/Extended Arabic-Indic (۰-۹) digits to ASCII digits.
+ *
+ * @example
+ * toAsciiDigits('حديث ١٢٣ و۴۵') // → 'حديث 123 و45'
+ */
+export const toAsciiDigits = (text: string) =>
+    text.replace(/[\u0660-\u0669\u06F0-\u06F9]/g, (d) => String(d.charCodeAt(0) & 0xf));
+
+/**
+ * Removes Arabic diacritics, Quranic annotation marks and tatweel, leaving letters untouched.
+ *
+ * @example
+ * stripArabicDiacritics('\u062D\u064E\u062F\u064E\u0651\u062B\u064E\u0646\u064E\u0627') // \u2192 '\u062D\u062F\u062B\u0646\u0627'
+ */
+export const stripArabicDiacritics = (text: string) => text.replace(DIACRITICS_AND_MARKS_REGEX, '');
+
+/**
+ * Approximate token count for Arabic text: each word (letters and digits with their
+ * diacritics) counts as one, and so does each punctuation mark or symbol.
+ *
+ * This is the default `countTokens` for `maxTokens`. Diacritics do not add to the count.
+ *
+ * @example
+ * countArabicWords('حَدَّثَنَا مالك، عن نافع.') // → 6
+ */
+export const countArabicWords = (text: string) => {
+    let count = 0;
+    for (const _ of text.matchAll(/[\p{L}\p{N}\p{M}]+|[^\s\p{L}\p{N}\p{M}]/gu)) {
+        count++;
+    }
+    return count;
+};
+
 export const makeDiacriticInsensitive = (text: string) => {
     const diacriticsMatcher = `${DIACRITICS_CLASS}*`;
     return Array.from(normalizeArabicLight(text))
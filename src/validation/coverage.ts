@@ -0,0 +1,163 @@
+/**
+ * Text coverage checks for `validateSegments()`.
+ *
+ * Segments are located in document order in the body text (after `preprocess` and footnote
+ * separation). Text between two consecutive segments is a gap unless it is whitespace or a
+ * marker stripped from the start of a segment (`lineStartsAfter`, dictionary headwords);
+ * text covered twice is an overlap (except the repeated text of `overlap` pieces); a segment
+ * that starts before its predecessor is out of order.
+ */
+
+import { separateFootnotes } from '@/segmentation/footnotes.js';
+import { PIECE_OVERLAP_META_KEY, type PieceOverlapMeta } from '@/segmentation/piece-overlap.js';
+import { buildPageMap, collectSegmentationSplitPoints } from '@/segmentation/segmenter.js';
+import type { Page, Segment } from '@/types';
+import type { SegmentationOptions } from '@/types/options.js';
+import type { PageMap } from '@/types/segmenter.js';
+import type { SegmentValidationIssueType } from '@/types/validation.js';
+
+const WHITESPACE_REGEX = /\s/;
+
+type CoverageIssueType = Extract<
+    SegmentValidationIssueType,
+    'coverage_gap' | 'coverage_overlap' | 'segment_out_of_order'
+>;
+
+/** A coverage problem as an offset range of the body text. */
+export type CoverageFinding = {
+    type: CoverageIssueType;
+    /** Segment following the gap, or the segment that overlaps / is out of order */
+    segmentIndex: number;
+    start: number;
+    end: number;
+};
+
+type LocatedSegment = { end: number; start: number };
+
+type CoverageContext = {
+    /** `[start, end)` ranges of stripped markers, sorted by start */
+    allowedLoss: LocatedSegment[];
+    joined: string;
+    pageMap: PageMap;
+};
+
+/** Offset ranges of markers the segmenter strips from segment starts. */
+const collectAllowedLoss = (bodyPages: Page[], options: SegmentationOptions) => {
+    const { content, normalizedPages, pageMap } = buildPageMap(bodyPages);
+    return collectSegmentationSplitPoints(bodyPages, normalizedPages, content, pageMap, options, undefined)
+        .filter((sp) => sp.contentStartOffset)
+        .map((sp) => ({ end: sp.index + sp.contentStartOffset!, start: sp.index }));
+};
+
+const locateSegment = (
+    segment: Segment,
+    ctx: CoverageContext,
+    pageIndexById: Map<number, number>,
+    coveredEnd: number,
+): LocatedSegment | null => {
+    const fromIndex = pageIndexById.get(segment.from);
+    if (fromIndex === undefined || !segment.content) {
+        return null;
+    }
+    const toIndex = pageIndexById.get(segment.to ?? segment.from) ?? fromIndex;
+    const pageStart = ctx.pageMap.boundaries[fromIndex].start;
+    const startsOnItsPages = (idx: number) => {
+        const pageIndex = pageIndexById.get(ctx.pageMap.getId(idx));
+        return idx !== -1 && pageIndex !== undefined && pageIndex >= fromIndex && pageIndex <= toIndex;
+    };
+
+    // Prefer the first occurrence after the text covered so far, then any occurrence on its pages
+    const candidates = [ctx.joined.indexOf(segment.content, Math.max(pageStart, coveredEnd))];
+    candidates.push(ctx.joined.indexOf(segment.content, pageStart));
+    const start = candidates.find(startsOnItsPages);
+    return start === undefined ? null : { end: start + segment.content.length, start };
+};
+
+/** Whether `offset` falls inside one of the (sorted, non-overlapping) stripped marker ranges. */
+const isAllowedLoss = (ranges: LocatedSegment[], offset: number) => {
+    let lo = 0;
+    let hi = ranges.length - 1;
+    while (lo <= hi) {
+        const mid = (lo + hi) >>> 1;
+        if (offset < ranges[mid].start) {
+            hi = mid - 1;
+        } else if (offset >= ranges[mid].end) {
+            lo = mid + 1;
+        } else {
+            return true;
+        }
+    }
+    return false;
+};
+
+/** Narrows a gap to the text that is neither whitespace nor a stripped marker, or `null` if none is left. */
+const findUnexplainedText = (ctx: CoverageContext, start: number, end: number) => {
+    let first = -1;
+    let last = -1;
+    for (let i = start; i < end; i++) {
+        if (WHITESPACE_REGEX.test(ctx.joined[i]) || isAllowedLoss(ctx.allowedLoss, i)) {
+            continue;
+        }
+        if (first === -1) {
+            first = i;
+        }
+        last = i;
+    }
+    return first === -1 ? null : { end: last + 1, start: first };
+};
+
+/**
+ * Checks that the segments cover the body text exactly once, in order.
+ *
+ * @param pages - Pages after `preprocess` and line-ending normalization
+ * @param options - Segmentation options the segments were produced with
+ * @param segments - Segments to check
+ * @param joiner - Page joiner used in segment content
+ * @returns Coverage findings plus the body text and page map their offsets refer to
+ */
+export const checkCoverage = (pages: Page[], options: SegmentationOptions, segments: Segment[], joiner: string) => {
+    const { pages: bodyPages } = separateFootnotes(pages, options);
+    const { normalizedPages, pageMap } = buildPageMap(bodyPages);
+    const ctx: CoverageContext = {
+        allowedLoss: collectAllowedLoss(bodyPages, options),
+        joined: normalizedPages.join(joiner),
+        pageMap,
+    };
+    const pageIndexById = new Map(pageMap.pageIds.map((id, i) => [id, i]));
+    const findings: CoverageFinding[] = [];
+    let previous: LocatedSegment = { end: 0, start: 0 };
+    let lastIndex = -1;
+
+    segments.forEach((segment, segmentIndex) => {
+        // Text repeated on purpose by the `overlap` option
+        const repeated = (segment.meta?.[PIECE_OVERLAP_META_KEY] as PieceOverlapMeta | undefined)?.end ?? 0;
+        const located = locateSegment(segment, ctx, pageIndexById, previous.end - repeated);
+        if (!located) {
+            return;
+        }
+        lastIndex = segmentIndex;
+
+        if (located.start < previous.start) {
+            findings.push({ ...located, segmentIndex, type: 'segment_out_of_order' });
+        } else if (located.start + repeated < previous.end) {
+            findings.push({
+                end: Math.min(located.end, previous.end),
+                segmentIndex,
+                start: located.start + repeated,
+                type: 'coverage_overlap',
+            });
+        } else if (located.start >= previous.end) {
+            const gap = findUnexplainedText(ctx, previous.end, located.start);
+            if (gap) {
+                findings.push({ ...gap, segmentIndex, type: 'coverage_gap' });
+            }
+        }
+        previous = { end: Math.max(previous.end, located.end), start: Math.max(previous.start, located.start) };
+    });
+
+    const trailing = lastIndex === -1 ? null : findUnexplainedText(ctx, previous.end, ctx.joined.length);
+    if (trailing) {
+        findings.push({ ...trailing, segmentIndex: lastIndex, type: 'coverage_gap' });
+    }
+    return { findings, joined: ctx.joined, pageMap };
+};
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'bun:test';
+import { segmentPages } from '@/segmentation/segmenter.js';
+import type { Page, Segment } from '@/types';
+import { evaluateSegmentation } from './evaluate-segmentation.js';
+
+describe('evaluateSegmentation', () => {
+    const pages: Page[] = [
+        { content: '١ - حدثنا زيد\n٢ - أخبرنا عمرو', id: 1 },
+        { content: 'تكملة\n٣ - حدثنا بكر\n٤ - حدثنا خالد', id: 2 },
+    ];
+    const gold: Segment[] = [
+        { content: '١ - حدثنا زيد', from: 1 },
+        { content: '٢ - أخبرنا عمرو تكملة', from: 1, to: 2 },
+        { content: '٣ - حدثنا بكر', from: 2 },
+        { content: '٤ - حدثنا خالد', from: 2 },
+    ];
+
+    it('should report a perfect score for identical segmentations', () => {
+        const report = evaluateSegmentation(pages, gold, gold);
+
+        expect(report).toMatchObject({
+            boundaries: { gold: 3, matched: 3, predicted: 3 },
+            f1: 1,
+            missed: [],
+            pk: 0,
+            precision: 1,
+            recall: 1,
+            spurious: [],
+            unlocated: { gold: [], predicted: [] },
+            windowDiff: 0,
+        });
+    });
+
+    it('should align boundaries by source position, not content equality', () => {
+        const predicted = segmentPages(pages, { rules: [{ lineStartsWith: ['{{raqms}} {{dash}} '] }] });
+        const report = evaluateSegmentation(pages, predicted, gold);
+
+        expect(report.boundaries).toEqual({ gold: 3, matched: 3, predicted: 3 });
+        expect(report.f1).toBe(1);
+    });
+
+    it('should list missed and spurious boundaries with page context', () => {
+        const predicted: Segment[] = [
+            { content: '١ - حدثنا زيد\n٢ - أخبرنا عمرو', from: 1 },
+            { content: 'تكملة\n٣ - حدثنا بكر', from: 2 },
+            { content: '٤ - حدثنا خالد', from: 2 },
+        ];
+        const report = evaluateSegmentation(pages, predicted, gold);
+
+        expect(report.boundaries).toEqual({ gold: 3, matched: 1, predicted: 2 });
+        expect(report.precision).toBe(0.5);
+        expect(report.recall).toBeCloseTo(1 / 3);
+        expect(report.f1).toBeCloseTo(0.4);
+        expect(report.missed).toEqual([
+            {
+                nearestDistance: 16,
+                offset: 14,
+                page: 1,
+                preview: '٢ - أخبرنا عمرو تكملة ٣ - حدثنا بكر ٤ - حدثنا خالد',
+                segmentIndex: 1,
+            },
+            { nearestDistance: 6, offset: 6, page: 2, preview: '٣ - حدثنا بكر ٤ - حدثنا خالد', segmentIndex: 2 },
+        ]);
+        expect(report.spurious).toEqual([
+            { nearestDistance: 6, offset: 0, page: 2, preview: 'تكملة ٣ - حدثنا بكر ٤ - حدثنا خالد', segmentIndex: 1 },
+        ]);
+        expect(report.pk).toBeGreaterThan(0);
+        expect(report.windowDiff).toBeGreaterThanOrEqual(report.pk);
+    });
+
+    it('should match boundaries within the tolerance', () => {
+        const predicted = segmentPages(pages, { rules: [{ lineStartsAfter: ['{{raqms}} {{dash}} '] }] });
+
+        expect(evaluateSegmentation(pages, predicted, gold).boundaries.matched).toBe(0);
+        expect(evaluateSegmentation(pages, predicted, gold, { tolerance: 4 }).boundaries.matched).toBe(3);
+    });
+
+    it('should locate segments after applying the same preprocessing', () => {
+        const zwPages = pages.map((p) => ({ ...p, content: p.content.replaceAll('حدثنا', 'حد\u200Bثنا') }));
+        const preprocess = ['removeZeroWidth' as const];
+        const predicted = segmentPages(zwPages, { preprocess, rules: [{ lineStartsWith: ['{{raqms}} {{dash}} '] }] });
+
+        expect(evaluateSegmentation(zwPages, predicted, gold, { preprocess }).f1).toBe(1);
+        expect(evaluateSegmentation(zwPages, predicted, gold).unlocated.gold).toEqual([0, 2, 3]);
+    });
+
+    it('should use the given window size for Pk and WindowDiff', () => {
+        const report = evaluateSegmentation(pages, [{ content: pages[0].content, from: 1, to: 2 }], gold, {
+            windowSize: 5,
+        });
+
+        expect(report.windowSize).toBe(5);
+        expect(report.precision).toBe(1);
+        expect(report.recall).toBe(0);
+        expect(report.f1).toBe(0);
+        expect(report.pk).toBeCloseTo(15 / (pages[0].content.length + pages[1].content.length + 1 - 5));
+        expect(report.windowDiff).toBe(report.pk);
+    });
+});
@@ -0,0 +1,271 @@
+import { buildPageMap, preprocessPages } from '@/segmentation/segmenter.js';
+import type { CustomTokens } from '@/segmentation/tokens.js';
+import type { Page, Segment } from '@/types';
+import type { PreprocessTransform } from '@/types/options.js';
+import type { PageMap } from '@/types/segmenter.js';
+import type { BoundaryDiscrepancy, SegmentationEvaluationReport } from '@/types/validation.js';
+import { escapeRegex } from '@/utils/textUtils.js';
+import { PREVIEW_LIMIT } from './validation-constants.js';
+
+export type EvaluateSegmentationOptions = {
+    /**
+     * Preprocess transforms applied to the pages before locating segments.
+     * Use the same transforms that produced the segments.
+     */
+    preprocess?: PreprocessTransform[];
+    /** Custom tokens used by `replace` patterns in `preprocess` (`SegmentationOptions.tokens`) */
+    tokens?: CustomTokens;
+    /**
+     * Maximum distance (characters) at which a predicted and a gold boundary still count as the same.
+     * Useful when one segmentation strips markers (e.g. `lineStartsAfter`) and the other does not.
+     * @default 0
+     */
+    tolerance?: number;
+    /**
+     * Window size (characters) for Pk and WindowDiff.
+     * @default half the average gold segment length
+     */
+    windowSize?: number;
+};
+
+/** Number of leading characters of a segment used to locate it in the page text. */
+const PROBE_LENGTH = 32;
+
+type LocatedBoundary = { position: number; segmentIndex: number };
+
+/**
+ * Builds a regex matching the start of a segment's content, treating any whitespace run
+ * as equivalent (page joins turn `\n` into spaces and vice versa).
+ */
+const buildProbeRegex = (content: string) => {
+    const probe = content.trimStart().slice(0, PROBE_LENGTH).trimEnd();
+    if (!probe) {
+        return null;
+    }
+    return new RegExp(probe.split(/\s+/).map(escapeRegex).join('\\s+'), 'gu');
+};
+
+const findWithin = (regex: RegExp, content: string, from: number, end: number) => {
+    regex.lastIndex = from;
+    const match = regex.exec(content);
+    return match && match.index <= end ? match.index : -1;
+};
+
+/**
+ * Locates the start offset of each segment in the joined content.
+ *
+ * Segments are searched in document order on their `from` page, starting after the
+ * previous segment when possible. Segments that cannot be found are aligned to the
+ * start of their page and reported as unlocated.
+ */
+const locateSegmentStarts = (segments: Segment[], content: string, pageMap: PageMap) => {
+    const pageIndexById = new Map(pageMap.boundaries.map((b, i) => [b.id, i]));
+    const starts: LocatedBoundary[] = [];
+    const unlocated: number[] = [];
+    let cursor = 0;
+
+    segments.forEach((segment, segmentIndex) => {
+        const pageIndex = pageIndexById.get(segment.from);
+        if (pageIndex === undefined) {
+            unlocated.push(segmentIndex);
+            return;
+        }
+
+        const page = pageMap.boundaries[pageIndex];
+        const regex = buildProbeRegex(segment.content);
+        let position = regex ? findWithin(regex, content, Math.max(cursor, page.start), page.end) : -1;
+        if (regex && position === -1 && cursor > page.start) {
+            position = findWithin(regex, content, page.start, page.end);
+        }
+        if (position === -1) {
+            unlocated.push(segmentIndex);
+            position = page.start;
+        }
+
+        starts.push({ position, segmentIndex });
+        cursor = position + 1;
+    });
+
+    return { starts, unlocated };
+};
+
+/**
+ * Turns segment starts into sorted, de-duplicated boundaries.
+ * Starts at or before the first non-whitespace character are not boundaries.
+ */
+const toBoundaries = (starts: LocatedBoundary[], textStart: number) => {
+    const byPosition = new Map<number, LocatedBoundary>();
+    for (const start of starts) {
+        if (start.position > textStart && !byPosition.has(start.position)) {
+            byPosition.set(start.position, start);
+        }
+    }
+    return [...byPosition.values()].sort((a, b) => a.position - b.position);
+};
+
+/**
+ * Greedily pairs boundaries in document order; pairs farther apart than `tolerance` are left unmatched.
+ */
+const matchBoundaries = (predicted: LocatedBoundary[], gold: LocatedBoundary[], tolerance: number) => {
+    const missed: LocatedBoundary[] = [];
+    const spurious: LocatedBoundary[] = [];
+    let matched = 0;
+    let i = 0;
+    let j = 0;
+
+    while (i < predicted.length && j < gold.length) {
+        const p = predicted[i].position;
+        const g = gold[j].position;
+        if (Math.abs(p - g) <= tolerance) {
+            matched++;
+            i++;
+            j++;
+        } else if (p < g) {
+            spurious.push(predicted[i++]);
+        } else {
+            missed.push(gold[j++]);
+        }
+    }
+
+    spurious.push(...predicted.slice(i));
+    missed.push(...gold.slice(j));
+    return { matched, missed, spurious };
+};
+
+/** Prefix counts: `result[x]` is the number of boundaries at positions `<= x`. */
+const buildBoundaryPrefix = (boundaries: LocatedBoundary[], length: number) => {
+    const prefix = new Int32Array(length + 1);
+    for (const { position } of boundaries) {
+        prefix[position]++;
+    }
+    for (let x = 1; x <= length; x++) {
+        prefix[x] += prefix[x - 1];
+    }
+    return prefix;
+};
+
+/**
+ * Computes Pk and WindowDiff by sliding a window of `k` characters over the text.
+ */
+const computeWindowMetrics = (predicted: LocatedBoundary[], gold: LocatedBoundary[], length: number, k: number) => {
+    const windows = length - k;
+    if (windows <= 0) {
+        return { pk: 0, windowDiff: 0 };
+    }
+
+    const hyp = buildBoundaryPrefix(predicted, length);
+    const ref = buildBoundaryPrefix(gold, length);
+    let pkErrors = 0;
+    let windowDiffErrors = 0;
+
+    for (let i = 0; i < windows; i++) {
+        const refCount = ref[i + k] - ref[i];
+        const hypCount = hyp[i + k] - hyp[i];
+        if (refCount > 0 !== hypCount > 0) {
+            pkErrors++;
+        }
+        if (refCount !== hypCount) {
+            windowDiffErrors++;
+        }
+    }
+
+    return { pk: pkErrors / windows, windowDiff: windowDiffErrors / windows };
+};
+
+const findNearestDistance = (sorted: LocatedBoundary[], position: number) => {
+    let lo = 0;
+    let hi = sorted.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >>> 1;
+        if (sorted[mid].position < position) {
+            lo = mid + 1;
+        } else {
+            hi = mid;
+        }
+    }
+
+    const candidates = [sorted[lo - 1], sorted[lo]].filter(Boolean);
+    return candidates.length ? Math.min(...candidates.map((b) => Math.abs(b.position - position))) : undefined;
+};
+
+const describeBoundary = (
+    boundary: LocatedBoundary,
+    other: LocatedBoundary[],
+    content: string,
+    pageMap: PageMap,
+): BoundaryDiscrepancy => {
+    const page = pageMap.boundaries.find((b) => boundary.position >= b.start && boundary.position <= b.end);
+    const nearestDistance = findNearestDistance(other, boundary.position);
+    return {
+        ...(nearestDistance !== undefined ? { nearestDistance } : {}),
+        offset: boundary.position - (page?.start ?? 0),
+        page: page?.id ?? pageMap.getId(boundary.position),
+        preview: content
+            .slice(boundary.position, boundary.position + PREVIEW_LIMIT)
+            .replace(/\s+/g, ' ')
+            .trim(),
+        segmentIndex: boundary.segmentIndex,
+    };
+};
+
+const safeRatio = (numerator: number, denominator: number) => (denominator === 0 ? 1 : numerator / denominator);
+
+/**
+ * Evaluates a segmentation against a hand-labeled gold segmentation of the same pages.
+ *
+ * Both segment lists are aligned to the page text by locating the start of each segment's
+ * content on its `from` page, so the comparison works on source positions rather than on
+ * segment indices or content equality.
+ *
+ * Reports boundary precision/recall/F1 (with optional `tolerance`), Pk and WindowDiff
+ * (computed over characters), plus the missed and spurious boundaries with page context.
+ *
+ * @param pages - Input pages both segmentations were produced from
+ * @param predicted - Segments to evaluate (e.g. output of `segmentPages`)
+ * @param gold - Reference segments
+ * @param options - Preprocessing, boundary tolerance and window size
+ * @returns Evaluation report
+ *
+ * @example
+ * const report = evaluateSegmentation(pages, segmentPages(pages, options), goldSegments, {
+ *     preprocess: options.preprocess,
+ *     tolerance: 5,
+ * });
+ * console.log(report.f1, report.windowDiff);
+ * report.missed.forEach((b) => console.log(`missed boundary on page ${b.page}: ${b.preview}`));
+ */
+export const evaluateSegmentation = (
+    pages: Page[],
+    predicted: Segment[],
+    gold: Segment[],
+    options: EvaluateSegmentationOptions = {},
+): SegmentationEvaluationReport => {
+    const { preprocess, tokens, tolerance = 0 } = options;
+    const { content, pageMap } = buildPageMap(preprocessPages(pages, preprocess, tokens));
+    const textStart = Math.max(0, content.search(/\S/));
+
+    const predictedStarts = locateSegmentStarts(predicted, content, pageMap);
+    const goldStarts = locateSegmentStarts(gold, content, pageMap);
+    const predictedBoundaries = toBoundaries(predictedStarts.starts, textStart);
+    const goldBoundaries = toBoundaries(goldStarts.starts, textStart);
+
+    const { matched, missed, spurious } = matchBoundaries(predictedBoundaries, goldBoundaries, tolerance);
+    const precision = safeRatio(matched, predictedBoundaries.length);
+    const recall = safeRatio(matched, goldBoundaries.length);
+
+    const windowSize = options.windowSize ?? Math.max(1, Math.round(content.length / (goldBoundaries.length + 1) / 2));
+    const { pk, windowDiff } = computeWindowMetrics(predictedBoundaries, goldBoundaries, content.length, windowSize);
+
+    return {
+        boundaries: { gold: goldBoundaries.length, matched, predicted: predictedBoundaries.length },
+        f1: precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall),
+        missed: missed.map((b) => describeBoundary(b, predictedBoundaries, content, pageMap)),
+        pk,
+        precision,
+        recall,
+        spurious: spurious.map((b) => describeBoundary(b, goldBoundaries, content, pageMap)),
+        unlocated: { gold: goldStarts.unlocated, predicted: predictedStarts.unlocated },
+        windowDiff,
+        windowSize,
+    };
+};
@@ -0,0 +1,100 @@
+/**
+ * Numbering continuity checks for `validateSegments()`.
+ *
+ * Hadith and entry numbers captured into segment meta (e.g. via `{{raqms:num}}`) should
+ * increase by one from segment to segment. Gaps point at missed splits, duplicates and
+ * backwards jumps at spurious ones.
+ */
+
+import type { Segment } from '@/types';
+import type { SegmentValidationIssueType } from '@/types/validation.js';
+import { escapeRegex, toAsciiDigits } from '@/utils/textUtils.js';
+
+export type NumberingCheckOptions = {
+    /** Meta key holding the captured number, e.g. `'num'` for `{{raqms:num}}` */
+    metaKey: string;
+};
+
+type NumberingIssueType = Extract<
+    SegmentValidationIssueType,
+    'numbering_gap' | 'numbering_duplicate' | 'numbering_backwards' | 'numbering_merged_items'
+>;
+
+export type NumberingFinding = {
+    type: NumberingIssueType;
+    segmentIndex: number;
+    value: number;
+    previous: number;
+    /** Skipped numbers (gaps and merged items) */
+    missing?: { from: number; to: number };
+};
+
+/** Parses a captured number written in ASCII, Arabic-Indic or Persian digits. */
+const parseNumber = (value: unknown) => {
+    if (typeof value === 'number') {
+        return Number.isInteger(value) ? value : undefined;
+    }
+    const digits = typeof value === 'string' ? toAsciiDigits(value).trim() : '';
+    return /^\d+$/.test(digits) ? Number(digits) : undefined;
+};
+
+/** Whether `content` has a line starting with `n` (in any digit system) that is not part of a longer number. */
+const containsNumberedLine = (content: string, n: number) =>
+    new RegExp(`(?:^|\\n)[ \\t]*${escapeRegex(String(n))}(?!\\d)`).test(toAsciiDigits(content));
+
+type NumberedSegment = { index: number; value: number };
+
+/** Compares a segment's number with the previous numbered segment. */
+const compareWithPrevious = (
+    segments: Segment[],
+    previous: NumberedSegment,
+    current: NumberedSegment,
+): NumberingFinding[] => {
+    const base = { previous: previous.value, segmentIndex: current.index, value: current.value };
+    if (current.value === previous.value) {
+        return [{ ...base, type: 'numbering_duplicate' }];
+    }
+    if (current.value < previous.value) {
+        return [{ ...base, type: 'numbering_backwards' }];
+    }
+    if (current.value === previous.value + 1) {
+        return [];
+    }
+
+    const missing = { from: previous.value + 1, to: current.value - 1 };
+    const findings: NumberingFinding[] = [{ ...base, missing, type: 'numbering_gap' }];
+    if (containsNumberedLine(segments[previous.index].content, missing.from)) {
+        findings.push({
+            missing,
+            previous: previous.value,
+            segmentIndex: previous.index,
+            type: 'numbering_merged_items',
+            value: previous.value,
+        });
+    }
+    return findings;
+};
+
+/**
+ * Checks that the numbers captured under `metaKey` increase by one. Segments without a
+ * parseable number are skipped.
+ *
+ * When numbers are missing after a segment whose content has a line starting with the first
+ * missing number, that segment is also reported as probably holding two merged items.
+ */
+export const checkNumbering = (segments: Segment[], { metaKey }: NumberingCheckOptions) => {
+    const findings: NumberingFinding[] = [];
+    let previous: NumberedSegment | undefined;
+
+    segments.forEach((segment, index) => {
+        const value = parseNumber(segment.meta?.[metaKey]);
+        if (value === undefined) {
+            return;
+        }
+        if (previous) {
+            findings.push(...compareWithPrevious(segments, previous, { index, value }));
+        }
+        previous = { index, value };
+    });
+    return findings;
+};
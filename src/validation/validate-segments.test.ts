@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'bun:test';
-import { type Page, type Segment, validateSegments } from '@/index';
+import { type Page, type Segment, type SegmentationOptions, segmentPages, validateSegments } from '@/index';
 
 describe('validateSegments', () => {
     describe('Basic Validation', () => {
@@ -314,6 +314,84 @@ describe('validateSegments', () => {
         });
     });
 
+    describe('Stale Overrides (stale_override)', () => {
+        const pages: Page[] = [
+            { content: 'Intro text\nباب الصلاة', id: 1 },
+            { content: 'Second page', id: 2 },
+        ];
+        const segments: Segment[] = [
+            { content: 'Intro text', from: 1 },
+            { content: 'باب الصلاة Second page', from: 1, to: 2 },
+        ];
+
+        it('should not report overrides that still anchor', () => {
+            const report = validateSegments(
+                pages,
+                { overrides: [{ action: 'split', page: 1, text: 'باب الصلاة' }], rules: [] },
+                segments,
+            );
+            expect(report.ok).toBe(true);
+        });
+
+        it('should warn when the fingerprint is no longer on the page', () => {
+            const report = validateSegments(
+                pages,
+                {
+                    overrides: [
+                        { action: 'split', page: 1, text: 'باب الصلاة' },
+                        { action: 'suppress', page: 2, text: 'Removed text' },
+                    ],
+                    rules: [],
+                },
+                segments,
+            );
+
+            expect(report.ok).toBe(false);
+            expect(report.summary.warnings).toBe(1);
+            expect(report.issues[0]).toMatchObject({
+                overrideIndex: 1,
+                pageContext: { pageId: 2 },
+                segment: { contentPreview: 'Removed text', from: 2 },
+                segmentIndex: -1,
+                severity: 'warn',
+                type: 'stale_override',
+            });
+        });
+
+        it('should warn when the requested occurrence does not exist', () => {
+            const report = validateSegments(
+                pages,
+                { overrides: [{ action: 'split', occurrence: 2, page: 1, text: 'باب' }], rules: [] },
+                segments,
+            );
+            expect(report.issues[0].type).toBe('stale_override');
+            expect(report.issues[0].evidence).toContain('occurrence 2');
+        });
+
+        it('should warn when the override page does not exist', () => {
+            const report = validateSegments(
+                pages,
+                { overrides: [{ action: 'split', page: 9, text: 'باب' }], rules: [] },
+                segments,
+            );
+            expect(report.issues[0]).toMatchObject({ overrideIndex: 0, severity: 'warn', type: 'stale_override' });
+            expect(report.issues[0].pageContext).toBeUndefined();
+        });
+
+        it('should anchor against preprocessed content', () => {
+            const report = validateSegments(
+                [{ content: 'باب\u200B الصلاة', id: 1 }],
+                {
+                    overrides: [{ action: 'split', page: 1, text: 'باب الصلاة' }],
+                    preprocess: ['removeZeroWidth'],
+                    rules: [],
+                },
+                [{ content: 'باب الصلاة', from: 1 }],
+            );
+            expect(report.ok).toBe(true);
+        });
+    });
+
     describe('Validation Options', () => {
         it('should respect fullSearchThreshold option', () => {
             const shortContent = 'Short match';
@@ -537,4 +615,200 @@ describe('validateSegments', () => {
             expect(report.ok).toBe(true);
         });
     });
+
+    describe('Coverage (coverage_gap, coverage_overlap, segment_out_of_order)', () => {
+        const pages: Page[] = [
+            { content: 'مقدمة المحقق\n١ - حدثنا زيد\n٢ - حدثنا عمرو', id: 1 },
+            { content: 'تتمة الحديث\n٣ - حدثنا بكر\n__________\n(١) حاشية', id: 2 },
+        ];
+        const options: SegmentationOptions = {
+            footnotes: true,
+            rules: [{ lineStartsAfter: ['{{raqms:num}} {{dash}} '] }],
+        };
+
+        it('should accept full segmentation output, including stripped markers and separated footnotes', () => {
+            const segments = segmentPages(pages, options);
+            expect(validateSegments(pages, options, segments, { coverage: true }).issues).toEqual([]);
+        });
+
+        it('should find body segments that cross a page with footnotes', () => {
+            const crossing: Page[] = [
+                { content: '١ - حدثنا زيد (١)\n__________\n(١) حاشية', id: 1 },
+                { content: 'تتمة الحديث\n٢ - حدثنا عمرو', id: 2 },
+            ];
+            const segments = segmentPages(crossing, options);
+            expect(segments[0]).toMatchObject({ content: 'حدثنا زيد (١) تتمة الحديث', from: 1, to: 2 });
+
+            expect(validateSegments(crossing, options, segments, { coverage: true }).issues).toEqual([]);
+            const separate = { ...options, footnotes: { mode: 'segments' as const } };
+            expect(validateSegments(crossing, separate, segmentPages(crossing, separate)).issues).toEqual([]);
+        });
+
+        it('should check preserveOriginalContent output against the original pages', () => {
+            const original: Page[] = [
+                { content: '١ - حدثنا\u200B زيد\r\nقال', id: 1 },
+                { content: 'تتمة\n٢ - حدثنا عمرو', id: 2 },
+            ];
+            const preserve: SegmentationOptions = {
+                preprocess: ['removeZeroWidth'],
+                preserveOriginalContent: true,
+                rules: [{ lineStartsAfter: ['{{raqms:num}} {{dash}} '] }],
+            };
+            const segments = segmentPages(original, preserve);
+            expect(segments[0].content).toBe('حدثنا\u200B زيد\r\nقال تتمة');
+
+            expect(validateSegments(original, preserve, segments, { coverage: true }).issues).toEqual([]);
+        });
+
+        it('should not check coverage unless asked to', () => {
+            const segments = segmentPages(pages, options).slice(1);
+            expect(validateSegments(pages, options, segments).ok).toBeTrue();
+        });
+
+        it('should report text dropped before the first split with its size and preview', () => {
+            const segments = segmentPages(pages, options).slice(1);
+            const report = validateSegments(pages, options, segments, { coverage: true });
+
+            expect(report.issues).toHaveLength(1);
+            expect(report.issues[0]).toMatchObject({
+                coverage: { bytes: 23, length: 12, offset: 0, pageId: 1, preview: 'مقدمة المحقق' },
+                segmentIndex: 0,
+                severity: 'error',
+                type: 'coverage_gap',
+            });
+        });
+
+        it('should report trailing text no segment covers', () => {
+            const segments = segmentPages(pages, options).slice(0, -1);
+            const [issue] = validateSegments(pages, options, segments, { coverage: true }).issues;
+
+            expect(issue.type).toBe('coverage_gap');
+            // The stripped `٣ - ` marker is not part of the lost text
+            expect(issue.coverage).toMatchObject({ length: 9, offset: 16, pageId: 2, preview: 'حدثنا بكر' });
+        });
+
+        it('should report overlapping and out-of-order segments', () => {
+            const plain: Page[] = [{ content: 'alpha beta gamma delta', id: 1 }];
+            const options = { rules: [] };
+
+            const overlap = validateSegments(
+                plain,
+                options,
+                [
+                    { content: 'alpha beta gamma', from: 1 },
+                    { content: 'gamma delta', from: 1 },
+                ],
+                { coverage: true },
+            );
+            expect(overlap.issues.map((i) => [i.type, i.segmentIndex, i.coverage?.preview])).toEqual([
+                ['coverage_overlap', 1, 'gamma'],
+            ]);
+
+            const reordered = validateSegments(
+                plain,
+                options,
+                [
+                    { content: 'gamma delta', from: 1 },
+                    { content: 'alpha beta', from: 1 },
+                ],
+                { coverage: true },
+            );
+            expect(reordered.issues.map((i) => [i.type, i.segmentIndex])).toEqual([
+                ['coverage_gap', 0],
+                ['segment_out_of_order', 1],
+            ]);
+        });
+
+        it('should tolerate the text repeated by overlap pieces, but not more', () => {
+            const plain: Page[] = [
+                { content: 'One sentence here. Two sentence here. Three sentence here.', id: 1 },
+                { content: 'Four sentence here. Five sentence here. Six sentence here.', id: 2 },
+            ];
+            const options: SegmentationOptions = {
+                breakpoints: ['\\.\\s*'],
+                maxContentLength: 50,
+                overlap: { sentences: 1 },
+            };
+            const segments = segmentPages(plain, options);
+            expect(validateSegments(plain, options, segments, { coverage: true }).issues).toEqual([]);
+
+            const widened = segments.map((s, i) =>
+                i === 1 ? { ...s, meta: { ...s.meta, overlap: { ...(s.meta?.overlap as object), end: 4 } } } : s,
+            );
+            expect(
+                validateSegments(plain, options, widened, { coverage: true }).issues.map((i) => [
+                    i.type,
+                    i.coverage?.preview,
+                ]),
+            ).toEqual([['coverage_overlap', 'sentence here.']]);
+        });
+    });
+
+    describe('Numbering (numbering_gap, numbering_duplicate, numbering_backwards, numbering_merged_items)', () => {
+        const pages: Page[] = [
+            { content: '١ - حدثنا زيد\n٢ - حدثنا عمرو\n3- حدثنا بكر', id: 1 },
+            { content: '۴ - حدثنا خالد\n٦ - حدثنا سعيد\n٦ - مكرر\n٥ - رجوع', id: 2 },
+        ];
+        const options: SegmentationOptions = { rules: [{ lineStartsAfter: ['{{raqms:num}} {{dash}} '] }] };
+        const segments = segmentPages(pages, options);
+
+        it('should not check numbering unless a meta key is given', () => {
+            expect(validateSegments(pages, options, segments).ok).toBeTrue();
+        });
+
+        it('should report gaps, duplicates and backwards jumps with page context', () => {
+            const numbered: Segment[] = [
+                { content: 'حدثنا زيد', from: 1, meta: { num: '١' } },
+                { content: 'حدثنا عمرو', from: 1, meta: { num: '٢' } },
+                { content: 'حدثنا بكر', from: 1, meta: { num: '3' } },
+                { content: 'حدثنا خالد', from: 2, meta: { num: '۴' } },
+                { content: 'حدثنا سعيد', from: 2, meta: { num: '٦' } },
+                { content: 'مكرر', from: 2, meta: { num: '٦' } },
+                { content: 'رجوع', from: 2, meta: { num: '٥' } },
+            ];
+            const report = validateSegments(pages, options, numbered, { numbering: { metaKey: 'num' } });
+
+            expect(
+                report.issues.map(({ numbering, segmentIndex, severity, type }) => ({
+                    numbering,
+                    segmentIndex,
+                    severity,
+                    type,
+                })),
+            ).toEqual([
+                {
+                    numbering: { missing: { from: 5, to: 5 }, previous: 4, value: 6 },
+                    segmentIndex: 4,
+                    severity: 'warn',
+                    type: 'numbering_gap',
+                },
+                {
+                    numbering: { previous: 6, value: 6 },
+                    segmentIndex: 5,
+                    severity: 'warn',
+                    type: 'numbering_duplicate',
+                },
+                {
+                    numbering: { previous: 6, value: 5 },
+                    segmentIndex: 6,
+                    severity: 'warn',
+                    type: 'numbering_backwards',
+                },
+            ]);
+            expect(report.issues[0].pageContext?.pageId).toBe(2);
+            expect(report.issues[0].evidence).toBe('Number 6 follows 4; missing 5.');
+        });
+
+        it('should suggest that a segment holds two merged items', () => {
+            // The second marker lacks the space before the dash, so the rule misses it
+            const mergedPages: Page[] = [{ content: '١ - حدثنا زيد\n٢- حدثنا عمرو\n٣ - حدثنا بكر', id: 1 }];
+            const merged = segmentPages(mergedPages, options);
+            const report = validateSegments(mergedPages, options, merged, { numbering: { metaKey: 'num' } });
+
+            expect(report.issues.map((i) => [i.type, i.segmentIndex])).toEqual([
+                ['numbering_gap', 1],
+                ['numbering_merged_items', 0],
+            ]);
+        });
+    });
 });
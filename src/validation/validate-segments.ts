@@ -1,8 +1,14 @@
+import { resolveRunningHeaders } from '@/preprocessing/running-headers.js';
 import { applyPreprocessToPage } from '@/preprocessing/transforms.js';
+import { separateFootnotes } from '@/segmentation/footnotes.js';
+import { findOverrideAnchor } from '@/segmentation/split-overrides.js';
 import type { Page, Segment } from '@/types';
-import type { SegmentationOptions } from '@/types/options.js';
+import type { SegmentationOptions, SplitOverride } from '@/types/options.js';
+import type { PageMap } from '@/types/segmenter.js';
 import type { SegmentValidationIssue, SegmentValidationReport } from '@/types/validation.js';
 import { normalizeLineEndings } from '@/utils/textUtils.js';
+import { type CoverageFinding, checkCoverage } from './coverage.js';
+import { checkNumbering, type NumberingCheckOptions, type NumberingFinding } from './numbering.js';
 import { FULL_SEARCH_THRESHOLD, PREVIEW_LIMIT } from './validation-constants.js';
 
 type JoinedBoundary = {
@@ -36,10 +42,10 @@ const buildSegmentSnapshot = (segment: Segment) => ({
  * Normalizes page content by applying preprocessing transforms and standardizing line endings.
  */
 const normalizePages = (pages: Page[], options: SegmentationOptions): Page[] => {
-    const transforms = options.preprocess ?? [];
+    const transforms = resolveRunningHeaders(pages, options.preprocess, options.tokens) ?? [];
     return pages.map((page) => {
         const preprocessed = transforms.length
-            ? applyPreprocessToPage(page.content, page.id, transforms)
+            ? applyPreprocessToPage(page.content, page.id, transforms, options.tokens)
             : page.content;
         return {
             content: normalizeLineEndings(preprocessed),
@@ -67,6 +73,13 @@ const buildJoinedContent = (pages: Page[], joiner: string) => {
     return { boundaries, joined };
 };
 
+type JoinedText = ReturnType<typeof buildJoinedContent> & { boundaryMap: Map<number, JoinedBoundary> };
+
+const buildJoinedText = (pages: Page[], joiner: string): JoinedText => {
+    const { boundaries, joined } = buildJoinedContent(pages, joiner);
+    return { boundaries, boundaryMap: new Map(boundaries.map((b) => [b.id, b])), joined };
+};
+
 /**
  * Binary search to find which page ID corresponds to a character offset in the joined content.
  * Returns undefined if the offset falls within a joiner gap or outside bounds.
@@ -101,8 +114,121 @@ export type ValidationOptions = {
      * @default 500
      */
     fullSearchThreshold?: number;
+
+    /**
+     * Also check that the segments cover the text exactly once, in order
+     * (`coverage_gap`, `coverage_overlap` and `segment_out_of_order` issues).
+     * Off by default because validating a subset of segments would report gaps.
+     * Text repeated by the `overlap` option is not reported as an overlap.
+     * @default false
+     */
+    coverage?: boolean;
+
+    /**
+     * Check the sequence numbers captured under `numbering.metaKey` for gaps, duplicates and
+     * backwards jumps (`numbering_*` issues, reported as warnings).
+     */
+    numbering?: NumberingCheckOptions;
+};
+
+const textEncoder = new TextEncoder();
+
+const COVERAGE_MESSAGES: Record<CoverageFinding['type'], { evidence: string; hint: string }> = {
+    coverage_gap: {
+        evidence: 'text is not covered by any segment',
+        hint: 'Text before the first split or between segments was dropped. Check rules, breakpoints and preprocess.',
+    },
+    coverage_overlap: {
+        evidence: 'text is covered by more than one segment',
+        hint: 'Check breakpoint windowing and manual edits to segment content.',
+    },
+    segment_out_of_order: {
+        evidence: 'segment starts before the previous segment',
+        hint: 'Segments must be in document order; check sorting or merging of segment lists.',
+    },
+};
+
+const formatRange = ({ from, to }: { from: number; to: number }) => (from === to ? `${from}` : `${from}-${to}`);
+
+const NUMBERING_MESSAGES: Record<
+    NumberingFinding['type'],
+    (f: NumberingFinding) => { evidence: string; hint: string }
+> = {
+    numbering_backwards: (f) => ({
+        evidence: `Number ${f.value} follows ${f.previous}.`,
+        hint: 'A spurious split or a restarted sequence (e.g. a new volume); check the rule matching here.',
+    }),
+    numbering_duplicate: (f) => ({
+        evidence: `Number ${f.value} appears twice in a row.`,
+        hint: 'Probably a spurious split, e.g. a cross-reference matched as a heading.',
+    }),
+    numbering_gap: (f) => ({
+        evidence: `Number ${f.value} follows ${f.previous}; missing ${formatRange(f.missing!)}.`,
+        hint: 'Probably a missed split; check the markers of the missing items.',
+    }),
+    numbering_merged_items: (f) => ({
+        evidence: `Segment numbered ${f.value} has a line starting with ${f.missing!.from}.`,
+        hint: 'This segment probably contains two merged items; the rule did not match the second marker.',
+    }),
 };
 
+/**
+ * Converts numbering findings into validation issues.
+ */
+const toNumberingIssues = (
+    findings: NumberingFinding[],
+    segments: Segment[],
+    pageMap: Map<number, Page>,
+): SegmentValidationIssue[] =>
+    findings.map((finding) => {
+        const { missing, previous, segmentIndex, type, value } = finding;
+        const segment = segments[segmentIndex];
+        const page = pageMap.get(segment.from);
+
+        return {
+            ...NUMBERING_MESSAGES[type](finding),
+            numbering: { ...(missing ? { missing } : {}), previous, value },
+            pageContext: page ? { pageId: page.id, pagePreview: buildPreview(page.content) } : undefined,
+            segment: buildSegmentSnapshot(segment),
+            segmentIndex,
+            severity: 'warn',
+            type,
+        };
+    });
+
+/**
+ * Converts coverage findings (offsets into the joined body text) into validation issues.
+ */
+const toCoverageIssues = (
+    findings: CoverageFinding[],
+    segments: Segment[],
+    joined: string,
+    pageMap: PageMap,
+): SegmentValidationIssue[] =>
+    findings.map(({ end, segmentIndex, start, type }) => {
+        const text = joined.slice(start, end);
+        const pageId = pageMap.getId(start);
+        const offset = start - pageMap.boundaries.find((b) => b.id === pageId)!.start;
+        const { evidence, hint } = COVERAGE_MESSAGES[type];
+        const segment = segments[segmentIndex];
+
+        return {
+            coverage: {
+                bytes: textEncoder.encode(text).length,
+                length: text.length,
+                offset,
+                pageId,
+                preview: buildPreview(text),
+            },
+            evidence: `${text.length} characters on page ${pageId} (offset ${offset}): ${evidence}.`,
+            hint,
+            segment: buildSegmentSnapshot(segment),
+            segmentIndex,
+            severity: 'error',
+            type,
+        };
+    });
+
 type IssueOverrides = Partial<Omit<SegmentValidationIssue, 'type' | 'segment' | 'segmentIndex' | 'severity'>> & {
     matchIndex?: number;
 };
@@ -181,6 +307,35 @@ const createIssue = (
     }
 };
 
+/**
+ * Reports overrides whose page is missing or whose text fingerprint no longer anchors.
+ * Such overrides are silently ignored by segmentation.
+ */
+const getStaleOverrideIssues = (overrides: SplitOverride[], pageMap: Map<number, Page>) => {
+    const issues: SegmentValidationIssue[] = [];
+    overrides.forEach((override, overrideIndex) => {
+        const page = pageMap.get(override.page);
+        if (page && findOverrideAnchor(page.content, override) !== -1) {
+            return;
+        }
+
+        const occurrence = override.occurrence ?? 1;
+        issues.push({
+            evidence: page
+                ? `Override text not found on page ${override.page}${occurrence > 1 ? ` (occurrence ${occurrence})` : ''}.`
+                : `Override page ${override.page} does not exist in input pages.`,
+            hint: 'Update or remove the override; the page text or preprocessing may have changed.',
+            overrideIndex,
+            pageContext: page ? { pageId: page.id, pagePreview: buildPreview(page.content) } : undefined,
+            segment: { contentPreview: buildPreview(override.text), from: override.page },
+            segmentIndex: -1,
+            severity: 'warn',
+            type: 'stale_override',
+        });
+    });
+    return issues;
+};
+
 /**
  * Finds all occurrences of a content string within the joined text.
  * Respects search limits to avoid performance cliffs on highly repetitive content.
@@ -508,6 +663,40 @@ const getAttributionIssues = (
     );
 };
 
+const isContentNotFound = (issue: SegmentValidationIssue) => issue.type === 'content_not_found';
+
+/**
+ * Validates attribution against the body text. Segments missing from it are looked up in
+ * the full page text (`full`, given when footnotes are separated), where footnote segments live.
+ */
+const getSegmentAttributionIssues = (
+    segment: Segment,
+    segmentIndex: number,
+    maxPages: number | undefined,
+    body: JoinedText,
+    full: JoinedText | null,
+    pageMap: Map<number, Page>,
+    validationOptions?: ValidationOptions,
+) => {
+    const attribute = ({ boundaries, boundaryMap, joined }: JoinedText) =>
+        getAttributionIssues(
+            segment,
+            segmentIndex,
+            maxPages,
+            joined,
+            boundaries,
+            boundaryMap,
+            pageMap,
+            validationOptions,
+        );
+    const issues = attribute(body);
+    if (!full || !issues.some(isContentNotFound)) {
+        return issues;
+    }
+    const inFull = attribute(full);
+    return inFull.some(isContentNotFound) ? issues : inFull;
+};
+
 /**
  * Performs purely static checks on the segment metadata (Ids and spans) before expensive content searching.
  */
@@ -538,13 +727,30 @@ const checkStaticMaxPages = (segment: Segment, index: number, maxPages: number |
     return null;
 };
 
+/**
+ * Segments that keep their original text are checked against the original pages, with line
+ * endings normalized on both sides.
+ */
+const toOriginalText = (pages: Page[], options: SegmentationOptions, segments: Segment[]) => ({
+    checkedPages: normalizePages(pages, { ...options, preprocess: undefined }),
+    checkedSegments: segments.map((segment) => ({ ...segment, content: normalizeLineEndings(segment.content) })),
+});
+
 /**
  * Validates a list of segments against the source pages.
  * checks for:
  * - Page existence (invalid IDs)
- * - Content fidelity (content must exist in pages)
+ * - Content fidelity (content must exist in pages; with `footnotes`, body segments are looked
+ *   up in the body text without the footnote regions; with `preserveOriginalContent`, in the
+ *   original pages)
  * - Page attribution (from/to must match content location)
  * - Page constraints (maxPages violations)
+ * - Stale `overrides` (fingerprint no longer found on its page)
+ * - Text coverage (with `validationOptions.coverage`): gaps no segment covers, overlaps and
+ *   out-of-order segments. Whitespace and markers stripped by `lineStartsAfter` (or dictionary
+ *   headwords) are not counted as gaps.
+ * - Numbering continuity (with `validationOptions.numbering`): gaps, duplicates and backwards
+ *   jumps in captured sequence numbers, and segments that probably hold two merged items.
  *
  * @param pages Input pages used for segmentation
  * @param options Operations used during segmentation (for preprocessing/joining consistency)
@@ -559,15 +765,17 @@ export const validateSegments = (
     validationOptions?: ValidationOptions,
 ): SegmentValidationReport => {
     const normalizedPages = normalizePages(pages, options);
+    const { checkedPages, checkedSegments } = options.preserveOriginalContent
+        ? toOriginalText(pages, options, segments)
+        : { checkedPages: normalizedPages, checkedSegments: segments };
     const joiner = options.pageJoiner === 'newline' ? '\n' : ' ';
-    const { boundaries, joined } = buildJoinedContent(normalizedPages, joiner);
+    // Body segments are matched like the segmenter matched them, without the footnote regions
+    const { footnotes, pages: bodyPages } = separateFootnotes(checkedPages, options);
+    const body = buildJoinedText(bodyPages, joiner);
+    const full = footnotes ? buildJoinedText(checkedPages, joiner) : null;
 
-    const boundaryMap = new Map<number, JoinedBoundary>();
     const pageMap = new Map<number, Page>();
 
-    for (const b of boundaries) {
-        boundaryMap.set(b.id, b);
-    }
     for (const p of normalizedPages) {
         pageMap.set(p.id, p);
     }
@@ -577,8 +785,8 @@ export const validateSegments = (
 
     const issues: SegmentValidationIssue[] = [];
 
-    for (let i = 0; i < segments.length; i++) {
-        const segment = segments[i];
+    for (let i = 0; i < checkedSegments.length; i++) {
+        const segment = checkedSegments[i];
 
         if (!pageIds.has(segment.from)) {
             issues.push(createIssue('page_not_found', segment, i));
@@ -599,18 +807,17 @@ export const validateSegments = (
         }
 
         // Attribution check
-        const attributionIssues = getAttributionIssues(
-            segment,
-            i,
-            maxPages,
-            joined,
-            boundaries,
-            boundaryMap,
-            pageMap,
-            validationOptions,
-        );
-        issues.push(...attributionIssues);
+        issues.push(...getSegmentAttributionIssues(segment, i, maxPages, body, full, pageMap, validationOptions));
+    }
+
+    if (validationOptions?.coverage) {
+        const coverage = checkCoverage(checkedPages, options, checkedSegments, joiner);
+        issues.push(...toCoverageIssues(coverage.findings, checkedSegments, coverage.joined, coverage.pageMap));
+    }
+    if (validationOptions?.numbering) {
+        issues.push(...toNumberingIssues(checkNumbering(segments, validationOptions.numbering), segments, pageMap));
     }
+    issues.push(...getStaleOverrideIssues(options.overrides ?? [], pageMap));
 
     const errors = issues.filter((issue) => issue.severity === 'error').length;
     const warnings = issues.filter((issue) => issue.severity === 'warn').length;
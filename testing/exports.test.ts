@@ -4,16 +4,22 @@ import type {
     // Core Types
     ArabicDictionaryEntryRuleOptions,
     ArabicDictionaryProfile,
+    BoundaryDiscrepancy,
     Breakpoint,
+    BreakpointExplanation,
     BreakpointRule,
     BreakpointSuggestion,
+    CandidateDropReason,
+    CaptureTransform,
     // Analysis
     CommonLineStartPattern,
     // Options
     CondenseEllipsisRule,
+    CustomTokens,
     // Detection
     DetectedPattern,
     DictionaryBlocker,
+    DictionaryCandidateExplanation,
     DictionaryDiagnosticReason,
     DictionaryDiagnosticSample,
     DictionaryEntryPatternOptions,
@@ -33,12 +39,22 @@ import type {
     DictionarySurfaceMatch,
     DictionarySurfaceReport,
     DictionaryZone,
+    DigitScript,
+    EvaluateSegmentationOptions,
     // Segmenter
     ExpandResult,
+    ExplainedCandidate,
+    ExplainPositionOptions,
     FixTrailingWawRule,
+    FootnoteOptions,
+    HeadingContext,
+    HeadingTitle,
     LineStartAnalysisOptions,
     LineStartPatternExample,
     Logger,
+    NormalizeArabicLettersRule,
+    NormalizeDigitsRule,
+    NumberingCheckOptions,
     // Optimization
     OptimizeResult,
     Page,
@@ -49,33 +65,58 @@ import type {
     PatternProcessor,
     // Rules
     PatternTypeKey,
+    PieceOverlap,
+    PositionExplanation,
+    PositionTarget,
     PreprocessDetections,
     PreprocessSuggestion,
     PreprocessTransform,
+    PreprocessValidationResult,
+    ProtectedSpan,
     RemoveZeroWidthRule,
     RepeatingSequenceExample,
     RepeatingSequenceOptions,
     RepeatingSequencePattern,
+    ReplaceRule,
+    // Rule Validation (pattern-validator.ts)
+    RuleExplanation,
     RuleSuggestionConfidence,
     RuleSuggestionSource,
-    // Rule Validation (pattern-validator.ts)
     RuleValidationResult,
+    RuleZone,
+    RunningHeaderOptions,
+    RunningHeaderPattern,
+    RunningHeaderPosition,
     // Segment Validation (types/index.ts)
     Segment,
     SegmentationAdvisorMode,
     SegmentationAdvisorOptions,
     SegmentationEvaluation,
+    SegmentationEvaluationReport,
     SegmentationOptions,
     SegmentationSuggestionReport,
+    SegmentCoverageSpan,
+    SegmentExplanation,
+    Segmenter,
+    SegmenterConfigIssue,
+    SegmenterConfigIssueCode,
+    SegmentFootnote,
+    SegmentSourceSpan,
+    SegmentTree,
+    SegmentTreeNode,
     SegmentValidationIssue,
     SegmentValidationIssueSeverity,
     SegmentValidationIssueType,
     SegmentValidationReport,
+    SplitOverride,
     SplitRule,
+    StreamSegmentationOptions,
+    StripRunningHeadersRule,
     SuggestedRule,
     TokenKey,
     TokenMapping,
     TokenPatternName,
+    ValidateRulesOptions,
     ValidationIssue,
     ValidationIssueType,
     ValidationOptions,
@@ -89,6 +130,7 @@ describe('Build Exports Validation', () => {
         // Analysis
         expect(flappa.analyzeCommonLineStarts).toBeFunction();
         expect(flappa.analyzeRepeatingSequences).toBeFunction();
+        expect(flappa.analyzeRunningHeaders).toBeFunction();
         expect(flappa.suggestSegmentationOptions).toBeFunction();
 
         // Detection
@@ -104,7 +146,11 @@ describe('Build Exports Validation', () => {
         expect(flappa.applyPreprocessToPage).toBeFunction();
         expect(flappa.condenseEllipsis).toBeFunction();
         expect(flappa.fixTrailingWaw).toBeFunction();
+        expect(flappa.normalizeDigits).toBeFunction();
+        expect(flappa.normalizeArabicLetters).toBeFunction();
+        expect(flappa.DEFAULT_ARABIC_LETTER_VARIANTS).toBeObject();
         expect(flappa.removeZeroWidth).toBeFunction();
+        expect(flappa.stripRunningHeaders).toBeFunction();
 
         // Breakpoint Utils
         expect(flappa.escapeWordsOutsideTokens).toBeFunction();
@@ -119,9 +165,15 @@ describe('Build Exports Validation', () => {
         // Pattern Validator
         expect(flappa.formatValidationReport).toBeFunction();
         expect(flappa.validateRules).toBeFunction();
+        expect(flappa.validatePreprocess).toBeFunction();
 
         // Segmenter
         expect(flappa.segmentPages).toBeFunction();
+        expect(flappa.segmentPagesStream).toBeFunction();
+        expect(flappa.createSegmenter).toBeFunction();
+        expect(flappa.SegmenterConfigError).toBeFunction();
+        expect(flappa.explainPosition).toBeFunction();
+        expect(flappa.buildSegmentTree).toBeFunction();
 
         // Tokens
         expect(flappa.applyTokenMappings).toBeFunction();
@@ -131,6 +183,7 @@ describe('Build Exports Validation', () => {
         expect(flappa.expandTokensWithCaptures).toBeFunction();
         expect(flappa.getAvailableTokens).toBeFunction();
         expect(flappa.getTokenPattern).toBeFunction();
+        expect(flappa.resolveTokenPatterns).toBeFunction();
         expect(flappa.shouldDefaultToFuzzy).toBeFunction();
         expect(flappa.stripTokenMappings).toBeFunction();
         expect(flappa.TOKEN_PATTERNS).toBeObject();
@@ -143,13 +196,16 @@ describe('Build Exports Validation', () => {
         expect(flappa.PATTERN_TYPE_KEYS).toContain('dictionaryEntry');
 
         // Utils
+        expect(flappa.countArabicWords).toBeFunction();
         expect(flappa.escapeRegex).toBeFunction();
         expect(flappa.escapeTemplateBrackets).toBeFunction();
         expect(flappa.getDebugReason).toBeFunction();
         expect(flappa.getSegmentDebugReason).toBeFunction();
         expect(flappa.makeDiacriticInsensitive).toBeFunction();
+        expect(flappa.stripArabicDiacritics).toBeFunction();
 
         // Validation
+        expect(flappa.evaluateSegmentation).toBeFunction();
         expect(flappa.validateSegments).toBeFunction();
     });
 
@@ -170,6 +226,9 @@ describe('Build Exports Validation', () => {
         const _rsPattern: RepeatingSequencePattern = typedEmpty();
         const _ruleSuggestionConfidence: RuleSuggestionConfidence = typedEmpty();
         const _ruleSuggestionSource: RuleSuggestionSource = typedEmpty();
+        const _rhOptions: RunningHeaderOptions = typedEmpty();
+        const _rhPattern: RunningHeaderPattern = typedEmpty();
+        const _rhPosition: RunningHeaderPosition = typedEmpty();
 
         // Detection
         const _detected: DetectedPattern = typedEmpty();
@@ -199,23 +258,47 @@ describe('Build Exports Validation', () => {
         // Segmentation & Rule Validation
         const _patProc: PatternProcessor = typedEmpty();
         const _ruleValRes: RuleValidationResult = typedEmpty();
+        const _ppValRes: PreprocessValidationResult = typedEmpty();
         const _valIssue: ValidationIssue = typedEmpty();
         const _valType: ValidationIssueType = typedEmpty();
+        const _valRulesOpts: ValidateRulesOptions = typedEmpty();
 
         const _segValIssue: SegmentValidationIssue = typedEmpty();
         const _segValSev: SegmentValidationIssueSeverity = typedEmpty();
         const _segValType: SegmentValidationIssueType = typedEmpty();
         const _segValRep: SegmentValidationReport = typedEmpty();
+        const _segSourceSpan: SegmentSourceSpan = typedEmpty();
+        const _segCoverageSpan: SegmentCoverageSpan = typedEmpty();
+        const _segFootnote: SegmentFootnote = typedEmpty();
         const _valOpts: ValidationOptions = typedEmpty();
+        const _numberingOpts: NumberingCheckOptions = typedEmpty();
+        const _boundaryDiscrepancy: BoundaryDiscrepancy = typedEmpty();
+        const _evalOpts: EvaluateSegmentationOptions = typedEmpty();
+        const _evalReport: SegmentationEvaluationReport = typedEmpty();
+        const _segmenter: Segmenter = typedEmpty();
+        const _ruleZone: RuleZone = typedEmpty();
+        const _segmenterIssue: SegmenterConfigIssue = typedEmpty();
+        const _segmenterIssueCode: SegmenterConfigIssueCode = typedEmpty();
+        const _segExplanation: SegmentExplanation = typedEmpty();
+        const _bpExplanation: BreakpointExplanation = typedEmpty();
+        const _dropReason: CandidateDropReason = typedEmpty();
+        const _dictCandidateExplanation: DictionaryCandidateExplanation = typedEmpty();
+        const _explainedCandidate: ExplainedCandidate = typedEmpty();
+        const _explainPositionOpts: ExplainPositionOptions = typedEmpty();
+        const _positionExplanation: PositionExplanation = typedEmpty();
+        const _positionTarget: PositionTarget = typedEmpty();
+        const _ruleExplanation: RuleExplanation = typedEmpty();
 
         const _expRes: ExpandResult = typedEmpty();
         const _tokKey: TokenKey = typedEmpty();
         const _tokMap: TokenMapping = typedEmpty();
         const _tokPatternName: TokenPatternName = typedEmpty();
+        const _customTokens: CustomTokens = typedEmpty();
 
         // Core
         const _bp: Breakpoint = typedEmpty();
         const _bpRule: BreakpointRule = typedEmpty();
+        const _captureTransform: CaptureTransform = typedEmpty();
         const _page: Page = typedEmpty();
         const _pageRange: PageRange = typedEmpty();
         const _prConstraint: PageRangeConstraint = typedEmpty();
@@ -226,15 +309,29 @@ describe('Build Exports Validation', () => {
         const _segmentationEvaluation: SegmentationEvaluation = typedEmpty();
         const _segmentationSuggestionReport: SegmentationSuggestionReport = typedEmpty();
         const _suggestedRule: SuggestedRule = typedEmpty();
+        const _segTree: SegmentTree = typedEmpty();
+        const _segTreeNode: SegmentTreeNode = typedEmpty();
 
         // Options
         const _ceRule: CondenseEllipsisRule = typedEmpty();
         const _dictionaryEntryPatternOptions: DictionaryEntryPatternOptions = typedEmpty();
         const _ftwRule: FixTrailingWawRule = typedEmpty();
+        const _footnoteOptions: FootnoteOptions = typedEmpty();
+        const _headingContext: HeadingContext = typedEmpty();
+        const _headingTitle: HeadingTitle = typedEmpty();
         const _logger: Logger = typedEmpty();
+        const _pieceOverlap: PieceOverlap = typedEmpty();
         const _ppTransform: PreprocessTransform = typedEmpty();
+        const _protectedSpan: ProtectedSpan = typedEmpty();
         const _rzwRule: RemoveZeroWidthRule = typedEmpty();
+        const _ndRule: NormalizeDigitsRule = typedEmpty();
+        const _nalRule: NormalizeArabicLettersRule = typedEmpty();
+        const _digitScript: DigitScript = typedEmpty();
+        const _replaceRule: ReplaceRule = typedEmpty();
+        const _srhRule: StripRunningHeadersRule = typedEmpty();
         const _segOptions: SegmentationOptions = typedEmpty();
+        const _splitOverride: SplitOverride = typedEmpty();
+        const _streamOptions: StreamSegmentationOptions = typedEmpty();
 
         // Rules
         const _ptKey: PatternTypeKey = typedEmpty();
@@ -255,6 +352,9 @@ describe('Build Exports Validation', () => {
             _rsPattern,
             _ruleSuggestionConfidence,
             _ruleSuggestionSource,
+            _rhOptions,
+            _rhPattern,
+            _rhPosition,
             _detected,
             _dictionaryBlocker,
             _dictionaryDiagnosticReason,
@@ -278,19 +378,43 @@ describe('Build Exports Validation', () => {
             _optimizeRes,
             _patProc,
             _ruleValRes,
+            _ppValRes,
             _valIssue,
             _valType,
+            _valRulesOpts,
             _segValIssue,
             _segValSev,
             _segValType,
             _segValRep,
+            _segSourceSpan,
+            _segCoverageSpan,
+            _segFootnote,
             _valOpts,
+            _numberingOpts,
+            _boundaryDiscrepancy,
+            _evalOpts,
+            _evalReport,
+            _segmenter,
+            _ruleZone,
+            _segmenterIssue,
+            _segmenterIssueCode,
+            _segExplanation,
+            _bpExplanation,
+            _dropReason,
+            _dictCandidateExplanation,
+            _explainedCandidate,
+            _explainPositionOpts,
+            _positionExplanation,
+            _positionTarget,
+            _ruleExplanation,
             _expRes,
             _tokKey,
             _tokMap,
             _tokPatternName,
+            _customTokens,
             _bp,
             _bpRule,
+            _captureTransform,
             _page,
             _pageRange,
             _prConstraint,
@@ -303,13 +427,27 @@ describe('Build Exports Validation', () => {
             _ceRule,
             _dictionaryEntryPatternOptions,
             _ftwRule,
+            _footnoteOptions,
+            _headingContext,
+            _headingTitle,
             _logger,
+            _pieceOverlap,
             _ppTransform,
+            _protectedSpan,
             _rzwRule,
+            _ndRule,
+            _nalRule,
+            _digitScript,
+            _replaceRule,
+            _srhRule,
             _segOptions,
+            _splitOverride,
+            _streamOptions,
             _ptKey,
             _splitRule,
             _suggestedRule,
+            _segTree,
+            _segTreeNode,
         ]).toBeDefined();
     });
 });